@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Project from '@/models/Project';
+import { calculateBarBendingSchedule } from '@/lib/logic/calculateBarSchedule';
+
+// GET /api/projects/:id/bar-schedule - Generate bar bending schedule from element rebar configs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const { barSchedule, errors } = await calculateBarBendingSchedule(project);
+
+    return NextResponse.json({
+      barSchedule,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('GET /api/projects/:id/bar-schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate bar bending schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,8 @@ import dbConnect from '@/lib/mongodb';
 import Project from '@/models/Project';
 import CalcRun from '@/models/CalcRun';
 import dpwhCatalogData from '@/data/dpwh-catalog.json';
-import type { TakeoffLine, BOQLine, DPWHCatalogItem } from '@/types';
+import { applyPriceBook, applyDUPAs, summarizeBOQCost, computeMarkups, DEFAULT_MARKUP_SCHEDULE } from '@/lib/math/cost';
+import type { TakeoffLine, BOQLine, DPWHCatalogItem, PriceBookEntry, DUPA } from '@/types';
 
 const dpwhCatalog = dpwhCatalogData.items as DPWHCatalogItem[];
 
@@ -34,8 +35,9 @@ export async function POST(
     }
 
     // Process concrete, rebar, formwork, finishes, roofing, and schedule items
+    // Concrete paid under another item (e.g., bored pile shafts under Item 1052) is not billed as concrete
     const concreteTakeoffLines = takeoffLines.filter(
-      line => line.trade === 'Concrete'
+      line => line.trade === 'Concrete' && !line.tags.some(tag => tag.startsWith('paidUnder:'))
     );
     const rebarTakeoffLines = takeoffLines.filter(
       line => line.trade === 'Rebar'
@@ -111,6 +113,17 @@ export async function POST(
     const groupedByItem: Record<string, TakeoffLine[]> = {};
     
     for (const line of concreteTakeoffLines) {
+      // An explicit DPWH tag on the line (e.g., pile caps) wins over the template item
+      const lineDpwhTag = line.tags.find(tag => tag.startsWith('dpwh:'));
+      if (lineDpwhTag) {
+        const lineItemNumber = lineDpwhTag.replace('dpwh:', '');
+        if (!groupedByItem[lineItemNumber]) {
+          groupedByItem[lineItemNumber] = [];
+        }
+        groupedByItem[lineItemNumber].push(line);
+        continue;
+      }
+
       const templateTag = line.tags.find(tag => tag.startsWith('template:'));
       const templateId = project.elementTemplates?.find(t => 
         t.name === templateTag?.replace('template:', '')
@@ -516,11 +529,34 @@ export async function POST(
       },
     };
 
+    // Price from DUPA where available, otherwise from the project price book,
+    // then roll up costs per DPWH Part
+    const priceBook = (project.priceBook || []) as PriceBookEntry[];
+    const dupas = (project.dupas || []) as DUPA[];
+    const pricedBoqLines = applyDUPAs(applyPriceBook(boqLines, priceBook), dupas);
+    const directCostSummary = summarizeBOQCost(
+      pricedBoqLines,
+      itemNumber => dpwhCatalog.find(item => item.itemNumber === itemNumber)?.category
+    );
+
+    // Indirect costs (OCM, profit, contingency, VAT) on the total direct cost
+    const markupSchedule = project.settings?.markups?.ocmBrackets?.length
+      ? project.settings.markups
+      : DEFAULT_MARKUP_SCHEDULE;
+    const costSummary = directCostSummary.pricedLineCount > 0
+      ? { ...directCostSummary, markups: computeMarkups(directCostSummary.grandTotal, markupSchedule) }
+      : directCostSummary;
+
+    if ((priceBook.length > 0 || dupas.length > 0) && costSummary.unpricedItems.length > 0) {
+      warnings.push(`No price book entry or DUPA for: ${costSummary.unpricedItems.join(', ')}`);
+    }
+
     // Update CalcRun with BOQ data if runId provided
     if (runId) {
       const calcRun = await CalcRun.findOne({ runId, projectId: id });
       if (calcRun) {
-        calcRun.boqLines = boqLines;
+        calcRun.boqLines = pricedBoqLines;
+        calcRun.costSummary = costSummary;
         if (calcRun.summary) {
           calcRun.summary.boqLineCount = boqLines.length;
         }
@@ -529,8 +565,9 @@ export async function POST(
     }
 
     return NextResponse.json({
-      boqLines,
+      boqLines: pricedBoqLines,
       summary,
+      costSummary,
       warnings: warnings.length > 0 ? warnings : undefined,
       errors: errors.length > 0 ? errors : undefined,
     });
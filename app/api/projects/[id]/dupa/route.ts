@@ -0,0 +1,170 @@
+/**
+ * API Route: /api/projects/[id]/dupa
+ * CRUD operations for Detailed Unit Price Analysis (one DUPA per DPWH pay item)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Project from '@/models/Project';
+import { v4 as uuidv4 } from 'uuid';
+import type { DUPA, DUPALaborEntry, DUPAEquipmentEntry, DUPAMaterialEntry } from '@/types';
+import { computeDUPA, DEFAULT_DUPA_MARKUPS } from '@/lib/math/cost';
+import catalog from '@/data/dpwh-catalog.json';
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function validateDUPA(body: Partial<DUPA>): string | null {
+  if (!isNonNegative(body.outputPerDay)) {
+    return 'outputPerDay must be a non-negative number';
+  }
+
+  const labor = body.labor || [];
+  const equipment = body.equipment || [];
+  const materials = body.materials || [];
+
+  if (labor.some(l => !l.designation || !isNonNegative(l.noOfPersons) || !isNonNegative(l.noOfHours) || !isNonNegative(l.hourlyRate))) {
+    return 'Each labor entry needs a designation, persons, hours and hourly rate';
+  }
+  if (equipment.some(e => !e.description || !isNonNegative(e.noOfUnits) || !isNonNegative(e.noOfHours) || !isNonNegative(e.hourlyRate))) {
+    return 'Each equipment entry needs a description, units, hours and hourly rate';
+  }
+  if (materials.some(m => !m.description || !m.unit || !isNonNegative(m.quantity) || !isNonNegative(m.unitCost))) {
+    return 'Each material entry needs a description, unit, quantity and unit cost';
+  }
+  if ((labor.length > 0 || equipment.length > 0) && !(body.outputPerDay! > 0)) {
+    return 'outputPerDay must be greater than zero when labor or equipment is costed';
+  }
+
+  for (const key of ['ocmPercent', 'profitPercent', 'vatPercent'] as const) {
+    if (body[key] !== undefined && !isNonNegative(body[key])) {
+      return `${key} must be a non-negative number`;
+    }
+  }
+
+  return null;
+}
+
+// GET /api/projects/[id]/dupa - List all DUPAs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ dupas: project.dupas || [] });
+  } catch (error) {
+    console.error('Error fetching DUPAs:', error);
+    return NextResponse.json({ error: 'Failed to fetch DUPAs' }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/dupa - Create or replace the DUPA for a pay item
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate DPWH item exists in catalog
+    const catalogItem = catalog.items.find((item: { itemNumber: string }) => item.itemNumber === body.dpwhItemNumberRaw);
+    if (!catalogItem) {
+      return NextResponse.json(
+        { error: `DPWH item "${body.dpwhItemNumberRaw}" not found in catalog` },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateDUPA(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.dupas) {
+      project.dupas = [];
+    }
+
+    const existing = project.dupas.find(d => d.dpwhItemNumberRaw === body.dpwhItemNumberRaw);
+
+    const dupa: DUPA = {
+      id: existing?.id || uuidv4(),
+      dpwhItemNumberRaw: catalogItem.itemNumber,
+      description: catalogItem.description,
+      unit: catalogItem.unit,
+      outputPerDay: body.outputPerDay,
+      labor: (body.labor || []) as DUPALaborEntry[],
+      equipment: (body.equipment || []) as DUPAEquipmentEntry[],
+      materials: (body.materials || []) as DUPAMaterialEntry[],
+      ocmPercent: body.ocmPercent ?? DEFAULT_DUPA_MARKUPS.ocmPercent,
+      profitPercent: body.profitPercent ?? DEFAULT_DUPA_MARKUPS.profitPercent,
+      vatPercent: body.vatPercent ?? DEFAULT_DUPA_MARKUPS.vatPercent,
+      currency: body.currency || 'PHP',
+      notes: body.notes,
+      updatedAt: new Date(),
+    };
+
+    project.dupas = [
+      ...project.dupas.filter(d => d.dpwhItemNumberRaw !== dupa.dpwhItemNumberRaw),
+      dupa,
+    ];
+    await project.save();
+
+    return NextResponse.json(
+      { dupa, breakdown: computeDUPA(dupa) },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error('Error saving DUPA:', error);
+    return NextResponse.json({ error: 'Failed to save DUPA' }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/dupa?dupaId=xxx
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const dupaId = searchParams.get('dupaId');
+
+    if (!dupaId) {
+      return NextResponse.json({ error: 'dupaId required' }, { status: 400 });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.dupas) {
+      return NextResponse.json({ error: 'No DUPAs found' }, { status: 404 });
+    }
+
+    project.dupas = project.dupas.filter(d => d.id !== dupaId);
+    await project.save();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting DUPA:', error);
+    return NextResponse.json({ error: 'Failed to delete DUPA' }, { status: 500 });
+  }
+}
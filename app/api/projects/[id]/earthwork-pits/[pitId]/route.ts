@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { validateEarthworkPit } from '@/lib/math/earthwork';
+import type { EarthworkPit } from '@/types';
+
+/**
+ * PUT /api/projects/[id]/earthwork-pits/[pitId]
+ * Update an excavation pit
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; pitId: string }> }
+) {
+  try {
+    const { id, pitId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const pitIndex = project.earthworkPits?.findIndex(
+      (p: EarthworkPit) => p.id === pitId
+    );
+
+    if (pitIndex === -1 || pitIndex === undefined) {
+      return NextResponse.json({ error: 'Excavation pit not found' }, { status: 404 });
+    }
+
+    const validation = validateEarthworkPit(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid excavation pit', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (project.earthworkPits) {
+      project.earthworkPits[pitIndex] = {
+        id: pitId,
+        description: body.description,
+        dpwhItem: body.dpwhItem,
+        length: body.length,
+        width: body.width,
+        depth: body.depth,
+        count: body.count,
+        sideSlope: body.sideSlope || undefined,
+        location: body.location || undefined,
+      };
+    }
+
+    await project.save();
+
+    return NextResponse.json(project.earthworkPits?.[pitIndex]);
+  } catch (error) {
+    console.error('Error updating excavation pit:', error);
+    return NextResponse.json(
+      { error: 'Failed to update excavation pit' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/earthwork-pits/[pitId]
+ * Delete an excavation pit
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; pitId: string }> }
+) {
+  try {
+    const { id, pitId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const originalLength = project.earthworkPits?.length || 0;
+    project.earthworkPits = project.earthworkPits?.filter(
+      (p: EarthworkPit) => p.id !== pitId
+    );
+
+    if (project.earthworkPits?.length === originalLength) {
+      return NextResponse.json({ error: 'Excavation pit not found' }, { status: 404 });
+    }
+
+    await project.save();
+
+    return NextResponse.json({ success: true, message: 'Excavation pit deleted' });
+  } catch (error) {
+    console.error('Error deleting excavation pit:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete excavation pit' },
+      { status: 500 }
+    );
+  }
+}
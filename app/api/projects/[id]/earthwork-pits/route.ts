@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { calculatePitVolume, validateEarthworkPit, type PrismVolumeOutput } from '@/lib/math/earthwork';
+import type { EarthworkPit } from '@/types';
+
+/**
+ * GET /api/projects/[id]/earthwork-pits
+ * Retrieve dimensioned excavation pits with their volumes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const pits: EarthworkPit[] = project.earthworkPits || [];
+    const volumes: Record<string, PrismVolumeOutput> = {};
+    const errors: string[] = [];
+    for (const pit of pits) {
+      try {
+        volumes[pit.id] = calculatePitVolume(pit);
+      } catch (error) {
+        errors.push(`${pit.description}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return NextResponse.json({ earthworkPits: pits, volumes, errors });
+  } catch (error) {
+    console.error('Error fetching excavation pits:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch excavation pits' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/earthwork-pits
+ * Create an excavation pit (septic tank, manhole and other work outside the footings)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const validation = validateEarthworkPit(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid excavation pit', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const newPit: EarthworkPit = {
+      id: uuidv4(),
+      description: body.description,
+      dpwhItem: body.dpwhItem,
+      length: body.length,
+      width: body.width,
+      depth: body.depth,
+      count: body.count,
+      sideSlope: body.sideSlope || undefined,
+      location: body.location || undefined,
+    };
+
+    if (!project.earthworkPits) {
+      project.earthworkPits = [];
+    }
+    project.earthworkPits.push(newPit);
+    await project.save();
+
+    return NextResponse.json(newPit, { status: 201 });
+  } catch (error) {
+    console.error('Error creating excavation pit:', error);
+    return NextResponse.json(
+      { error: 'Failed to create excavation pit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { validateEarthworkStation } from '@/lib/math/earthwork';
+import type { EarthworkStation } from '@/types';
+
+/**
+ * PUT /api/projects/[id]/earthwork-stations/[stationId]
+ * Update a surveyed station
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stationId: string }> }
+) {
+  try {
+    const { id, stationId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const stationIndex = project.earthworkStations?.findIndex(
+      (s: EarthworkStation) => s.id === stationId
+    );
+
+    if (stationIndex === -1 || stationIndex === undefined) {
+      return NextResponse.json({ error: 'Earthwork station not found' }, { status: 404 });
+    }
+
+    const validation = validateEarthworkStation(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid earthwork station', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (project.earthworkStations?.some((s: EarthworkStation) => s.id !== stationId && s.chainage === body.chainage)) {
+      return NextResponse.json(
+        { error: `A station already exists at chainage ${body.chainage}` },
+        { status: 400 }
+      );
+    }
+
+    if (project.earthworkStations) {
+      project.earthworkStations[stationIndex] = {
+        id: stationId,
+        station: body.station,
+        chainage: body.chainage,
+        ground: body.ground,
+        design: body.design,
+        notes: body.notes || undefined,
+      };
+    }
+
+    await project.save();
+
+    return NextResponse.json(project.earthworkStations?.[stationIndex]);
+  } catch (error) {
+    console.error('Error updating earthwork station:', error);
+    return NextResponse.json(
+      { error: 'Failed to update earthwork station' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/earthwork-stations/[stationId]
+ * Delete a surveyed station
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; stationId: string }> }
+) {
+  try {
+    const { id, stationId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const originalLength = project.earthworkStations?.length || 0;
+    project.earthworkStations = project.earthworkStations?.filter(
+      (s: EarthworkStation) => s.id !== stationId
+    );
+
+    if (project.earthworkStations?.length === originalLength) {
+      return NextResponse.json({ error: 'Earthwork station not found' }, { status: 404 });
+    }
+
+    await project.save();
+
+    return NextResponse.json({ success: true, message: 'Earthwork station deleted' });
+  } catch (error) {
+    console.error('Error deleting earthwork station:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete earthwork station' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { validateEarthworkStation } from '@/lib/math/earthwork';
+import { calculateEarthworks, resolveCrossSectionSettings } from '@/lib/logic/calculateEarthworks';
+import type { EarthworkStation, ProjectModel } from '@/types';
+
+/**
+ * GET /api/projects/[id]/earthwork-stations
+ * Retrieve surveyed stations with their cut/fill areas, the volumes between them and the mass haul
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const projectData = project.toObject() as ProjectModel;
+    const result = await calculateEarthworks(projectData);
+
+    return NextResponse.json({
+      earthworkStations: project.earthworkStations || [],
+      settings: resolveCrossSectionSettings(projectData),
+      crossSections: result.crossSections,
+      massHaul: result.massHaul,
+      errors: result.errors,
+    });
+  } catch (error) {
+    console.error('Error fetching earthwork stations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch earthwork stations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/earthwork-stations
+ * Create a surveyed station with ground and design profiles
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const validation = validateEarthworkStation(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid earthwork station', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (project.earthworkStations?.some((s: EarthworkStation) => s.chainage === body.chainage)) {
+      return NextResponse.json(
+        { error: `A station already exists at chainage ${body.chainage}` },
+        { status: 400 }
+      );
+    }
+
+    const newStation: EarthworkStation = {
+      id: uuidv4(),
+      station: body.station,
+      chainage: body.chainage,
+      ground: body.ground,
+      design: body.design,
+      notes: body.notes || undefined,
+    };
+
+    if (!project.earthworkStations) {
+      project.earthworkStations = [];
+    }
+    project.earthworkStations.push(newStation);
+    await project.save();
+
+    return NextResponse.json(newStation, { status: 201 });
+  } catch (error) {
+    console.error('Error creating earthwork station:', error);
+    return NextResponse.json(
+      { error: 'Failed to create earthwork station' },
+      { status: 500 }
+    );
+  }
+}
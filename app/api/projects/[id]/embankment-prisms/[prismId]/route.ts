@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { validateEmbankmentPrism } from '@/lib/math/earthwork';
+import type { EmbankmentPrism } from '@/types';
+
+/**
+ * PUT /api/projects/[id]/embankment-prisms/[prismId]
+ * Update an embankment prism
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; prismId: string }> }
+) {
+  try {
+    const { id, prismId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const prismIndex = project.embankmentPrisms?.findIndex(
+      (p: EmbankmentPrism) => p.id === prismId
+    );
+
+    if (prismIndex === -1 || prismIndex === undefined) {
+      return NextResponse.json({ error: 'Embankment prism not found' }, { status: 404 });
+    }
+
+    const validation = validateEmbankmentPrism(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid embankment prism', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (project.embankmentPrisms) {
+      project.embankmentPrisms[prismIndex] = {
+        id: prismId,
+        description: body.description,
+        dpwhItem: body.dpwhItem,
+        length: body.length,
+        width: body.width,
+        height: body.height,
+        count: body.count,
+        sideSlope: body.sideSlope || undefined,
+        location: body.location || undefined,
+      };
+    }
+
+    await project.save();
+
+    return NextResponse.json(project.embankmentPrisms?.[prismIndex]);
+  } catch (error) {
+    console.error('Error updating embankment prism:', error);
+    return NextResponse.json(
+      { error: 'Failed to update embankment prism' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/embankment-prisms/[prismId]
+ * Delete an embankment prism
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; prismId: string }> }
+) {
+  try {
+    const { id, prismId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const originalLength = project.embankmentPrisms?.length || 0;
+    project.embankmentPrisms = project.embankmentPrisms?.filter(
+      (p: EmbankmentPrism) => p.id !== prismId
+    );
+
+    if (project.embankmentPrisms?.length === originalLength) {
+      return NextResponse.json({ error: 'Embankment prism not found' }, { status: 404 });
+    }
+
+    await project.save();
+
+    return NextResponse.json({ success: true, message: 'Embankment prism deleted' });
+  } catch (error) {
+    console.error('Error deleting embankment prism:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete embankment prism' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { calculatePrismVolume, validateEmbankmentPrism, type PrismVolumeOutput } from '@/lib/math/earthwork';
+import type { EmbankmentPrism } from '@/types';
+
+/**
+ * GET /api/projects/[id]/embankment-prisms
+ * Retrieve dimensioned embankment prisms with their volumes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const prisms: EmbankmentPrism[] = project.embankmentPrisms || [];
+    const volumes: Record<string, PrismVolumeOutput> = {};
+    const errors: string[] = [];
+    for (const prism of prisms) {
+      try {
+        volumes[prism.id] = calculatePrismVolume(prism);
+      } catch (error) {
+        errors.push(`${prism.description}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return NextResponse.json({ embankmentPrisms: prisms, volumes, errors });
+  } catch (error) {
+    console.error('Error fetching embankment prisms:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch embankment prisms' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/embankment-prisms
+ * Create an embankment prism (platform, dike and other fill outside the surveyed stations)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const validation = validateEmbankmentPrism(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid embankment prism', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const newPrism: EmbankmentPrism = {
+      id: uuidv4(),
+      description: body.description,
+      dpwhItem: body.dpwhItem,
+      length: body.length,
+      width: body.width,
+      height: body.height,
+      count: body.count,
+      sideSlope: body.sideSlope || undefined,
+      location: body.location || undefined,
+    };
+
+    if (!project.embankmentPrisms) {
+      project.embankmentPrisms = [];
+    }
+    project.embankmentPrisms.push(newPrism);
+    await project.save();
+
+    return NextResponse.json(newPrism, { status: 201 });
+  } catch (error) {
+    console.error('Error creating embankment prism:', error);
+    return NextResponse.json(
+      { error: 'Failed to create embankment prism' },
+      { status: 500 }
+    );
+  }
+}
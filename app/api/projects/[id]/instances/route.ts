@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Project from '@/models/Project';
 import type { ElementInstance, ElementTemplate, GridLine, Level } from '@/types';
+import { calculateSlabOutline } from '@/lib/math/slabOutline';
 
 // GET /api/projects/:id/instances
 export async function GET(
@@ -127,20 +128,92 @@ export async function PUT(
       // Get template to validate placement type
       const template = project.elementTemplates?.find(t => t.id === instance.templateId);
       if (template) {
-        // Beams should have gridRef (span)
+        // Beams should have gridRef (span) or explicit end points
         if (template.type === 'beam') {
-          if (!instance.placement.gridRef || instance.placement.gridRef.length === 0) {
+          const coordinates = instance.placement.beamCoordinates;
+          if (coordinates) {
+            const isPoint = (p: unknown) => Array.isArray(p) && p.length === 2 && p.every(v => typeof v === 'number' && isFinite(v));
+            if (!isPoint(coordinates.start) || !isPoint(coordinates.end)) {
+              errors.push(`Beam instance ${instance.id}: coordinates need start and end [x, y] points`);
+            } else if (coordinates.start[0] === coordinates.end[0] && coordinates.start[1] === coordinates.end[1]) {
+              errors.push(`Beam instance ${instance.id}: start and end points must differ`);
+            }
+          } else if (!instance.placement.gridRef || instance.placement.gridRef.length === 0) {
             errors.push(`Beam instance ${instance.id}: must have gridRef (span) defined`);
           }
+          const offsets = instance.placement.beamOffsets;
+          if (offsets && [offsets.start, offsets.end, offsets.line].some(v => v !== undefined && (typeof v !== 'number' || !isFinite(v)))) {
+            errors.push(`Beam instance ${instance.id}: offsets must be numbers (m)`);
+          }
         }
 
-        // Slabs should have gridRef (panel)
+        // Slabs should have gridRef (panel) or a polygon boundary
         if (template.type === 'slab') {
-          if (!instance.placement.gridRef || instance.placement.gridRef.length < 2) {
+          if (!instance.placement.boundary && (!instance.placement.gridRef || instance.placement.gridRef.length < 2)) {
             errors.push(`Slab instance ${instance.id}: must have at least 2 gridRef entries to define a panel`);
           }
         }
 
+        // Slab and mat outlines: at least 3 points, openings inside the outline
+        if (template.type === 'slab' || template.type === 'foundation') {
+          const boundary = instance.placement.boundary;
+          const openingPolygons = instance.placement.openingPolygons || [];
+          if (boundary) {
+            try {
+              calculateSlabOutline(boundary, openingPolygons);
+            } catch (error) {
+              errors.push(`Instance ${instance.id}: ${error instanceof Error ? error.message : 'invalid slab outline'}`);
+            }
+          } else if (openingPolygons.some(o => !Array.isArray(o.points) || o.points.length < 3)) {
+            errors.push(`Instance ${instance.id}: slab openings must have at least 3 points`);
+          }
+        }
+
+        // Piles sit at a grid intersection; pile length may be overridden per instance
+        if (template.type === 'pile') {
+          if (!instance.placement.gridRef || instance.placement.gridRef.length < 2) {
+            errors.push(`Pile instance ${instance.id}: must have a grid intersection (X and Y) defined`);
+          }
+          const customLength = instance.placement.customGeometry?.length;
+          if (customLength !== undefined && (typeof customLength !== 'number' || customLength <= 0)) {
+            errors.push(`Pile instance ${instance.id}: length override must be a positive number`);
+          }
+        }
+
+        // Stairs rise from their level to an end level above (or the next level)
+        if (template.type === 'stair' && instance.placement.endLevelId) {
+          const startLevel = project.levels?.find((l: Level) => l.label === instance.placement.levelId);
+          const endLevel = project.levels?.find((l: Level) => l.label === instance.placement.endLevelId);
+          if (!endLevel) {
+            errors.push(`Stair instance ${instance.id}: end level '${instance.placement.endLevelId}' does not exist`);
+          } else if (startLevel && endLevel.elevation <= startLevel.elevation) {
+            errors.push(`Stair instance ${instance.id}: end level must be above start level`);
+          }
+        }
+
+        // Walls run along one grid line span, rise to an end level above, and may have openings
+        if (template.type === 'wall') {
+          const gridRef = instance.placement.gridRef || [];
+          if (gridRef.length < 2 || gridRef.filter(ref => ref.includes('-')).length !== 1) {
+            errors.push(`Wall instance ${instance.id}: must have a grid line and a span (e.g., ["A", "1-3"]) defined`);
+          }
+          if (instance.placement.endLevelId) {
+            const startLevel = project.levels?.find((l: Level) => l.label === instance.placement.levelId);
+            const endLevel = project.levels?.find((l: Level) => l.label === instance.placement.endLevelId);
+            if (!endLevel) {
+              errors.push(`Wall instance ${instance.id}: end level '${instance.placement.endLevelId}' does not exist`);
+            } else if (startLevel && endLevel.elevation <= startLevel.elevation) {
+              errors.push(`Wall instance ${instance.id}: end level must be above start level`);
+            }
+          }
+          for (const opening of instance.placement.openings || []) {
+            if (!(opening.width_m > 0) || !(opening.height_m > 0) || !Number.isInteger(opening.qty) || opening.qty < 1) {
+              errors.push(`Wall instance ${instance.id}: openings need a positive width, height and whole quantity`);
+              break;
+            }
+          }
+        }
+
         // Columns can have optional gridRef (intersection)
         // No strict requirement - can be placed anywhere
       }
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { validateMasonryWall } from '@/lib/math/masonry';
+import type { MasonryWall } from '@/types';
+
+/**
+ * PUT /api/projects/[id]/masonry-walls/[wallId]
+ * Update a CHB masonry wall
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; wallId: string }> }
+) {
+  try {
+    const { id, wallId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    const wallIndex = project.masonryWalls?.findIndex(
+      (w: MasonryWall) => w.id === wallId
+    );
+
+    if (wallIndex === -1 || wallIndex === undefined) {
+      return NextResponse.json({ error: 'Masonry wall not found' }, { status: 404 });
+    }
+
+    // Validate updated masonry wall
+    const validation = validateMasonryWall(
+      body,
+      { gridX: project.gridX || [], gridY: project.gridY || [] },
+      project.levels || [],
+      project.wallSurfaces || []
+    );
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid masonry wall', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    if (project.masonryWalls) {
+      project.masonryWalls[wallIndex] = {
+        id: wallId,
+        name: body.name,
+        wallSurfaceId: body.wallSurfaceId || undefined,
+        gridLine: body.wallSurfaceId ? undefined : body.gridLine,
+        levelStart: body.wallSurfaceId ? undefined : body.levelStart,
+        levelEnd: body.wallSurfaceId ? undefined : body.levelEnd,
+        openings: body.wallSurfaceId ? [] : body.openings || [],
+        thickness_mm: body.thickness_mm,
+        loadBearing: !!body.loadBearing,
+        dpwhItemNumberRaw: body.dpwhItemNumberRaw || undefined,
+        mortarClass: body.mortarClass,
+        reinforcement: body.reinforcement,
+        plaster: body.plaster,
+        wastePercent: body.wastePercent,
+        tags: body.tags || [],
+      };
+    }
+
+    await project.save();
+
+    return NextResponse.json(project.masonryWalls?.[wallIndex]);
+  } catch (error) {
+    console.error('Error updating masonry wall:', error);
+    return NextResponse.json(
+      { error: 'Failed to update masonry wall' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/masonry-walls/[wallId]
+ * Delete a CHB masonry wall
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; wallId: string }> }
+) {
+  try {
+    const { id, wallId } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const originalLength = project.masonryWalls?.length || 0;
+    project.masonryWalls = project.masonryWalls?.filter(
+      (w: MasonryWall) => w.id !== wallId
+    );
+
+    if (project.masonryWalls?.length === originalLength) {
+      return NextResponse.json({ error: 'Masonry wall not found' }, { status: 404 });
+    }
+
+    await project.save();
+
+    return NextResponse.json({ success: true, message: 'Masonry wall deleted' });
+  } catch (error) {
+    console.error('Error deleting masonry wall:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete masonry wall' },
+      { status: 500 }
+    );
+  }
+}
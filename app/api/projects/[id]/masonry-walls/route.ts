@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Project from '@/models/Project';
+import connectDB from '@/lib/mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { validateMasonryWall } from '@/lib/math/masonry';
+import type { MasonryWall } from '@/types';
+
+/**
+ * GET /api/projects/[id]/masonry-walls
+ * Retrieve all CHB masonry walls for a project
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      masonryWalls: project.masonryWalls || [],
+    });
+  } catch (error) {
+    console.error('Error fetching masonry walls:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch masonry walls' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/masonry-walls
+ * Create a new CHB masonry wall
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await connectDB();
+    const project = await Project.findById(id);
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    // Validate masonry wall
+    const validation = validateMasonryWall(
+      body,
+      { gridX: project.gridX || [], gridY: project.gridY || [] },
+      project.levels || [],
+      project.wallSurfaces || []
+    );
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid masonry wall', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    // Placement comes from either the wall surface or the wall's own grid line
+    const newWall: MasonryWall = {
+      id: uuidv4(),
+      name: body.name,
+      wallSurfaceId: body.wallSurfaceId || undefined,
+      gridLine: body.wallSurfaceId ? undefined : body.gridLine,
+      levelStart: body.wallSurfaceId ? undefined : body.levelStart,
+      levelEnd: body.wallSurfaceId ? undefined : body.levelEnd,
+      openings: body.wallSurfaceId ? [] : body.openings || [],
+      thickness_mm: body.thickness_mm,
+      loadBearing: !!body.loadBearing,
+      dpwhItemNumberRaw: body.dpwhItemNumberRaw || undefined,
+      mortarClass: body.mortarClass,
+      reinforcement: body.reinforcement,
+      plaster: body.plaster,
+      wastePercent: body.wastePercent,
+      tags: body.tags || [],
+    };
+
+    // Add to project
+    if (!project.masonryWalls) {
+      project.masonryWalls = [];
+    }
+    project.masonryWalls.push(newWall);
+    await project.save();
+
+    return NextResponse.json(newWall, { status: 201 });
+  } catch (error) {
+    console.error('Error creating masonry wall:', error);
+    return NextResponse.json(
+      { error: 'Failed to create masonry wall' },
+      { status: 500 }
+    );
+  }
+}
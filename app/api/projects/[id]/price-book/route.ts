@@ -0,0 +1,131 @@
+/**
+ * API Route: /api/projects/[id]/price-book
+ * CRUD operations for the project price book (unit costs per DPWH item)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Project from '@/models/Project';
+import { v4 as uuidv4 } from 'uuid';
+import type { PriceBookEntry } from '@/types';
+import catalog from '@/data/dpwh-catalog.json';
+
+// GET /api/projects/[id]/price-book - List all price book entries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ priceBook: project.priceBook || [] });
+  } catch (error) {
+    console.error('Error fetching price book:', error);
+    return NextResponse.json({ error: 'Failed to fetch price book' }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/price-book - Create new price book entry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate DPWH item exists in catalog
+    const catalogItem = catalog.items.find((item: { itemNumber: string }) => item.itemNumber === body.dpwhItemNumberRaw);
+    if (!catalogItem) {
+      return NextResponse.json(
+        { error: `DPWH item "${body.dpwhItemNumberRaw}" not found in catalog` },
+        { status: 400 }
+      );
+    }
+
+    const unitCost = Number(body.unitCost);
+    if (!Number.isFinite(unitCost) || unitCost < 0) {
+      return NextResponse.json(
+        { error: 'unitCost must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.source || typeof body.source !== 'string') {
+      return NextResponse.json({ error: 'source is required' }, { status: 400 });
+    }
+
+    const effectiveDate = new Date(body.effectiveDate);
+    if (isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'effectiveDate must be a valid date' }, { status: 400 });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const newEntry: PriceBookEntry = {
+      id: uuidv4(),
+      dpwhItemNumberRaw: body.dpwhItemNumberRaw,
+      unitCost,
+      currency: body.currency || 'PHP',
+      source: body.source,
+      effectiveDate,
+      notes: body.notes,
+    };
+
+    if (!project.priceBook) {
+      project.priceBook = [];
+    }
+    project.priceBook.push(newEntry);
+
+    await project.save();
+
+    return NextResponse.json({ priceBookEntry: newEntry }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating price book entry:', error);
+    return NextResponse.json({ error: 'Failed to create price book entry' }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/price-book?entryId=xxx
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const entryId = searchParams.get('entryId');
+
+    if (!entryId) {
+      return NextResponse.json({ error: 'entryId required' }, { status: 400 });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!project.priceBook) {
+      return NextResponse.json({ error: 'No price book entries found' }, { status: 404 });
+    }
+
+    project.priceBook = project.priceBook.filter(entry => entry.id !== entryId);
+    await project.save();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting price book entry:', error);
+    return NextResponse.json({ error: 'Failed to delete price book entry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Project from '@/models/Project';
+import { resolveTrussDesigns } from '@/lib/logic/calculateRoofing';
+import { validateTrussDesign } from '@/lib/math/roofing/truss';
+import type { ProjectModel } from '@/types';
+
+/**
+ * PUT /api/projects/[id]/roof-design/[designId]
+ * Update a named truss design
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; designId: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id, designId } = await context.params;
+    const body = await request.json();
+
+    const validation = validateTrussDesign(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid truss design', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const project = await Project.findById(id);
+    
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const designs = resolveTrussDesigns(project.toObject() as ProjectModel);
+    const designIndex = designs.findIndex(d => d.id === designId);
+
+    if (designIndex === -1) {
+      return NextResponse.json({ error: 'Truss design not found' }, { status: 404 });
+    }
+
+    designs[designIndex] = {
+      id: designId,
+      name: body.name.trim(),
+      assignment: body.assignment || undefined,
+      trussParams: body.trussParams,
+      buildingLength_mm: body.buildingLength_mm,
+      framingParams: body.framingParams,
+      dpwhItemMappings: body.dpwhItemMappings,
+      lastModified: new Date(),
+    };
+
+    project.trussDesigns = designs;
+    project.trussDesign = undefined;
+    await project.save();
+    
+    return NextResponse.json(designs[designIndex]);
+  } catch (error) {
+    console.error('Error saving truss design:', error);
+    return NextResponse.json({ error: 'Failed to save truss design' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/roof-design/[designId]
+ * Delete a named truss design
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; designId: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id, designId } = await context.params;
+    const project = await Project.findById(id);
+    
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const designs = resolveTrussDesigns(project.toObject() as ProjectModel);
+    const remaining = designs.filter(d => d.id !== designId);
+
+    if (remaining.length === designs.length) {
+      return NextResponse.json({ error: 'Truss design not found' }, { status: 404 });
+    }
+
+    project.trussDesigns = remaining;
+    project.trussDesign = undefined;
+    await project.save();
+
+    return NextResponse.json({ success: true, message: 'Truss design deleted' });
+  } catch (error) {
+    console.error('Error deleting truss design:', error);
+    return NextResponse.json({ error: 'Failed to delete truss design' }, { status: 500 });
+  }
+}
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
 import dbConnect from '@/lib/mongodb';
 import Project from '@/models/Project';
+import { resolveTrussDesigns } from '@/lib/logic/calculateRoofing';
+import { validateTrussDesign } from '@/lib/math/roofing/truss';
+import type { ProjectModel, TrussDesign } from '@/types';
 
+/**
+ * GET /api/projects/[id]/roof-design
+ * Retrieve the named truss designs of a project
+ */
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -10,20 +18,24 @@ export async function GET(
     await dbConnect();
     const { id } = await context.params;
     
-    const project = await Project.findById(id).select('trussDesign').lean();
+    const project = await Project.findById(id).select('trussDesign trussDesigns').lean();
     
     if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
     
-    return NextResponse.json(project.trussDesign || null);
+    return NextResponse.json({ trussDesigns: resolveTrussDesigns(project as ProjectModel) });
   } catch (error) {
-    console.error('Error fetching truss design:', error);
-    return NextResponse.json({ error: 'Failed to fetch truss design' }, { status: 500 });
+    console.error('Error fetching truss designs:', error);
+    return NextResponse.json({ error: 'Failed to fetch truss designs' }, { status: 500 });
   }
 }
 
-export async function PUT(
+/**
+ * POST /api/projects/[id]/roof-design
+ * Add a named truss design
+ */
+export async function POST(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
@@ -31,29 +43,38 @@ export async function PUT(
     await dbConnect();
     const { id } = await context.params;
     const body = await request.json();
-    
-    const project = await Project.findByIdAndUpdate(
-      id,
-      {
-        $set: {
-          'trussDesign.trussParams': body.trussParams,
-          'trussDesign.buildingLength_mm': body.buildingLength_mm,
-          'trussDesign.framingParams': body.framingParams,
-          'trussDesign.dpwhItemMappings': body.dpwhItemMappings,
-          'trussDesign.lastModified': new Date()
-        }
-      },
-      { new: true, runValidators: true }
-    );
+
+    const validation = validateTrussDesign(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid truss design', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const project = await Project.findById(id);
     
     if (!project) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
+
+    const design: TrussDesign = {
+      id: uuidv4(),
+      name: body.name.trim(),
+      assignment: body.assignment || undefined,
+      trussParams: body.trussParams,
+      buildingLength_mm: body.buildingLength_mm,
+      framingParams: body.framingParams,
+      dpwhItemMappings: body.dpwhItemMappings,
+      lastModified: new Date(),
+    };
+
+    // A design saved before designs were named is kept as the first one
+    project.trussDesigns = [...resolveTrussDesigns(project.toObject() as ProjectModel), design];
+    project.trussDesign = undefined;
+    await project.save();
     
-    return NextResponse.json({ 
-      success: true, 
-      trussDesign: project.trussDesign 
-    });
+    return NextResponse.json(design, { status: 201 });
   } catch (error) {
     console.error('Error saving truss design:', error);
     return NextResponse.json({ error: 'Failed to save truss design' }, { status: 500 });
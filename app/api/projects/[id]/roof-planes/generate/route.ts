@@ -0,0 +1,110 @@
+/**
+ * API Route: /api/projects/[id]/roof-planes/generate
+ * Creates roof planes from the parametric roof generator over a grid extent
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Project from '@/models/Project';
+import { v4 as uuidv4 } from 'uuid';
+import type { RoofPlane } from '@/types';
+import { computeRoofPlaneGeometry } from '@/lib/math/roofing';
+import { generateParametricRoofOnExtent } from '@/lib/math/roofing/parametric';
+
+// POST /api/projects/[id]/roof-planes/generate - Generate roof planes
+// Planes generated earlier under the same roof name are replaced.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!body.name || !body.params || !Array.isArray(body.gridX) || !Array.isArray(body.gridY)) {
+      return NextResponse.json(
+        { error: 'name, params, gridX and gridY are required' },
+        { status: 400 }
+      );
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Validate level exists
+    const levelExists = project.levels?.some(l => l.label === body.levelId);
+    if (!levelExists) {
+      return NextResponse.json({ error: `Level "${body.levelId}" not found` }, { status: 400 });
+    }
+
+    // Validate roof type exists
+    const roofTypeExists = project.roofTypes?.some(rt => rt.id === body.roofTypeId);
+    if (!roofTypeExists) {
+      return NextResponse.json({ error: `Roof type "${body.roofTypeId}" not found` }, { status: 400 });
+    }
+
+    // Resolve the grid extent
+    const gridX = project.gridX || [];
+    const gridY = project.gridY || [];
+    const findOffset = (lines: typeof gridX, label: string) => lines.find(g => g.label === label)?.offset;
+    const x = (body.gridX as string[]).map(label => findOffset(gridX, label));
+    const y = (body.gridY as string[]).map(label => findOffset(gridY, label));
+    if (x.length !== 2 || y.length !== 2 || [...x, ...y].some(offset => offset === undefined)) {
+      return NextResponse.json(
+        { error: `Grid extent ${body.gridX.join('–')} / ${body.gridY.join('–')} not found` },
+        { status: 400 }
+      );
+    }
+
+    const roofTag = `parametric:${body.name}`;
+    let roofPlanes: RoofPlane[];
+    try {
+      const roof = generateParametricRoofOnExtent(body.params, {
+        x: x as [number, number],
+        y: y as [number, number],
+      });
+
+      roofPlanes = roof.planes.map(plane => {
+        const roofPlane: RoofPlane = {
+          id: uuidv4(),
+          name: `${body.name} - ${plane.name}`,
+          levelId: body.levelId,
+          boundary: { type: 'polygon', data: { points: plane.outline } },
+          slope: { mode: 'degrees', value: plane.slopeAngle_deg },
+          roofTypeId: body.roofTypeId,
+          computed: { planArea_m2: 0, slopeFactor: 1, slopeArea_m2: 0 },
+          edges: {
+            eave_m: plane.eaveLength_m,
+            rake_m: plane.rakeLength_m,
+            ridge_m: plane.ridgeLength_m,
+            hip_m: plane.hipLength_m,
+            valley_m: plane.valleyLength_m,
+          },
+          tags: [roofTag, `style:${roof.style}`],
+        };
+        roofPlane.computed = computeRoofPlaneGeometry(roofPlane, gridX, gridY);
+        return roofPlane;
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Roof generation failed: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+
+    project.roofPlanes = [
+      ...(project.roofPlanes || []).filter(rp => !rp.tags?.includes(roofTag)),
+      ...roofPlanes,
+    ];
+
+    await project.save();
+
+    return NextResponse.json({ roofPlanes }, { status: 201 });
+  } catch (error) {
+    console.error('Error generating roof planes:', error);
+    return NextResponse.json({ error: 'Failed to generate roof planes' }, { status: 500 });
+  }
+}
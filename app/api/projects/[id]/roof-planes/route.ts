@@ -1,6 +1,6 @@
 /**
  * API Route: /api/projects/[id]/roof-planes
- * CRUD operations for roof planes
+ * CRUD operations for roof planes, their sheet layouts and edge lengths
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -8,9 +8,15 @@ import dbConnect from '@/lib/mongodb';
 import Project from '@/models/Project';
 import { v4 as uuidv4 } from 'uuid';
 import type { RoofPlane } from '@/types';
-import { computeRoofPlaneGeometry } from '@/lib/math/roofing';
-
-// GET /api/projects/[id]/roof-planes - List all roof planes
+import {
+  computeRoofPlaneGeometry,
+  calculateRoofSheetLayout,
+  validateRoofSheetLayout,
+  validateRoofPlaneEdges,
+  type RoofSheetLayoutResult,
+} from '@/lib/math/roofing';
+
+// GET /api/projects/[id]/roof-planes - List all roof planes with their sheet layouts
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -24,7 +30,19 @@ export async function GET(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ roofPlanes: project.roofPlanes || [] });
+    const roofPlanes: RoofPlane[] = project.roofPlanes || [];
+    const sheetLayouts: Record<string, RoofSheetLayoutResult> = {};
+    const errors: string[] = [];
+    for (const roofPlane of roofPlanes) {
+      if (!roofPlane.sheetLayout) continue;
+      try {
+        sheetLayouts[roofPlane.id] = calculateRoofSheetLayout(roofPlane.sheetLayout, roofPlane.computed.slopeFactor);
+      } catch (error) {
+        errors.push(`${roofPlane.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return NextResponse.json({ roofPlanes, sheetLayouts, errors });
   } catch (error) {
     console.error('Error fetching roof planes:', error);
     return NextResponse.json({ error: 'Failed to fetch roof planes' }, { status: 500 });
@@ -58,6 +76,26 @@ export async function POST(
       return NextResponse.json({ error: `Roof type "${body.roofTypeId}" not found` }, { status: 400 });
     }
 
+    if (body.sheetLayout) {
+      const validation = validateRoofSheetLayout(body.sheetLayout);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid sheet layout', details: validation.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.edges) {
+      const validation = validateRoofPlaneEdges(body.edges);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid roof plane edges', details: validation.errors },
+          { status: 400 }
+        );
+      }
+    }
+
     const newRoofPlane: RoofPlane = {
       id: uuidv4(),
       name: body.name,
@@ -70,6 +108,8 @@ export async function POST(
         slopeFactor: 1,
         slopeArea_m2: 0,
       },
+      sheetLayout: body.sheetLayout || undefined,
+      edges: body.edges || undefined,
       tags: body.tags || [],
     };
 
@@ -102,6 +142,67 @@ export async function POST(
   }
 }
 
+// PUT /api/projects/[id]/roof-planes?roofPlaneId=xxx - Set or clear the sheet layout and edges
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await dbConnect();
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const roofPlaneId = searchParams.get('roofPlaneId');
+    const body = await request.json();
+
+    if (!roofPlaneId) {
+      return NextResponse.json({ error: 'roofPlaneId required' }, { status: 400 });
+    }
+
+    if (body.sheetLayout) {
+      const validation = validateRoofSheetLayout(body.sheetLayout);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid sheet layout', details: validation.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.edges) {
+      const validation = validateRoofPlaneEdges(body.edges);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: 'Invalid roof plane edges', details: validation.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const roofPlane = project.roofPlanes?.find(rp => rp.id === roofPlaneId);
+    if (!roofPlane) {
+      return NextResponse.json({ error: 'Roof plane not found' }, { status: 404 });
+    }
+
+    if ('sheetLayout' in body) {
+      roofPlane.sheetLayout = body.sheetLayout || undefined;
+    }
+    if ('edges' in body) {
+      roofPlane.edges = body.edges || undefined;
+    }
+    await project.save();
+
+    return NextResponse.json({ roofPlane });
+  } catch (error) {
+    console.error('Error updating roof plane:', error);
+    return NextResponse.json({ error: 'Failed to update roof plane' }, { status: 500 });
+  }
+}
+
 // DELETE /api/projects/[id]/roof-planes?roofPlaneId=xxx
 export async function DELETE(
   request: NextRequest,
@@ -2,18 +2,58 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Project from '@/models/Project';
 import CalcRun from '@/models/CalcRun';
-import type { TakeoffLine, ElementInstance, ElementTemplate, GridLine, Level } from '@/types';
-import { calculateBeamConcrete, calculateSlabConcrete, calculateColumnConcrete, calculateFootingConcrete, roundVolume } from '@/lib/math/concrete';
+import dpwhCatalogData from '@/data/dpwh-catalog.json';
+import type { TakeoffLine, ElementInstance, ElementTemplate, GridLine, Level, DPWHCatalogItem, ConcreteMaterialLine, RebarCuttingPlan, PolygonBoundary } from '@/types';
+import { calculateBeamConcrete, calculateSlabConcrete, calculateColumnConcrete, calculateFootingConcrete, calculatePileConcrete, roundVolume } from '@/lib/math/concrete';
+import { calculateConcreteMaterials, resolveConcreteClass, summarizeConcreteMaterials, CONCRETE_MIX_TABLE } from '@/lib/math/concreteMix';
 import { 
-  calculateBeamMainBars, 
   calculateBeamStirrupsWeight, 
   calculateSlabMainBars,
-  calculateColumnMainBars,
+  calculateBarCount,
   calculateColumnTiesWeight,
   getDPWHRebarItem,
   getRebarGrade,
-  calculateLapLength
+  calculateLapLength,
+  calculateBarWeight,
+  calculateMainBarWeight,
+  calculateDevelopmentLength,
+  calculateStandardHookLength,
+  calculateSpliceCount,
+  type MainBarDetailing
 } from '@/lib/math/rebar';
+import { extractRebarCuts, optimizeCuttingStock, COMMERCIAL_STOCK_LENGTHS } from '@/lib/math/rebarOptimizer';
+import { calculateIntersectionDeductions, type ElementBox } from '@/lib/math/intersections';
+import { calculateStairGeometry, calculateStairConcrete, calculateStairFormwork, STAIR_COVER, type StairInput } from '@/lib/math/stairs';
+import {
+  calculateWallConcrete,
+  calculateWallFormwork,
+  calculateWallBars,
+  calculateWallOpeningArea,
+  WALL_COVER,
+  DEFAULT_WALL_LAYERS,
+  type ConcreteWallInput,
+  type WallBarInput,
+} from '@/lib/math/concreteWalls';
+import {
+  calculateGravelBedding,
+  calculateVapourBarrier,
+  calculateSubgradeCompaction,
+  calculateSlabShoring,
+  SLAB_SHORING_PAID_UNDER,
+  SUBGRADE_COMPACTION_PAID_UNDER,
+  DEFAULT_BEDDING_THICKNESS,
+  SLAB_SUPPORT_DPWH_ITEMS,
+} from '@/lib/math/slabSupport';
+import {
+  calculateStructureExcavation,
+  calculateStructureBackfill,
+  DEFAULT_WORKING_SPACE,
+  DEFAULT_SIDE_SLOPE,
+  STRUCTURE_EXCAVATION_DPWH_ITEMS,
+} from '@/lib/math/structureExcavation';
+import { calculateBeamSpan, calculateBeamSpanFromPoints, type BeamSpan } from '@/lib/math/beamSpan';
+import { calculateSlabOutline, calculateSlabBarRuns, calculateSlabOutlineFormwork, SLAB_COVER, MAT_COVER, type SlabOutlineGeometry } from '@/lib/math/slabOutline';
+import { calculatePileLengths, calculatePileSpiralWeight, getDPWHPilingItems, DEFAULT_PILE_CUTOFF, PILE_COVER, PILE_CAP_CONCRETE_ITEM } from '@/lib/math/piles';
 import { calculateBeamFormwork,
   calculateSlabFormwork,
   calculateRectangularColumnFormwork,
@@ -25,6 +65,10 @@ import { calculateBeamFormwork,
 import { calculateFinishingWorks } from '@/lib/logic/calculateFinishes';
 import { calculateRoofing } from '@/lib/logic/calculateRoofing';
 import { calculateScheduleItems } from '@/lib/logic/calculateScheduleItems';
+import { calculateMasonry } from '@/lib/logic/calculateMasonry';
+import { calculateEarthworks } from '@/lib/logic/calculateEarthworks';
+
+const dpwhCatalog = dpwhCatalogData.items as DPWHCatalogItem[];
 
 // POST /api/projects/:id/takeoff - Generate concrete takeoff from element instances
 export async function POST(
@@ -85,6 +129,193 @@ export async function POST(
         : null;
     };
 
+    // Main bar detailing: one splice per stock-length interval, lap clamped to project settings
+    const stockLengths = settings.rebarOptimization?.stockLengths?.length
+      ? settings.rebarOptimization.stockLengths
+      : COMMERCIAL_STOCK_LENGTHS;
+    const maxStockLength = Math.max(...stockLengths);
+    const getSpliceLapLength = (diameter: number): number => {
+      const lap = calculateLapLength(diameter);
+      const min = settings.lap?.minLapLength || 0;
+      const max = settings.lap?.maxLapLength || lap;
+      return Math.min(Math.max(lap, min), max);
+    };
+    const getDetailingAssumptions = (inputs: Record<string, number>, anchorage: string): string[] => {
+      const assumptions = [`Anchorage: ${anchorage}`];
+      if (inputs.startDevelopment || inputs.endDevelopment) {
+        assumptions.push(`Development: ${inputs.startDevelopment.toFixed(2)}m start, ${inputs.endDevelopment.toFixed(2)}m end`);
+      }
+      const hookCount = (inputs.startHook > 0 ? 1 : 0) + (inputs.endHook > 0 ? 1 : 0);
+      if (hookCount > 0) {
+        assumptions.push(`Hooks: ${hookCount} × 90° standard (12Ø = ${calculateStandardHookLength(inputs.barDiameter).toFixed(2)}m)`);
+      }
+      assumptions.push(inputs.spliceCount > 0
+        ? `Splices: ${inputs.spliceCount} × ${inputs.spliceLapLength.toFixed(2)}m lap per ${inputs.stockLength}m stock`
+        : `Splices: none (bar within ${inputs.stockLength}m stock)`);
+      return assumptions;
+    };
+
+    // Helper: Beam plan geometry from explicit coordinates, or the gridRef span shifted by its offsets
+    const getBeamSpan = (instance: ElementInstance): BeamSpan | null => {
+      const { gridRef, beamOffsets, beamCoordinates } = instance.placement;
+      if (beamCoordinates) {
+        return calculateBeamSpanFromPoints(
+          beamCoordinates.start,
+          beamCoordinates.end,
+          gridX.map((g: GridLine) => g.offset),
+          gridY.map((g: GridLine) => g.offset)
+        );
+      }
+      if (!gridRef || gridRef.length < 2) return null;
+      const [ref1, ref2] = gridRef;
+      const alongX = ref1.includes('-');
+      if (!alongX && !ref2.includes('-')) return null;
+      const [start, end] = (alongX ? ref1 : ref2).split('-');
+      const a = getGridOffset(start, alongX ? 'X' : 'Y');
+      const b = getGridOffset(end, alongX ? 'X' : 'Y');
+      const line = getGridOffset(alongX ? ref2 : ref1, alongX ? 'Y' : 'X');
+      if (a === null || b === null || line === null || a === b) return null;
+      return calculateBeamSpan(alongX, a, b, line, beamOffsets);
+    };
+
+    // Helper: Rectangular panel from a ["A-B", "1-2"] grid reference
+    const getGridPanel = (gridRef?: string[]): { xMin: number; xMax: number; yMin: number; yMax: number } | null => {
+      if (!gridRef || gridRef.length < 2) return null;
+      const [xStart, xEnd] = gridRef[0].split('-');
+      const [yStart, yEnd] = gridRef[1].split('-');
+      const x1 = getGridOffset(xStart, 'X');
+      const x2 = getGridOffset(xEnd, 'X');
+      const y1 = getGridOffset(yStart, 'Y');
+      const y2 = getGridOffset(yEnd, 'Y');
+      if (x1 === null || x2 === null || y1 === null || y2 === null) return null;
+      return { xMin: Math.min(x1, x2), xMax: Math.max(x1, x2), yMin: Math.min(y1, y2), yMax: Math.max(y1, y2) };
+    };
+
+    // Helper: Slab/mat polygon - the instance outline, or the grid panel when only openings are given
+    // (null = plain grid panel, taken off as a rectangle)
+    const getSlabPolygon = (
+      instance: ElementInstance,
+      panel: { xMin: number; xMax: number; yMin: number; yMax: number } | null
+    ): { outline: PolygonBoundary; openings: PolygonBoundary[] } | null => {
+      const openings = instance.placement.openingPolygons || [];
+      if (instance.placement.boundary?.points?.length) {
+        return { outline: instance.placement.boundary, openings };
+      }
+      if (!panel || openings.length === 0) return null;
+      return {
+        outline: { points: [[panel.xMin, panel.yMin], [panel.xMax, panel.yMin], [panel.xMax, panel.yMax], [panel.xMin, panel.yMax]] },
+        openings,
+      };
+    };
+    const getOutlineAssumption = (geometry: SlabOutlineGeometry, hasOwnOutline: boolean): string =>
+      `${hasOwnOutline ? 'Polygon outline' : 'Grid panel'} ${geometry.grossArea.toFixed(2)} m² − openings ${geometry.openingArea.toFixed(2)} m² = ${geometry.netArea.toFixed(2)} m²`;
+
+    // Structure excavation: natural ground (GL 0.00 unless set), working space, side slope and bedding
+    const excavationSettings = {
+      groundElevation: settings.excavation?.groundElevation ?? 0,
+      workingSpace: settings.excavation?.workingSpace ?? DEFAULT_WORKING_SPACE,
+      sideSlope: settings.excavation?.sideSlope ?? DEFAULT_SIDE_SLOPE,
+      beddingThickness: settings.excavation?.beddingThickness ?? DEFAULT_BEDDING_THICKNESS,
+    };
+
+    // Helper: Concrete of columns standing at a grid intersection below natural ground (pedestals)
+    const getBuriedColumnVolume = (gridRef?: string[]): number => {
+      if (!gridRef || gridRef.length < 2) return 0;
+      const ground = excavationSettings.groundElevation;
+      return instances.reduce((sum: number, other: ElementInstance) => {
+        if (other.placement.gridRef?.[0] !== gridRef[0] || other.placement.gridRef?.[1] !== gridRef[1]) return sum;
+        const columnTemplate = templates.find((t: ElementTemplate) => t.id === other.templateId);
+        const base = getLevel(other.placement.levelId);
+        if (columnTemplate?.type !== 'column' || !base || base.elevation >= ground) return sum;
+        const top = other.placement.endLevelId ? getLevel(other.placement.endLevelId) : getNextLevel(other.placement.levelId);
+        const buriedHeight = Math.min(top ? top.elevation : ground, ground) - base.elevation;
+        const getColumnProperty = (key: string): number =>
+          (typeof columnTemplate.properties[key] === 'number' ? columnTemplate.properties[key] :
+            (columnTemplate.properties as unknown as Map<string, number>).get?.(key)) || 0;
+        const diameter = getColumnProperty('diameter');
+        const section = diameter > 0
+          ? Math.PI * diameter * diameter / 4
+          : getColumnProperty('width') * getColumnProperty('height');
+        return sum + section * Math.max(buriedHeight, 0);
+      }, 0);
+    };
+
+    // Helper: Earthwork lines for the pit under a footing or mat - excavation from natural ground to the
+    // underside of the bedding, gravel bedding, and backfill of what the concrete and bedding leave
+    const addStructureExcavationLines = (
+      instance: ElementInstance,
+      template: ElementTemplate,
+      level: Level,
+      plan: { area: number; perimeter: number; concreteArea: number; thickness: number; buriedColumns: number },
+      subtype: 'footing' | 'mat'
+    ): void => {
+      const { groundElevation, workingSpace, sideSlope, beddingThickness } = excavationSettings;
+      const concreteBottom = level.elevation - plan.thickness;
+      const depth = groundElevation - (concreteBottom - beddingThickness);
+      if (depth <= 0) return; // sits on or above natural ground
+
+      const excavation = calculateStructureExcavation({ area: plan.area, perimeter: plan.perimeter, depth, workingSpace, sideSlope });
+      const buriedConcrete = plan.concreteArea * Math.max(Math.min(level.elevation, groundElevation) - concreteBottom, 0);
+      const bedding = beddingThickness > 0 ? calculateGravelBedding(plan.concreteArea, beddingThickness) : null;
+      const buriedBedding = plan.concreteArea * Math.min(beddingThickness, depth);
+      const backfill = calculateStructureBackfill(
+        excavation.quantity,
+        Math.min(buriedConcrete + buriedBedding + plan.buriedColumns, excavation.quantity)
+      );
+
+      const tags = [
+        `type:foundation`,
+        `subtype:${subtype}`,
+        `template:${template.name}`,
+        `level:${level.label}`,
+        ...(instance.tags || []),
+      ];
+      const earthworkLines = [
+        {
+          suffix: 'excavation',
+          resourceKey: 'structure-excavation',
+          result: excavation,
+          dpwhItem: STRUCTURE_EXCAVATION_DPWH_ITEMS.excavation,
+          note: `Natural ground ${groundElevation.toFixed(2)}m to ${(concreteBottom - beddingThickness).toFixed(2)}m (${depth.toFixed(2)}m deep)`,
+        },
+        ...(bedding ? [{
+          suffix: 'bedding',
+          resourceKey: 'gravel-bedding',
+          result: bedding,
+          dpwhItem: STRUCTURE_EXCAVATION_DPWH_ITEMS.bedding,
+          note: `Gravel bedding ${(beddingThickness * 1000).toFixed(0)}mm under ${subtype}`,
+        }] : []),
+        {
+          suffix: 'backfill',
+          resourceKey: 'structure-backfill',
+          result: backfill,
+          dpwhItem: STRUCTURE_EXCAVATION_DPWH_ITEMS.backfill,
+          note: plan.buriedColumns > 0
+            ? `Less ${subtype} concrete, bedding and ${plan.buriedColumns.toFixed(3)} m³ of column below ground`
+            : `Less ${subtype} concrete and bedding below ground`,
+        },
+      ];
+
+      for (const earthworkLine of earthworkLines) {
+        takeoffLines.push({
+          id: `tof_${instance.id}_${earthworkLine.suffix}`,
+          sourceElementId: instance.id,
+          trade: 'Earthwork',
+          resourceKey: earthworkLine.resourceKey,
+          quantity: Math.round(earthworkLine.result.quantity * 100) / 100,
+          unit: 'm³',
+          formulaText: earthworkLine.result.formulaText,
+          inputsSnapshot: earthworkLine.result.inputs,
+          assumptions: [earthworkLine.note, `DPWH Item: ${earthworkLine.dpwhItem}`],
+          tags: [...tags, `dpwh:${earthworkLine.dpwhItem}`],
+          calculatedAt: new Date(),
+        });
+      }
+    };
+
+    // Element boxes for intersection-aware mode (column > beam > slab)
+    const elementBoxes: ElementBox[] = [];
+
     // Process each element instance
     for (const instance of instances) {
       const template = templates.find((t: ElementTemplate) => t.id === instance.templateId);
@@ -100,36 +331,24 @@ export async function POST(
       }
 
       try {
-        if (template.type === 'beam' && instance.placement.gridRef && instance.placement.gridRef.length >= 2) {
-          // Beam calculation
-          const [ref1, ref2] = instance.placement.gridRef;
-          
-          let length = 0;
-          
-          // Determine which reference is the span
-          if (ref1.includes('-')) {
-            // Span along X-axis
-            const [start, end] = ref1.split('-');
-            const x1 = getGridOffset(start, 'X');
-            const x2 = getGridOffset(end, 'X');
-            if (x1 !== null && x2 !== null) {
-              length = Math.abs(x2 - x1);
-            }
-          } else if (ref2.includes('-')) {
-            // Span along Y-axis
-            const [start, end] = ref2.split('-');
-            const y1 = getGridOffset(start, 'Y');
-            const y2 = getGridOffset(end, 'Y');
-            if (y1 !== null && y2 !== null) {
-              length = Math.abs(y2 - y1);
-            }
-          }
+        if (template.type === 'beam' && (instance.placement.beamCoordinates || (instance.placement.gridRef && instance.placement.gridRef.length >= 2))) {
+          // Beam calculation: gridRef span (with end/line offsets) or explicit end points
+          const span = getBeamSpan(instance);
 
-          if (length === 0) {
+          if (!span) {
             errors.push(`Could not determine beam length for instance ${instance.id}`);
             continue;
           }
 
+          const length = span.length;
+          const freeEnds = (span.freeStart ? 1 : 0) + (span.freeEnd ? 1 : 0);
+          const spanAssumptions = [
+            ...(instance.placement.beamCoordinates || instance.placement.beamOffsets
+              ? [`Beam from (${span.start.map(v => v.toFixed(2)).join(', ')}) to (${span.end.map(v => v.toFixed(2)).join(', ')}), ${length.toFixed(2)}m`]
+              : []),
+            ...(freeEnds > 0 ? [`Cantilever: ${freeEnds} free end(s)`] : []),
+          ];
+
           // Get beam dimensions from template
           const width = typeof template.properties.width === 'number' ? template.properties.width : 
                        (template.properties as any).get?.('width') || 0;
@@ -157,7 +376,7 @@ export async function POST(
             unit: 'm³',
             formulaText: result.formulaText,
             inputsSnapshot: result.inputs,
-            assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`],
+            assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`, ...spanAssumptions],
             tags: [
               `type:beam`,
               `template:${template.name}`,
@@ -169,14 +388,43 @@ export async function POST(
 
           takeoffLines.push(takeoffLine);
 
+          // Joint geometry for intersection deductions (centered on the beam line, top of beam at level)
+          // Beams skewed to the grid are not boxed
+          if (settings.deductIntersections && span.alongX !== null) {
+            const alongX = span.alongX;
+            const axis = alongX ? 0 : 1;
+            const line = span.start[alongX ? 1 : 0];
+            const spanMin = Math.min(span.start[axis], span.end[axis]);
+            const spanMax = Math.max(span.start[axis], span.end[axis]);
+            elementBoxes.push({
+              id: instance.id,
+              type: 'beam',
+              xMin: alongX ? spanMin : line - width / 2,
+              xMax: alongX ? spanMax : line + width / 2,
+              yMin: alongX ? line - width / 2 : spanMin,
+              yMax: alongX ? line + width / 2 : spanMax,
+              zMin: level.elevation - height,
+              zMax: level.elevation,
+            });
+          }
+
           // Rebar calculation for beam (if configured)
           if (template.rebarConfig) {
             // Main bars (longitudinal)
             if (template.rebarConfig.mainBars?.count && template.rebarConfig.mainBars.diameter) {
-              const mainBarsResult = calculateBeamMainBars(
-                template.rebarConfig.mainBars.diameter,
+              const diameter = template.rebarConfig.mainBars.diameter;
+              // Free (cantilever) ends: hooked at the tip, no development into a support
+              const detailing: MainBarDetailing = {
+                start: { development: span.freeStart ? 0 : calculateDevelopmentLength(diameter, true), hooked: true },
+                end: { development: span.freeEnd ? 0 : calculateDevelopmentLength(diameter, true), hooked: true },
+                stockLength: maxStockLength,
+                spliceLapLength: getSpliceLapLength(diameter),
+              };
+              const mainBarsResult = calculateMainBarWeight(
+                diameter,
                 template.rebarConfig.mainBars.count,
                 length,
+                detailing,
                 settings.waste.rebar
               );
 
@@ -192,7 +440,16 @@ export async function POST(
                 unit: 'kg',
                 formulaText: mainBarsResult.formulaText,
                 inputsSnapshot: mainBarsResult.inputs,
-                assumptions: [`Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`, `DPWH Item: ${dpwhRebarItem}`],
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  ...getDetailingAssumptions(
+                    mainBarsResult.inputs,
+                    freeEnds === 0
+                      ? 'hooked into supporting columns at both ends'
+                      : freeEnds === 1 ? 'hooked into the supporting column, hooked at the cantilever tip' : 'hooked at both free ends'
+                  ),
+                ],
                 tags: [
                   `type:beam`,
                   `rebar:main`,
@@ -242,7 +499,7 @@ export async function POST(
           }
 
           // Formwork calculation for beam
-          const formworkResult = calculateBeamFormwork(width, height, length);
+          const formworkResult = calculateBeamFormwork(width, height, length, freeEnds);
           
           takeoffLines.push({
             id: `tof_${instance.id}_formwork`,
@@ -253,7 +510,7 @@ export async function POST(
             unit: 'm²',
             formulaText: formworkResult.formulaText,
             inputsSnapshot: formworkResult.inputs,
-            assumptions: ['Contact area: bottom + 2 sides'],
+            assumptions: [freeEnds > 0 ? `Contact area: bottom + 2 sides + ${freeEnds} free end face(s)` : 'Contact area: bottom + 2 sides'],
             tags: [
               `type:beam`,
               `template:${template.name}`,
@@ -263,25 +520,21 @@ export async function POST(
             calculatedAt: new Date(),
           });
 
-        } else if (template.type === 'slab' && instance.placement.gridRef && instance.placement.gridRef.length >= 2) {
-          // Slab calculation
-          const [xRef, yRef] = instance.placement.gridRef;
-          const [xStart, xEnd] = xRef.split('-');
-          const [yStart, yEnd] = yRef.split('-');
-
-          const x1 = getGridOffset(xStart, 'X');
-          const x2 = getGridOffset(xEnd, 'X');
-          const y1 = getGridOffset(yStart, 'Y');
-          const y2 = getGridOffset(yEnd, 'Y');
+        } else if (template.type === 'slab' && (instance.placement.boundary || (instance.placement.gridRef && instance.placement.gridRef.length >= 2))) {
+          // Slab calculation: grid panel, or polygon outline less opening polygons
+          const panel = getGridPanel(instance.placement.gridRef);
+          const polygon = getSlabPolygon(instance, panel);
 
-          if (x1 === null || x2 === null || y1 === null || y2 === null) {
+          if (!panel && !polygon) {
             errors.push(`Could not determine slab area for instance ${instance.id}`);
             continue;
           }
 
-          const width = Math.abs(x2 - x1);
-          const height = Math.abs(y2 - y1);
-          const area = width * height;
+          const outlineGeometry = polygon ? calculateSlabOutline(polygon.outline, polygon.openings) : null;
+          const width = outlineGeometry ? outlineGeometry.xMax - outlineGeometry.xMin : panel!.xMax - panel!.xMin;
+          const height = outlineGeometry ? outlineGeometry.yMax - outlineGeometry.yMin : panel!.yMax - panel!.yMin;
+          const area = outlineGeometry ? outlineGeometry.netArea : width * height;
+          const outlineAssumptions = outlineGeometry ? [getOutlineAssumption(outlineGeometry, !!instance.placement.boundary)] : [];
 
           // Get slab thickness from template
           const thickness = typeof template.properties.thickness === 'number' ? template.properties.thickness : 
@@ -307,7 +560,7 @@ export async function POST(
             unit: 'm³',
             formulaText: result.formulaText,
             inputsSnapshot: result.inputs,
-            assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`],
+            assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`, ...outlineAssumptions],
             tags: [
               `type:slab`,
               `template:${template.name}`,
@@ -319,10 +572,22 @@ export async function POST(
 
           takeoffLines.push(takeoffLine);
 
+          // Joint geometry for intersection deductions (top of slab at level)
+          // Polygon outlines are not boxed; their joints stay in the slab volume
+          if (settings.deductIntersections && panel && !instance.placement.boundary) {
+            elementBoxes.push({
+              id: instance.id,
+              type: 'slab',
+              ...panel,
+              zMin: level.elevation - thickness,
+              zMax: level.elevation,
+            });
+          }
+
           // Rebar calculation for slab (if configured)
           if (template.rebarConfig) {
-            const xLength = Math.abs(x2 - x1);
-            const yLength = Math.abs(y2 - y1);
+            const xLength = width;
+            const yLength = height;
 
             // Main bars (typically in longer direction)
             if (template.rebarConfig.mainBars && template.rebarConfig.mainBars.diameter) {
@@ -331,11 +596,23 @@ export async function POST(
                 ? yLength / (template.rebarConfig.mainBars.count - 1)
                 : 0.15; // default 150mm spacing
 
-              const mainBarsResult = calculateSlabMainBars(
-                template.rebarConfig.mainBars.diameter,
-                spacing,
-                xLength, // bar length
-                1, // single span for this panel
+              // Polygon slabs: bar pieces cut at the outline and openings, spaced at the template spacing
+              const runs = polygon
+                ? calculateSlabBarRuns(polygon.outline, polygon.openings, 'X', template.rebarConfig.mainBars.spacing || spacing, SLAB_COVER)
+                : null;
+
+              const diameter = template.rebarConfig.mainBars.diameter;
+              const detailing: MainBarDetailing = {
+                start: { development: calculateDevelopmentLength(diameter, true), hooked: true },
+                end: { development: calculateDevelopmentLength(diameter, true), hooked: true },
+                stockLength: maxStockLength,
+                spliceLapLength: getSpliceLapLength(diameter),
+              };
+              const mainBarsResult = calculateMainBarWeight(
+                diameter,
+                runs ? runs.pieces.length : calculateBarCount(xLength, spacing), // bars across the panel, as in calculateSlabMainBars
+                runs ? runs.totalLength / Math.max(runs.pieces.length, 1) : xLength, // bar run (average piece for polygons)
+                detailing,
                 settings.waste.rebar
               );
 
@@ -351,7 +628,12 @@ export async function POST(
                 unit: 'kg',
                 formulaText: mainBarsResult.formulaText,
                 inputsSnapshot: mainBarsResult.inputs,
-                assumptions: [`Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`, `DPWH Item: ${dpwhRebarItem}`],
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  ...getDetailingAssumptions(mainBarsResult.inputs, 'hooked into supporting beams at both ends'),
+                  ...(runs ? [`Bar pieces: ${runs.pieces.length} along X, ${runs.totalLength.toFixed(2)}m total, longest ${runs.longestPiece.toFixed(2)}m`] : []),
+                ],
                 tags: [
                   `type:slab`,
                   `rebar:main`,
@@ -366,13 +648,24 @@ export async function POST(
 
             // Secondary bars (perpendicular direction)
             if (template.rebarConfig.secondaryBars) {
-              const secondaryBarsResult = calculateSlabMainBars(
-                template.rebarConfig.secondaryBars.diameter,
-                template.rebarConfig.secondaryBars.spacing,
-                yLength, // bar length in perpendicular direction
-                1,
-                settings.waste.rebar
-              );
+              const runs = polygon
+                ? calculateSlabBarRuns(polygon.outline, polygon.openings, 'Y', template.rebarConfig.secondaryBars.spacing, SLAB_COVER)
+                : null;
+              const secondaryBarsResult = runs
+                ? calculateBarWeight({
+                    barDiameter: template.rebarConfig.secondaryBars.diameter,
+                    barLength: runs.totalLength / Math.max(runs.pieces.length, 1),
+                    barCount: runs.pieces.length,
+                    lapLength: calculateLapLength(template.rebarConfig.secondaryBars.diameter),
+                    waste: settings.waste.rebar,
+                  })
+                : calculateSlabMainBars(
+                    template.rebarConfig.secondaryBars.diameter,
+                    template.rebarConfig.secondaryBars.spacing,
+                    yLength, // bar length in perpendicular direction
+                    1,
+                    settings.waste.rebar
+                  );
 
               const dpwhRebarItem = getDPWHRebarItem(template.rebarConfig.secondaryBars.diameter);
 
@@ -385,7 +678,11 @@ export async function POST(
                 unit: 'kg',
                 formulaText: secondaryBarsResult.formulaText,
                 inputsSnapshot: secondaryBarsResult.inputs,
-                assumptions: [`Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`, `DPWH Item: ${dpwhRebarItem}`],
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  ...(runs ? [`Bar pieces: ${runs.pieces.length} along Y, ${runs.totalLength.toFixed(2)}m total, longest ${runs.longestPiece.toFixed(2)}m`] : []),
+                ],
                 tags: [
                   `type:slab`,
                   `rebar:secondary`,
@@ -399,28 +696,126 @@ export async function POST(
             }
           }
 
-          // Formwork calculation for slab (soffit)
-          const formworkResult = calculateSlabFormwork(area);
+          const onGrade = template.slabSupport === 'on-grade';
+          const slabTags = [
+            `type:slab`,
+            `template:${template.name}`,
+            `level:${level.label}`,
+            ...(instance.tags || []),
+          ];
+
+          // Formwork calculation for slab: soffit (plus opening edges for polygon slabs) when suspended,
+          // edge forms only when cast on grade
+          const formworkResult = onGrade
+            ? outlineGeometry
+              ? calculateSlabOutlineFormwork(outlineGeometry, thickness, 'mat')
+              : calculateMatFormwork(width, height, thickness)
+            : outlineGeometry
+              ? calculateSlabOutlineFormwork(outlineGeometry, thickness, 'slab')
+              : calculateSlabFormwork(area);
           
           takeoffLines.push({
             id: `tof_${instance.id}_formwork`,
             sourceElementId: instance.id,
             trade: 'Formwork',
-            resourceKey: 'formwork-slab',
+            resourceKey: onGrade ? 'formwork-slab-edge' : 'formwork-slab',
             quantity: roundArea(formworkResult.area, settings.rounding.formwork),
             unit: 'm²',
             formulaText: formworkResult.formulaText,
             inputsSnapshot: formworkResult.inputs,
-            assumptions: ['Soffit formwork (bottom surface)'],
-            tags: [
-              `type:slab`,
-              `template:${template.name}`,
-              `level:${level.label}`,
-              ...(instance.tags || []),
-            ],
+            assumptions: onGrade
+              ? ['Slab on grade: edge forms only (no soffit)']
+              : outlineGeometry
+                ? ['Soffit formwork (net of openings) + opening edge forms; outer edges bear on beams']
+                : ['Soffit formwork (bottom surface)'],
+            tags: slabTags,
             calculatedAt: new Date(),
           });
 
+          if (onGrade) {
+            // Slab on grade: gravel bedding, poly sheet and compacted ground under the slab
+            // Compaction places no fill, so it is paid with the bedding rather than billed as embankment
+            const beddingThickness = (typeof template.properties.beddingThickness === 'number'
+              ? template.properties.beddingThickness
+              : (template.properties as unknown as Map<string, number>).get?.('beddingThickness')) || DEFAULT_BEDDING_THICKNESS;
+            const supportLines = [
+              {
+                suffix: 'bedding',
+                trade: 'Earthwork' as const,
+                resourceKey: 'gravel-bedding',
+                unit: 'm³',
+                result: calculateGravelBedding(area, beddingThickness),
+                dpwhItem: SLAB_SUPPORT_DPWH_ITEMS.bedding,
+                note: `Gravel bedding ${(beddingThickness * 1000).toFixed(0)}mm under slab`,
+              },
+              {
+                suffix: 'vapour_barrier',
+                trade: 'Waterproofing' as const,
+                resourceKey: 'poly-sheet',
+                unit: 'm²',
+                result: calculateVapourBarrier(area),
+                dpwhItem: SLAB_SUPPORT_DPWH_ITEMS.vapourBarrier,
+                note: 'Polyethylene sheet vapour barrier over bedding',
+              },
+              {
+                suffix: 'compaction',
+                trade: 'Earthwork' as const,
+                resourceKey: 'subgrade-compaction',
+                unit: 'm³',
+                result: calculateSubgradeCompaction(area),
+                paidUnder: SUBGRADE_COMPACTION_PAID_UNDER,
+                note: 'Ground compacted under bedding, no fill placed',
+              },
+            ];
+
+            for (const supportLine of supportLines) {
+              takeoffLines.push({
+                id: `tof_${instance.id}_${supportLine.suffix}`,
+                sourceElementId: instance.id,
+                trade: supportLine.trade,
+                resourceKey: supportLine.resourceKey,
+                quantity: Math.round(supportLine.result.quantity * 100) / 100,
+                unit: supportLine.unit,
+                formulaText: supportLine.result.formulaText,
+                inputsSnapshot: supportLine.result.inputs,
+                assumptions: supportLine.paidUnder
+                  ? [supportLine.note, `Paid under DPWH Item ${supportLine.paidUnder}`]
+                  : [supportLine.note, `DPWH Item: ${supportLine.dpwhItem}`],
+                tags: supportLine.paidUnder
+                  ? [...slabTags, `paidUnder:${supportLine.paidUnder}`]
+                  : [...slabTags, `dpwh:${supportLine.dpwhItem}`],
+                calculatedAt: new Date(),
+              });
+            }
+          } else {
+            // Suspended slab: shoring from the level below to the soffit
+            const levelBelow = [...levels]
+              .filter((l: Level) => l.elevation < level.elevation)
+              .sort((a: Level, b: Level) => b.elevation - a.elevation)[0];
+            const shoreHeight = level.elevation - thickness - (levelBelow ? levelBelow.elevation : 0);
+
+            if (shoreHeight > 0) {
+              // Falsework is paid with the soffit formwork: an allowance kept out of the formwork totals and the BOQ
+              const shoringResult = calculateSlabShoring(area, shoreHeight);
+              takeoffLines.push({
+                id: `tof_${instance.id}_shoring`,
+                sourceElementId: instance.id,
+                trade: 'General Requirements',
+                resourceKey: 'shoring-slab',
+                quantity: shoringResult.quantity,
+                unit: 'pcs',
+                formulaText: shoringResult.formulaText,
+                inputsSnapshot: shoringResult.inputs,
+                assumptions: [
+                  `Shores from ${levelBelow ? levelBelow.label : 'ground (0.00m)'} to slab soffit`,
+                  `Paid under DPWH Item ${SLAB_SHORING_PAID_UNDER} with the soffit formwork`,
+                ],
+                tags: [...slabTags, `paidUnder:${SLAB_SHORING_PAID_UNDER}`],
+                calculatedAt: new Date(),
+              });
+            }
+          }
+
         } else if (template.type === 'column') {
           // Column calculation - height is from current level to end level (or next level if not specified)
           let endLevel: Level | null;
@@ -507,16 +902,56 @@ export async function POST(
 
           takeoffLines.push(takeoffLine);
 
+          // Joint geometry for intersection deductions (centered on the grid intersection)
+          if (settings.deductIntersections && instance.placement.gridRef && instance.placement.gridRef.length >= 2) {
+            const cx = getGridOffset(instance.placement.gridRef[0], 'X');
+            const cy = getGridOffset(instance.placement.gridRef[1], 'Y');
+            if (cx !== null && cy !== null) {
+              // Circular columns use the square of equal area
+              const sizeX = isCircular ? Math.sqrt(Math.PI) * diameter / 2 : width;
+              const sizeY = isCircular ? Math.sqrt(Math.PI) * diameter / 2 : height;
+              elementBoxes.push({
+                id: instance.id,
+                type: 'column',
+                xMin: cx - sizeX / 2,
+                xMax: cx + sizeX / 2,
+                yMin: cy - sizeY / 2,
+                yMax: cy + sizeY / 2,
+                zMin: level.elevation,
+                zMax: endLevel.elevation,
+              });
+            }
+          }
+
           // Rebar calculation for column (if configured)
           if (template.rebarConfig) {
             // Main bars (longitudinal)
             if (template.rebarConfig.mainBars?.count && template.rebarConfig.mainBars.diameter) {
-              const mainBarsResult = calculateColumnMainBars(
-                template.rebarConfig.mainBars.diameter,
+              // Lowest storey: hooked into the footing; upper storeys start from the lap of the bars below.
+              // Top storey: hooked into the roof beams; otherwise lapped with the column bars above.
+              const diameter = template.rebarConfig.mainBars.diameter;
+              const sortedElevations = levels.map((l: Level) => l.elevation).sort((a: number, b: number) => a - b);
+              const isBottomStorey = level.elevation === sortedElevations[0];
+              const isTopStorey = endLevel.elevation === sortedElevations[sortedElevations.length - 1];
+              const detailing: MainBarDetailing = {
+                start: isBottomStorey ? { development: calculateDevelopmentLength(diameter, true), hooked: true } : null,
+                end: isTopStorey
+                  ? { development: calculateDevelopmentLength(diameter, true), hooked: true }
+                  : { development: getSpliceLapLength(diameter), hooked: false },
+                stockLength: maxStockLength,
+                spliceLapLength: getSpliceLapLength(diameter),
+              };
+              const mainBarsResult = calculateMainBarWeight(
+                diameter,
                 template.rebarConfig.mainBars.count,
                 columnHeight,
+                detailing,
                 settings.waste.rebar
               );
+              const columnAnchorage = [
+                isBottomStorey ? 'hooked into footing' : 'lapped by bars from storey below',
+                isTopStorey ? 'hooked into roof beams' : 'lapped with column bars above',
+              ].join(', ');
 
               const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || 
                 getDPWHRebarItem(template.rebarConfig.mainBars.diameter);
@@ -530,7 +965,11 @@ export async function POST(
                 unit: 'kg',
                 formulaText: mainBarsResult.formulaText,
                 inputsSnapshot: mainBarsResult.inputs,
-                assumptions: [`Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`, `DPWH Item: ${dpwhRebarItem}`],
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  ...getDetailingAssumptions(mainBarsResult.inputs, columnAnchorage),
+                ],
                 tags: [
                   `type:column`,
                   `rebar:main`,
@@ -615,29 +1054,25 @@ export async function POST(
           const isMat = template.properties.thickness !== undefined;
 
           if (isMat) {
-            // Mat foundation (like a slab)
-            if (!instance.placement.gridRef || instance.placement.gridRef.length < 2) {
+            // Mat foundation (like a slab): grid panel, or polygon outline less opening polygons
+            if (!instance.placement.boundary && (!instance.placement.gridRef || instance.placement.gridRef.length < 2)) {
               errors.push(`Mat foundation instance ${instance.id} requires grid reference`);
               continue;
             }
 
-            const [xRef, yRef] = instance.placement.gridRef;
-            const [xStart, xEnd] = xRef.split('-');
-            const [yStart, yEnd] = yRef.split('-');
+            const panel = getGridPanel(instance.placement.gridRef);
+            const polygon = getSlabPolygon(instance, panel);
 
-            const x1 = getGridOffset(xStart, 'X');
-            const x2 = getGridOffset(xEnd, 'X');
-            const y1 = getGridOffset(yStart, 'Y');
-            const y2 = getGridOffset(yEnd, 'Y');
-
-            if (x1 === null || x2 === null || y1 === null || y2 === null) {
+            if (!panel && !polygon) {
               errors.push(`Could not determine mat foundation area for instance ${instance.id}`);
               continue;
             }
 
-            const width = Math.abs(x2 - x1);
-            const height = Math.abs(y2 - y1);
-            const area = width * height;
+            const outlineGeometry = polygon ? calculateSlabOutline(polygon.outline, polygon.openings) : null;
+            const width = outlineGeometry ? outlineGeometry.xMax - outlineGeometry.xMin : panel!.xMax - panel!.xMin;
+            const height = outlineGeometry ? outlineGeometry.yMax - outlineGeometry.yMin : panel!.yMax - panel!.yMin;
+            const area = outlineGeometry ? outlineGeometry.netArea : width * height;
+            const outlineAssumptions = outlineGeometry ? [getOutlineAssumption(outlineGeometry, !!instance.placement.boundary)] : [];
 
             const thickness = typeof template.properties.thickness === 'number' ? template.properties.thickness : 
                              (template.properties as any).get?.('thickness') || 0;
@@ -662,7 +1097,7 @@ export async function POST(
               unit: 'm³',
               formulaText: result.formulaText,
               inputsSnapshot: result.inputs,
-              assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`, `Type: Mat Foundation`],
+              assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`, `Type: Mat Foundation`, ...outlineAssumptions],
               tags: [
                 `type:foundation`,
                 `subtype:mat`,
@@ -675,6 +1110,14 @@ export async function POST(
 
             takeoffLines.push(takeoffLine);
 
+            addStructureExcavationLines(instance, template, level, {
+              area: outlineGeometry ? outlineGeometry.grossArea : area,
+              perimeter: outlineGeometry ? outlineGeometry.outerEdgeLength : 2 * (width + height),
+              concreteArea: area,
+              thickness,
+              buriedColumns: 0,
+            }, 'mat');
+
             // Mat foundation rebar calculations (if configured)
             if (template.rebarConfig) {
               const rebarConfig = template.rebarConfig;
@@ -684,14 +1127,23 @@ export async function POST(
                 const diameter = rebarConfig.mainBars.diameter;
                 const spacing = rebarConfig.mainBars.spacing || 0.15; // Default 150mm spacing
 
-                // Main bars in one direction
-                const mainBarsResult = calculateSlabMainBars(
-                  diameter,
-                  spacing,
-                  width, // bar length
-                  1, // single slab (already has full area)
-                  settings.waste.rebar
-                );
+                // Main bars in one direction (polygon mats: pieces cut at the outline and openings)
+                const runs = polygon ? calculateSlabBarRuns(polygon.outline, polygon.openings, 'X', spacing, MAT_COVER) : null;
+                const mainBarsResult = runs
+                  ? calculateBarWeight({
+                      barDiameter: diameter,
+                      barLength: runs.totalLength / Math.max(runs.pieces.length, 1),
+                      barCount: runs.pieces.length,
+                      lapLength: calculateLapLength(diameter),
+                      waste: settings.waste.rebar,
+                    })
+                  : calculateSlabMainBars(
+                      diameter,
+                      spacing,
+                      width, // bar length
+                      1, // single slab (already has full area)
+                      settings.waste.rebar
+                    );
 
                 const dpwhMainItem = rebarConfig.dpwhRebarItem || getDPWHRebarItem(diameter, false);
 
@@ -730,13 +1182,22 @@ export async function POST(
                 const diameter = rebarConfig.secondaryBars.diameter;
                 const spacing = rebarConfig.secondaryBars.spacing || 0.15; // Default 150mm spacing
 
-                const secondaryBarsResult = calculateSlabMainBars(
-                  diameter,
-                  spacing,
-                  height, // bar length in perpendicular direction
-                  1, // single slab
-                  settings.waste.rebar
-                );
+                const runs = polygon ? calculateSlabBarRuns(polygon.outline, polygon.openings, 'Y', spacing, MAT_COVER) : null;
+                const secondaryBarsResult = runs
+                  ? calculateBarWeight({
+                      barDiameter: diameter,
+                      barLength: runs.totalLength / Math.max(runs.pieces.length, 1),
+                      barCount: runs.pieces.length,
+                      lapLength: calculateLapLength(diameter),
+                      waste: settings.waste.rebar,
+                    })
+                  : calculateSlabMainBars(
+                      diameter,
+                      spacing,
+                      height, // bar length in perpendicular direction
+                      1, // single slab
+                      settings.waste.rebar
+                    );
 
                 const dpwhSecondaryItem = rebarConfig.dpwhRebarItem || getDPWHRebarItem(diameter, false);
 
@@ -770,8 +1231,10 @@ export async function POST(
                 takeoffLines.push(secondaryTakeoffLine);
               }
 
-              // Mat formwork (perimeter edges only)
-              const matFormworkResult = calculateMatFormwork(width, height, thickness);
+              // Mat formwork (perimeter edges only; polygon mats form the outline and opening edges)
+              const matFormworkResult = outlineGeometry
+                ? calculateSlabOutlineFormwork(outlineGeometry, thickness, 'mat')
+                : calculateMatFormwork(width, height, thickness);
               
               const matFormworkLine: TakeoffLine = {
                 id: `tof_${instance.id}_formwork`,
@@ -841,6 +1304,14 @@ export async function POST(
 
             takeoffLines.push(takeoffLine);
 
+            addStructureExcavationLines(instance, template, level, {
+              area: length * width,
+              perimeter: 2 * (length + width),
+              concreteArea: length * width,
+              thickness: depth,
+              buriedColumns: getBuriedColumnVolume(instance.placement.gridRef),
+            }, 'footing');
+
             // Foundation rebar calculations (if configured)
             if (template.rebarConfig) {
               const rebarConfig = template.rebarConfig;
@@ -964,12 +1435,776 @@ export async function POST(
               takeoffLines.push(footingFormworkLine);
             }
           }
+        } else if (template.type === 'pile') {
+          // Pile group: bored (cast in drilled holes) or driven (precast) piles with optional pile cap
+          // Placed at a grid intersection; the instance level is the top of the pile cap
+          if (!instance.placement.gridRef || instance.placement.gridRef.length < 2) {
+            errors.push(`Pile instance ${instance.id} requires a grid intersection`);
+            continue;
+          }
+
+          const getPileProperty = (key: string): number | undefined => {
+            const value = typeof template.properties[key] === 'number' ? template.properties[key] :
+              (template.properties as unknown as Map<string, number>).get?.(key);
+            return typeof value === 'number' ? value : undefined;
+          };
+          const customGeometry = instance.placement.customGeometry;
+          const customLength = customGeometry
+            ? (typeof customGeometry.length === 'number' ? customGeometry.length :
+              (customGeometry as unknown as Map<string, number>).get?.('length'))
+            : undefined;
+
+          const pileType = template.pileType || 'bored';
+          const isCircular = pileType === 'bored';
+          const size = (isCircular ? getPileProperty('diameter') : getPileProperty('width')) || 0;
+          const pileLength = customLength ?? getPileProperty('length') ?? 0;
+          const cutoffAllowance = getPileProperty('cutoffAllowance') ?? DEFAULT_PILE_CUTOFF[pileType];
+          const pileCount = getPileProperty('pileCount') || 1;
+
+          if (size <= 0 || pileLength <= 0) {
+            errors.push(`Pile template '${template.name}' has invalid dimensions (${isCircular ? 'diameter' : 'width'}: ${size}, length: ${pileLength})`);
+            continue;
+          }
+
+          const lengths = calculatePileLengths(pileLength, cutoffAllowance, pileCount);
+          const pileTags = [
+            `type:pile`,
+            `subtype:${pileType}`,
+            `template:${template.name}`,
+            `level:${level.label}`,
+          ];
+          const lengthAssumption = customLength !== undefined
+            ? `Pile length: ${pileLength.toFixed(2)}m (instance override)`
+            : `Pile length: ${pileLength.toFixed(2)}m (template)`;
+
+          // DPWH piling items (template item overrides the size-matched item)
+          const pilingItems = getDPWHPilingItems(pileType, size);
+          const sizeItem = template.dpwhItemNumber || (isCircular ? pilingItems.installed : pilingItems.furnished);
+          if (!sizeItem) {
+            errors.push(`Pile template '${template.name}': no DPWH piling item for ${isCircular ? 'Ø' : ''}${size.toFixed(2)}m ${pileType} piles, assign one on the template`);
+          }
+
+          // Pile shaft concrete (cast length includes the cutoff allowance)
+          const pileConcrete = calculatePileConcrete({
+            shape: isCircular ? 'circular' : 'square',
+            diameter: isCircular ? size : undefined,
+            width: isCircular ? undefined : size,
+            depth: pileLength + cutoffAllowance,
+            waste: settings.waste.concrete,
+          });
+
+          takeoffLines.push({
+            id: `tof_${instance.id}_concrete`,
+            sourceElementId: instance.id,
+            trade: 'Concrete',
+            resourceKey: 'concrete-class-a',
+            quantity: roundVolume(pileConcrete.volumeWithWaste * pileCount, settings.rounding.concrete),
+            unit: 'm³',
+            formulaText: `${pileCount} piles × [${pileConcrete.formulaText}] = ${(pileConcrete.volumeWithWaste * pileCount).toFixed(3)} m³`,
+            inputsSnapshot: { ...pileConcrete.inputs, pileLength, cutoffAllowance, pileCount },
+            assumptions: [
+              `Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`,
+              lengthAssumption,
+              `Cutoff allowance: ${cutoffAllowance.toFixed(2)}m per pile`,
+              ...(sizeItem ? [`Paid under DPWH ${sizeItem} (per meter)`] : []),
+            ],
+            tags: [
+              ...pileTags,
+              ...(sizeItem ? [`paidUnder:${sizeItem}`] : []),
+              ...(instance.tags || []),
+            ],
+            calculatedAt: new Date(),
+          });
+
+          // Piling pay items (Item 1052, per meter)
+          const pilingLines: { suffix: string; item: string | null; quantity: number; formulaText: string; note: string }[] = isCircular
+            ? [
+                { suffix: 'piling', item: sizeItem, quantity: lengths.paidLength, formulaText: `${pileCount} piles × ${pileLength.toFixed(2)}m = ${lengths.paidLength.toFixed(2)}m`, note: 'Paid length: cutoff level to tip (overpour not paid)' },
+              ]
+            : [
+                { suffix: 'piling_furnished', item: sizeItem, quantity: lengths.totalLength, formulaText: lengths.formulaText, note: 'Furnished length includes the cutoff allowance' },
+                { suffix: 'piling', item: pilingItems.installed, quantity: lengths.paidLength, formulaText: `${pileCount} piles × ${pileLength.toFixed(2)}m = ${lengths.paidLength.toFixed(2)}m`, note: 'Driven length: cutoff level to tip' },
+              ];
+
+          for (const pilingLine of pilingLines) {
+            if (!pilingLine.item) continue;
+            takeoffLines.push({
+              id: `tof_${instance.id}_${pilingLine.suffix}`,
+              sourceElementId: instance.id,
+              trade: 'Foundation',
+              resourceKey: `pile-${pileType}`,
+              quantity: Math.round(pilingLine.quantity * 100) / 100,
+              unit: 'm',
+              formulaText: pilingLine.formulaText,
+              inputsSnapshot: { size, pileLength, cutoffAllowance, pileCount },
+              assumptions: [pilingLine.note, lengthAssumption, `DPWH Item: ${pilingLine.item}`],
+              tags: [
+                ...pileTags,
+                `dpwh:${pilingLine.item}`,
+                ...(instance.tags || []),
+              ],
+              calculatedAt: new Date(),
+            });
+          }
+
+          // Pile rebar (if configured)
+          if (template.rebarConfig) {
+            const cover = PILE_COVER[pileType];
+
+            // Longitudinal bars: tip to cutoff level, developed straight into the pile cap
+            if (template.rebarConfig.mainBars?.diameter && template.rebarConfig.mainBars?.count) {
+              const diameter = template.rebarConfig.mainBars.diameter;
+              const detailing: MainBarDetailing = {
+                start: null,
+                end: { development: calculateDevelopmentLength(diameter, false), hooked: false },
+                stockLength: maxStockLength,
+                spliceLapLength: getSpliceLapLength(diameter),
+              };
+              const mainBarsResult = calculateMainBarWeight(
+                diameter,
+                template.rebarConfig.mainBars.count * pileCount,
+                pileLength,
+                detailing,
+                settings.waste.rebar
+              );
+              const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || getDPWHRebarItem(diameter);
+
+              takeoffLines.push({
+                id: `tof_${instance.id}_rebar_main`,
+                sourceElementId: instance.id,
+                trade: 'Rebar',
+                resourceKey: `rebar-${diameter}mm`,
+                quantity: Math.round(mainBarsResult.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar),
+                unit: 'kg',
+                formulaText: mainBarsResult.formulaText,
+                inputsSnapshot: mainBarsResult.inputs,
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  `${template.rebarConfig.mainBars.count} bars per pile × ${pileCount} piles`,
+                  ...getDetailingAssumptions(mainBarsResult.inputs, 'straight development into pile cap'),
+                ],
+                tags: [
+                  ...pileTags,
+                  `rebar:main`,
+                  `dpwh:${dpwhRebarItem}`,
+                  ...(instance.tags || []),
+                ],
+                calculatedAt: new Date(),
+              });
+            }
+
+            // Lateral bars: continuous spiral (bored) or square ties (driven), pitch = stirrup spacing
+            if (template.rebarConfig.stirrups?.diameter && template.rebarConfig.stirrups?.spacing) {
+              const diameter = template.rebarConfig.stirrups.diameter;
+              const pitch = template.rebarConfig.stirrups.spacing;
+              const coreSize = size - 2 * cover;
+              const lateralResult = isCircular
+                ? calculatePileSpiralWeight(diameter, pitch, coreSize, pileLength, pileCount, settings.waste.rebar)
+                : calculateBarWeight({
+                    barDiameter: diameter,
+                    barLength: 4 * coreSize + 0.15, // 0.15m for hooks
+                    barCount: calculateBarCount(pileLength, pitch) * pileCount,
+                    waste: settings.waste.rebar,
+                  });
+              const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || getDPWHRebarItem(diameter);
+
+              takeoffLines.push({
+                id: `tof_${instance.id}_rebar_${isCircular ? 'spiral' : 'ties'}`,
+                sourceElementId: instance.id,
+                trade: 'Rebar',
+                resourceKey: `rebar-${diameter}mm`,
+                quantity: Math.round(lateralResult.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar),
+                unit: 'kg',
+                formulaText: lateralResult.formulaText,
+                inputsSnapshot: lateralResult.inputs,
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  isCircular
+                    ? `Spiral: ${(pitch * 1000).toFixed(0)}mm pitch, core Ø${coreSize.toFixed(2)}m (${(cover * 1000).toFixed(0)}mm cover)`
+                    : `Ties: @ ${(pitch * 1000).toFixed(0)}mm, ${coreSize.toFixed(2)}m square (${(cover * 1000).toFixed(0)}mm cover)`,
+                ],
+                tags: [
+                  ...pileTags,
+                  `rebar:${isCircular ? 'spiral' : 'ties'}`,
+                  `dpwh:${dpwhRebarItem}`,
+                  ...(instance.tags || []),
+                ],
+                calculatedAt: new Date(),
+              });
+            }
+          }
+
+          // Pile cap (box), priced as structural concrete
+          const capLength = getPileProperty('capLength') || 0;
+          const capWidth = getPileProperty('capWidth') || 0;
+          const capDepth = getPileProperty('capDepth') || 0;
+
+          if (capLength > 0 && capWidth > 0 && capDepth > 0) {
+            const capTags = [
+              `type:pile`,
+              `subtype:pileCap`,
+              `template:${template.name}`,
+              `level:${level.label}`,
+            ];
+            const capConcrete = calculateFootingConcrete({
+              length: capLength,
+              width: capWidth,
+              depth: capDepth,
+              waste: settings.waste.concrete,
+            });
+
+            takeoffLines.push({
+              id: `tof_${instance.id}_cap_concrete`,
+              sourceElementId: instance.id,
+              trade: 'Concrete',
+              resourceKey: 'concrete-class-a',
+              quantity: roundVolume(capConcrete.volumeWithWaste, settings.rounding.concrete),
+              unit: 'm³',
+              formulaText: capConcrete.formulaText,
+              inputsSnapshot: capConcrete.inputs,
+              assumptions: [`Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`, `Type: Pile Cap (${pileCount} piles)`],
+              tags: [
+                ...capTags,
+                `dpwh:${PILE_CAP_CONCRETE_ITEM}`,
+                ...(instance.tags || []),
+              ],
+              calculatedAt: new Date(),
+            });
+
+            const capFormwork = calculateFootingFormwork(capLength, capWidth, capDepth);
+            takeoffLines.push({
+              id: `tof_${instance.id}_cap_formwork`,
+              sourceElementId: instance.id,
+              trade: 'Formwork',
+              resourceKey: 'formwork-footing',
+              quantity: roundArea(capFormwork.area, settings.rounding.formwork || 2),
+              unit: 'm²',
+              formulaText: capFormwork.formulaText,
+              inputsSnapshot: capFormwork.inputs,
+              assumptions: ['All 4 vertical sides (bottom on blinding)'],
+              tags: [...capTags, ...(instance.tags || [])],
+              calculatedAt: new Date(),
+            });
+
+            // Cap bottom mat: secondary bars both ways
+            if (template.rebarConfig?.secondaryBars?.diameter) {
+              const diameter = template.rebarConfig.secondaryBars.diameter;
+              const spacing = template.rebarConfig.secondaryBars.spacing || 0.15;
+              const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || getDPWHRebarItem(diameter);
+
+              for (const [direction, barLength] of [['length', capLength], ['width', capWidth]] as const) {
+                const capBarsResult = calculateSlabMainBars(diameter, spacing, barLength, 1, settings.waste.rebar);
+
+                takeoffLines.push({
+                  id: `tof_${instance.id}_cap_rebar_${direction}`,
+                  sourceElementId: instance.id,
+                  trade: 'Rebar',
+                  resourceKey: `rebar-${diameter}mm`,
+                  quantity: Math.round(capBarsResult.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar),
+                  unit: 'kg',
+                  formulaText: capBarsResult.formulaText,
+                  inputsSnapshot: capBarsResult.inputs,
+                  assumptions: [
+                    `Lap: ${calculateLapLength(diameter).toFixed(2)}m`,
+                    `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                    `DPWH Item: ${dpwhRebarItem}`,
+                    `Grade: ${getRebarGrade(diameter)}`,
+                    `Bottom mat along cap ${direction}`,
+                  ],
+                  tags: [
+                    ...capTags,
+                    `rebar:secondary`,
+                    `dpwh:${dpwhRebarItem}`,
+                    ...(instance.tags || []),
+                  ],
+                  calculatedAt: new Date(),
+                });
+              }
+            }
+          }
+        } else if (template.type === 'stair') {
+          // Stair: flights and landings rising from this level to the end level (or the next level)
+          let endLevel: Level | null;
+
+          if (instance.placement.endLevelId) {
+            endLevel = getLevel(instance.placement.endLevelId);
+            if (!endLevel) {
+              errors.push(`End level '${instance.placement.endLevelId}' not found for stair instance ${instance.id}`);
+              continue;
+            }
+          } else {
+            endLevel = getNextLevel(instance.placement.levelId);
+            if (!endLevel) {
+              errors.push(`Stair instance ${instance.id} at level '${instance.placement.levelId}' skipped - no level above`);
+              continue;
+            }
+          }
+
+          const getStairProperty = (key: string): number | undefined => {
+            const value = typeof template.properties[key] === 'number' ? template.properties[key] :
+              (template.properties as unknown as Map<string, number>).get?.(key);
+            return typeof value === 'number' ? value : undefined;
+          };
+
+          const width = getStairProperty('width') || 0;
+          const stairInput: StairInput = {
+            riser: getStairProperty('riser') || 0,
+            tread: getStairProperty('tread') || 0,
+            width,
+            waistThickness: getStairProperty('waistThickness') || 0,
+            flights: getStairProperty('flights') || 1,
+            landingLength: getStairProperty('landingLength') || 0,
+            landingWidth: getStairProperty('landingWidth') || width,
+            totalRise: endLevel.elevation - level.elevation,
+          };
+          const geometry = calculateStairGeometry(stairInput);
+
+          const stairTags = [
+            `type:stair`,
+            `template:${template.name}`,
+            `level:${level.label}`,
+            `endLevel:${endLevel.label}`,
+          ];
+          const layoutAssumption = `${geometry.riserCount} risers × ${(geometry.riserHeight * 1000).toFixed(0)}mm, ` +
+            `${stairInput.flights} flight(s), ${geometry.landingCount} landing(s)`;
+
+          const stairConcrete = calculateStairConcrete(stairInput, geometry, settings.waste.concrete);
+          takeoffLines.push({
+            id: `tof_${instance.id}_concrete`,
+            sourceElementId: instance.id,
+            trade: 'Concrete',
+            resourceKey: 'concrete-class-a',
+            quantity: roundVolume(stairConcrete.volumeWithWaste, settings.rounding.concrete),
+            unit: 'm³',
+            formulaText: stairConcrete.formulaText,
+            inputsSnapshot: stairConcrete.inputs,
+            assumptions: [
+              `Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`,
+              layoutAssumption,
+              `Rise: ${level.label} → ${endLevel.label} (${stairInput.totalRise.toFixed(2)}m)`,
+            ],
+            tags: [...stairTags, ...(instance.tags || [])],
+            calculatedAt: new Date(),
+          });
+
+          const stairFormwork = calculateStairFormwork(stairInput, geometry);
+          takeoffLines.push({
+            id: `tof_${instance.id}_formwork`,
+            sourceElementId: instance.id,
+            trade: 'Formwork',
+            resourceKey: 'formwork-stair',
+            quantity: roundArea(stairFormwork.area, settings.rounding.formwork || 2),
+            unit: 'm²',
+            formulaText: stairFormwork.formulaText,
+            inputsSnapshot: stairFormwork.inputs,
+            assumptions: ['Soffit of waist and landings + riser faces (sides against walls or stringers)'],
+            tags: [...stairTags, ...(instance.tags || [])],
+            calculatedAt: new Date(),
+          });
+
+          // Stair rebar: main bars along the flights, distribution bars across; landings both ways
+          if (template.rebarConfig) {
+            const cover = STAIR_COVER;
+            const main = template.rebarConfig.mainBars;
+            const distribution = template.rebarConfig.secondaryBars;
+            const longestFlight = Math.max(...geometry.flights.map(f => f.slopeLength));
+            const landingLength = stairInput.landingLength;
+            const landingWidth = stairInput.landingWidth;
+
+            const barRuns: { suffix: string; rebarType: string; diameter: number; barLength: number; barCount: number; lapLength: number; note: string }[] = [];
+            if (main?.diameter && main.spacing) {
+              barRuns.push({
+                suffix: 'rebar_main',
+                rebarType: 'main',
+                diameter: main.diameter,
+                barLength: longestFlight,
+                barCount: calculateBarCount(width - 2 * cover, main.spacing) * stairInput.flights,
+                lapLength: 2 * calculateLapLength(main.diameter),
+                note: `Main bars @ ${(main.spacing * 1000).toFixed(0)}mm along each flight, 40Ø anchorage at each end`,
+              });
+              if (geometry.landingCount > 0) {
+                barRuns.push({
+                  suffix: 'landing_rebar_main',
+                  rebarType: 'main',
+                  diameter: main.diameter,
+                  barLength: landingWidth - 2 * cover,
+                  barCount: calculateBarCount(landingLength - 2 * cover, main.spacing) * geometry.landingCount,
+                  lapLength: 0,
+                  note: `Landing bars @ ${(main.spacing * 1000).toFixed(0)}mm across the landing`,
+                });
+              }
+            }
+            if (distribution?.diameter && distribution.spacing) {
+              barRuns.push({
+                suffix: 'rebar_distribution',
+                rebarType: 'secondary',
+                diameter: distribution.diameter,
+                barLength: width - 2 * cover,
+                barCount: geometry.flights.reduce((sum, f) => sum + calculateBarCount(f.slopeLength - 2 * cover, distribution.spacing), 0),
+                lapLength: 0,
+                note: `Distribution bars @ ${(distribution.spacing * 1000).toFixed(0)}mm across each flight`,
+              });
+              if (geometry.landingCount > 0) {
+                barRuns.push({
+                  suffix: 'landing_rebar_distribution',
+                  rebarType: 'secondary',
+                  diameter: distribution.diameter,
+                  barLength: landingLength - 2 * cover,
+                  barCount: calculateBarCount(landingWidth - 2 * cover, distribution.spacing) * geometry.landingCount,
+                  lapLength: 0,
+                  note: `Landing bars @ ${(distribution.spacing * 1000).toFixed(0)}mm along the landing`,
+                });
+              }
+            }
+
+            for (const run of barRuns) {
+              const rebarResult = calculateBarWeight({
+                barDiameter: run.diameter,
+                barLength: run.barLength,
+                barCount: run.barCount,
+                lapLength: run.lapLength,
+                waste: settings.waste.rebar,
+              });
+              const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || getDPWHRebarItem(run.diameter);
+
+              takeoffLines.push({
+                id: `tof_${instance.id}_${run.suffix}`,
+                sourceElementId: instance.id,
+                trade: 'Rebar',
+                resourceKey: `rebar-${run.diameter}mm`,
+                quantity: Math.round(rebarResult.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar),
+                unit: 'kg',
+                formulaText: rebarResult.formulaText,
+                inputsSnapshot: rebarResult.inputs,
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  `Grade: ${getRebarGrade(run.diameter)}`,
+                  `Cover: ${(cover * 1000).toFixed(0)}mm`,
+                  run.note,
+                ],
+                tags: [
+                  ...stairTags,
+                  `rebar:${run.rebarType}`,
+                  `dpwh:${dpwhRebarItem}`,
+                  ...(instance.tags || []),
+                ],
+                calculatedAt: new Date(),
+              });
+            }
+          }
+        } else if (template.type === 'wall' && instance.placement.gridRef && instance.placement.gridRef.length >= 2) {
+          // Wall: along one grid line span, rising from this level to the end level (or the next level)
+          const [ref1, ref2] = instance.placement.gridRef;
+          const alongX = ref1.includes('-');
+          const [start, end] = (alongX ? ref1 : ref2).split('-');
+          const a = getGridOffset(start, alongX ? 'X' : 'Y');
+          const b = getGridOffset(end, alongX ? 'X' : 'Y');
+          const length = a !== null && b !== null ? Math.abs(b - a) : 0;
+
+          if (length === 0) {
+            errors.push(`Could not determine wall length for instance ${instance.id}`);
+            continue;
+          }
+
+          let endLevel: Level | null;
+
+          if (instance.placement.endLevelId) {
+            endLevel = getLevel(instance.placement.endLevelId);
+            if (!endLevel) {
+              errors.push(`End level '${instance.placement.endLevelId}' not found for wall instance ${instance.id}`);
+              continue;
+            }
+          } else {
+            endLevel = getNextLevel(instance.placement.levelId);
+            if (!endLevel) {
+              errors.push(`Wall instance ${instance.id} at level '${instance.placement.levelId}' skipped - no level above`);
+              continue;
+            }
+          }
+
+          const getWallProperty = (key: string): number | undefined => {
+            const value = typeof template.properties[key] === 'number' ? template.properties[key] :
+              (template.properties as unknown as Map<string, number>).get?.(key);
+            return typeof value === 'number' ? value : undefined;
+          };
+
+          const wallInput: ConcreteWallInput = {
+            length,
+            height: endLevel.elevation - level.elevation,
+            thickness: getWallProperty('thickness') || 0,
+            openings: instance.placement.openings || [],
+          };
+          const openingArea = calculateWallOpeningArea(wallInput.openings);
+
+          const wallTags = [
+            `type:wall`,
+            `template:${template.name}`,
+            `level:${level.label}`,
+            `endLevel:${endLevel.label}`,
+          ];
+          const openingAssumption = wallInput.openings.length > 0
+            ? `Openings: ${wallInput.openings.reduce((sum, o) => sum + o.qty, 0)} (${openingArea.toFixed(2)} m²) deducted`
+            : 'Openings: none';
+
+          const wallConcrete = calculateWallConcrete(wallInput, settings.waste.concrete);
+          takeoffLines.push({
+            id: `tof_${instance.id}_concrete`,
+            sourceElementId: instance.id,
+            trade: 'Concrete',
+            resourceKey: 'concrete-class-a',
+            quantity: roundVolume(wallConcrete.volumeWithWaste, settings.rounding.concrete),
+            unit: 'm³',
+            formulaText: wallConcrete.formulaText,
+            inputsSnapshot: wallConcrete.inputs,
+            assumptions: [
+              `Waste: ${(settings.waste.concrete * 100).toFixed(0)}%`,
+              `Height: ${level.label} → ${endLevel.label} (${wallInput.height.toFixed(2)}m)`,
+              openingAssumption,
+            ],
+            tags: [...wallTags, ...(instance.tags || [])],
+            calculatedAt: new Date(),
+          });
+
+          const wallFormwork = calculateWallFormwork(wallInput);
+          takeoffLines.push({
+            id: `tof_${instance.id}_formwork`,
+            sourceElementId: instance.id,
+            trade: 'Formwork',
+            resourceKey: 'formwork-wall',
+            quantity: roundArea(wallFormwork.area, settings.rounding.formwork || 2),
+            unit: 'm²',
+            formulaText: wallFormwork.formulaText,
+            inputsSnapshot: wallFormwork.inputs,
+            assumptions: ['Contact area: both faces + opening reveals (wall ends against columns)', openingAssumption],
+            tags: [...wallTags, ...(instance.tags || [])],
+            calculatedAt: new Date(),
+          });
+
+          // Wall rebar: vertical bars (mainBars) lapped with the bars below, horizontal bars (secondaryBars) spliced per stock length
+          if (template.rebarConfig) {
+            const layers = getWallProperty('layers') || DEFAULT_WALL_LAYERS;
+            const vertical = template.rebarConfig.mainBars;
+            const horizontal = template.rebarConfig.secondaryBars;
+
+            const barRuns: { suffix: string; rebarType: string; input: WallBarInput; note: string }[] = [];
+            if (vertical?.diameter && vertical.spacing) {
+              const lap = getSpliceLapLength(vertical.diameter);
+              const spliceCount = calculateSpliceCount(wallInput.height + lap, maxStockLength, lap);
+              barRuns.push({
+                suffix: 'rebar_vertical',
+                rebarType: 'vertical',
+                input: {
+                  diameter: vertical.diameter,
+                  spacing: vertical.spacing,
+                  barLength: wallInput.height,
+                  distributionLength: length - 2 * WALL_COVER,
+                  openingArea,
+                  layers,
+                  lapLength: (1 + spliceCount) * lap,
+                  spliceCount,
+                  waste: settings.waste.rebar,
+                },
+                note: `Vertical bars @ ${(vertical.spacing * 1000).toFixed(0)}mm, one ${lap.toFixed(2)}m lap with the bars below`,
+              });
+            }
+            if (horizontal?.diameter && horizontal.spacing) {
+              const lap = getSpliceLapLength(horizontal.diameter);
+              const spliceCount = calculateSpliceCount(length, maxStockLength, lap);
+              barRuns.push({
+                suffix: 'rebar_horizontal',
+                rebarType: 'horizontal',
+                input: {
+                  diameter: horizontal.diameter,
+                  spacing: horizontal.spacing,
+                  barLength: length,
+                  distributionLength: wallInput.height - 2 * WALL_COVER,
+                  openingArea,
+                  layers,
+                  lapLength: spliceCount * lap,
+                  spliceCount,
+                  waste: settings.waste.rebar,
+                },
+                note: `Horizontal bars @ ${(horizontal.spacing * 1000).toFixed(0)}mm, ${spliceCount} splice(s) per ${maxStockLength}m stock`,
+              });
+            }
+
+            for (const run of barRuns) {
+              const rebarResult = calculateWallBars(run.input);
+              const dpwhRebarItem = template.rebarConfig.dpwhRebarItem || getDPWHRebarItem(run.input.diameter);
+
+              takeoffLines.push({
+                id: `tof_${instance.id}_${run.suffix}`,
+                sourceElementId: instance.id,
+                trade: 'Rebar',
+                resourceKey: `rebar-${run.input.diameter}mm`,
+                quantity: Math.round(rebarResult.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar),
+                unit: 'kg',
+                formulaText: rebarResult.formulaText,
+                inputsSnapshot: rebarResult.inputs,
+                assumptions: [
+                  `Waste: ${(settings.waste.rebar * 100).toFixed(0)}%`,
+                  `DPWH Item: ${dpwhRebarItem}`,
+                  `Grade: ${getRebarGrade(run.input.diameter)}`,
+                  `Layers: ${layers}`,
+                  run.note,
+                  openingAssumption,
+                ],
+                tags: [
+                  ...wallTags,
+                  `rebar:${run.rebarType}`,
+                  `dpwh:${dpwhRebarItem}`,
+                  ...(instance.tags || []),
+                ],
+                calculatedAt: new Date(),
+              });
+            }
+          }
         }
       } catch (error) {
         errors.push(`Error calculating instance ${instance.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
+    // ===================================
+    // INTERSECTION DEDUCTIONS
+    // Joint volume is kept by the higher-precedence element and deducted once from the others
+    // ===================================
+    if (settings.deductIntersections) {
+      for (const deduction of calculateIntersectionDeductions(elementBoxes)) {
+        const sourceLine = takeoffLines.find(l => l.id === `tof_${deduction.elementId}_concrete`);
+        if (!sourceLine) continue;
+
+        const volumeWithWaste = deduction.volume * (1 + settings.waste.concrete);
+        takeoffLines.push({
+          id: `tof_${deduction.elementId}_concrete_intersection`,
+          sourceElementId: deduction.elementId,
+          trade: 'Concrete',
+          resourceKey: sourceLine.resourceKey,
+          quantity: -roundVolume(volumeWithWaste, settings.rounding.concrete),
+          unit: 'm³',
+          formulaText: `${deduction.formulaText} (+ ${(settings.waste.concrete * 100).toFixed(0)}% waste = −${volumeWithWaste.toFixed(3)} m³)`,
+          inputsSnapshot: {
+            overlapVolume: deduction.volume,
+            overlappingElements: deduction.overlappingIds.length,
+            waste: settings.waste.concrete,
+          },
+          assumptions: [
+            'Intersection deduction: precedence column > beam > slab',
+            `Deducted from ${deduction.elementType}; joint concrete stays with: ${deduction.overlappingIds.join(', ')}`,
+          ],
+          tags: [...sourceLine.tags, 'adjustment:intersection'],
+          calculatedAt: new Date(),
+        });
+      }
+    }
+
+    // ===================================
+    // CONCRETE MIX MATERIALS
+    // Cement, sand, gravel and water per concrete line, by the class of its DPWH item
+    // ===================================
+    const concreteMaterialLines: ConcreteMaterialLine[] = [];
+
+    const concreteSourceLines = takeoffLines.filter(l => l.trade === 'Concrete' && !l.tags.includes('adjustment:intersection'));
+    for (const line of concreteSourceLines) {
+      const deductionLine = takeoffLines.find(l => l.id === `${line.id}_intersection`);
+      const netVolume = line.quantity + (deductionLine?.quantity || 0);
+      const instance = instances.find((i: ElementInstance) => i.id === line.sourceElementId);
+      const template = templates.find((t: ElementTemplate) => t.id === instance?.templateId);
+      const dpwhTag = line.tags.find(tag => tag.startsWith('dpwh:'));
+      const dpwhItemNumber = dpwhTag?.replace('dpwh:', '') || template?.dpwhItemNumber || '900 (1) a';
+      const catalogItem = dpwhCatalog.find(item => item.itemNumber === dpwhItemNumber);
+
+      const assumptions: string[] = [];
+      let concreteClass = resolveConcreteClass(dpwhItemNumber, catalogItem?.description);
+      if (!concreteClass) {
+        concreteClass = 'A';
+        assumptions.push(`No mix class for DPWH item ${dpwhItemNumber}, Class A assumed`);
+      }
+
+      const mix = CONCRETE_MIX_TABLE[concreteClass];
+      const materials = calculateConcreteMaterials(Math.max(netVolume, 0), mix);
+      assumptions.push(`Mix: Class ${concreteClass} (${mix.proportion}), ${mix.cementBagsPerM3} bags/m³`);
+
+      concreteMaterialLines.push({
+        sourceTakeoffLineId: line.id,
+        sourceElementId: line.sourceElementId,
+        dpwhItemNumberRaw: dpwhItemNumber,
+        concreteClass,
+        concreteVolume: roundVolume(Math.max(netVolume, 0), settings.rounding.concrete),
+        cementBags: materials.cementBags,
+        sand: materials.sand,
+        gravel: materials.gravel,
+        water: materials.water,
+        formulaText: materials.formulaText,
+        assumptions,
+        tags: line.tags,
+      });
+    }
+
+    const concreteMaterials = summarizeConcreteMaterials(concreteMaterialLines);
+
+    // ===================================
+    // REBAR CUTTING STOCK
+    // Pack cut lengths into commercial bars; optionally replace the flat waste with real offcuts
+    // ===================================
+    const rebarOptimization = settings.rebarOptimization;
+    let rebarCuttingPlan: RebarCuttingPlan | undefined;
+
+    try {
+      rebarCuttingPlan = optimizeCuttingStock(extractRebarCuts(takeoffLines), stockLengths);
+
+      if (rebarOptimization?.enabled) {
+        for (const line of takeoffLines) {
+          if (line.trade !== 'Rebar') continue;
+          const inputs = line.inputsSnapshot;
+          const { barDiameter, barLength, barCount, lapLength } = inputs;
+          const plan = rebarCuttingPlan.diameters.find(d => d.diameter === barDiameter);
+          if (!plan || !barLength || !barCount) continue;
+
+          // Detailed main bars keep their anchorage/splice breakdown; wall bars keep their opening deduction
+          const optimized = inputs.runLength !== undefined
+            ? calculateMainBarWeight(barDiameter, barCount, inputs.runLength, {
+                start: { development: inputs.startDevelopment, hooked: inputs.startHook > 0 },
+                end: { development: inputs.endDevelopment, hooked: inputs.endHook > 0 },
+                stockLength: inputs.stockLength,
+                spliceLapLength: inputs.spliceLapLength,
+              }, plan.wastePercent)
+            : inputs.openingDeduction !== undefined
+            ? calculateWallBars({
+                diameter: barDiameter,
+                spacing: inputs.spacing,
+                barLength,
+                distributionLength: inputs.distributionLength,
+                openingArea: inputs.openingArea,
+                layers: inputs.layers,
+                lapLength: inputs.lapLength,
+                spliceCount: inputs.spliceCount,
+                waste: plan.wastePercent,
+              })
+            : calculateBarWeight({
+                barDiameter,
+                barLength,
+                barCount,
+                lapLength: lapLength || undefined,
+                waste: plan.wastePercent,
+              });
+
+          line.quantity = Math.round(optimized.weight * Math.pow(10, settings.rounding.rebar)) / Math.pow(10, settings.rounding.rebar);
+          line.formulaText = optimized.formulaText;
+          line.inputsSnapshot = optimized.inputs;
+          line.assumptions = [
+            ...line.assumptions.filter(a => !a.startsWith('Waste:')),
+            `Waste: ${(plan.wastePercent * 100).toFixed(1)}% (cutting-stock offcuts for ${barDiameter}mm)`,
+          ];
+        }
+      }
+    } catch (error) {
+      errors.push(`Rebar cutting-stock optimization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
     // Calculate summary
     const concreteLines = takeoffLines.filter(line => line.trade === 'Concrete');
     const rebarLines = takeoffLines.filter(line => line.trade === 'Rebar');
@@ -1024,14 +2259,56 @@ export async function POST(
       }
     }
 
+    // ===================================
+    // MASONRY CALCULATION (CHB walls)
+    // ===================================
+    if (project.masonryWalls && project.masonryWalls.length > 0) {
+      try {
+        const masonryResult = await calculateMasonry(project);
+
+        // Add masonry takeoff lines
+        takeoffLines.push(...masonryResult.takeoffLines);
+
+        // Add any errors
+        if (masonryResult.errors.length > 0) {
+          errors.push(...masonryResult.errors);
+        }
+      } catch (error) {
+        errors.push(`Masonry calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // ===================================
+    // EARTHWORK CALCULATION (cross sections, pits, prisms)
+    // ===================================
+    if (
+      (project.earthworkStations && project.earthworkStations.length > 0) ||
+      (project.earthworkPits && project.earthworkPits.length > 0) ||
+      (project.embankmentPrisms && project.embankmentPrisms.length > 0)
+    ) {
+      try {
+        const earthworkResult = await calculateEarthworks(project);
+
+        // Add earthwork takeoff lines
+        takeoffLines.push(...earthworkResult.takeoffLines);
+
+        // Add any errors
+        if (earthworkResult.errors.length > 0) {
+          errors.push(...earthworkResult.errors);
+        }
+      } catch (error) {
+        errors.push(`Earthwork calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
     // ===================================
     // ROOFING CALCULATION (Mode B)
-    // Includes: roof covering (from roofPlanes) + structural system (from trussDesign)
+    // Includes: roof covering (from roofPlanes) + structural system (from trussDesigns)
     // ===================================
     let totalRoofArea = 0;
     let roofPlaneCount = 0;
 
-    if ((project.roofPlanes && project.roofPlanes.length > 0) || project.trussDesign) {
+    if ((project.roofPlanes && project.roofPlanes.length > 0) || project.trussDesign || project.trussDesigns?.length) {
       try {
         const roofingResult = await calculateRoofing(project);
 
@@ -1102,12 +2379,16 @@ export async function POST(
       summary,
       takeoffLines,
       boqLines: [], // Will be populated when BOQ is generated
+      concreteMaterials,
+      rebarCuttingPlan,
       errors: errors.length > 0 ? errors : undefined,
     });
 
     return NextResponse.json({
       takeoffLines,
       summary,
+      concreteMaterials,
+      rebarCuttingPlan,
       runId,
       errors: errors.length > 0 ? errors : undefined,
     });
@@ -64,7 +64,7 @@ export async function PUT(
       }
 
       // Check type
-      if (!['beam', 'slab', 'column', 'foundation'].includes(template.type)) {
+      if (!['beam', 'slab', 'column', 'foundation', 'pile', 'stair', 'wall'].includes(template.type)) {
         errors.push(`Invalid template type: ${template.type}`);
       }
 
@@ -99,6 +99,13 @@ export async function PUT(
         if (typeof template.properties.thickness !== 'number' || template.properties.thickness <= 0) {
           errors.push(`Slab ${template.name}: thickness must be a positive number`);
         }
+        if (template.slabSupport !== undefined && template.slabSupport !== 'suspended' && template.slabSupport !== 'on-grade') {
+          errors.push(`Slab ${template.name}: slabSupport must be 'suspended' or 'on-grade'`);
+        }
+        if (template.properties.beddingThickness !== undefined &&
+            (typeof template.properties.beddingThickness !== 'number' || template.properties.beddingThickness <= 0)) {
+          errors.push(`Slab ${template.name}: beddingThickness must be a positive number`);
+        }
       } else if (template.type === 'foundation') {
         // Foundation can be like slab (mat foundation) or footing (length × width × depth)
         if (template.properties.thickness !== undefined) {
@@ -120,6 +127,46 @@ export async function PUT(
         } else {
           errors.push(`Foundation ${template.name}: must have either thickness (mat foundation) or length+width+depth (footing)`);
         }
+      } else if (template.type === 'pile') {
+        // Bored piles are circular (diameter), driven precast piles are square (width)
+        if (template.pileType !== 'bored' && template.pileType !== 'driven') {
+          errors.push(`Pile ${template.name}: pileType must be 'bored' or 'driven'`);
+        }
+        const sizeKey = template.pileType === 'driven' ? 'width' : 'diameter';
+        if (typeof template.properties[sizeKey] !== 'number' || template.properties[sizeKey] <= 0) {
+          errors.push(`Pile ${template.name}: ${sizeKey} must be a positive number`);
+        }
+        if (typeof template.properties.length !== 'number' || template.properties.length <= 0) {
+          errors.push(`Pile ${template.name}: length must be a positive number`);
+        }
+        if (template.properties.cutoffAllowance !== undefined &&
+            (typeof template.properties.cutoffAllowance !== 'number' || template.properties.cutoffAllowance < 0)) {
+          errors.push(`Pile ${template.name}: cutoffAllowance cannot be negative`);
+        }
+        if (template.properties.pileCount !== undefined &&
+            (!Number.isInteger(template.properties.pileCount) || template.properties.pileCount < 1)) {
+          errors.push(`Pile ${template.name}: pileCount must be a positive whole number`);
+        }
+      } else if (template.type === 'stair') {
+        for (const key of ['riser', 'tread', 'width', 'waistThickness']) {
+          if (typeof template.properties[key] !== 'number' || template.properties[key] <= 0) {
+            errors.push(`Stair ${template.name}: ${key} must be a positive number`);
+          }
+        }
+        const flights = template.properties.flights ?? 1;
+        if (!Number.isInteger(flights) || flights < 1) {
+          errors.push(`Stair ${template.name}: flights must be a positive whole number`);
+        }
+        if (flights > 1 && (typeof template.properties.landingLength !== 'number' || template.properties.landingLength <= 0)) {
+          errors.push(`Stair ${template.name}: landingLength must be a positive number for ${flights} flights`);
+        }
+      } else if (template.type === 'wall') {
+        if (typeof template.properties.thickness !== 'number' || template.properties.thickness <= 0) {
+          errors.push(`Wall ${template.name}: thickness must be a positive number`);
+        }
+        if (template.properties.layers !== undefined && template.properties.layers !== 1 && template.properties.layers !== 2) {
+          errors.push(`Wall ${template.name}: layers must be 1 or 2`);
+        }
       } else if (template.type === 'column') {
         const isCircular = template.properties.diameter !== undefined;
         const isRectangular = template.properties.width !== undefined && template.properties.height !== undefined;
@@ -152,8 +199,8 @@ export async function PUT(
               errors.push(`Template ${template.name}: mainBars.count must be a positive number`);
             }
           }
-          // For slabs, spacing is required
-          if (template.type === 'slab') {
+          // For slabs, stairs and walls, spacing is required
+          if (template.type === 'slab' || template.type === 'stair' || template.type === 'wall') {
             if (typeof template.rebarConfig.mainBars.spacing !== 'number' || template.rebarConfig.mainBars.spacing <= 0) {
               errors.push(`Template ${template.name}: mainBars.spacing must be a positive number`);
             }
@@ -162,6 +209,15 @@ export async function PUT(
             errors.push(`Template ${template.name}: mainBars.diameter must be a positive number`);
           }
         }
+        // Walls space horizontal bars like vertical bars
+        if (template.type === 'wall' && template.rebarConfig.secondaryBars) {
+          if (typeof template.rebarConfig.secondaryBars.diameter !== 'number' || template.rebarConfig.secondaryBars.diameter <= 0) {
+            errors.push(`Template ${template.name}: secondaryBars.diameter must be a positive number`);
+          }
+          if (typeof template.rebarConfig.secondaryBars.spacing !== 'number' || template.rebarConfig.secondaryBars.spacing <= 0) {
+            errors.push(`Template ${template.name}: secondaryBars.spacing must be a positive number`);
+          }
+        }
         if (template.rebarConfig.stirrups) {
           if (typeof template.rebarConfig.stirrups.diameter !== 'number' || template.rebarConfig.stirrups.diameter <= 0) {
             errors.push(`Template ${template.name}: stirrups.diameter must be a positive number`);
@@ -0,0 +1,20 @@
+'use client';
+
+/**
+ * Bar Bending Schedule Page
+ * Printable bar bending schedule for fabricators
+ */
+
+import { useParams } from 'next/navigation';
+import BarBendingScheduleViewer from '@/components/BarBendingScheduleViewer';
+
+export default function BarSchedulePage() {
+  const params = useParams();
+  const projectId = params.id as string;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 print:bg-white print:p-0">
+      <BarBendingScheduleViewer projectId={projectId} printable />
+    </div>
+  );
+}
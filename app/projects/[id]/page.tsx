@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import type { ProjectModel, GridLine, Level } from '@/types';
+import type { ProjectModel, GridLine, Level, MarkupSchedule, RebarStockSettings, ExcavationSettings, CrossSectionSettings } from '@/types';
 import GridEditor from '@/components/GridEditor';
 import LevelsEditor from '@/components/LevelsEditor';
 import ElementTemplatesEditor from '@/components/ElementTemplatesEditor';
@@ -10,8 +10,19 @@ import ElementInstancesEditor from '@/components/ElementInstancesEditor';
 import TakeoffViewer from '@/components/TakeoffViewer';
 import BOQViewer from '@/components/BOQViewer';
 import CalcRunHistory from '@/components/CalcRunHistory';
+import PriceBookEditor from '@/components/PriceBookEditor';
+import DUPAEditor from '@/components/DUPAEditor';
+import BarBendingScheduleViewer from '@/components/BarBendingScheduleViewer';
+import MarkupScheduleEditor from '@/components/MarkupScheduleEditor';
+import RebarStockSettingsEditor from '@/components/RebarStockSettingsEditor';
+import IntersectionModeToggle from '@/components/IntersectionModeToggle';
+import { DEFAULT_MARKUP_SCHEDULE } from '@/lib/math/cost';
+import { COMMERCIAL_STOCK_LENGTHS } from '@/lib/math/rebarOptimizer';
+import { DEFAULT_WORKING_SPACE, DEFAULT_SIDE_SLOPE } from '@/lib/math/structureExcavation';
+import { DEFAULT_BEDDING_THICKNESS } from '@/lib/math/slabSupport';
 import SpacesManager from '@/components/PartE/SpacesManager';
 import WallSurfacesManager from '@/components/PartE/WallSurfacesManager';
+import MasonryWallsManager from '@/components/PartE/MasonryWallsManager';
 import FinishesManager from '@/components/PartE/FinishesManager';
 import RoofingManager from '@/components/PartE/RoofingManager';
 import SchedulesManager from '@/components/SchedulesManager';
@@ -25,8 +36,8 @@ interface ProjectDetailPageProps {
 }
 
 type DPWHPart = 'C' | 'D' | 'E' | 'F' | 'G';
-type GlobalView = 'takeoff' | 'boq';
-type Tab = 'overview' | 'grid' | 'levels' | 'templates' | 'instances' | 'history' | 'spaces' | 'wallSurfaces' | 'finishes' | 'roofing' | 'schedules' | 'clearing' | 'removal-trees' | 'removal-structures' | 'excavation' | 'structure-excavation' | 'embankment' | 'site-development' | 'takeoff' | 'boq';
+type GlobalView = 'takeoff' | 'boq' | 'priceBook' | 'dupa' | 'barSchedule';
+type Tab = 'overview' | 'grid' | 'levels' | 'templates' | 'instances' | 'history' | 'spaces' | 'wallSurfaces' | 'masonry' | 'finishes' | 'roofing' | 'schedules' | 'clearing' | 'removal-trees' | 'removal-structures' | 'excavation' | 'structure-excavation' | 'embankment' | 'site-development' | 'takeoff' | 'boq';
 type SectionTab = 'parts' | 'reports';
 
 export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
@@ -132,6 +143,96 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
     await fetchProject();
   };
 
+  const handleSaveMarkups = async (markups: MarkupSchedule) => {
+    if (!resolvedId) return;
+
+    const response = await fetch(`/api/projects/${resolvedId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'settings.markups': markups }),
+    });
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save markups');
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
+  const handleSaveRebarOptimization = async (rebarOptimization: RebarStockSettings) => {
+    if (!resolvedId) return;
+
+    const response = await fetch(`/api/projects/${resolvedId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'settings.rebarOptimization': rebarOptimization }),
+    });
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save rebar settings');
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
+  const handleSaveDeductIntersections = async (deductIntersections: boolean) => {
+    if (!resolvedId) return;
+
+    const response = await fetch(`/api/projects/${resolvedId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'settings.deductIntersections': deductIntersections }),
+    });
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save intersection mode');
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
+  const handleSaveExcavationSettings = async (excavation: ExcavationSettings) => {
+    if (!resolvedId) return;
+
+    const response = await fetch(`/api/projects/${resolvedId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'settings.excavation': excavation }),
+    });
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save excavation settings');
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
+  const handleSaveCrossSectionSettings = async (crossSections: CrossSectionSettings) => {
+    if (!resolvedId) return;
+
+    const response = await fetch(`/api/projects/${resolvedId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ 'settings.crossSections': crossSections }),
+    });
+
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save cross-section settings');
+    }
+
+    // Refresh project data
+    await fetchProject();
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 p-8">
@@ -281,6 +382,36 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
                   >
                     📋 Bill of Quantities
                   </button>
+                  <button
+                    onClick={() => setActiveGlobalView('priceBook')}
+                    className={`px-3 py-4 rounded-md font-medium text-xs whitespace-nowrap transition-all ${
+                      activeGlobalView === 'priceBook'
+                        ? 'bg-indigo-600 text-white shadow-md'
+                        : 'bg-white text-indigo-700 hover:bg-indigo-50 border border-indigo-300'
+                    }`}
+                  >
+                    💰 Price Book & Markups
+                  </button>
+                  <button
+                    onClick={() => setActiveGlobalView('dupa')}
+                    className={`px-3 py-4 rounded-md font-medium text-xs whitespace-nowrap transition-all ${
+                      activeGlobalView === 'dupa'
+                        ? 'bg-indigo-600 text-white shadow-md'
+                        : 'bg-white text-indigo-700 hover:bg-indigo-50 border border-indigo-300'
+                    }`}
+                  >
+                    🧮 DUPA
+                  </button>
+                  <button
+                    onClick={() => setActiveGlobalView('barSchedule')}
+                    className={`px-3 py-4 rounded-md font-medium text-xs whitespace-nowrap transition-all ${
+                      activeGlobalView === 'barSchedule'
+                        ? 'bg-indigo-600 text-white shadow-md'
+                        : 'bg-white text-indigo-700 hover:bg-indigo-50 border border-indigo-300'
+                    }`}
+                  >
+                    🔩 Bar Bending Schedule
+                  </button>
                   <span className="text-xs text-indigo-600 italic">• Aggregates from all DPWH parts</span>
                 </div>
               </div>
@@ -348,6 +479,16 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
                     >
                       Wall Surfaces (Mode A)
                     </button>
+                    <button
+                      onClick={() => setActiveTab('masonry')}
+                      className={`py-2 px-2 border-b-2 font-medium text-xs whitespace-nowrap ${
+                        activeTab === 'masonry'
+                          ? 'border-green-500 text-green-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      CHB Walls
+                    </button>
                     <button
                       onClick={() => setActiveTab('finishes')}
                       className={`py-2 px-2 border-b-2 font-medium text-xs whitespace-nowrap ${
@@ -741,6 +882,16 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
               />
             )}
 
+            {/* CHB Masonry Walls Tab */}
+            {activeTab === 'masonry' && resolvedId && (
+              <MasonryWallsManager
+                projectId={resolvedId}
+                levels={project.levels || []}
+                gridX={project.gridX || []}
+                gridY={project.gridY || []}
+              />
+            )}
+
             {/* Finishes Tab */}
             {activeTab === 'finishes' && resolvedId && (
               <FinishesManager 
@@ -771,6 +922,21 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
                 Aggregated quantity takeoff from all parts: Earthworks, Concrete & Reinforcement, Finishing, Electrical, and Mechanical
               </p>
             </div>
+            <div className="mb-6">
+              <RebarStockSettingsEditor
+                settings={project.settings?.rebarOptimization?.stockLengths?.length
+                  ? project.settings.rebarOptimization
+                  : { enabled: false, stockLengths: COMMERCIAL_STOCK_LENGTHS }}
+                wasteRebar={project.settings?.waste?.rebar ?? 0.03}
+                onSave={handleSaveRebarOptimization}
+              />
+            </div>
+            <div className="mb-6">
+              <IntersectionModeToggle
+                enabled={project.settings?.deductIntersections ?? false}
+                onSave={handleSaveDeductIntersections}
+              />
+            </div>
             <TakeoffViewer 
               projectId={resolvedId}
               onTakeoffGenerated={setTakeoffLines}
@@ -793,6 +959,24 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
           </div>
         )}
 
+        {sectionTab === 'reports' && activeGlobalView === 'priceBook' && resolvedId && (
+          <div className="space-y-8">
+            <PriceBookEditor projectId={resolvedId} />
+            <MarkupScheduleEditor
+              markups={project.settings?.markups?.ocmBrackets?.length ? project.settings.markups : DEFAULT_MARKUP_SCHEDULE}
+              onSave={handleSaveMarkups}
+            />
+          </div>
+        )}
+
+        {sectionTab === 'reports' && activeGlobalView === 'dupa' && resolvedId && (
+          <DUPAEditor projectId={resolvedId} />
+        )}
+
+        {sectionTab === 'reports' && activeGlobalView === 'barSchedule' && resolvedId && (
+          <BarBendingScheduleViewer projectId={resolvedId} />
+        )}
+
         {/* Part C Content */}
         {sectionTab === 'parts' && activePart === 'C' && resolvedId && (
           <>
@@ -824,10 +1008,19 @@ export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
               />
             )}
             {activeTab === 'excavation' && (
-              <ExcavationStations projectId={resolvedId} />
+              <ExcavationStations projectId={resolvedId} onSaveSettings={handleSaveCrossSectionSettings} />
             )}
             {activeTab === 'structure-excavation' && (
-              <StructureExcavation projectId={resolvedId} />
+              <StructureExcavation
+                projectId={resolvedId}
+                settings={{
+                  groundElevation: project.settings?.excavation?.groundElevation ?? 0,
+                  workingSpace: project.settings?.excavation?.workingSpace ?? DEFAULT_WORKING_SPACE,
+                  sideSlope: project.settings?.excavation?.sideSlope ?? DEFAULT_SIDE_SLOPE,
+                  beddingThickness: project.settings?.excavation?.beddingThickness ?? DEFAULT_BEDDING_THICKNESS,
+                }}
+                onSave={handleSaveExcavationSettings}
+              />
             )}
             {activeTab === 'embankment' && (
               <EmbankmentItems projectId={resolvedId} />
@@ -3,11 +3,20 @@
 /**
  * Parametric Roofing Management Page
  * Simple, intuitive roof configuration using parameters
+ * Generated planes are saved as roof planes over a grid extent for the roofing takeoff
  */
 
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { generateParametricRoof, type RoofParameters, type RoofStyle, type PitchFormat, type ParametricRoofResult } from '@/lib/math/roofing/parametric';
+import {
+  generateParametricRoof,
+  generateParametricRoofOnExtent,
+  type RoofParameters,
+  type RoofStyle,
+  type PitchFormat,
+  type ParametricRoofResult,
+} from '@/lib/math/roofing/parametric';
+import type { GridLine, Level } from '@/types';
 
 interface RoofType {
   id: string;
@@ -24,6 +33,12 @@ interface RoofConfiguration {
   generated?: ParametricRoofResult;
 }
 
+interface RoofExtent {
+  gridX: [string, string];
+  gridY: [string, string];
+  levelId: string;
+}
+
 export default function ParametricRoofingPage() {
   const params = useParams();
   const router = useRouter();
@@ -44,30 +59,62 @@ export default function ParametricRoofingPage() {
     roofTypeId: '',
   });
   
+  const [gridX, setGridX] = useState<GridLine[]>([]);
+  const [gridY, setGridY] = useState<GridLine[]>([]);
+  const [levels, setLevels] = useState<Level[]>([]);
+  const [extent, setExtent] = useState<RoofExtent>({ gridX: ['', ''], gridY: ['', ''], levelId: '' });
+  
   const [preview, setPreview] = useState<ParametricRoofResult | null>(null);
   const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Building edges from the selected grid lines; the roof is sized to them when complete
+  const findOffset = (lines: GridLine[], label: string) => lines.find(g => g.label === label)?.offset;
+  const extentX = extent.gridX.map(label => findOffset(gridX, label));
+  const extentY = extent.gridY.map(label => findOffset(gridY, label));
+  const extentComplete = [...extentX, ...extentY].every(offset => offset !== undefined)
+    && extentX[0] !== extentX[1] && extentY[0] !== extentY[1];
 
   useEffect(() => {
     loadData();
   }, [projectId]);
 
   useEffect(() => {
-    // Auto-generate preview when params change
+    // Auto-generate preview when params or the grid extent change
     try {
-      const result = generateParametricRoof(config.params);
+      const result = extentComplete
+        ? generateParametricRoofOnExtent(config.params, {
+          x: extentX as [number, number],
+          y: extentY as [number, number],
+        })
+        : generateParametricRoof(config.params);
       setPreview(result);
     } catch (error) {
       console.error('Error generating roof:', error);
       setPreview(null);
     }
-  }, [config.params]);
+  }, [config.params, extent, gridX, gridY]);
 
   const loadData = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`/api/projects/${projectId}/roof-types`);
-      const data = await res.json();
+      const [roofTypesRes, gridRes, levelsRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/roof-types`),
+        fetch(`/api/projects/${projectId}/grid`),
+        fetch(`/api/projects/${projectId}/levels`),
+      ]);
+      const data = await roofTypesRes.json();
       setRoofTypes(data.roofTypes || []);
+
+      if (gridRes.ok) {
+        const gridData = await gridRes.json();
+        setGridX(gridData.data?.gridX || []);
+        setGridY(gridData.data?.gridY || []);
+      }
+      if (levelsRes.ok) {
+        const levelsData = await levelsRes.json();
+        setLevels(levelsData.data || []);
+      }
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -76,8 +123,33 @@ export default function ParametricRoofingPage() {
   };
 
   const handleSave = async () => {
-    // TODO: Save configuration to project
-    alert('Roof configuration saved! (Implementation pending)');
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/roof-planes/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: config.name,
+          params: config.params,
+          gridX: extent.gridX,
+          gridY: extent.gridY,
+          levelId: extent.levelId,
+          roofTypeId: config.roofTypeId,
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        alert(`Created ${data.roofPlanes.length} roof planes for ${config.name}`);
+      } else {
+        alert(`Error: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error generating roof planes:', error);
+      alert('Failed to generate roof planes');
+    } finally {
+      setSaving(false);
+    }
   };
 
   if (loading) {
@@ -168,6 +240,57 @@ export default function ParametricRoofingPage() {
                 </div>
               </div>
 
+              {/* Grid Extent and Level */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Grid Extent
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  {(['gridX', 'gridY'] as const).map((axis) => (
+                    <div key={axis} className="flex items-center gap-2">
+                      {[0, 1].map((end) => (
+                        <select
+                          key={end}
+                          value={extent[axis][end]}
+                          onChange={(e) => {
+                            const labels: [string, string] = [...extent[axis]];
+                            labels[end] = e.target.value;
+                            setExtent({ ...extent, [axis]: labels });
+                          }}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="">{axis === 'gridX' ? 'X' : 'Y'} {end === 0 ? 'from' : 'to'}</option>
+                          {(axis === 'gridX' ? gridX : gridY).map((line) => (
+                            <option key={line.label} value={line.label}>{line.label}</option>
+                          ))}
+                        </select>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  The roof is sized to the grid lines, with the ridge along the longer side
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Roof Level
+                </label>
+                <select
+                  value={extent.levelId}
+                  onChange={(e) => setExtent({ ...extent, levelId: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select Level</option>
+                  {levels.map((level) => (
+                    <option key={level.label} value={level.label}>
+                      {level.label} ({level.elevation} m)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Building Dimensions */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -177,12 +300,13 @@ export default function ParametricRoofingPage() {
                   <input
                     type="number"
                     step="0.1"
-                    value={config.params.length_m}
+                    value={extentComplete && preview ? preview.metadata.length_m : config.params.length_m}
+                    disabled={extentComplete}
                     onChange={(e) => setConfig({
                       ...config,
                       params: { ...config.params, length_m: parseFloat(e.target.value) || 0 }
                     })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
                   />
                 </div>
                 <div>
@@ -192,12 +316,13 @@ export default function ParametricRoofingPage() {
                   <input
                     type="number"
                     step="0.1"
-                    value={config.params.width_m}
+                    value={extentComplete && preview ? preview.metadata.width_m : config.params.width_m}
+                    disabled={extentComplete}
                     onChange={(e) => setConfig({
                       ...config,
                       params: { ...config.params, width_m: parseFloat(e.target.value) || 0 }
                     })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
                   />
                 </div>
               </div>
@@ -341,10 +466,10 @@ export default function ParametricRoofingPage() {
 
               <button
                 onClick={handleSave}
-                disabled={!config.roofTypeId}
+                disabled={!config.roofTypeId || !extent.levelId || !extentComplete || !preview || saving}
                 className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Save Roof Configuration
+                {saving ? 'Generating...' : 'Generate Roof Planes'}
               </button>
             </div>
           </div>
@@ -445,6 +570,12 @@ export default function ParametricRoofingPage() {
                         <span className="font-medium">{preview.summary.eaveLength_m.toFixed(1)} m</span>
                       </div>
                     )}
+                    {preview.summary.rakeLength_m > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Rake Length:</span>
+                        <span className="font-medium">{preview.summary.rakeLength_m.toFixed(1)} m</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
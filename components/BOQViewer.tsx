@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { BOQLine, TakeoffLine } from '@/types';
+import type { BOQLine, BOQCostSummary, DUPA, TakeoffLine } from '@/types';
+import { computeDUPA, findDUPA } from '@/lib/math/cost';
 import { classifyDPWHItem, sortDPWHParts } from '@/lib/dpwhClassification';
 
 interface BOQViewerProps {
@@ -23,6 +24,7 @@ interface CalcRun {
   runId: string;
   timestamp: string;
   boqLines: BOQLine[];
+  costSummary?: BOQCostSummary;
   summary: {
     totalConcrete: number;
     totalRebar: number;
@@ -44,12 +46,27 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
   const [currentRunId, setCurrentRunId] = useState<string | null>(null);
   const [filterType, setFilterType] = useState('all');
   const [expandedParts, setExpandedParts] = useState<Set<string>>(new Set());
+  const [costSummary, setCostSummary] = useState<BOQCostSummary | null>(null);
+  const [dupas, setDupas] = useState<DUPA[]>([]);
 
-  // Load latest CalcRun on mount
+  // Load latest CalcRun and DUPAs on mount
   useEffect(() => {
     loadLatestCalcRun();
+    loadDUPAs();
   }, [projectId]);
 
+  const loadDUPAs = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/dupa`);
+      if (res.ok) {
+        const data = await res.json();
+        setDupas(data.dupas || []);
+      }
+    } catch (err) {
+      console.error('Failed to load DUPAs:', err);
+    }
+  };
+
   const loadLatestCalcRun = async () => {
     try {
       const res = await fetch(`/api/projects/${projectId}/calcruns/latest`);
@@ -72,6 +89,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
               Formwork: totalFormworkQty,
             },
           });
+          setCostSummary(data.costSummary || null);
           setLastCalculated(data.timestamp);
           setHasBoq(true);
           setCurrentRunId(data.runId);
@@ -105,6 +123,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
       const data = await res.json();
       setBoqLines(data.boqLines || []);
       setSummary(data.summary || null);
+      setCostSummary(data.costSummary || null);
       setLastCalculated(new Date().toISOString());
       setHasBoq(true);
       if (data.warnings && data.warnings.length > 0) {
@@ -131,6 +150,28 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
     return takeoffLines.filter(line => sourceIds.includes(line.id));
   };
 
+  const formatMoney = (value?: number): string => {
+    if (value === undefined || value === null) return '-';
+    return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  };
+
+  const hasPricing = !!costSummary && costSummary.pricedLineCount > 0;
+
+  // Indirect cost rows in presentation order (skips zero contingency)
+  const getMarkupRows = (cost: BOQCostSummary): [string, number][] => {
+    if (!cost.markups) return [];
+    const m = cost.markups;
+    const rows: [string, number][] = [
+      [`OCM (${(m.ocmPercent * 100).toFixed(1)}%)`, m.ocmAmount],
+      [`Contractor's Profit (${(m.profitPercent * 100).toFixed(1)}%)`, m.profitAmount],
+    ];
+    if (m.contingencyPercent > 0) {
+      rows.push([`Contingency (${(m.contingencyPercent * 100).toFixed(1)}%)`, m.contingencyAmount]);
+    }
+    rows.push([`VAT (${(m.vatPercent * 100).toFixed(1)}%)`, m.vatAmount]);
+    return rows;
+  };
+
   const exportToPDF = async () => {
     if (boqLines.length === 0) return;
 
@@ -205,6 +246,50 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
       yPos = (doc as any).lastAutoTable.finalY + 15;
     }
 
+    // Cost Summary Section
+    if (costSummary && costSummary.pricedLineCount > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('COST SUMMARY', 14, yPos);
+      yPos += 10;
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [['DPWH Part', 'Items', `Amount (${costSummary.currency})`]],
+        body: [
+          ...costSummary.partSubtotals.map(p => [p.part, p.lineCount.toString(), formatMoney(p.amount)]),
+          ...(costSummary.markups ? [
+            [{ content: 'Total Estimated Direct Cost', styles: { fontStyle: 'bold' as const } }, costSummary.pricedLineCount.toString(), formatMoney(costSummary.markups.directCost)],
+            ...getMarkupRows(costSummary).map(([label, amount]) => [label, '', formatMoney(amount)]),
+          ] : []),
+        ],
+        foot: [[
+          costSummary.markups ? 'TOTAL ESTIMATED PROJECT COST' : 'GRAND TOTAL',
+          costSummary.pricedLineCount.toString(),
+          formatMoney(costSummary.markups ? costSummary.markups.totalEstimatedCost : costSummary.grandTotal),
+        ]],
+        theme: 'grid',
+        headStyles: { fillColor: [34, 197, 94], fontStyle: 'bold' },
+        footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: 'bold' },
+        columnStyles: {
+          1: { halign: 'center' },
+          2: { halign: 'right' },
+        },
+        margin: { left: 14, right: 14 },
+      });
+
+      yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+
+      if (costSummary.unpricedLineCount > 0) {
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'italic');
+        doc.text(`${costSummary.unpricedLineCount} item(s) without unit cost: ${costSummary.unpricedItems.join(', ')}`, 14, yPos, { maxWidth: pageWidth - 28 });
+        yPos += 10;
+      }
+
+      yPos += 5;
+    }
+
     // Group BOQ Lines by DPWH Part and Subcategory
     const byPartAndSubcategory: Record<string, Record<string, BOQLine[]>> = {};
     
@@ -249,6 +334,11 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
       doc.rect(14, yPos - 5, pageWidth - 28, 10, 'F');
       doc.setTextColor(255, 255, 255);
       doc.text(partName, 16, yPos + 2);
+      const partSubtotal = costSummary?.partSubtotals.find(p => p.part === partName);
+      if (partSubtotal) {
+        doc.setFontSize(10);
+        doc.text(`${costSummary!.currency} ${formatMoney(partSubtotal.amount)}`, pageWidth - 16, yPos + 2, { align: 'right' });
+      }
       doc.setTextColor(0, 0, 0);
       yPos += 12;
 
@@ -296,6 +386,8 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
               ? line.quantity.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
               : line.quantity.toLocaleString('en-US', { minimumFractionDigits: 3, maximumFractionDigits: 3 }),
             line.unit,
+            formatMoney(line.unitCost),
+            formatMoney(line.amount),
             elementBreakdown,
             sourceLines.length.toString()
           ];
@@ -303,7 +395,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
 
         autoTable(doc, {
           startY: yPos,
-          head: [['Item No.', 'Description', 'Quantity', 'Unit', 'Element Breakdown', 'Sources']],
+          head: [['Item No.', 'Description', 'Quantity', 'Unit', 'Unit Cost', 'Amount', 'Element Breakdown', 'Sources']],
           body: tableData,
           theme: 'striped',
           headStyles: { 
@@ -314,11 +406,13 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
           styles: { fontSize: 7, cellPadding: 1.5 },
           columnStyles: {
             0: { cellWidth: 18, fontStyle: 'bold', fontSize: 8 },
-            1: { cellWidth: 65 },
-            2: { cellWidth: 22, halign: 'right' },
+            1: { cellWidth: 45 },
+            2: { cellWidth: 20, halign: 'right' },
             3: { cellWidth: 12 },
-            4: { cellWidth: 48, fontSize: 6 },
-            5: { cellWidth: 15, halign: 'center' }
+            4: { cellWidth: 20, halign: 'right' },
+            5: { cellWidth: 25, halign: 'right' },
+            6: { cellWidth: 30, fontSize: 6 },
+            7: { cellWidth: 12, halign: 'center' }
           },
           margin: { left: 14, right: 14 },
         });
@@ -329,6 +423,110 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
       yPos += 5; // Extra space between parts
     }
 
+    // DUPA Sheets - one page per pay item with a unit price analysis
+    for (const line of boqLines) {
+      const dupa = findDUPA(dupas, line.dpwhItemNumberRaw);
+      if (!dupa) continue;
+
+      let breakdown;
+      try {
+        // Follow the project markup schedule so the sheet agrees with the BOQ totals
+        breakdown = computeDUPA(dupa, costSummary?.markups);
+      } catch {
+        continue;
+      }
+
+      doc.addPage();
+      yPos = 20;
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('DETAILED UNIT PRICE ANALYSIS', pageWidth / 2, yPos, { align: 'center' });
+      yPos += 10;
+
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Item No.: ${dupa.dpwhItemNumberRaw}`, 14, yPos);
+      doc.text(`Output per day: ${dupa.outputPerDay} ${dupa.unit}`, pageWidth - 14, yPos, { align: 'right' });
+      yPos += 5;
+      doc.text(`Description: ${dupa.description}`, 14, yPos, { maxWidth: pageWidth - 28 });
+      yPos += 10;
+
+      const sectionTable = (title: string, head: string[], body: string[][], total: number) => {
+        autoTable(doc, {
+          startY: yPos,
+          head: [[{ content: title, colSpan: head.length, styles: { halign: 'left' } }], head],
+          body: body.length > 0 ? body : [[{ content: 'None', colSpan: head.length }]],
+          foot: [[{ content: 'Sub-total', colSpan: head.length - 1 }, formatMoney(total)]],
+          theme: 'grid',
+          headStyles: { fillColor: [59, 130, 246], fontStyle: 'bold', fontSize: 8 },
+          footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: 'bold', halign: 'right' },
+          styles: { fontSize: 7, cellPadding: 1.5 },
+          margin: { left: 14, right: 14 },
+        });
+        yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+      };
+
+      sectionTable(
+        'A. LABOR',
+        ['Designation', 'No. of Persons', 'No. of Hours', 'Hourly Rate', 'Amount'],
+        dupa.labor.map(l => [
+          l.designation,
+          l.noOfPersons.toString(),
+          l.noOfHours.toString(),
+          formatMoney(l.hourlyRate),
+          formatMoney(l.noOfPersons * l.noOfHours * l.hourlyRate),
+        ]),
+        breakdown.laborCostPerDay
+      );
+
+      sectionTable(
+        'B. EQUIPMENT',
+        ['Description', 'No. of Units', 'No. of Hours', 'Hourly Rate', 'Amount'],
+        dupa.equipment.map(e => [
+          e.description,
+          e.noOfUnits.toString(),
+          e.noOfHours.toString(),
+          formatMoney(e.hourlyRate),
+          formatMoney(e.noOfUnits * e.noOfHours * e.hourlyRate),
+        ]),
+        breakdown.equipmentCostPerDay
+      );
+
+      sectionTable(
+        'F. MATERIALS',
+        ['Description', 'Unit', 'Quantity', 'Unit Cost', 'Amount'],
+        dupa.materials.map(m => [
+          m.description,
+          m.unit,
+          m.quantity.toString(),
+          formatMoney(m.unitCost),
+          formatMoney(m.quantity * m.unitCost),
+        ]),
+        breakdown.materialUnitCost
+      );
+
+      autoTable(doc, {
+        startY: yPos,
+        body: [
+          ['C. Total Labor and Equipment (A + B)', formatMoney(breakdown.laborEquipmentCostPerDay)],
+          [`D. Output per day`, `${dupa.outputPerDay} ${dupa.unit}`],
+          ['E. Unit Cost of Labor and Equipment (C ÷ D)', formatMoney(breakdown.laborEquipmentUnitCost)],
+          ['F. Materials', formatMoney(breakdown.materialUnitCost)],
+          ['G. Direct Unit Cost (E + F)', formatMoney(breakdown.directUnitCost)],
+          [`H. Overhead, Contingencies & Miscellaneous (${((costSummary?.markups?.ocmPercent ?? dupa.ocmPercent) * 100).toFixed(1)}%)`, formatMoney(breakdown.ocmAmount)],
+          [`I. Contractor's Profit (${((costSummary?.markups?.profitPercent ?? dupa.profitPercent) * 100).toFixed(1)}%)`, formatMoney(breakdown.profitAmount)],
+          [`J. Value Added Tax (${((costSummary?.markups?.vatPercent ?? dupa.vatPercent) * 100).toFixed(1)}%)`, formatMoney(breakdown.vatAmount)],
+        ],
+        foot: [[`K. TOTAL UNIT COST per ${dupa.unit}`, `${dupa.currency} ${formatMoney(breakdown.totalUnitCost)}`]],
+        theme: 'plain',
+        footStyles: { fillColor: [34, 197, 94], textColor: [255, 255, 255], fontStyle: 'bold' },
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        columnStyles: { 1: { halign: 'right', cellWidth: 45 } },
+        margin: { left: 14, right: 14 },
+      });
+    }
+
     // Detailed Source Traceability Section (New Page)
     doc.addPage();
     yPos = 20;
@@ -520,6 +718,54 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
         </div>
       )}
 
+      {/* Cost Summary */}
+      {hasPricing && costSummary && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h4 className="font-semibold text-gray-900 mb-4">Cost Summary</h4>
+          <div className="space-y-2">
+            {costSummary.partSubtotals.map(part => (
+              <div key={part.part} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">
+                  {part.part} <span className="text-xs text-gray-500">({part.lineCount} items)</span>
+                </span>
+                <span className="font-semibold text-gray-900">
+                  {costSummary.currency} {formatMoney(part.amount)}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-3 mt-2 border-t border-gray-200">
+              <span className="font-bold text-gray-900">
+                {costSummary.markups ? 'Total Estimated Direct Cost' : 'Grand Total'}
+              </span>
+              <span className={costSummary.markups ? 'font-bold text-gray-900' : 'text-2xl font-bold text-green-900'}>
+                {costSummary.currency} {formatMoney(costSummary.grandTotal)}
+              </span>
+            </div>
+            {costSummary.markups && (
+              <>
+                {getMarkupRows(costSummary).map(([label, amount]) => (
+                  <div key={label} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{label}</span>
+                    <span className="text-gray-900">{costSummary.currency} {formatMoney(amount)}</span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between pt-3 mt-2 border-t border-gray-200">
+                  <span className="font-bold text-gray-900">Total Estimated Project Cost</span>
+                  <span className="text-2xl font-bold text-green-900">
+                    {costSummary.currency} {formatMoney(costSummary.markups.totalEstimatedCost)}
+                  </span>
+                </div>
+              </>
+            )}
+            {costSummary.unpricedLineCount > 0 && (
+              <p className="text-xs text-amber-700">
+                {costSummary.unpricedLineCount} item(s) have no price book entry or DUPA and are excluded from the total.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* BOQ Lines Table */}
       {boqLines.length > 0 && (
         <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
@@ -552,6 +798,8 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
                   <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Unit</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
                   <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Sources</th>
                   <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Details</th>
                 </tr>
@@ -598,6 +846,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                     const subcategories = byPartAndSubcategory[part];
                     const partItemCount = Object.values(subcategories).flat().length;
                     const isPartExpanded = expandedParts.has(part);
+                    const partSubtotal = costSummary?.partSubtotals.find(p => p.part === part);
                     
                     // Part header row
                     rows.push(
@@ -614,11 +863,16 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                           setExpandedParts(newExpanded);
                         }}
                       >
-                        <td colSpan={6} className="px-4 py-3 text-sm font-bold text-gray-900">
+                        <td colSpan={8} className="px-4 py-3 text-sm font-bold text-gray-900">
                           <div className="flex items-center gap-2">
                             <span>{isPartExpanded ? '▼' : '▶'}</span>
                             <span>{part}</span>
                             <span className="text-xs font-normal text-gray-600">({partItemCount} items)</span>
+                            {partSubtotal && (
+                              <span className="ml-auto">
+                                {costSummary!.currency} {formatMoney(partSubtotal.amount)}
+                              </span>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -634,7 +888,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                         // Subcategory header row
                         rows.push(
                           <tr key={`subcat-${part}-${subcategory}`} className="bg-blue-50">
-                            <td colSpan={6} className="px-8 py-2 text-sm font-semibold text-gray-800">
+                            <td colSpan={8} className="px-8 py-2 text-sm font-semibold text-gray-800">
                               {subcategory} ({subcategoryLines.length} items)
                             </td>
                           </tr>
@@ -676,6 +930,12 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                                 <td className="px-4 py-3 text-sm text-center text-gray-600">
                                   {line.unit}
                                 </td>
+                                <td className="px-4 py-3 text-sm text-right text-gray-700">
+                                  {formatMoney(line.unitCost)}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">
+                                  {formatMoney(line.amount)}
+                                </td>
                                 <td className="px-4 py-3 text-sm text-center text-gray-600">
                                   {line.sourceTakeoffLineIds.length} takeoff line{line.sourceTakeoffLineIds.length !== 1 ? 's' : ''}
                                 </td>
@@ -692,7 +952,7 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                               {/* Expanded Details */}
                               {isExpanded && (
                                 <tr>
-                                  <td colSpan={6} className="px-4 py-4 bg-gray-50">
+                                  <td colSpan={8} className="px-4 py-4 bg-gray-50">
                                     <div className="space-y-3">
                                       <h5 className="font-semibold text-sm text-gray-700">Source Takeoff Lines:</h5>
                                       <div className="space-y-2">
@@ -763,6 +1023,19 @@ export default function BOQViewer({ projectId, takeoffLines }: BOQViewerProps) {
                   return rows;
                 })()}
               </tbody>
+              {hasPricing && costSummary && (
+                <tfoot className="bg-gray-50">
+                  <tr>
+                    <td colSpan={5} className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
+                      Total Direct Cost
+                    </td>
+                    <td className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
+                      {costSummary.currency} {formatMoney(costSummary.grandTotal)}
+                    </td>
+                    <td colSpan={2}></td>
+                  </tr>
+                </tfoot>
+              )}
             </table>
           </div>
         </div>
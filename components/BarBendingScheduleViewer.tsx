@@ -0,0 +1,181 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { BarBendingSchedule } from '@/types';
+import { SHAPE_CODE_DESCRIPTIONS } from '@/lib/math/barSchedule';
+
+interface BarBendingScheduleViewerProps {
+  projectId: string;
+  printable?: boolean; // print layout: no navigation controls
+}
+
+export default function BarBendingScheduleViewer({ projectId, printable = false }: BarBendingScheduleViewerProps) {
+  const [barSchedule, setBarSchedule] = useState<BarBendingSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadBarSchedule();
+  }, [projectId]);
+
+  const loadBarSchedule = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/projects/${projectId}/bar-schedule`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load bar bending schedule');
+      }
+      setBarSchedule(data.barSchedule);
+      setErrors(data.errors || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load bar bending schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDimensions = (dimensions: Record<string, number>) =>
+    Object.entries(dimensions).map(([leg, value]) => `${leg}=${value}`).join(', ');
+
+  if (loading) {
+    return <div className="p-6 text-gray-600">Loading bar bending schedule...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-sm text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Bar Bending Schedule</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Cut lengths include hooks less bend deductions; dimensions in mm
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          {printable ? (
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              🖨️ Print
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={loadBarSchedule}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Refresh
+              </button>
+              <button
+                onClick={() => window.open(`/projects/${projectId}/bar-schedule`, '_blank')}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                🖨️ Printable View
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg print:hidden">
+          <ul className="text-sm text-yellow-800 space-y-1">
+            {errors.map((err, idx) => (
+              <li key={idx}>• {err}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!barSchedule || barSchedule.entries.length === 0 ? (
+        <div className="p-6 bg-white rounded-lg shadow text-gray-600">
+          No reinforced elements found. Add rebar configuration to element templates and place instances.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow overflow-x-auto print:shadow-none">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bar Mark</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Member</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bar</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ø (mm)</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Shape</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dimensions (mm)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cut Length (mm)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">No./Member</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Bars</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Length (m)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Weight (kg)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {barSchedule.entries.map(entry => (
+                  <tr key={entry.barMark}>
+                    <td className="px-3 py-2 font-mono font-semibold text-gray-900">{entry.barMark}</td>
+                    <td className="px-3 py-2 text-gray-900">{entry.memberLabel}</td>
+                    <td className="px-3 py-2 text-gray-700 capitalize" title={entry.notes.join('; ')}>{entry.barType}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{entry.diameter}</td>
+                    <td className="px-3 py-2 text-gray-700" title={SHAPE_CODE_DESCRIPTIONS[entry.shapeCode]}>
+                      {entry.shapeCode}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs text-gray-700">{formatDimensions(entry.dimensions)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{entry.cutLength.toLocaleString('en-US')}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{entry.barsPerMember}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{entry.totalBars}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{entry.totalLength.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right font-medium text-gray-900">{entry.weight.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Totals per diameter */}
+          <div className="bg-white rounded-lg shadow p-6 print:shadow-none">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Summary by Diameter</h3>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ø (mm)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Bars</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total Length (m)</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Weight (kg)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {barSchedule.totalsByDiameter.map(total => (
+                  <tr key={total.diameter}>
+                    <td className="px-3 py-2 text-gray-900">{total.diameter}mm</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{total.totalBars}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{total.totalLength.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{total.weight.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-3 py-2 text-gray-900" colSpan={3}>Total Weight</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{barSchedule.totalWeight.toFixed(2)} kg</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,10 @@ interface CalcRunSummary {
     totalRebar?: number;
     totalFormwork?: number;
   };
+  costSummary?: {
+    currency: string;
+    grandTotal: number;
+  };
   errors?: string[];
 }
 
@@ -194,6 +198,17 @@ export default function CalcRunHistory({ projectId }: CalcRunHistoryProps) {
                               </span>
                             </div>
                           )}
+                          {run.costSummary && run.costSummary.grandTotal > 0 && (
+                            <div>
+                              <span className="text-gray-500">Total Cost:</span>{' '}
+                              <span className="font-semibold text-green-700">
+                                {run.costSummary.currency} {run.costSummary.grandTotal.toLocaleString('en-US', { 
+                                  minimumFractionDigits: 2, 
+                                  maximumFractionDigits: 2 
+                                })}
+                              </span>
+                            </div>
+                          )}
                         </div>
                       </div>
 
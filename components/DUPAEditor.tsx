@@ -0,0 +1,429 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { BOQLine, DUPA, DUPALaborEntry, DUPAEquipmentEntry, DUPAMaterialEntry } from '@/types';
+import { computeDUPA, DEFAULT_DUPA_MARKUPS } from '@/lib/math/cost';
+
+interface DUPAEditorProps {
+  projectId: string;
+}
+
+interface PayItem {
+  dpwhItemNumberRaw: string;
+  description: string;
+  unit: string;
+}
+
+type DUPAForm = Omit<DUPA, 'id' | 'updatedAt'>;
+
+const emptyLabor: DUPALaborEntry = { designation: '', noOfPersons: 1, noOfHours: 8, hourlyRate: 0 };
+const emptyEquipment: DUPAEquipmentEntry = { description: '', noOfUnits: 1, noOfHours: 8, hourlyRate: 0 };
+const emptyMaterial: DUPAMaterialEntry = { description: '', unit: '', quantity: 0, unitCost: 0 };
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function DUPAEditor({ projectId }: DUPAEditorProps) {
+  const [dupas, setDupas] = useState<DUPA[]>([]);
+  const [payItems, setPayItems] = useState<PayItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<DUPAForm | null>(null);
+
+  const loadData = async () => {
+    try {
+      const [dupaRes, runRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/dupa`),
+        fetch(`/api/projects/${projectId}/calcruns/latest`),
+      ]);
+
+      const loadedDupas: DUPA[] = dupaRes.ok ? (await dupaRes.json()).dupas || [] : [];
+      const boqLines: BOQLine[] = runRes.ok ? (await runRes.json()).calcRun?.boqLines || [] : [];
+
+      // Pay items used in the BOQ, plus any item that already has a DUPA
+      const items = new Map<string, PayItem>();
+      boqLines.forEach(line => {
+        items.set(line.dpwhItemNumberRaw, {
+          dpwhItemNumberRaw: line.dpwhItemNumberRaw,
+          description: line.description,
+          unit: line.unit,
+        });
+      });
+      loadedDupas.forEach(dupa => {
+        if (!items.has(dupa.dpwhItemNumberRaw)) {
+          items.set(dupa.dpwhItemNumberRaw, {
+            dpwhItemNumberRaw: dupa.dpwhItemNumberRaw,
+            description: dupa.description,
+            unit: dupa.unit,
+          });
+        }
+      });
+
+      setDupas(loadedDupas);
+      setPayItems(Array.from(items.values()).sort((a, b) => a.dpwhItemNumberRaw.localeCompare(b.dpwhItemNumberRaw)));
+    } catch (err) {
+      console.error('Error loading DUPAs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [projectId]);
+
+  const getDUPA = (itemNumber: string) => dupas.find(d => d.dpwhItemNumberRaw === itemNumber);
+
+  const selectItem = (item: PayItem) => {
+    const existing = getDUPA(item.dpwhItemNumberRaw);
+    setError(null);
+    setForm(existing ? {
+      dpwhItemNumberRaw: existing.dpwhItemNumberRaw,
+      description: existing.description,
+      unit: existing.unit,
+      outputPerDay: existing.outputPerDay,
+      labor: existing.labor.map(l => ({ ...l })),
+      equipment: existing.equipment.map(e => ({ ...e })),
+      materials: existing.materials.map(m => ({ ...m })),
+      ocmPercent: existing.ocmPercent,
+      profitPercent: existing.profitPercent,
+      vatPercent: existing.vatPercent,
+      currency: existing.currency,
+      notes: existing.notes,
+    } : {
+      dpwhItemNumberRaw: item.dpwhItemNumberRaw,
+      description: item.description,
+      unit: item.unit,
+      outputPerDay: 1,
+      labor: [],
+      equipment: [],
+      materials: [],
+      ...DEFAULT_DUPA_MARKUPS,
+      currency: 'PHP',
+    });
+  };
+
+  const updateRow = (
+    section: 'labor' | 'equipment' | 'materials',
+    index: number,
+    field: string,
+    value: string
+  ) => {
+    if (!form) return;
+    const rows = form[section].map(row => ({ ...row })) as unknown as Record<string, string | number>[];
+    const current = rows[index][field];
+    rows[index][field] = typeof current === 'number' ? Number(value) : value;
+    setForm({ ...form, [section]: rows });
+  };
+
+  const addRow = (section: 'labor' | 'equipment' | 'materials') => {
+    if (!form) return;
+    const empty = section === 'labor' ? emptyLabor : section === 'equipment' ? emptyEquipment : emptyMaterial;
+    setForm({ ...form, [section]: [...form[section], { ...empty }] });
+  };
+
+  const removeRow = (section: 'labor' | 'equipment' | 'materials', index: number) => {
+    if (!form) return;
+    setForm({ ...form, [section]: form[section].filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/projects/${projectId}/dupa`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to save DUPA');
+      }
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save DUPA');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form) return;
+    const existing = getDUPA(form.dpwhItemNumberRaw);
+    if (!existing || !confirm('Delete this DUPA?')) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/dupa?dupaId=${existing.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setForm(null);
+        await loadData();
+      } else {
+        alert('Failed to delete DUPA');
+      }
+    } catch (err) {
+      console.error('Error deleting DUPA:', err);
+      alert('Failed to delete DUPA');
+    }
+  };
+
+  let breakdown = null;
+  let breakdownError: string | null = null;
+  if (form) {
+    try {
+      breakdown = computeDUPA({ ...form, id: '' });
+    } catch (err) {
+      breakdownError = err instanceof Error ? err.message : 'Invalid DUPA';
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Detailed Unit Price Analysis</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Resource breakdown per DPWH pay item. The BOQ is priced at the direct unit cost (G), which takes
+          precedence over the price book; indirect costs follow the project markup schedule.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Pay Items */}
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-700">BOQ Pay Items</div>
+          {payItems.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500 text-center">
+              No BOQ generated yet. Generate the BOQ to list its pay items.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-[600px] overflow-y-auto">
+              {payItems.map(item => {
+                const dupa = getDUPA(item.dpwhItemNumberRaw);
+                let total: number | null = null;
+                try {
+                  total = dupa ? computeDUPA(dupa).totalUnitCost : null;
+                } catch {
+                  total = null;
+                }
+                const isSelected = form?.dpwhItemNumberRaw === item.dpwhItemNumberRaw;
+                return (
+                  <li
+                    key={item.dpwhItemNumberRaw}
+                    onClick={() => selectItem(item)}
+                    className={`px-4 py-3 cursor-pointer ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono text-sm text-blue-600">{item.dpwhItemNumberRaw}</span>
+                      {dupa ? (
+                        <span className="text-xs font-semibold text-green-700">
+                          {dupa.currency} {total !== null ? formatMoney(total) : '-'}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-gray-400">No DUPA</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600 truncate">{item.description}</div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* DUPA Form */}
+        <div className="lg:col-span-2 space-y-4">
+          {!form ? (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-500">
+              Select a pay item to edit its DUPA
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-mono text-blue-600">{form.dpwhItemNumberRaw}</div>
+                    <div className="text-sm text-gray-800">{form.description}</div>
+                    <div className="text-xs text-gray-500">Unit: {form.unit}</div>
+                  </div>
+                  <div className="w-48">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Output per Day ({form.unit})
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.outputPerDay}
+                      onChange={(e) => setForm({ ...form, outputPerDay: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* A. Labor */}
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-800">A. Labor</h4>
+                  <button onClick={() => addRow('labor')} className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700">
+                    + Add
+                  </button>
+                </div>
+                {form.labor.map((row, i) => (
+                  <div key={i} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                    <input className={`${inputClass} col-span-5`} placeholder="Designation" value={row.designation}
+                      onChange={(e) => updateRow('labor', i, 'designation', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" title="No. of persons" value={row.noOfPersons}
+                      onChange={(e) => updateRow('labor', i, 'noOfPersons', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" title="Hours per day" value={row.noOfHours}
+                      onChange={(e) => updateRow('labor', i, 'noOfHours', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" step="0.01" title="Hourly rate" value={row.hourlyRate}
+                      onChange={(e) => updateRow('labor', i, 'hourlyRate', e.target.value)} />
+                    <button onClick={() => removeRow('labor', i)} className="col-span-1 text-sm text-red-600 hover:text-red-800">✕</button>
+                  </div>
+                ))}
+                {form.labor.length > 0 && (
+                  <div className="text-xs text-gray-500">Columns: designation, persons, hours/day, rate/hour</div>
+                )}
+              </div>
+
+              {/* B. Equipment */}
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-800">B. Equipment</h4>
+                  <button onClick={() => addRow('equipment')} className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700">
+                    + Add
+                  </button>
+                </div>
+                {form.equipment.map((row, i) => (
+                  <div key={i} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                    <input className={`${inputClass} col-span-5`} placeholder="Description" value={row.description}
+                      onChange={(e) => updateRow('equipment', i, 'description', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" title="No. of units" value={row.noOfUnits}
+                      onChange={(e) => updateRow('equipment', i, 'noOfUnits', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" title="Hours per day" value={row.noOfHours}
+                      onChange={(e) => updateRow('equipment', i, 'noOfHours', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" step="0.01" title="Rental rate per hour" value={row.hourlyRate}
+                      onChange={(e) => updateRow('equipment', i, 'hourlyRate', e.target.value)} />
+                    <button onClick={() => removeRow('equipment', i)} className="col-span-1 text-sm text-red-600 hover:text-red-800">✕</button>
+                  </div>
+                ))}
+                {form.equipment.length > 0 && (
+                  <div className="text-xs text-gray-500">Columns: description, units, hours/day, rental rate/hour</div>
+                )}
+              </div>
+
+              {/* F. Materials */}
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-800">F. Materials (per {form.unit})</h4>
+                  <button onClick={() => addRow('materials')} className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700">
+                    + Add
+                  </button>
+                </div>
+                {form.materials.map((row, i) => (
+                  <div key={i} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                    <input className={`${inputClass} col-span-5`} placeholder="Description" value={row.description}
+                      onChange={(e) => updateRow('materials', i, 'description', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} placeholder="Unit" value={row.unit}
+                      onChange={(e) => updateRow('materials', i, 'unit', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" step="0.0001" title="Quantity" value={row.quantity}
+                      onChange={(e) => updateRow('materials', i, 'quantity', e.target.value)} />
+                    <input className={`${inputClass} col-span-2`} type="number" step="0.01" title="Unit cost" value={row.unitCost}
+                      onChange={(e) => updateRow('materials', i, 'unitCost', e.target.value)} />
+                    <button onClick={() => removeRow('materials', i)} className="col-span-1 text-sm text-red-600 hover:text-red-800">✕</button>
+                  </div>
+                ))}
+                {form.materials.length > 0 && (
+                  <div className="text-xs text-gray-500">Columns: description, unit, quantity, unit cost</div>
+                )}
+              </div>
+
+              {/* Markups */}
+              <div className="bg-white rounded-lg shadow-sm p-4 grid grid-cols-3 gap-4">
+                {([
+                  ['ocmPercent', 'OCM (%)'],
+                  ['profitPercent', 'Profit (%)'],
+                  ['vatPercent', 'VAT (%)'],
+                ] as const).map(([key, label]) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={Number((form[key] * 100).toFixed(2))}
+                      onChange={(e) => setForm({ ...form, [key]: Number(e.target.value) / 100 })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {/* Breakdown */}
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                <h4 className="font-semibold text-green-900 mb-2">Unit Price Breakdown</h4>
+                {breakdownError && <p className="text-sm text-red-600">{breakdownError}</p>}
+                {breakdown && (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {[
+                        ['C. Labor + Equipment per day', breakdown.laborEquipmentCostPerDay],
+                        ['E. Labor + Equipment per unit (C ÷ D)', breakdown.laborEquipmentUnitCost],
+                        ['F. Materials per unit', breakdown.materialUnitCost],
+                        ['G. Direct unit cost (E + F)', breakdown.directUnitCost],
+                        [`H. OCM (${(form.ocmPercent * 100).toFixed(1)}%)`, breakdown.ocmAmount],
+                        [`I. Profit (${(form.profitPercent * 100).toFixed(1)}%)`, breakdown.profitAmount],
+                        [`J. VAT (${(form.vatPercent * 100).toFixed(1)}%)`, breakdown.vatAmount],
+                      ].map(([label, value]) => (
+                        <tr key={label as string}>
+                          <td className="py-1 text-gray-700">{label}</td>
+                          <td className="py-1 text-right text-gray-900">{formatMoney(value as number)}</td>
+                        </tr>
+                      ))}
+                      <tr className="border-t border-green-300">
+                        <td className="py-2 font-bold text-green-900">K. Total unit cost per {form.unit}</td>
+                        <td className="py-2 text-right font-bold text-green-900">
+                          {form.currency} {formatMoney(breakdown.totalUnitCost)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {getDUPA(form.dpwhItemNumberRaw) && (
+                  <button onClick={handleDelete} className="px-4 py-2 text-red-600 border border-red-300 rounded hover:bg-red-50">
+                    Delete DUPA
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !!breakdownError}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : 'Save DUPA'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { ElementInstance, ElementTemplate, GridLine, Level } from '@/types';
+import type { ElementInstance, ElementTemplate, GridLine, Level, MasonryWallOpening, PolygonBoundary } from '@/types';
 import FloorPlanVisualization from './FloorPlanVisualization';
 
 interface ElementInstancesEditorProps {
@@ -12,7 +12,7 @@ interface ElementInstancesEditorProps {
   levels: Level[];
 }
 
-type PlacementMode = 'beam' | 'slab' | 'column' | 'foundation';
+type PlacementMode = 'beam' | 'slab' | 'column' | 'foundation' | 'pile' | 'stair' | 'wall';
 
 export default function ElementInstancesEditor({ 
   projectId, 
@@ -38,17 +38,35 @@ export default function ElementInstancesEditor({
   const [beamStart, setBeamStart] = useState('');
   const [beamEnd, setBeamEnd] = useState('');
   const [beamGridLine, setBeamGridLine] = useState('');
+
+  // Beam end offsets (cantilevers, stop-short ends, off-grid line) or explicit end points, m
+  const [beamStartOffset, setBeamStartOffset] = useState('');
+  const [beamEndOffset, setBeamEndOffset] = useState('');
+  const [beamLineOffset, setBeamLineOffset] = useState('');
+  const [beamUseCoordinates, setBeamUseCoordinates] = useState(false);
+  const [beamCoordinates, setBeamCoordinates] = useState({ x1: '', y1: '', x2: '', y2: '' });
   
   // Slab placement (panel)
   const [slabXStart, setSlabXStart] = useState('');
   const [slabXEnd, setSlabXEnd] = useState('');
   const [slabYStart, setSlabYStart] = useState('');
   const [slabYEnd, setSlabYEnd] = useState('');
+
+  // Slab/mat outline (polygon instead of the grid panel) and opening polygons, one "x,y" point per line
+  const [slabUsePolygon, setSlabUsePolygon] = useState(false);
+  const [slabBoundaryText, setSlabBoundaryText] = useState('');
+  const [slabOpeningsText, setSlabOpeningsText] = useState('');
   
   // Column placement (intersection)
   const [columnGridX, setColumnGridX] = useState('');
   const [columnGridY, setColumnGridY] = useState('');
   const [columnEndLevelId, setColumnEndLevelId] = useState('');
+
+  // Pile placement (intersection + length override)
+  const [pileLength, setPileLength] = useState('');
+
+  // Wall placement (span + end level + openings)
+  const [wallOpenings, setWallOpenings] = useState<MasonryWallOpening[]>([]);
   
   // Tags
   const [tagsInput, setTagsInput] = useState('');
@@ -123,6 +141,11 @@ export default function ElementInstancesEditor({
     setBeamStart('');
     setBeamEnd('');
     setBeamGridLine('');
+    setBeamStartOffset('');
+    setBeamEndOffset('');
+    setBeamLineOffset('');
+    setBeamUseCoordinates(false);
+    setBeamCoordinates({ x1: '', y1: '', x2: '', y2: '' });
     setSlabXStart('');
     setSlabXEnd('');
     setSlabYStart('');
@@ -130,6 +153,10 @@ export default function ElementInstancesEditor({
     setColumnGridX('');
     setColumnGridY('');
     setColumnEndLevelId('');
+    setPileLength('');
+    setSlabUsePolygon(false);
+    setSlabBoundaryText('');
+    setSlabOpeningsText('');
     setTagsInput('');
     setEditingId(null);
   };
@@ -147,6 +174,11 @@ export default function ElementInstancesEditor({
     setBeamStart('');
     setBeamEnd('');
     setBeamGridLine('');
+    setBeamStartOffset('');
+    setBeamEndOffset('');
+    setBeamLineOffset('');
+    setBeamUseCoordinates(false);
+    setBeamCoordinates({ x1: '', y1: '', x2: '', y2: '' });
     setSlabXStart('');
     setSlabXEnd('');
     setSlabYStart('');
@@ -154,8 +186,34 @@ export default function ElementInstancesEditor({
     setColumnGridX('');
     setColumnGridY('');
     setColumnEndLevelId('');
+    setPileLength('');
+    setWallOpenings([]);
+    setSlabUsePolygon(false);
+    setSlabBoundaryText('');
+    setSlabOpeningsText('');
+  };
+
+  // "x,y" per line → polygon; blank lines separate polygons
+  const parsePolygons = (text: string): PolygonBoundary[] | null => {
+    const polygons: PolygonBoundary[] = [];
+    for (const block of text.split(/\n\s*\n/)) {
+      const lines = block.split('\n').map(l => l.trim()).filter(l => l);
+      if (lines.length === 0) continue;
+      const points: [number, number][] = [];
+      for (const line of lines) {
+        const [x, y] = line.split(/[,\s]+/).map(parseFloat);
+        if (isNaN(x) || isNaN(y)) return null;
+        points.push([x, y]);
+      }
+      if (points.length < 3) return null;
+      polygons.push({ points });
+    }
+    return polygons;
   };
 
+  const formatPolygons = (polygons: PolygonBoundary[]): string =>
+    polygons.map(p => p.points.map(([x, y]) => `${x},${y}`).join('\n')).join('\n\n');
+
   const handleAdd = async () => {
     if (!selectedTemplateId) {
       setError('Please select a template');
@@ -176,17 +234,30 @@ export default function ElementInstancesEditor({
       return;
     }
 
-    // Build gridRef based on placement mode
-    if (placementMode === 'beam') {
+    // Beams placed by explicit end points skip the grid span
+    const useBeamCoordinates = placementMode === 'beam' && beamUseCoordinates;
+    const coordinateValues = [beamCoordinates.x1, beamCoordinates.y1, beamCoordinates.x2, beamCoordinates.y2].map(parseFloat);
+    if (useBeamCoordinates && coordinateValues.some(v => isNaN(v))) {
+      setError('Please enter the beam start and end coordinates');
+      return;
+    }
+    const offsetValues = [beamStartOffset, beamEndOffset, beamLineOffset].map(v => (v ? parseFloat(v) : 0));
+    if (offsetValues.some(v => isNaN(v))) {
+      setError('Beam offsets must be numbers');
+      return;
+    }
+
+    // Build gridRef based on placement mode (walls use the beam span inputs)
+    if ((placementMode === 'beam' && !useBeamCoordinates) || placementMode === 'wall') {
       if (!beamStart || !beamEnd) {
-        setError('Please select start and end points for the beam');
+        setError(`Please select start and end points for the ${placementMode}`);
         return;
       }
       
       if (beamAxis === 'X') {
         // Beam along X-axis, specified by Y grid line
         if (!beamGridLine) {
-          setError('Please select a grid line for the beam');
+          setError(`Please select a grid line for the ${placementMode}`);
           return;
         }
         gridRef.push(`${beamStart}-${beamEnd}`);
@@ -194,19 +265,21 @@ export default function ElementInstancesEditor({
       } else {
         // Beam along Y-axis, specified by X grid line
         if (!beamGridLine) {
-          setError('Please select a grid line for the beam');
+          setError(`Please select a grid line for the ${placementMode}`);
           return;
         }
         gridRef.push(beamGridLine);
         gridRef.push(`${beamStart}-${beamEnd}`);
       }
     } else if (placementMode === 'slab') {
-      if (!slabXStart || !slabXEnd || !slabYStart || !slabYEnd) {
-        setError('Please select all slab panel boundaries');
-        return;
+      if (!slabUsePolygon) {
+        if (!slabXStart || !slabXEnd || !slabYStart || !slabYEnd) {
+          setError('Please select all slab panel boundaries');
+          return;
+        }
+        gridRef.push(`${slabXStart}-${slabXEnd}`);
+        gridRef.push(`${slabYStart}-${slabYEnd}`);
       }
-      gridRef.push(`${slabXStart}-${slabXEnd}`);
-      gridRef.push(`${slabYStart}-${slabYEnd}`);
     } else if (placementMode === 'column') {
       // Columns can be placed at intersections or anywhere
       if (columnGridX && columnGridY) {
@@ -220,13 +293,15 @@ export default function ElementInstancesEditor({
       const isMat = template.properties.thickness !== undefined;
       
       if (isMat) {
-        // Mat foundation - requires panel boundaries
-        if (!slabXStart || !slabXEnd || !slabYStart || !slabYEnd) {
-          setError('Mat foundation requires panel boundaries (X Start/End, Y Start/End)');
-          return;
+        // Mat foundation - requires panel boundaries or a polygon outline
+        if (!slabUsePolygon) {
+          if (!slabXStart || !slabXEnd || !slabYStart || !slabYEnd) {
+            setError('Mat foundation requires panel boundaries (X Start/End, Y Start/End)');
+            return;
+          }
+          gridRef.push(`${slabXStart}-${slabXEnd}`);
+          gridRef.push(`${slabYStart}-${slabYEnd}`);
         }
-        gridRef.push(`${slabXStart}-${slabXEnd}`);
-        gridRef.push(`${slabYStart}-${slabYEnd}`);
       } else {
         // Isolated footing - can be at intersection or free
         if (columnGridX && columnGridY) {
@@ -235,6 +310,38 @@ export default function ElementInstancesEditor({
         }
         // Allow free placement for footings
       }
+    } else if (placementMode === 'pile') {
+      if (!columnGridX || !columnGridY) {
+        setError('Please select the grid intersection for the pile group');
+        return;
+      }
+      gridRef.push(columnGridX);
+      gridRef.push(columnGridY);
+    } else if (placementMode === 'stair') {
+      // Stairs are located at a grid intersection (optional) and rise to an end level
+      if (columnGridX && columnGridY) {
+        gridRef.push(columnGridX);
+        gridRef.push(columnGridY);
+      }
+    }
+
+    // Slab and mat outlines
+    const isPanel = placementMode === 'slab' || (placementMode === 'foundation' && template.properties.thickness !== undefined);
+    const boundary = isPanel && slabUsePolygon ? parsePolygons(slabBoundaryText) : [];
+    const openingPolygons = isPanel ? parsePolygons(slabOpeningsText) : [];
+    if (!boundary || (isPanel && slabUsePolygon && boundary.length !== 1)) {
+      setError('Outline must be one polygon of at least 3 "x,y" points');
+      return;
+    }
+    if (!openingPolygons) {
+      setError('Each opening must have at least 3 "x,y" points, separated by a blank line');
+      return;
+    }
+
+    const customLength = placementMode === 'pile' && pileLength ? parseFloat(pileLength) : undefined;
+    if (customLength !== undefined && (isNaN(customLength) || customLength <= 0)) {
+      setError('Pile length must be a positive number');
+      return;
     }
 
     const newInstance: ElementInstance = {
@@ -243,7 +350,17 @@ export default function ElementInstancesEditor({
       placement: {
         gridRef: gridRef.length > 0 ? gridRef : undefined,
         levelId: selectedLevelId,
-        endLevelId: placementMode === 'column' ? (columnEndLevelId || undefined) : undefined,
+        endLevelId: placementMode === 'column' || placementMode === 'stair' || placementMode === 'wall' ? (columnEndLevelId || undefined) : undefined,
+        customGeometry: customLength !== undefined ? { length: customLength } : undefined,
+        openings: placementMode === 'wall' && wallOpenings.length > 0 ? wallOpenings : undefined,
+        beamOffsets: placementMode === 'beam' && !useBeamCoordinates && offsetValues.some(v => v !== 0)
+          ? { start: offsetValues[0], end: offsetValues[1], line: offsetValues[2] }
+          : undefined,
+        beamCoordinates: useBeamCoordinates
+          ? { start: [coordinateValues[0], coordinateValues[1]], end: [coordinateValues[2], coordinateValues[3]] }
+          : undefined,
+        boundary: boundary[0],
+        openingPolygons: openingPolygons.length > 0 ? openingPolygons : undefined,
       },
       tags,
     };
@@ -281,7 +398,20 @@ export default function ElementInstancesEditor({
     // Parse grid references based on type
     const gridRef = instance.placement.gridRef || [];
 
-    if (template.type === 'beam' && gridRef.length >= 2) {
+    setSlabUsePolygon(!!instance.placement.boundary);
+    setSlabBoundaryText(instance.placement.boundary ? formatPolygons([instance.placement.boundary]) : '');
+    setSlabOpeningsText(formatPolygons(instance.placement.openingPolygons || []));
+    const offsets = instance.placement.beamOffsets;
+    const coordinates = instance.placement.beamCoordinates;
+    setBeamStartOffset(offsets?.start ? offsets.start.toString() : '');
+    setBeamEndOffset(offsets?.end ? offsets.end.toString() : '');
+    setBeamLineOffset(offsets?.line ? offsets.line.toString() : '');
+    setBeamUseCoordinates(!!coordinates);
+    setBeamCoordinates(coordinates
+      ? { x1: coordinates.start[0].toString(), y1: coordinates.start[1].toString(), x2: coordinates.end[0].toString(), y2: coordinates.end[1].toString() }
+      : { x1: '', y1: '', x2: '', y2: '' });
+
+    if ((template.type === 'beam' || template.type === 'wall') && gridRef.length >= 2) {
       const [ref1, ref2] = gridRef;
       if (ref1.includes('-')) {
         setBeamAxis('X');
@@ -296,6 +426,10 @@ export default function ElementInstancesEditor({
         setBeamEnd(end);
         setBeamGridLine(ref1);
       }
+      if (template.type === 'wall') {
+        setColumnEndLevelId(instance.placement.endLevelId || '');
+        setWallOpenings(instance.placement.openings || []);
+      }
     } else if (template.type === 'slab' && gridRef.length >= 2) {
       const [xRef, yRef] = gridRef;
       const [xStart, xEnd] = xRef.split('-');
@@ -308,6 +442,12 @@ export default function ElementInstancesEditor({
       setColumnGridX(gridRef[0]);
       setColumnGridY(gridRef[1]);
       setColumnEndLevelId(instance.placement.endLevelId || '');
+    } else if (template.type === 'stair') {
+      if (gridRef.length >= 2) {
+        setColumnGridX(gridRef[0]);
+        setColumnGridY(gridRef[1]);
+      }
+      setColumnEndLevelId(instance.placement.endLevelId || '');
     } else if (template.type === 'foundation') {
       const isMat = template.properties.thickness !== undefined;
       if (isMat && gridRef.length >= 2) {
@@ -322,9 +462,54 @@ export default function ElementInstancesEditor({
         setColumnGridX(gridRef[0]);
         setColumnGridY(gridRef[1]);
       }
+    } else if (template.type === 'pile' && gridRef.length >= 2) {
+      setColumnGridX(gridRef[0]);
+      setColumnGridY(gridRef[1]);
+      setPileLength(instance.placement.customGeometry?.length?.toString() || '');
     }
   };
 
+  const renderOutlineInputs = () => (
+    <div className="mt-4 space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={slabUsePolygon}
+          onChange={(e) => setSlabUsePolygon(e.target.checked)}
+        />
+        Polygon outline instead of the grid panel
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {slabUsePolygon && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Outline (one &quot;x,y&quot; point per line, m)
+            </label>
+            <textarea
+              value={slabBoundaryText}
+              onChange={(e) => setSlabBoundaryText(e.target.value)}
+              rows={5}
+              placeholder={'0,0\n8,0\n8,4\n4,4\n4,6\n0,6'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Openings (stair wells, shafts; blank line between openings)
+          </label>
+          <textarea
+            value={slabOpeningsText}
+            onChange={(e) => setSlabOpeningsText(e.target.value)}
+            rows={5}
+            placeholder={'1,1\n2.2,1\n2.2,3.5\n1,3.5'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+
   const getTemplateName = (templateId: string): string => {
     const template = templates.find(t => t.id === templateId);
     return template ? template.name : 'Unknown';
@@ -369,11 +554,17 @@ export default function ElementInstancesEditor({
   const slabTemplates = templates.filter(t => t.type === 'slab');
   const columnTemplates = templates.filter(t => t.type === 'column');
   const foundationTemplates = templates.filter(t => t.type === 'foundation');
+  const pileTemplates = templates.filter(t => t.type === 'pile');
+  const stairTemplates = templates.filter(t => t.type === 'stair');
+  const wallTemplates = templates.filter(t => t.type === 'wall');
 
   const beamInstances = instances.filter(i => getTemplateType(i.templateId) === 'beam');
   const slabInstances = instances.filter(i => getTemplateType(i.templateId) === 'slab');
   const columnInstances = instances.filter(i => getTemplateType(i.templateId) === 'column');
   const foundationInstances = instances.filter(i => getTemplateType(i.templateId) === 'foundation');
+  const pileInstances = instances.filter(i => getTemplateType(i.templateId) === 'pile');
+  const stairInstances = instances.filter(i => getTemplateType(i.templateId) === 'stair');
+  const wallInstances = instances.filter(i => getTemplateType(i.templateId) === 'wall');
 
   return (
     <div className="space-y-6">
@@ -429,6 +620,27 @@ export default function ElementInstancesEditor({
                   ))}
                 </optgroup>
               )}
+              {pileTemplates.length > 0 && (
+                <optgroup label="Piles">
+                  {pileTemplates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {stairTemplates.length > 0 && (
+                <optgroup label="Stairs">
+                  {stairTemplates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {wallTemplates.length > 0 && (
+                <optgroup label="Walls">
+                  {wallTemplates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
 
@@ -452,78 +664,152 @@ export default function ElementInstancesEditor({
         </div>
 
         {/* Placement Inputs */}
-        {placementMode === 'beam' && selectedTemplateId && (
+        {(placementMode === 'beam' || placementMode === 'wall') && selectedTemplateId && (
           <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded">
-            <h4 className="font-medium text-sm text-blue-900 mb-3">Beam Placement (Span)</h4>
-            
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Beam Direction
-                </label>
-                <select
-                  value={beamAxis}
-                  onChange={(e) => {
-                    setBeamAxis(e.target.value as 'X' | 'Y');
-                    setBeamStart('');
-                    setBeamEnd('');
-                    setBeamGridLine('');
-                  }}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                >
-                  <option value="X">Along X-axis</option>
-                  <option value="Y">Along Y-axis</option>
-                </select>
-              </div>
+            <h4 className="font-medium text-sm text-blue-900 mb-3">{placementMode === 'wall' ? 'Wall' : 'Beam'} Placement (Span)</h4>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Start {beamAxis === 'X' ? 'X' : 'Y'}
-                </label>
-                <select
-                  value={beamStart}
-                  onChange={(e) => setBeamStart(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                >
-                  <option value="">Select...</option>
-                  {(beamAxis === 'X' ? gridX : gridY).map(g => (
-                    <option key={g.label} value={g.label}>{g.label}</option>
-                  ))}
-                </select>
+            {placementMode === 'beam' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+                <input
+                  type="checkbox"
+                  checked={beamUseCoordinates}
+                  onChange={(e) => setBeamUseCoordinates(e.target.checked)}
+                />
+                Place by start/end coordinates instead of a grid span
+              </label>
+            )}
+
+            {placementMode === 'beam' && beamUseCoordinates ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['x1', 'y1', 'x2', 'y2'] as const).map(key => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {key.startsWith('x') ? 'X' : 'Y'} {key.endsWith('1') ? 'Start' : 'End'} (m)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={beamCoordinates[key]}
+                      onChange={(e) => setBeamCoordinates({ ...beamCoordinates, [key]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                ))}
               </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {placementMode === 'wall' ? 'Wall' : 'Beam'} Direction
+                  </label>
+                  <select
+                    value={beamAxis}
+                    onChange={(e) => {
+                      setBeamAxis(e.target.value as 'X' | 'Y');
+                      setBeamStart('');
+                      setBeamEnd('');
+                      setBeamGridLine('');
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="X">Along X-axis</option>
+                    <option value="Y">Along Y-axis</option>
+                  </select>
+                </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  End {beamAxis === 'X' ? 'X' : 'Y'}
-                </label>
-                <select
-                  value={beamEnd}
-                  onChange={(e) => setBeamEnd(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                >
-                  <option value="">Select...</option>
-                  {(beamAxis === 'X' ? gridX : gridY).map(g => (
-                    <option key={g.label} value={g.label}>{g.label}</option>
-                  ))}
-                </select>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start {beamAxis === 'X' ? 'X' : 'Y'}
+                  </label>
+                  <select
+                    value={beamStart}
+                    onChange={(e) => setBeamStart(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select...</option>
+                    {(beamAxis === 'X' ? gridX : gridY).map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End {beamAxis === 'X' ? 'X' : 'Y'}
+                  </label>
+                  <select
+                    value={beamEnd}
+                    onChange={(e) => setBeamEnd(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select...</option>
+                    {(beamAxis === 'X' ? gridX : gridY).map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    At Grid {beamAxis === 'X' ? 'Y' : 'X'}
+                  </label>
+                  <select
+                    value={beamGridLine}
+                    onChange={(e) => setBeamGridLine(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select...</option>
+                    {(beamAxis === 'X' ? gridY : gridX).map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
+            )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  At Grid {beamAxis === 'X' ? 'Y' : 'X'}
-                </label>
-                <select
-                  value={beamGridLine}
-                  onChange={(e) => setBeamGridLine(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                >
-                  <option value="">Select...</option>
-                  {(beamAxis === 'X' ? gridY : gridX).map(g => (
-                    <option key={g.label} value={g.label}>{g.label}</option>
-                  ))}
-                </select>
+            {placementMode === 'beam' && !beamUseCoordinates && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start Offset (m)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={beamStartOffset}
+                    onChange={(e) => setBeamStartOffset(e.target.value)}
+                    placeholder="+ cantilever, − stops short"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Offset (m)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={beamEndOffset}
+                    onChange={(e) => setBeamEndOffset(e.target.value)}
+                    placeholder="+ cantilever, − stops short"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Offset from Grid Line (m)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={beamLineOffset}
+                    onChange={(e) => setBeamLineOffset(e.target.value)}
+                    placeholder="Secondary beams between grids"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
               </div>
-            </div>
+            )}
           </div>
         )}
 
@@ -596,6 +882,7 @@ export default function ElementInstancesEditor({
                 </select>
               </div>
             </div>
+            {renderOutlineInputs()}
           </div>
         )}
 
@@ -750,6 +1037,7 @@ export default function ElementInstancesEditor({
                       ))}
                     </select>
                   </div>
+                  <div className="md:col-span-4">{renderOutlineInputs()}</div>
                 </div>
               ) : (
                 // Isolated footing - point placement
@@ -791,6 +1079,200 @@ export default function ElementInstancesEditor({
           );
         })()}
 
+        {placementMode === 'pile' && selectedTemplateId && (() => {
+          const template = templates.find(t => t.id === selectedTemplateId);
+
+          return (
+            <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded">
+              <h4 className="font-medium text-sm text-amber-900 mb-3">Pile Group Placement (Intersection)</h4>
+              <p className="text-sm text-amber-700 mb-3">
+                Select the level at the top of the pile cap. Pile length defaults to the template ({template?.properties.length ?? '?'}m).
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Grid X
+                  </label>
+                  <select
+                    value={columnGridX}
+                    onChange={(e) => setColumnGridX(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select...</option>
+                    {gridX.map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Grid Y
+                  </label>
+                  <select
+                    value={columnGridY}
+                    onChange={(e) => setColumnGridY(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select...</option>
+                    {gridY.map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pile Length (m, optional)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={pileLength}
+                    onChange={(e) => setPileLength(e.target.value)}
+                    placeholder={template?.properties.length?.toString() || ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <p className="text-xs text-amber-600 mt-1">Overrides the template length for this pile group</p>
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+
+        {placementMode === 'stair' && selectedTemplateId && (() => {
+          const currentLevel = levels.find(l => l.label === selectedLevelId);
+          const sortedLevels = [...levels].sort((a, b) => a.elevation - b.elevation);
+          const currentIndex = currentLevel ? sortedLevels.findIndex(l => l.label === currentLevel.label) : -1;
+          const levelsAbove = currentIndex >= 0 ? sortedLevels.slice(currentIndex + 1) : [];
+
+          return (
+            <div className="mb-4 p-4 bg-teal-50 border border-teal-200 rounded">
+              <h4 className="font-medium text-sm text-teal-900 mb-3">Stair Placement</h4>
+              <p className="text-sm text-teal-700 mb-3">
+                The stair rises from the selected level to the end level. Risers are laid out to fit the level-to-level height.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Grid X (Optional)
+                  </label>
+                  <select
+                    value={columnGridX}
+                    onChange={(e) => setColumnGridX(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select or leave free...</option>
+                    {gridX.map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Grid Y (Optional)
+                  </label>
+                  <select
+                    value={columnGridY}
+                    onChange={(e) => setColumnGridY(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Select or leave free...</option>
+                    {gridY.map(g => (
+                      <option key={g.label} value={g.label}>{g.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Level
+                  </label>
+                  <select
+                    value={columnEndLevelId}
+                    onChange={(e) => setColumnEndLevelId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Next level (auto)</option>
+                    {levelsAbove.map(level => (
+                      <option key={level.label} value={level.label}>
+                        {level.label} ({level.elevation}m)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+
+        {placementMode === 'wall' && selectedTemplateId && (() => {
+          const currentLevel = levels.find(l => l.label === selectedLevelId);
+          const sortedLevels = [...levels].sort((a, b) => a.elevation - b.elevation);
+          const currentIndex = currentLevel ? sortedLevels.findIndex(l => l.label === currentLevel.label) : -1;
+          const levelsAbove = currentIndex >= 0 ? sortedLevels.slice(currentIndex + 1) : [];
+          const updateOpening = (index: number, field: keyof MasonryWallOpening, value: string) => {
+            setWallOpenings(wallOpenings.map((o, i) => (i === index ? { ...o, [field]: parseFloat(value) || 0 } : o)));
+          };
+
+          return (
+            <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded">
+              <h4 className="font-medium text-sm text-slate-900 mb-3">Wall Height &amp; Openings</h4>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Level
+                  </label>
+                  <select
+                    value={columnEndLevelId}
+                    onChange={(e) => setColumnEndLevelId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Next level (auto)</option>
+                    {levelsAbove.map(level => (
+                      <option key={level.label} value={level.label}>
+                        {level.label} ({level.elevation}m)
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-600 mt-1">
+                    Wall rises from {currentLevel?.label || selectedLevelId} ({currentLevel?.elevation || 0}m)
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="block text-sm font-medium text-gray-700">Openings (deducted)</label>
+                    <button
+                      type="button"
+                      onClick={() => setWallOpenings([...wallOpenings, { width_m: 0.9, height_m: 2.1, qty: 1 }])}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      + Add Opening
+                    </button>
+                  </div>
+                  {wallOpenings.map((opening, index) => (
+                    <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                      <input type="number" step="0.01" value={opening.width_m} onChange={(e) => updateOpening(index, 'width_m', e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm" title="Width (m)" />
+                      <input type="number" step="0.01" value={opening.height_m} onChange={(e) => updateOpening(index, 'height_m', e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm" title="Height (m)" />
+                      <input type="number" step="1" value={opening.qty} onChange={(e) => updateOpening(index, 'qty', e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm" title="Quantity" />
+                      <button type="button" onClick={() => setWallOpenings(wallOpenings.filter((_, i) => i !== index))} className="text-xs text-red-600">
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  {wallOpenings.length > 0 && <p className="text-xs text-gray-500">Width (m) · Height (m) · Qty</p>}
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+
         {/* Tags */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -836,7 +1318,7 @@ export default function ElementInstancesEditor({
       />
 
       {/* Instance Lists */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-6">
         {/* Beams */}
         <div className="bg-white border border-gray-200 rounded-lg p-4">
           <h4 className="font-semibold text-gray-700 mb-3">Beams ({beamInstances.length})</h4>
@@ -847,7 +1329,12 @@ export default function ElementInstancesEditor({
               beamInstances.map(instance => (
                 <div key={instance.id} className="p-2 bg-gray-50 rounded text-sm">
                   <div className="font-medium">{getTemplateName(instance.templateId)}</div>
-                  <div className="text-xs text-gray-600">{formatGridRef(instance.placement.gridRef)}</div>
+                  <div className="text-xs text-gray-600">
+                    {instance.placement.beamCoordinates
+                      ? `(${instance.placement.beamCoordinates.start.join(', ')}) → (${instance.placement.beamCoordinates.end.join(', ')})`
+                      : formatGridRef(instance.placement.gridRef)}
+                    {instance.placement.beamOffsets && ` · offsets ${instance.placement.beamOffsets.start || 0} / ${instance.placement.beamOffsets.end || 0} m`}
+                  </div>
                   <div className="text-xs text-gray-600">{getLevelLabel(instance.placement.levelId)}</div>
                   {instance.tags && instance.tags.length > 0 && (
                     <div className="text-xs text-blue-600 mt-1">{instance.tags.join(', ')}</div>
@@ -882,7 +1369,10 @@ export default function ElementInstancesEditor({
               slabInstances.map(instance => (
                 <div key={instance.id} className="p-2 bg-gray-50 rounded text-sm">
                   <div className="font-medium">{getTemplateName(instance.templateId)}</div>
-                  <div className="text-xs text-gray-600">{formatGridRef(instance.placement.gridRef)}</div>
+                  <div className="text-xs text-gray-600">
+                    {instance.placement.boundary ? `Polygon outline (${instance.placement.boundary.points.length} points)` : formatGridRef(instance.placement.gridRef)}
+                    {instance.placement.openingPolygons?.length ? ` · ${instance.placement.openingPolygons.length} opening(s)` : ''}
+                  </div>
                   <div className="text-xs text-gray-600">{getLevelLabel(instance.placement.levelId)}</div>
                   {instance.tags && instance.tags.length > 0 && (
                     <div className="text-xs text-blue-600 mt-1">{instance.tags.join(', ')}</div>
@@ -983,12 +1473,137 @@ export default function ElementInstancesEditor({
             )}
           </div>
         </div>
+
+        {/* Piles */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Piles ({pileInstances.length})</h4>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {pileInstances.length === 0 ? (
+              <p className="text-sm text-gray-400">No piles placed</p>
+            ) : (
+              pileInstances.map(instance => (
+                <div key={instance.id} className="p-2 bg-gray-50 rounded text-sm">
+                  <div className="font-medium">{getTemplateName(instance.templateId)}</div>
+                  <div className="text-xs text-gray-600">{formatGridRef(instance.placement.gridRef)}</div>
+                  <div className="text-xs text-gray-600">{getLevelLabel(instance.placement.levelId)}</div>
+                  {instance.placement.customGeometry?.length !== undefined && (
+                    <div className="text-xs text-amber-600">L = {instance.placement.customGeometry.length}m (override)</div>
+                  )}
+                  {instance.tags && instance.tags.length > 0 && (
+                    <div className="text-xs text-blue-600 mt-1">{instance.tags.join(', ')}</div>
+                  )}
+                  <div className="flex gap-2 mt-1">
+                    <button
+                      onClick={() => handleEdit(instance)}
+                      className="text-blue-600 hover:text-blue-800 text-xs"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(instance.id)}
+                      className="text-red-600 hover:text-red-800 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Stairs */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Stairs ({stairInstances.length})</h4>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {stairInstances.length === 0 ? (
+              <p className="text-sm text-gray-400">No stairs placed</p>
+            ) : (
+              stairInstances.map(instance => (
+                <div key={instance.id} className="p-2 bg-gray-50 rounded text-sm">
+                  <div className="font-medium">{getTemplateName(instance.templateId)}</div>
+                  <div className="text-xs text-gray-600">{formatGridRef(instance.placement.gridRef)}</div>
+                  <div className="text-xs text-gray-600">
+                    {getLevelLabel(instance.placement.levelId)}
+                    {instance.placement.endLevelId ? (
+                      <> → {getLevelLabel(instance.placement.endLevelId)}</>
+                    ) : (
+                      <span className="text-gray-400"> → Next level (auto)</span>
+                    )}
+                  </div>
+                  {instance.tags && instance.tags.length > 0 && (
+                    <div className="text-xs text-blue-600 mt-1">{instance.tags.join(', ')}</div>
+                  )}
+                  <div className="flex gap-2 mt-1">
+                    <button
+                      onClick={() => handleEdit(instance)}
+                      className="text-blue-600 hover:text-blue-800 text-xs"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(instance.id)}
+                      className="text-red-600 hover:text-red-800 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Walls */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Walls ({wallInstances.length})</h4>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {wallInstances.length === 0 ? (
+              <p className="text-sm text-gray-400">No walls placed</p>
+            ) : (
+              wallInstances.map(instance => (
+                <div key={instance.id} className="p-2 bg-gray-50 rounded text-sm">
+                  <div className="font-medium">{getTemplateName(instance.templateId)}</div>
+                  <div className="text-xs text-gray-600">{formatGridRef(instance.placement.gridRef)}</div>
+                  <div className="text-xs text-gray-600">
+                    {getLevelLabel(instance.placement.levelId)}
+                    {instance.placement.endLevelId ? (
+                      <> → {getLevelLabel(instance.placement.endLevelId)}</>
+                    ) : (
+                      <span className="text-gray-400"> → Next level (auto)</span>
+                    )}
+                  </div>
+                  {instance.placement.openings && instance.placement.openings.length > 0 && (
+                    <div className="text-xs text-slate-600">{instance.placement.openings.reduce((sum, o) => sum + o.qty, 0)} opening(s)</div>
+                  )}
+                  {instance.tags && instance.tags.length > 0 && (
+                    <div className="text-xs text-blue-600 mt-1">{instance.tags.join(', ')}</div>
+                  )}
+                  <div className="flex gap-2 mt-1">
+                    <button
+                      onClick={() => handleEdit(instance)}
+                      className="text-blue-600 hover:text-blue-800 text-xs"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(instance.id)}
+                      className="text-red-600 hover:text-red-800 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Summary */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <p className="text-sm text-blue-800">
-          <strong>Total Elements:</strong> {instances.length} ({beamInstances.length} beams, {slabInstances.length} slabs, {columnInstances.length} columns, {foundationInstances.length} foundations)
+          <strong>Total Elements:</strong> {instances.length} ({beamInstances.length} beams, {slabInstances.length} slabs, {columnInstances.length} columns, {foundationInstances.length} foundations, {pileInstances.length} piles, {stairInstances.length} stairs, {wallInstances.length} walls)
         </p>
       </div>
     </div>
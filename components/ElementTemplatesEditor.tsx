@@ -1,15 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { ElementTemplate, DPWHCatalogItem } from '@/types';
+import type { ElementTemplate, DPWHCatalogItem, PileType, SlabSupport } from '@/types';
 import dpwhCatalog from '@/data/dpwh-catalog.json';
 import { getDPWHRebarItem } from '@/lib/math/rebar';
+import { DEFAULT_PILE_CUTOFF, getDPWHPilingItems } from '@/lib/math/piles';
+import { DEFAULT_BEDDING_THICKNESS } from '@/lib/math/slabSupport';
 
 interface ElementTemplatesEditorProps {
   projectId: string;
 }
 
-type ElementType = 'beam' | 'slab' | 'column' | 'foundation';
+type ElementType = 'beam' | 'slab' | 'column' | 'foundation' | 'pile' | 'stair' | 'wall';
 type ColumnShape = 'rectangular' | 'circular';
 type FoundationType = 'mat' | 'footing';
 
@@ -28,12 +30,36 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
   const [formThickness, setFormThickness] = useState('');
   const [formDiameter, setFormDiameter] = useState('');
   const [columnShape, setColumnShape] = useState<ColumnShape>('rectangular');
+
+  // Slab (suspended or on grade)
+  const [slabSupport, setSlabSupport] = useState<SlabSupport>('suspended');
+  const [beddingThickness, setBeddingThickness] = useState('');
   
   // Foundation
   const [foundationType, setFoundationType] = useState<FoundationType>('mat');
   const [foundationLength, setFoundationLength] = useState('');
   const [foundationWidth, setFoundationWidth] = useState('');
   const [foundationDepth, setFoundationDepth] = useState('');
+
+  // Pile (group with optional cap)
+  const [pileType, setPileType] = useState<PileType>('bored');
+  const [pileLength, setPileLength] = useState('');
+  const [pileCutoff, setPileCutoff] = useState('');
+  const [pileCount, setPileCount] = useState('');
+  const [capLength, setCapLength] = useState('');
+  const [capWidth, setCapWidth] = useState('');
+  const [capDepth, setCapDepth] = useState('');
+
+  // Stair (flights between two levels)
+  const [stairRiser, setStairRiser] = useState('');
+  const [stairTread, setStairTread] = useState('');
+  const [stairWaist, setStairWaist] = useState('');
+  const [stairFlights, setStairFlights] = useState('');
+  const [landingLength, setLandingLength] = useState('');
+  const [landingWidth, setLandingWidth] = useState('');
+
+  // Wall (RC, shear, retaining, basement)
+  const [wallLayers, setWallLayers] = useState('2');
   
   // DPWH Item
   const [formDpwhItemNumber, setFormDpwhItemNumber] = useState('');
@@ -52,6 +78,7 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
   const catalog = dpwhCatalog as { items: DPWHCatalogItem[] };
   const concreteItems = catalog.items.filter(item => item.trade === 'Concrete');
   const rebarItems = catalog.items.filter(item => item.trade === 'Rebar');
+  const pilingItems = catalog.items.filter(item => item.category === 'Piling Works');
   
   // Standard rebar diameters (mm)
   const rebarDiameters = [10, 12, 16, 20, 25, 28, 32, 36, 40];
@@ -110,10 +137,26 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
     setFormThickness('');
     setFormDiameter('');
     setColumnShape('rectangular');
+    setSlabSupport('suspended');
+    setBeddingThickness('');
     setFoundationType('mat');
     setFoundationLength('');
     setFoundationWidth('');
     setFoundationDepth('');
+    setPileType('bored');
+    setPileLength('');
+    setPileCutoff('');
+    setPileCount('');
+    setCapLength('');
+    setCapWidth('');
+    setCapDepth('');
+    setStairRiser('');
+    setStairTread('');
+    setStairWaist('');
+    setStairFlights('');
+    setLandingLength('');
+    setLandingWidth('');
+    setWallLayers('2');
     setFormDpwhItemNumber('');
     setFormMainBarCount('');
     setFormMainBarDiameter('');
@@ -146,6 +189,14 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
         return;
       }
       properties.thickness = thickness;
+      if (slabSupport === 'on-grade' && beddingThickness) {
+        const bedding = parseFloat(beddingThickness);
+        if (isNaN(bedding) || bedding <= 0) {
+          setError('Bedding thickness must be a positive number');
+          return;
+        }
+        properties.beddingThickness = bedding;
+      }
     } else if (formType === 'foundation') {
       if (foundationType === 'mat') {
         // Mat foundation (like slab)
@@ -168,6 +219,70 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
         properties.width = width;
         properties.depth = depth;
       }
+    } else if (formType === 'pile') {
+      // Bored piles are circular, driven precast piles are square
+      const size = parseFloat(pileType === 'bored' ? formDiameter : formWidth);
+      const length = parseFloat(pileLength);
+      if (isNaN(size) || size <= 0 || isNaN(length) || length <= 0) {
+        setError(`Pile requires positive ${pileType === 'bored' ? 'diameter' : 'width'} and length`);
+        return;
+      }
+      properties[pileType === 'bored' ? 'diameter' : 'width'] = size;
+      properties.length = length;
+      if (pileCutoff) properties.cutoffAllowance = parseFloat(pileCutoff);
+      if (pileCount) properties.pileCount = parseInt(pileCount);
+
+      // Pile cap is optional but needs all three dimensions
+      if (capLength || capWidth || capDepth) {
+        const length = parseFloat(capLength);
+        const width = parseFloat(capWidth);
+        const depth = parseFloat(capDepth);
+        if (isNaN(length) || length <= 0 || isNaN(width) || width <= 0 || isNaN(depth) || depth <= 0) {
+          setError('Pile cap requires positive length, width, and depth');
+          return;
+        }
+        properties.capLength = length;
+        properties.capWidth = width;
+        properties.capDepth = depth;
+      }
+    } else if (formType === 'stair') {
+      const riser = parseFloat(stairRiser);
+      const tread = parseFloat(stairTread);
+      const width = parseFloat(formWidth);
+      const waist = parseFloat(stairWaist);
+      const flights = stairFlights ? parseInt(stairFlights) : 1;
+      if ([riser, tread, width, waist].some(v => isNaN(v) || v <= 0)) {
+        setError('Stair requires positive riser, tread, width, and waist thickness');
+        return;
+      }
+      if (isNaN(flights) || flights < 1) {
+        setError('Stair requires at least one flight');
+        return;
+      }
+      properties.riser = riser;
+      properties.tread = tread;
+      properties.width = width;
+      properties.waistThickness = waist;
+      properties.flights = flights;
+
+      // Landings join consecutive flights
+      if (flights > 1) {
+        const length = parseFloat(landingLength);
+        if (isNaN(length) || length <= 0) {
+          setError('Stair with more than one flight requires a positive landing length');
+          return;
+        }
+        properties.landingLength = length;
+        if (landingWidth) properties.landingWidth = parseFloat(landingWidth);
+      }
+    } else if (formType === 'wall') {
+      const thickness = parseFloat(formThickness);
+      if (isNaN(thickness) || thickness <= 0) {
+        setError('Wall requires positive thickness');
+        return;
+      }
+      properties.thickness = thickness;
+      properties.layers = parseInt(wallLayers);
     } else if (formType === 'column') {
       if (columnShape === 'circular') {
         const diameter = parseFloat(formDiameter);
@@ -233,6 +348,8 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
       properties,
       dpwhItemNumber: formDpwhItemNumber || undefined,
       rebarConfig: Object.keys(rebarConfig).length > 0 ? rebarConfig : undefined,
+      pileType: formType === 'pile' ? pileType : undefined,
+      slabSupport: formType === 'slab' ? slabSupport : undefined,
     };
 
     let updatedTemplates: ElementTemplate[];
@@ -271,6 +388,8 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
       setFormHeight(template.properties.height?.toString() || '');
     } else if (template.type === 'slab') {
       setFormThickness(template.properties.thickness?.toString() || '');
+      setSlabSupport(template.slabSupport || 'suspended');
+      setBeddingThickness(template.properties.beddingThickness?.toString() || '');
     } else if (template.type === 'foundation') {
       if (template.properties.thickness !== undefined) {
         setFoundationType('mat');
@@ -281,6 +400,27 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
         setFoundationWidth(template.properties.width?.toString() || '');
         setFoundationDepth(template.properties.depth?.toString() || '');
       }
+    } else if (template.type === 'pile') {
+      setPileType(template.pileType || 'bored');
+      setFormDiameter(template.properties.diameter?.toString() || '');
+      setFormWidth(template.properties.width?.toString() || '');
+      setPileLength(template.properties.length?.toString() || '');
+      setPileCutoff(template.properties.cutoffAllowance?.toString() || '');
+      setPileCount(template.properties.pileCount?.toString() || '');
+      setCapLength(template.properties.capLength?.toString() || '');
+      setCapWidth(template.properties.capWidth?.toString() || '');
+      setCapDepth(template.properties.capDepth?.toString() || '');
+    } else if (template.type === 'stair') {
+      setStairRiser(template.properties.riser?.toString() || '');
+      setStairTread(template.properties.tread?.toString() || '');
+      setFormWidth(template.properties.width?.toString() || '');
+      setStairWaist(template.properties.waistThickness?.toString() || '');
+      setStairFlights(template.properties.flights?.toString() || '');
+      setLandingLength(template.properties.landingLength?.toString() || '');
+      setLandingWidth(template.properties.landingWidth?.toString() || '');
+    } else if (template.type === 'wall') {
+      setFormThickness(template.properties.thickness?.toString() || '');
+      setWallLayers(template.properties.layers?.toString() || '2');
     } else if (template.type === 'column') {
       if (template.properties.diameter !== undefined) {
         setColumnShape('circular');
@@ -304,13 +444,24 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
     if (template.type === 'beam') {
       return `${props.width}m × ${props.height}m`;
     } else if (template.type === 'slab') {
-      return `${props.thickness}m thick`;
+      return `${props.thickness}m thick${template.slabSupport === 'on-grade' ? ', on grade' : ''}`;
     } else if (template.type === 'foundation') {
       if (props.thickness !== undefined) {
         return `${props.thickness}m thick (mat)`;
       } else {
         return `${props.length}m × ${props.width}m × ${props.depth}m (footing)`;
       }
+    } else if (template.type === 'pile') {
+      const size = template.pileType === 'driven' ? `${props.width}m sq.` : `Ø ${props.diameter}m`;
+      const cap = props.capDepth !== undefined ? `, cap ${props.capLength}×${props.capWidth}×${props.capDepth}m` : '';
+      return `${props.pileCount || 1} × ${size} ${template.pileType || 'bored'}, L = ${props.length}m${cap}`;
+    } else if (template.type === 'stair') {
+      const flights = props.flights || 1;
+      const landing = flights > 1 ? `, landing ${props.landingLength}m` : '';
+      return `R ${props.riser}m / T ${props.tread}m, ${props.width}m wide, waist ${props.waistThickness}m, ${flights} flight${flights > 1 ? 's' : ''}${landing}`;
+    } else if (template.type === 'wall') {
+      const layers = props.layers || 2;
+      return `${props.thickness}m thick, ${layers} bar layer${layers > 1 ? 's' : ''}`;
     } else if (template.type === 'column') {
       if (props.diameter !== undefined) {
         return `Ø ${props.diameter}m`;
@@ -355,6 +506,9 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
   const slabs = templates.filter(t => t.type === 'slab');
   const columns = templates.filter(t => t.type === 'column');
   const foundations = templates.filter(t => t.type === 'foundation');
+  const piles = templates.filter(t => t.type === 'pile');
+  const stairs = templates.filter(t => t.type === 'stair');
+  const walls = templates.filter(t => t.type === 'wall');
 
   return (
     <div className="space-y-6">
@@ -390,6 +544,9 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
               <option value="slab">Slab</option>
               <option value="column">Column</option>
               <option value="foundation">Foundation</option>
+              <option value="pile">Pile</option>
+              <option value="stair">Stair</option>
+              <option value="wall">Wall (RC / Shear)</option>
             </select>
           </div>
 
@@ -444,20 +601,51 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
           )}
 
           {formType === 'slab' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Thickness (m)
-              </label>
-              <input
-                type="number"
-                step="0.01"
-                min="0"
-                value={formThickness}
-                onChange={(e) => setFormThickness(e.target.value)}
-                placeholder="0.12"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-              />
-            </div>
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Thickness (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formThickness}
+                  onChange={(e) => setFormThickness(e.target.value)}
+                  placeholder="0.12"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Support
+                </label>
+                <select
+                  value={slabSupport}
+                  onChange={(e) => setSlabSupport(e.target.value as SlabSupport)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="suspended">Suspended (soffit forms + shoring)</option>
+                  <option value="on-grade">On grade (bedding + poly sheet)</option>
+                </select>
+              </div>
+              {slabSupport === 'on-grade' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Gravel Bedding (m)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={beddingThickness}
+                    onChange={(e) => setBeddingThickness(e.target.value)}
+                    placeholder={DEFAULT_BEDDING_THICKNESS.toFixed(2)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              )}
+            </>
           )}
 
           {formType === 'foundation' && (
@@ -618,27 +806,286 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
               )}
             </>
           )}
+
+          {formType === 'pile' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pile Type
+                </label>
+                <select
+                  value={pileType}
+                  onChange={(e) => {
+                    setPileType(e.target.value as PileType);
+                    setFormDiameter('');
+                    setFormWidth('');
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  disabled={!!editingId}
+                >
+                  <option value="bored">Bored (cast in drilled holes)</option>
+                  <option value="driven">Driven (precast)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {pileType === 'bored' ? 'Diameter (m)' : 'Width (m, square)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  value={pileType === 'bored' ? formDiameter : formWidth}
+                  onChange={(e) => pileType === 'bored' ? setFormDiameter(e.target.value) : setFormWidth(e.target.value)}
+                  placeholder={pileType === 'bored' ? '0.80' : '0.40'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pile Length (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={pileLength}
+                  onChange={(e) => setPileLength(e.target.value)}
+                  placeholder="12.00"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <p className="text-xs text-gray-500 mt-1">Cutoff level to tip (can be overridden per instance)</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Cutoff Allowance (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  value={pileCutoff}
+                  onChange={(e) => setPileCutoff(e.target.value)}
+                  placeholder={DEFAULT_PILE_CUTOFF[pileType].toFixed(2)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Piles per Cap
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={pileCount}
+                  onChange={(e) => setPileCount(e.target.value)}
+                  placeholder="1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Pile Cap L × W × D (m, optional)
+                </label>
+                <div className="grid grid-cols-3 gap-1">
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={capLength}
+                    onChange={(e) => setCapLength(e.target.value)}
+                    placeholder="2.40"
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={capWidth}
+                    onChange={(e) => setCapWidth(e.target.value)}
+                    placeholder="2.40"
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={capDepth}
+                    onChange={(e) => setCapDepth(e.target.value)}
+                    placeholder="1.00"
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {formType === 'wall' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Thickness (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formThickness}
+                  onChange={(e) => setFormThickness(e.target.value)}
+                  placeholder="0.20"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Bar Layers
+                </label>
+                <select
+                  value={wallLayers}
+                  onChange={(e) => setWallLayers(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="1">1 (center)</option>
+                  <option value="2">2 (each face)</option>
+                </select>
+              </div>
+            </>
+          )}
+
+          {formType === 'stair' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max Riser (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.005"
+                  min="0"
+                  value={stairRiser}
+                  onChange={(e) => setStairRiser(e.target.value)}
+                  placeholder="0.175"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+                <p className="text-xs text-gray-500 mt-1">Actual riser = level-to-level rise ÷ riser count</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tread (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.005"
+                  min="0"
+                  value={stairTread}
+                  onChange={(e) => setStairTread(e.target.value)}
+                  placeholder="0.280"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Flight Width (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="0"
+                  value={formWidth}
+                  onChange={(e) => setFormWidth(e.target.value)}
+                  placeholder="1.20"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Waist Thickness (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={stairWaist}
+                  onChange={(e) => setStairWaist(e.target.value)}
+                  placeholder="0.15"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Flights
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={stairFlights}
+                  onChange={(e) => setStairFlights(e.target.value)}
+                  placeholder="1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Landing L × W (m)
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={landingLength}
+                    onChange={(e) => setLandingLength(e.target.value)}
+                    placeholder="1.20"
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={landingWidth}
+                    onChange={(e) => setLandingWidth(e.target.value)}
+                    placeholder="= width"
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Required for more than one flight</p>
+              </div>
+            </>
+          )}
         </div>
 
         {/* DPWH Item Selection */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            DPWH Concrete Item (for BOQ)
+            {formType === 'pile' ? 'DPWH Piling Item (for BOQ)' : 'DPWH Concrete Item (for BOQ)'}
           </label>
           <select
             value={formDpwhItemNumber}
             onChange={(e) => setFormDpwhItemNumber(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
           >
-            <option value="">Select concrete class (optional)</option>
-            {concreteItems.map((item) => (
+            <option value="">{formType === 'pile' ? 'Auto-select by pile size' : 'Select concrete class (optional)'}</option>
+            {(formType === 'pile' ? pilingItems : concreteItems).map((item) => (
               <option key={item.itemNumber} value={item.itemNumber}>
                 {item.itemNumber} - {item.description}
               </option>
             ))}
           </select>
           <p className="text-xs text-gray-500 mt-1">
-            This determines which DPWH pay item to use in the Bill of Quantities
+            {formType === 'pile' ? (
+              (() => {
+                const size = parseFloat(pileType === 'bored' ? formDiameter : formWidth);
+                const items = isNaN(size) ? null : getDPWHPilingItems(pileType, size);
+                const sizeItem = items ? (pileType === 'bored' ? items.installed : items.furnished) : null;
+                return sizeItem
+                  ? `Auto-selected: ${sizeItem}${pileType === 'driven' ? ` (furnished) + ${items?.installed} (driven)` : ''}. Pile caps use Class A concrete.`
+                  : 'Bored piles: Item 1052 (17) by diameter; driven piles: Item 1052 (4) furnished by size + 1052 (14) driven';
+              })()
+            ) : (
+              'This determines which DPWH pay item to use in the Bill of Quantities'
+            )}
           </p>
         </div>
 
@@ -649,10 +1096,10 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
           {/* Main Bars */}
           <div className="mb-3">
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Main Bars {formType === 'slab' || formType === 'foundation' ? '(Direction 1)' : '(Longitudinal)'}
+              Main Bars {formType === 'slab' || formType === 'foundation' ? '(Direction 1)' : formType === 'pile' ? '(Per Pile)' : formType === 'stair' ? '(Along Flight)' : formType === 'wall' ? '(Vertical)' : '(Longitudinal)'}
             </label>
             <div className={`grid gap-2 ${formType === 'slab' || formType === 'foundation' ? 'grid-cols-2' : 'grid-cols-2'}`}>
-              {formType !== 'slab' && formType !== 'foundation' && (
+              {formType !== 'slab' && formType !== 'foundation' && formType !== 'stair' && formType !== 'wall' && (
                 <div>
                   <input
                     type="number"
@@ -686,7 +1133,7 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
                 </select>
                 <p className="text-xs text-gray-500 mt-1">Bar diameter</p>
               </div>
-              {(formType === 'slab' || formType === 'foundation') && (
+              {(formType === 'slab' || formType === 'foundation' || formType === 'stair' || formType === 'wall') && (
                 <div>
                   <input
                     type="number"
@@ -704,10 +1151,10 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
           </div>
 
           {/* Stirrups/Ties */}
-          {(formType === 'beam' || formType === 'column') && (
+          {(formType === 'beam' || formType === 'column' || formType === 'pile') && (
             <div className="mb-3">
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                {formType === 'beam' ? 'Stirrups' : 'Ties'}
+                {formType === 'beam' ? 'Stirrups' : formType === 'pile' && pileType === 'bored' ? 'Spiral (spacing = pitch)' : 'Ties'}
               </label>
               <div className="grid grid-cols-2 gap-2">
                 <div>
@@ -739,11 +1186,11 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
             </div>
           )}
 
-          {/* Secondary Bars (Slabs only) */}
-          {formType === 'slab' && (
+          {/* Secondary Bars (Slabs; pile cap bottom mat; stair distribution bars; wall horizontal bars) */}
+          {(formType === 'slab' || formType === 'pile' || formType === 'stair' || formType === 'wall') && (
             <div className="mb-3">
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Secondary Bars (Direction 2)
+                {formType === 'pile' ? 'Pile Cap Bottom Mat (Both Ways)' : formType === 'stair' ? 'Distribution Bars (Across Flight)' : formType === 'wall' ? 'Horizontal Bars' : 'Secondary Bars (Direction 2)'}
               </label>
               <div className="grid grid-cols-2 gap-2">
                 <div>
@@ -825,7 +1272,7 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
       </div>
 
       {/* Template Lists */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-6">
         {/* Beams */}
         <div className="bg-white border border-gray-200 rounded-lg p-4">
           <h4 className="font-semibold text-gray-700 mb-3">Beams ({beams.length})</h4>
@@ -981,12 +1428,129 @@ export default function ElementTemplatesEditor({ projectId }: ElementTemplatesEd
             )}
           </div>
         </div>
+
+        {/* Piles */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Piles ({piles.length})</h4>
+          <div className="space-y-2">
+            {piles.length === 0 ? (
+              <p className="text-sm text-gray-400">No pile templates</p>
+            ) : (
+              piles.map(template => (
+                <div key={template.id} className="flex justify-between items-start p-2 bg-gray-50 rounded">
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">{template.name}</div>
+                    <div className="text-xs text-gray-600">{formatProperties(template)}</div>
+                    {template.dpwhItemNumber && (
+                      <div className="text-xs text-blue-600 mt-1">DPWH: {template.dpwhItemNumber}</div>
+                    )}
+                    {formatRebarConfig(template) && (
+                      <div className="text-xs text-green-600 mt-1">Rebar: {formatRebarConfig(template)}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-1 ml-2">
+                    <button
+                      onClick={() => handleEdit(template)}
+                      className="text-blue-600 hover:text-blue-800 text-xs px-2 py-1"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template.id)}
+                      className="text-red-600 hover:text-red-800 text-xs px-2 py-1"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Stairs */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Stairs ({stairs.length})</h4>
+          <div className="space-y-2">
+            {stairs.length === 0 ? (
+              <p className="text-sm text-gray-400">No stair templates</p>
+            ) : (
+              stairs.map(template => (
+                <div key={template.id} className="flex justify-between items-start p-2 bg-gray-50 rounded">
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">{template.name}</div>
+                    <div className="text-xs text-gray-600">{formatProperties(template)}</div>
+                    {template.dpwhItemNumber && (
+                      <div className="text-xs text-blue-600 mt-1">DPWH: {template.dpwhItemNumber}</div>
+                    )}
+                    {formatRebarConfig(template) && (
+                      <div className="text-xs text-green-600 mt-1">Rebar: {formatRebarConfig(template)}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-1 ml-2">
+                    <button
+                      onClick={() => handleEdit(template)}
+                      className="text-blue-600 hover:text-blue-800 text-xs px-2 py-1"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template.id)}
+                      className="text-red-600 hover:text-red-800 text-xs px-2 py-1"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Walls */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-700 mb-3">Walls ({walls.length})</h4>
+          <div className="space-y-2">
+            {walls.length === 0 ? (
+              <p className="text-sm text-gray-400">No wall templates</p>
+            ) : (
+              walls.map(template => (
+                <div key={template.id} className="flex justify-between items-start p-2 bg-gray-50 rounded">
+                  <div className="flex-1">
+                    <div className="font-medium text-sm">{template.name}</div>
+                    <div className="text-xs text-gray-600">{formatProperties(template)}</div>
+                    {template.dpwhItemNumber && (
+                      <div className="text-xs text-blue-600 mt-1">DPWH: {template.dpwhItemNumber}</div>
+                    )}
+                    {formatRebarConfig(template) && (
+                      <div className="text-xs text-green-600 mt-1">Rebar: {formatRebarConfig(template)}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-1 ml-2">
+                    <button
+                      onClick={() => handleEdit(template)}
+                      className="text-blue-600 hover:text-blue-800 text-xs px-2 py-1"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template.id)}
+                      className="text-red-600 hover:text-red-800 text-xs px-2 py-1"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Summary */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <p className="text-sm text-blue-800">
-          <strong>Total Templates:</strong> {templates.length} ({beams.length} beams, {slabs.length} slabs, {columns.length} columns, {foundations.length} foundations)
+          <strong>Total Templates:</strong> {templates.length} ({beams.length} beams, {slabs.length} slabs, {columns.length} columns, {foundations.length} foundations, {piles.length} piles, {stairs.length} stairs, {walls.length} walls)
         </p>
       </div>
     </div>
@@ -1,25 +1,13 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { ScheduleItem } from '@/types';
+import type { EmbankmentPrism, ScheduleItem } from '@/types';
+import type { PrismVolumeOutput } from '@/lib/math/earthwork';
 
 interface EmbankmentItemsProps {
   projectId: string;
 }
 
-interface EmbankmentItem {
-  id: string;
-  description: string;
-  length_m: number;
-  width_m: number;
-  height_m: number;
-  count: number;
-  volume_m3: number;
-  location: string;
-  dpwhItemNumber: string;
-  dpwhUnit: string;
-}
-
 interface CatalogItem {
   itemNumber: string;
   description: string;
@@ -28,66 +16,40 @@ interface CatalogItem {
   trade: string;
 }
 
+const emptyForm = {
+  dpwhItem: '',
+  description: '',
+  length: '',
+  width: '',
+  height: '',
+  count: '1',
+  sideSlope: '0',
+  location: '',
+};
+
+// Dimension stored in a tag of an item saved before prisms were persisted, e.g. "length:12.5"
+const getTagValue = (item: ScheduleItem, key: string): string | undefined =>
+  item.tags?.find(tag => tag.startsWith(`${key}:`))?.replace(`${key}:`, '');
+
 export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
-  const [items, setItems] = useState<EmbankmentItem[]>([]);
+  const [prisms, setPrisms] = useState<EmbankmentPrism[]>([]);
+  const [volumes, setVolumes] = useState<Record<string, PrismVolumeOutput>>({});
   const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  const [legacyItems, setLegacyItems] = useState<ScheduleItem[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
-  
-  // Form state
-  const [formData, setFormData] = useState({
-    dpwhItemNumber: '',
-    dpwhUnit: '',
-    description: '',
-    length: '',
-    width: '',
-    height: '',
-    count: '1',
-    location: '',
-  });
-
-  useEffect(() => {
-    loadCatalogItems();
-  }, [projectId]);
-
-  useEffect(() => {
-    if (catalogItems.length > 0) {
-      loadItems();
-    }
-  }, [projectId, catalogItems]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
 
-  const loadItems = async () => {
+  const loadPrisms = async () => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-embankment`);
+      const res = await fetch(`/api/projects/${projectId}/embankment-prisms`);
       if (res.ok) {
         const data = await res.json();
-        const scheduleItems = data.scheduleItems || [];
-        
-        // Parse items from stored schedule items
-        const embankmentItems = scheduleItems.map((item: ScheduleItem) => {
-          const lengthTag = item.tags?.find((t: string) => t.startsWith('length:'));
-          const widthTag = item.tags?.find((t: string) => t.startsWith('width:'));
-          const heightTag = item.tags?.find((t: string) => t.startsWith('height:'));
-          const countTag = item.tags?.find((t: string) => t.startsWith('count:'));
-          const locationTag = item.tags?.find((t: string) => t.startsWith('location:'));
-          
-          return {
-            id: item.id,
-            description: item.descriptionOverride || item.dpwhItemNumberRaw,
-            length_m: parseFloat(lengthTag?.replace('length:', '') || '0'),
-            width_m: parseFloat(widthTag?.replace('width:', '') || '0'),
-            height_m: parseFloat(heightTag?.replace('height:', '') || '0'),
-            count: parseInt(countTag?.replace('count:', '') || '1'),
-            volume_m3: item.qty,
-            location: locationTag?.replace('location:', '') || '',
-            dpwhItemNumber: item.dpwhItemNumberRaw,
-            dpwhUnit: item.unit,
-          };
-        });
-        
-        setItems(embankmentItems);
+        setPrisms(data.embankmentPrisms || []);
+        setVolumes(data.volumes || {});
       }
     } catch (error) {
-      console.error('Error loading items:', error);
+      console.error('Error loading prisms:', error);
     }
   };
 
@@ -97,7 +59,7 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
       if (res.ok) {
         const response = await res.json();
         const allResults: CatalogItem[] = response.data || response || [];
-        
+
         // Filter to embankment items (Part C - 800 series)
         const embankmentItems = allResults.filter(item =>
           (item.trade === 'Earthwork' || item.itemNumber.startsWith('8')) &&
@@ -105,7 +67,7 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
            item.description?.toLowerCase().includes('fill') ||
            item.description?.toLowerCase().includes('borrow'))
         );
-        
+
         embankmentItems.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
         setCatalogItems(embankmentItems);
       }
@@ -114,130 +76,182 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
     }
   };
 
-  const handleCatalogItemSelect = (itemNumber: string) => {
-    const item = catalogItems.find(i => i.itemNumber === itemNumber);
-    if (item) {
-      setFormData({
-        ...formData,
-        dpwhItemNumber: item.itemNumber,
-        dpwhUnit: item.unit,
-        description: item.description,
-      });
+  // Items saved as schedule items with only the final volume, before prisms were persisted
+  const loadLegacyItems = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-embankment`);
+      if (res.ok) {
+        const data = await res.json();
+        setLegacyItems(data.scheduleItems || []);
+      }
+    } catch (error) {
+      console.error('Error loading items:', error);
     }
   };
 
-  const calculateVolume = () => {
-    const length = parseFloat(formData.length) || 0;
-    const width = parseFloat(formData.width) || 0;
-    const height = parseFloat(formData.height) || 0;
-    const count = parseInt(formData.count) || 1;
-    return length * width * height * count;
+  useEffect(() => {
+    const load = async () => {
+      await Promise.all([loadPrisms(), loadCatalogItems(), loadLegacyItems()]);
+    };
+    load();
+  }, [projectId]);
+
+  const handleCatalogItemSelect = (itemNumber: string) => {
+    const item = catalogItems.find(i => i.itemNumber === itemNumber);
+    setFormData({
+      ...formData,
+      dpwhItem: itemNumber,
+      description: formData.description || item?.description || '',
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.dpwhItemNumber || !formData.length || !formData.width || !formData.height) {
-      alert('Please fill in DPWH item, length, width, and height');
-      return;
-    }
-
-    const volume = calculateVolume();
+    const body = {
+      description: formData.description,
+      dpwhItem: formData.dpwhItem,
+      length: parseFloat(formData.length),
+      width: parseFloat(formData.width),
+      height: parseFloat(formData.height),
+      count: parseInt(formData.count),
+      sideSlope: parseFloat(formData.sideSlope) || 0,
+      location: formData.location,
+    };
 
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          category: 'earthworks-embankment',
-          dpwhItemNumberRaw: formData.dpwhItemNumber,
-          descriptionOverride: formData.description,
-          unit: formData.dpwhUnit,
-          qty: volume,
-          basisNote: `${formData.count} × (L=${formData.length}m × W=${formData.width}m × H=${formData.height}m)${formData.location ? ` at ${formData.location}` : ''}`,
-          tags: [
-            `length:${formData.length}`,
-            `width:${formData.width}`,
-            `height:${formData.height}`,
-            `count:${formData.count}`,
-            formData.location ? `location:${formData.location}` : '',
-          ].filter(Boolean),
-        }),
-      });
+      const res = await fetch(
+        editingId
+          ? `/api/projects/${projectId}/embankment-prisms/${editingId}`
+          : `/api/projects/${projectId}/embankment-prisms`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
 
       if (res.ok) {
-        await loadItems();
+        await loadPrisms();
         resetForm();
-        setShowAddForm(false);
       } else {
-        let errorMessage = 'Unknown error';
-        try {
-          const error = await res.json();
-          console.error('API Error:', error);
-          errorMessage = error.error || JSON.stringify(error);
-        } catch (parseError) {
-          const textError = await res.text();
-          console.error('Response text:', textError);
-          errorMessage = textError || `HTTP ${res.status}`;
-        }
-        alert(`Failed to add item: ${errorMessage}`);
+        const error = await res.json();
+        alert(`Failed to save embankment: ${error.details?.join(', ') || error.error || 'Unknown error'}`);
       }
     } catch (error) {
-      console.error('Error adding item:', error);
-      alert('Failed to add item: ' + (error instanceof Error ? error.message : 'Network error'));
+      console.error('Error saving embankment:', error);
+      alert('Failed to save embankment: ' + (error instanceof Error ? error.message : 'Network error'));
     }
   };
 
-  const handleDelete = async (itemId: string) => {
-    if (!confirm('Delete this embankment item?')) return;
+  const handleEdit = (prism: EmbankmentPrism) => {
+    setEditingId(prism.id);
+    setFormData({
+      dpwhItem: prism.dpwhItem,
+      description: prism.description,
+      length: String(prism.length),
+      width: String(prism.width),
+      height: String(prism.height),
+      count: String(prism.count),
+      sideSlope: String(prism.sideSlope ?? 0),
+      location: prism.location || '',
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDelete = async (prismId: string) => {
+    if (!confirm('Delete this embankment?')) return;
 
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items/${itemId}`, {
+      const res = await fetch(`/api/projects/${projectId}/embankment-prisms/${prismId}`, {
         method: 'DELETE',
       });
 
       if (res.ok) {
-        await loadItems();
+        await loadPrisms();
       } else {
-        alert('Failed to delete item');
+        alert('Failed to delete embankment');
       }
     } catch (error) {
-      console.error('Error deleting item:', error);
-      alert('Failed to delete item');
+      console.error('Error deleting embankment:', error);
+      alert('Failed to delete embankment');
     }
   };
 
-  const resetForm = () => {
-    setFormData({
-      dpwhItemNumber: '',
-      dpwhUnit: '',
-      description: '',
-      length: '',
-      width: '',
-      height: '',
-      count: '1',
-      location: '',
-    });
+  // Recreate each old item as a prism from the dimensions kept in its tags, then remove it
+  const handleConvertLegacy = async () => {
+    try {
+      for (const item of legacyItems) {
+        const res = await fetch(`/api/projects/${projectId}/embankment-prisms`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            description: item.descriptionOverride || item.dpwhItemNumberRaw,
+            dpwhItem: item.dpwhItemNumberRaw,
+            length: parseFloat(getTagValue(item, 'length') || '0'),
+            width: parseFloat(getTagValue(item, 'width') || '0'),
+            height: parseFloat(getTagValue(item, 'height') || '0'),
+            count: parseInt(getTagValue(item, 'count') || '1'),
+            location: getTagValue(item, 'location'),
+          }),
+        });
+
+        if (!res.ok) {
+          const error = await res.json();
+          alert(`Could not convert ${item.descriptionOverride || item.dpwhItemNumberRaw}: ${error.details?.join(', ') || error.error}`);
+          continue;
+        }
+
+        await fetch(`/api/projects/${projectId}/schedule-items/${item.id}`, {
+          method: 'DELETE',
+        });
+      }
+      await loadPrisms();
+      await loadLegacyItems();
+    } catch (error) {
+      console.error('Error converting items:', error);
+      alert('Failed to convert items');
+    }
   };
 
-  const getTotalVolume = () => {
-    return items.reduce((sum, item) => sum + item.volume_m3, 0);
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setShowAddForm(false);
   };
 
+  const totalVolume = Object.values(volumes).reduce((sum, volume) => sum + volume.quantity, 0);
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
         <h2 className="text-2xl font-bold text-amber-900 mb-2">🚧 Embankment</h2>
         <p className="text-sm text-amber-700">
-          Embankment construction, compaction, and borrow materials with dimensional input
+          Platforms, dikes and other embankment outside the surveyed stations, entered as prisms and recalculated on each takeoff
         </p>
       </div>
 
+      {/* Items saved before prisms were persisted */}
+      {legacyItems.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center gap-4">
+          <p className="text-sm text-red-800">
+            {legacyItems.length} embankment item{legacyItems.length === 1 ? ' was' : 's were'} saved as a fixed quantity.
+            Convert them to prisms so they are recalculated with the takeoff.
+          </p>
+          <button
+            onClick={handleConvertLegacy}
+            className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-100 whitespace-nowrap"
+          >
+            Convert
+          </button>
+        </div>
+      )}
+
       {/* Add Button */}
       <div className="flex justify-end">
         <button
-          onClick={() => setShowAddForm(!showAddForm)}
+          onClick={() => (showAddForm ? resetForm() : setShowAddForm(true))}
           className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
         >
           {showAddForm ? 'Cancel' : '+ Add Embankment'}
@@ -247,31 +261,46 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
       {/* Add Form */}
       {showAddForm && (
         <div className="bg-white rounded-lg shadow-sm p-6 border-2 border-amber-200">
-          <h4 className="text-lg font-semibold mb-4">Add Embankment</h4>
-          
+          <h4 className="text-lg font-semibold mb-4">{editingId ? 'Edit Embankment' : 'Add Embankment'}</h4>
+
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* DPWH Item Dropdown */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select DPWH Item *
-              </label>
-              <select
-                value={formData.dpwhItemNumber}
-                onChange={(e) => handleCatalogItemSelect(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded bg-white"
-                required
-              >
-                <option value="">-- Select an item --</option>
-                {catalogItems.map((item) => (
-                  <option key={item.itemNumber} value={item.itemNumber}>
-                    {item.itemNumber} - {item.description} ({item.unit})
-                  </option>
-                ))}
-              </select>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Select DPWH Item *
+                </label>
+                <select
+                  value={formData.dpwhItem}
+                  onChange={(e) => handleCatalogItemSelect(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded bg-white"
+                  required
+                >
+                  <option value="">-- Select an item --</option>
+                  {catalogItems.map((item) => (
+                    <option key={item.itemNumber} value={item.itemNumber}>
+                      {item.itemNumber} - {item.description} ({item.unit})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description *
+                </label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Building platform"
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
             </div>
 
             {/* Dimensions */}
-            <div className="grid grid-cols-4 gap-4">
+            <div className="grid grid-cols-5 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Length (m) *
@@ -287,7 +316,7 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Width (m) *
+                  Top Width (m) *
                 </label>
                 <input
                   type="number"
@@ -311,6 +340,19 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
                   required
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Side Slope (H per 1V)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={formData.sideSlope}
+                  onChange={(e) => setFormData({ ...formData, sideSlope: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Count *
@@ -327,23 +369,10 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
               </div>
             </div>
 
-            {/* Calculated Volume */}
-            {formData.length && formData.width && formData.height && (
-              <div className="bg-amber-50 border border-amber-200 rounded p-4">
-                <div className="text-sm font-semibold text-amber-900">Calculated Volume:</div>
-                <div className="text-2xl font-bold text-amber-700 mt-1">
-                  {calculateVolume().toFixed(2)} m³
-                </div>
-                <div className="text-xs text-amber-600 mt-1">
-                  {formData.count} × ({formData.length} × {formData.width} × {formData.height}) = {calculateVolume().toFixed(2)} m³
-                </div>
-              </div>
-            )}
-
             {/* Location */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Location / Description
+                Location
               </label>
               <input
                 type="text"
@@ -357,10 +386,7 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
             <div className="flex justify-end gap-2 pt-4 border-t">
               <button
                 type="button"
-                onClick={() => {
-                  setShowAddForm(false);
-                  resetForm();
-                }}
+                onClick={resetForm}
                 className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
               >
                 Cancel
@@ -369,72 +395,64 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
                 type="submit"
                 className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
               >
-                Add Item
+                {editingId ? 'Update Embankment' : 'Add Embankment'}
               </button>
             </div>
           </form>
         </div>
       )}
 
-      {/* Items Table */}
+      {/* Prisms Table */}
       <div className="bg-white rounded-lg shadow-sm overflow-hidden">
-        {items.length === 0 ? (
+        {prisms.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
             <div className="text-4xl mb-2">🚧</div>
-            <p>No embankment items added yet</p>
-            <p className="text-sm mt-1">Click "Add Embankment" to get started</p>
+            <p>No embankment added yet</p>
+            <p className="text-sm mt-1">Click &quot;Add Embankment&quot; to get started</p>
           </div>
         ) : (
-          <>
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Length (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Width (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Height (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Count</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {items.map((item) => (
-                  <tr key={item.id} className="hover:bg-gray-50">
-                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.dpwhItemNumber}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.description}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.length_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.width_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.height_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-900 font-semibold">{item.count}</td>
-                    <td className="px-4 py-3 text-sm font-bold text-amber-700">{item.volume_m3.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-600">{item.location || '-'}</td>
-                    <td className="px-4 py-3 text-sm">
-                      <button
-                        onClick={() => handleDelete(item.id)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        Delete
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-              <tfoot className="bg-amber-50">
-                <tr>
-                  <td colSpan={6} className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
-                    TOTAL VOLUME:
-                  </td>
-                  <td className="px-4 py-3 text-lg font-bold text-amber-700">
-                    {getTotalVolume().toFixed(2)} m³
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Formula</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {prisms.map((prism) => (
+                <tr key={prism.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{prism.dpwhItem}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{prism.description}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600 font-mono">{volumes[prism.id]?.formulaText || '-'}</td>
+                  <td className="px-4 py-3 text-sm font-bold text-amber-700">{volumes[prism.id]?.quantity.toFixed(2) || '-'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{prism.location || '-'}</td>
+                  <td className="px-4 py-3 text-sm space-x-3">
+                    <button onClick={() => handleEdit(prism)} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(prism.id)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
                   </td>
-                  <td colSpan={2}></td>
                 </tr>
-              </tfoot>
-            </table>
-          </>
+              ))}
+            </tbody>
+            <tfoot className="bg-amber-50">
+              <tr>
+                <td colSpan={3} className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
+                  TOTAL VOLUME:
+                </td>
+                <td className="px-4 py-3 text-lg font-bold text-amber-700">
+                  {totalVolume.toFixed(2)} m³
+                </td>
+                <td colSpan={2}></td>
+              </tr>
+            </tfoot>
+          </table>
         )}
       </div>
 
@@ -443,9 +461,10 @@ export default function EmbankmentItems({ projectId }: EmbankmentItemsProps) {
         <h4 className="text-sm font-semibold text-blue-900 mb-2">📐 Volume Calculation Formula</h4>
         <div className="text-sm text-blue-800 space-y-1">
           <p><strong>Embankment volume:</strong></p>
-          <p className="font-mono bg-white px-3 py-2 rounded">V = Count × (L × W × H)</p>
+          <p className="font-mono bg-white px-3 py-2 rounded">V = Count × L × (W + s·H) × H</p>
           <p className="text-xs mt-2">
-            Where: V = Total Volume (m³), Count = Number of identical sections, L = Length (m), W = Width (m), H = Height (m)
+            Where: V = Total Volume (m³), Count = Number of identical sections, L = Length (m), W = Top width (m),
+            H = Height (m), s = Side slope (horizontal per 1m of height; 0 for vertical sides)
           </p>
         </div>
       </div>
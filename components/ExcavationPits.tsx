@@ -0,0 +1,455 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { EarthworkPit, ScheduleItem } from '@/types';
+import type { PrismVolumeOutput } from '@/lib/math/earthwork';
+
+interface ExcavationPitsProps {
+  projectId: string;
+}
+
+interface CatalogItem {
+  itemNumber: string;
+  description: string;
+  unit: string;
+  category: string;
+  trade: string;
+}
+
+const emptyForm = {
+  dpwhItem: '',
+  description: '',
+  length: '',
+  width: '',
+  depth: '',
+  count: '1',
+  sideSlope: '0',
+  location: '',
+};
+
+// Dimension stored in a tag of an item saved before pits were persisted, e.g. "depth:1.5"
+const getTagValue = (item: ScheduleItem, key: string): string | undefined =>
+  item.tags?.find(tag => tag.startsWith(`${key}:`))?.replace(`${key}:`, '');
+
+export default function ExcavationPits({ projectId }: ExcavationPitsProps) {
+  const [pits, setPits] = useState<EarthworkPit[]>([]);
+  const [volumes, setVolumes] = useState<Record<string, PrismVolumeOutput>>({});
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  const [legacyItems, setLegacyItems] = useState<ScheduleItem[]>([]);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadPits = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/earthwork-pits`);
+      if (res.ok) {
+        const data = await res.json();
+        setPits(data.earthworkPits || []);
+        setVolumes(data.volumes || {});
+      }
+    } catch (error) {
+      console.error('Error loading pits:', error);
+    }
+  };
+
+  const loadCatalogItems = async () => {
+    try {
+      const res = await fetch('/api/catalog?limit=5000');
+      if (res.ok) {
+        const response = await res.json();
+        const allResults: CatalogItem[] = response.data || response || [];
+
+        // Filter to excavation items (Part C - 800 series)
+        const excavationItems = allResults.filter(item =>
+          (item.trade === 'Earthwork' || item.itemNumber.startsWith('8')) &&
+          item.description?.toLowerCase().includes('excavation')
+        );
+
+        excavationItems.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
+        setCatalogItems(excavationItems);
+      }
+    } catch (error) {
+      console.error('Error loading catalog:', error);
+    }
+  };
+
+  // Items entered by hand as schedule items with only the final volume, before pits were persisted
+  const loadLegacyItems = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-structure-excavation`);
+      if (res.ok) {
+        const data = await res.json();
+        setLegacyItems(data.scheduleItems || []);
+      }
+    } catch (error) {
+      console.error('Error loading items:', error);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      await Promise.all([loadPits(), loadCatalogItems(), loadLegacyItems()]);
+    };
+    load();
+  }, [projectId]);
+
+  const handleCatalogItemSelect = (itemNumber: string) => {
+    const item = catalogItems.find(i => i.itemNumber === itemNumber);
+    setFormData({
+      ...formData,
+      dpwhItem: itemNumber,
+      description: formData.description || item?.description || '',
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body = {
+      description: formData.description,
+      dpwhItem: formData.dpwhItem,
+      length: parseFloat(formData.length),
+      width: parseFloat(formData.width),
+      depth: parseFloat(formData.depth),
+      count: parseInt(formData.count),
+      sideSlope: parseFloat(formData.sideSlope) || 0,
+      location: formData.location,
+    };
+
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/projects/${projectId}/earthwork-pits/${editingId}`
+          : `/api/projects/${projectId}/earthwork-pits`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (res.ok) {
+        await loadPits();
+        resetForm();
+      } else {
+        const error = await res.json();
+        alert(`Failed to save pit: ${error.details?.join(', ') || error.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error saving pit:', error);
+      alert('Failed to save pit: ' + (error instanceof Error ? error.message : 'Network error'));
+    }
+  };
+
+  const handleEdit = (pit: EarthworkPit) => {
+    setEditingId(pit.id);
+    setFormData({
+      dpwhItem: pit.dpwhItem,
+      description: pit.description,
+      length: String(pit.length),
+      width: String(pit.width),
+      depth: String(pit.depth),
+      count: String(pit.count),
+      sideSlope: String(pit.sideSlope ?? 0),
+      location: pit.location || '',
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDelete = async (pitId: string) => {
+    if (!confirm('Delete this pit?')) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/earthwork-pits/${pitId}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        await loadPits();
+      } else {
+        alert('Failed to delete pit');
+      }
+    } catch (error) {
+      console.error('Error deleting pit:', error);
+      alert('Failed to delete pit');
+    }
+  };
+
+  // Recreate each old item as a pit from the dimensions kept in its tags, then remove it
+  const handleConvertLegacy = async () => {
+    try {
+      for (const item of legacyItems) {
+        const res = await fetch(`/api/projects/${projectId}/earthwork-pits`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            description: item.descriptionOverride || item.dpwhItemNumberRaw,
+            dpwhItem: item.dpwhItemNumberRaw,
+            length: parseFloat(getTagValue(item, 'length') || '0'),
+            width: parseFloat(getTagValue(item, 'width') || '0'),
+            depth: parseFloat(getTagValue(item, 'depth') || '0'),
+            count: parseInt(getTagValue(item, 'count') || '1'),
+            location: getTagValue(item, 'location'),
+          }),
+        });
+
+        if (!res.ok) {
+          const error = await res.json();
+          alert(`Could not convert ${item.descriptionOverride || item.dpwhItemNumberRaw}: ${error.details?.join(', ') || error.error}`);
+          continue;
+        }
+
+        await fetch(`/api/projects/${projectId}/schedule-items/${item.id}`, {
+          method: 'DELETE',
+        });
+      }
+      await loadPits();
+      await loadLegacyItems();
+    } catch (error) {
+      console.error('Error converting items:', error);
+      alert('Failed to convert items');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+    setShowAddForm(false);
+  };
+
+  const totalVolume = Object.values(volumes).reduce((sum, volume) => sum + volume.quantity, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Other Pits</h3>
+          <p className="text-xs text-gray-500">
+            Pits not modelled as footings or mats, measured at the bottom and recalculated on each takeoff
+          </p>
+        </div>
+        <button
+          onClick={() => (showAddForm ? resetForm() : setShowAddForm(true))}
+          className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
+        >
+          {showAddForm ? 'Cancel' : '+ Add Pit'}
+        </button>
+      </div>
+
+      {/* Items saved before pits were persisted */}
+      {legacyItems.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center gap-4">
+          <p className="text-sm text-red-800">
+            {legacyItems.length} manual excavation item{legacyItems.length === 1 ? ' was' : 's were'} saved as a fixed quantity.
+            Convert them to pits so they are recalculated with the takeoff, and delete any that duplicate the footings above.
+          </p>
+          <button
+            onClick={handleConvertLegacy}
+            className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-100 whitespace-nowrap"
+          >
+            Convert
+          </button>
+        </div>
+      )}
+
+      {/* Add Form */}
+      {showAddForm && (
+        <div className="bg-white rounded-lg shadow-sm p-6 border-2 border-amber-200">
+          <h4 className="text-lg font-semibold mb-4">{editingId ? 'Edit Pit' : 'Add Pit'}</h4>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* DPWH Item Dropdown */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Select DPWH Item *
+                </label>
+                <select
+                  value={formData.dpwhItem}
+                  onChange={(e) => handleCatalogItemSelect(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded bg-white"
+                  required
+                >
+                  <option value="">-- Select an item --</option>
+                  {catalogItems.map((item) => (
+                    <option key={item.itemNumber} value={item.itemNumber}>
+                      {item.itemNumber} - {item.description} ({item.unit})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Description *
+                </label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="e.g., Septic tank"
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+            </div>
+
+            {/* Dimensions */}
+            <div className="grid grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Length (m) *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.length}
+                  onChange={(e) => setFormData({ ...formData, length: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Bottom Width (m) *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.width}
+                  onChange={(e) => setFormData({ ...formData, width: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Depth (m) *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.depth}
+                  onChange={(e) => setFormData({ ...formData, depth: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Side Slope (H per 1V)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={formData.sideSlope}
+                  onChange={(e) => setFormData({ ...formData, sideSlope: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Count *
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={formData.count}
+                  onChange={(e) => setFormData({ ...formData, count: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+            </div>
+
+            {/* Location */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Location
+              </label>
+              <input
+                type="text"
+                value={formData.location}
+                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                placeholder="e.g., Rear yard"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
+              >
+                {editingId ? 'Update Pit' : 'Add Pit'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Pits Table */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {pits.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No other pits added yet</p>
+            <p className="text-sm mt-1">Septic tanks, manholes and other pits not modelled as footings</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Formula</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {pits.map((pit) => (
+                <tr key={pit.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{pit.dpwhItem}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{pit.description}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600 font-mono">{volumes[pit.id]?.formulaText || '-'}</td>
+                  <td className="px-4 py-3 text-sm font-bold text-amber-700">{volumes[pit.id]?.quantity.toFixed(2) || '-'}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{pit.location || '-'}</td>
+                  <td className="px-4 py-3 text-sm space-x-3">
+                    <button onClick={() => handleEdit(pit)} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(pit.id)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-amber-50">
+              <tr>
+                <td colSpan={3} className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
+                  TOTAL VOLUME:
+                </td>
+                <td className="px-4 py-3 text-lg font-bold text-amber-700">
+                  {totalVolume.toFixed(2)} m³
+                </td>
+                <td colSpan={2}></td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
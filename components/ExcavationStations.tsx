@@ -1,18 +1,13 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { ScheduleItem } from '@/types';
+import type { CrossSectionSettings, EarthworkStation, EarthworkVolumeMethod, ProfilePoint, ScheduleItem } from '@/types';
+import type { EarthworkVolumes, MassHaulResult } from '@/lib/math/earthwork';
+import MassHaulDiagram from '@/components/MassHaulDiagram';
 
 interface ExcavationStationsProps {
   projectId: string;
-}
-
-interface Station {
-  id: string;
-  station: string; // e.g., "0+000", "0+020"
-  chainage: number; // meters from start
-  area: number; // cross-sectional area in m²
-  notes?: string;
+  onSaveSettings: (settings: CrossSectionSettings) => Promise<void>;
 }
 
 interface CatalogItem {
@@ -23,67 +18,57 @@ interface CatalogItem {
   trade: string;
 }
 
-export default function ExcavationStations({ projectId }: ExcavationStationsProps) {
-  const [stations, setStations] = useState<Station[]>([]);
+const emptyStation = {
+  station: '',
+  chainage: '',
+  ground: '',
+  design: '',
+  notes: '',
+};
+
+// "offset, elevation" pairs, one per line or separated by semicolons
+const parseProfile = (text: string): ProfilePoint[] =>
+  text
+    .split(/[\n;]/)
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const [offset, elevation] = pair.split(/[,\s]+/).map(Number);
+      return [offset, elevation] as ProfilePoint;
+    });
+
+const formatProfile = (profile: ProfilePoint[]): string =>
+  profile.map(([offset, elevation]) => `${offset}, ${elevation}`).join('\n');
+
+export default function ExcavationStations({ projectId, onSaveSettings }: ExcavationStationsProps) {
+  const [stations, setStations] = useState<EarthworkStation[]>([]);
+  const [crossSections, setCrossSections] = useState<EarthworkVolumes | null>(null);
+  const [massHaul, setMassHaul] = useState<MassHaulResult | null>(null);
+  const [calcErrors, setCalcErrors] = useState<string[]>([]);
+  const [settings, setSettings] = useState<CrossSectionSettings | null>(null);
   const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
-  const [selectedDpwhItem, setSelectedDpwhItem] = useState<CatalogItem | null>(null);
-  const [showAddStation, setShowAddStation] = useState(false);
-  const [savedToDatabase, setSavedToDatabase] = useState(false);
-  
-  // Form state for new station
-  const [newStation, setNewStation] = useState({
-    station: '',
-    chainage: '',
-    area: '',
-    notes: '',
-  });
+  const [legacyItems, setLegacyItems] = useState<ScheduleItem[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyStation);
+  const [savingSettings, setSavingSettings] = useState(false);
 
   useEffect(() => {
+    loadStations();
     loadCatalogItems();
+    loadLegacyItems();
   }, [projectId]);
 
-  useEffect(() => {
-    if (catalogItems.length > 0) {
-      loadStations();
-    }
-  }, [projectId, catalogItems]);
-
   const loadStations = async () => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-excavation`);
+      const res = await fetch(`/api/projects/${projectId}/earthwork-stations`);
       if (res.ok) {
         const data = await res.json();
-        const items = data.scheduleItems || [];
-        
-        // Parse stations from stored items
-        const stationData = items
-          .filter((item: ScheduleItem) => item.tags?.includes('type:station'))
-          .map((item: ScheduleItem) => {
-            const stationTag = item.tags?.find((t: string) => t.startsWith('station:'));
-            const chainageTag = item.tags?.find((t: string) => t.startsWith('chainage:'));
-            const areaTag = item.tags?.find((t: string) => t.startsWith('area:'));
-            
-            return {
-              id: item.id,
-              station: stationTag?.replace('station:', '') || '',
-              chainage: parseFloat(chainageTag?.replace('chainage:', '') || '0'),
-              area: parseFloat(areaTag?.replace('area:', '') || '0'),
-              notes: item.basisNote || '',
-            };
-          })
-          .sort((a: Station, b: Station) => a.chainage - b.chainage);
-        
-        setStations(stationData);
-        
-        // Load selected DPWH item if exists
-        const dpwhItemRecord = items.find((item: ScheduleItem) => item.tags?.includes('type:excavation-total'));
-        if (dpwhItemRecord && catalogItems.length > 0) {
-          const catalogItem = catalogItems.find(c => c.itemNumber === dpwhItemRecord.dpwhItemNumberRaw);
-          if (catalogItem) {
-            setSelectedDpwhItem(catalogItem);
-            setSavedToDatabase(true);
-          }
-        }
+        setStations([...(data.earthworkStations || [])].sort((a, b) => a.chainage - b.chainage));
+        setCrossSections(data.crossSections || null);
+        setMassHaul(data.massHaul || null);
+        setCalcErrors(data.errors || []);
+        setSettings(data.settings);
       }
     } catch (error) {
       console.error('Error loading stations:', error);
@@ -96,279 +81,368 @@ export default function ExcavationStations({ projectId }: ExcavationStationsProp
       if (res.ok) {
         const response = await res.json();
         const allResults: CatalogItem[] = response.data || response || [];
-        
-        // Filter to excavation items (Part C - 800 series)
-        const excavationItems = allResults.filter(item =>
+
+        // Excavation and embankment items (Part C - 800 series)
+        const earthworkItems = allResults.filter(item =>
           (item.trade === 'Earthwork' || item.itemNumber.startsWith('8')) &&
           (item.description?.toLowerCase().includes('excavation') ||
-           item.description?.toLowerCase().includes('roadway'))
+           item.description?.toLowerCase().includes('embankment') ||
+           item.description?.toLowerCase().includes('borrow'))
         );
-        
-        excavationItems.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
-        setCatalogItems(excavationItems);
+
+        earthworkItems.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
+        setCatalogItems(earthworkItems);
       }
     } catch (error) {
       console.error('Error loading catalog:', error);
     }
   };
 
-  const handleAddStation = () => {
-    if (!newStation.station || !newStation.chainage || !newStation.area) {
-      alert('Please fill in Station, Chainage, and Area');
-      return;
+  // Area-only stations saved as schedule items before profiles were surveyed
+  const loadLegacyItems = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-excavation`);
+      if (res.ok) {
+        const data = await res.json();
+        setLegacyItems(data.scheduleItems || []);
+      }
+    } catch (error) {
+      console.error('Error loading items:', error);
     }
+  };
 
-    const station: Station = {
-      id: `temp-${Date.now()}`,
-      station: newStation.station,
-      chainage: parseFloat(newStation.chainage),
-      area: parseFloat(newStation.area),
-      notes: newStation.notes,
-    };
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-    setStations([...stations, station].sort((a, b) => a.chainage - b.chainage));
-    setNewStation({ station: '', chainage: '', area: '', notes: '' });
-    setShowAddStation(false);
-    setSavedToDatabase(false);
-  };
+    const body = {
+      station: formData.station,
+      chainage: parseFloat(formData.chainage),
+      ground: parseProfile(formData.ground),
+      design: parseProfile(formData.design),
+      notes: formData.notes,
+    };
 
-  const handleDeleteStation = (id: string) => {
-    setStations(stations.filter(s => s.id !== id));
-    setSavedToDatabase(false);
-  };
+    try {
+      const res = await fetch(
+        editingId
+          ? `/api/projects/${projectId}/earthwork-stations/${editingId}`
+          : `/api/projects/${projectId}/earthwork-stations`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
 
-  // Calculate volumes using Average Area Method
-  const calculateVolumes = () => {
-    if (stations.length < 2) return [];
-    
-    const volumes = [];
-    for (let i = 0; i < stations.length - 1; i++) {
-      const sta1 = stations[i];
-      const sta2 = stations[i + 1];
-      const distance = sta2.chainage - sta1.chainage; // meters
-      const avgArea = (sta1.area + sta2.area) / 2; // m²
-      const volume = avgArea * distance; // m³
-      
-      volumes.push({
-        from: sta1.station,
-        to: sta2.station,
-        distance,
-        area1: sta1.area,
-        area2: sta2.area,
-        avgArea,
-        volume,
-      });
+      if (res.ok) {
+        await loadStations();
+        resetForm();
+      } else {
+        const error = await res.json();
+        alert(`Failed to save station: ${error.details?.join(', ') || error.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error saving station:', error);
+      alert('Failed to save station');
     }
-    
-    return volumes;
   };
 
-  const getTotalVolume = () => {
-    const volumes = calculateVolumes();
-    return volumes.reduce((sum, v) => sum + v.volume, 0);
+  const handleEdit = (station: EarthworkStation) => {
+    setEditingId(station.id);
+    setFormData({
+      station: station.station,
+      chainage: String(station.chainage),
+      ground: formatProfile(station.ground),
+      design: formatProfile(station.design),
+      notes: station.notes || '',
+    });
+    setShowForm(true);
   };
 
-  const handleSaveToDatabase = async () => {
-    if (!selectedDpwhItem) {
-      alert('Please select a DPWH item first');
-      return;
-    }
-
-    if (stations.length < 2) {
-      alert('Please add at least 2 stations to calculate volume');
-      return;
-    }
+  const handleDelete = async (stationId: string) => {
+    if (!confirm('Delete this station?')) return;
 
     try {
-      // Delete existing excavation records
-      const existingRes = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-excavation`);
-      if (existingRes.ok) {
-        const data = await existingRes.json();
-        const items = data.scheduleItems || [];
-        
-        for (const item of items) {
-          await fetch(`/api/projects/${projectId}/schedule-items/${item.id}`, {
-            method: 'DELETE',
-          });
-        }
-      }
-
-      // Save each station as a record
-      for (const station of stations) {
-        const res = await fetch(`/api/projects/${projectId}/schedule-items`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            category: 'earthworks-excavation',
-            dpwhItemNumberRaw: selectedDpwhItem.itemNumber,
-            descriptionOverride: `Station data: ${station.station}`,
-            unit: selectedDpwhItem.unit, // Use catalog unit
-            qty: station.area,
-            basisNote: station.notes || `Cross-sectional area at ${station.station}`,
-            tags: [
-              'type:station',
-              `station:${station.station}`,
-              `chainage:${station.chainage}`,
-              `area:${station.area}`,
-            ],
-          }),
-        });
+      const res = await fetch(`/api/projects/${projectId}/earthwork-stations/${stationId}`, {
+        method: 'DELETE',
+      });
 
-        if (!res.ok) {
-          const error = await res.json();
-          console.error('Failed to save station:', error);
-          alert(`Failed to save station ${station.station}: ${error.error || 'Unknown error'}`);
-          return;
-        }
+      if (res.ok) {
+        await loadStations();
+      } else {
+        alert('Failed to delete station');
       }
+    } catch (error) {
+      console.error('Error deleting station:', error);
+      alert('Failed to delete station');
+    }
+  };
 
-      // Save the total volume as the main excavation record
-      const totalVolume = getTotalVolume();
-      const volumeRes = await fetch(`/api/projects/${projectId}/schedule-items`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          category: 'earthworks-excavation',
-          dpwhItemNumberRaw: selectedDpwhItem.itemNumber,
-          descriptionOverride: selectedDpwhItem.description,
-          unit: selectedDpwhItem.unit,
-          qty: totalVolume,
-          basisNote: `Average Area Method: ${stations.length} stations from ${stations[0].station} to ${stations[stations.length - 1].station}`,
-          tags: ['type:excavation-total', `stations:${stations.length}`],
-        }),
-      });
+  const handleDeleteLegacy = async () => {
+    if (!confirm('Delete the area-only station records? Their volume will no longer be added to the takeoff.')) return;
 
-      if (!volumeRes.ok) {
-        const error = await volumeRes.json();
-        console.error('Failed to save total volume:', error);
-        alert(`Failed to save total volume: ${error.error || 'Unknown error'}`);
-        return;
+    try {
+      for (const item of legacyItems) {
+        await fetch(`/api/projects/${projectId}/schedule-items/${item.id}`, {
+          method: 'DELETE',
+        });
       }
+      await loadLegacyItems();
+    } catch (error) {
+      console.error('Error deleting items:', error);
+      alert('Failed to delete items');
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
 
-      setSavedToDatabase(true);
-      alert('Excavation data saved successfully!');
-      
-      // Reload catalog first, then stations
-      await loadCatalogItems();
+    try {
+      setSavingSettings(true);
+      await onSaveSettings(settings);
       await loadStations();
     } catch (error) {
-      console.error('Error saving:', error);
-      alert('Failed to save excavation data');
+      alert(error instanceof Error ? error.message : 'Failed to save cross-section settings');
+    } finally {
+      setSavingSettings(false);
     }
   };
 
-  const volumes = calculateVolumes();
-  const totalVolume = getTotalVolume();
+  const resetForm = () => {
+    setFormData(emptyStation);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const sectionAreas = new Map((crossSections?.stations || []).map(s => [s.id, s]));
+  const isPrismoidal = crossSections?.method === 'prismoidal';
+  const legacyTotal = legacyItems.find(item => item.tags?.includes('type:excavation-total'));
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
-        <h2 className="text-2xl font-bold text-amber-900 mb-2">⛏️ Excavation - Average Area Method</h2>
+        <h2 className="text-2xl font-bold text-amber-900 mb-2">⛏️ Excavation & Embankment - Cross Sections</h2>
         <p className="text-sm text-amber-700 mb-4">
-          Calculate excavation volume using cross-sectional areas at different stations
+          Cut and fill areas are computed from the ground and design profiles surveyed at each station
         </p>
-        
-        {/* DPWH Item Selection */}
-        <div>
-          <label className="block text-sm font-medium text-amber-800 mb-2">
-            Select DPWH Excavation Item *
-          </label>
-          <select
-            value={selectedDpwhItem?.itemNumber || ''}
-            onChange={(e) => {
-              const item = catalogItems.find(c => c.itemNumber === e.target.value);
-              setSelectedDpwhItem(item || null);
-              setSavedToDatabase(false);
-            }}
-            className="w-full max-w-2xl px-3 py-2 border border-amber-300 rounded bg-white"
+
+        {settings && (
+          <div className="grid grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Volume Method</label>
+              <select
+                value={settings.volumeMethod}
+                onChange={(e) => setSettings({ ...settings, volumeMethod: e.target.value as EarthworkVolumeMethod })}
+                className="w-full px-3 py-2 border border-amber-300 rounded bg-white"
+              >
+                <option value="average-end-area">Average End Area</option>
+                <option value="prismoidal">Prismoidal</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Cut (DPWH Item)</label>
+              <select
+                value={settings.excavationItem}
+                onChange={(e) => setSettings({ ...settings, excavationItem: e.target.value })}
+                className="w-full px-3 py-2 border border-amber-300 rounded bg-white"
+              >
+                {catalogItems.filter(item => !item.description.toLowerCase().includes('embankment') && item.description.toLowerCase().includes('excavation')).map((item) => (
+                  <option key={item.itemNumber} value={item.itemNumber}>
+                    {item.itemNumber} - {item.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Fill (DPWH Item)</label>
+              <select
+                value={settings.embankmentItem}
+                onChange={(e) => setSettings({ ...settings, embankmentItem: e.target.value })}
+                className="w-full px-3 py-2 border border-amber-300 rounded bg-white"
+              >
+                {catalogItems.filter(item => item.description.toLowerCase().includes('embankment') || item.description.toLowerCase().includes('borrow')).map((item) => (
+                  <option key={item.itemNumber} value={item.itemNumber}>
+                    {item.itemNumber} - {item.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Borrow (DPWH Item)</label>
+              <select
+                value={settings.borrowItem}
+                onChange={(e) => setSettings({ ...settings, borrowItem: e.target.value })}
+                className="w-full px-3 py-2 border border-amber-300 rounded bg-white"
+              >
+                {catalogItems.filter(item => item.description.toLowerCase().includes('borrow')).map((item) => (
+                  <option key={item.itemNumber} value={item.itemNumber}>
+                    {item.itemNumber} - {item.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Waste (DPWH Item)</label>
+              <select
+                value={settings.wasteItem}
+                onChange={(e) => setSettings({ ...settings, wasteItem: e.target.value })}
+                className="w-full px-3 py-2 border border-amber-300 rounded bg-white"
+              >
+                {catalogItems.filter(item => item.description.toLowerCase().includes('surplus')).map((item) => (
+                  <option key={item.itemNumber} value={item.itemNumber}>
+                    {item.itemNumber} - {item.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Shrinkage (%)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                max="99"
+                value={Math.round(settings.shrinkage * 100)}
+                onChange={(e) => setSettings({ ...settings, shrinkage: (parseFloat(e.target.value) || 0) / 100 })}
+                className="w-full px-3 py-2 border border-amber-300 rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Swell (%)</label>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={Math.round(settings.swell * 100)}
+                onChange={(e) => setSettings({ ...settings, swell: (parseFloat(e.target.value) || 0) / 100 })}
+                className="w-full px-3 py-2 border border-amber-300 rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-amber-800 mb-1">Free Haul (m)</label>
+              <input
+                type="number"
+                step="10"
+                min="0"
+                value={settings.freeHaulDistance}
+                onChange={(e) => setSettings({ ...settings, freeHaulDistance: parseFloat(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-amber-300 rounded"
+              />
+            </div>
+            <div>
+              <button
+                onClick={handleSaveSettings}
+                disabled={savingSettings}
+                className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:bg-gray-400"
+              >
+                {savingSettings ? 'Saving...' : 'Save Settings'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Area-only records from before profiles */}
+      {legacyItems.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-center gap-4">
+          <p className="text-sm text-red-800">
+            Area-only station records from the previous average-area entry are still in the takeoff
+            {legacyTotal ? ` (${legacyTotal.qty.toFixed(2)} m³ under ${legacyTotal.dpwhItemNumberRaw})` : ''}.
+            Re-enter them as profiles below, then delete them.
+          </p>
+          <button
+            onClick={handleDeleteLegacy}
+            className="px-3 py-1 text-sm text-red-700 border border-red-300 rounded hover:bg-red-100 whitespace-nowrap"
           >
-            <option value="">-- Select excavation type --</option>
-            {catalogItems.map((item) => (
-              <option key={item.itemNumber} value={item.itemNumber}>
-                {item.itemNumber} - {item.description} ({item.unit})
-              </option>
-            ))}
-          </select>
+            Delete Records
+          </button>
         </div>
-      </div>
+      )}
 
       {/* Stations Table */}
       <div className="bg-white rounded-lg shadow-sm overflow-hidden">
         <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
-          <h3 className="text-lg font-semibold text-gray-900">Stations & Cross-Sectional Areas</h3>
+          <h3 className="text-lg font-semibold text-gray-900">Stations & Cross Sections</h3>
           <button
-            onClick={() => setShowAddStation(!showAddStation)}
+            onClick={() => (showForm ? resetForm() : setShowForm(true))}
             className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
           >
-            {showAddStation ? 'Cancel' : '+ Add Station'}
+            {showForm ? 'Cancel' : '+ Add Station'}
           </button>
         </div>
 
-        {/* Add Station Form */}
-        {showAddStation && (
-          <div className="px-6 py-4 bg-amber-50 border-b border-amber-200">
-            <div className="grid grid-cols-4 gap-4">
+        {/* Station Form */}
+        {showForm && (
+          <form onSubmit={handleSubmit} className="px-6 py-4 bg-amber-50 border-b border-amber-200 space-y-4">
+            <div className="grid grid-cols-3 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Station *
-                </label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Station *</label>
                 <input
                   type="text"
-                  value={newStation.station}
-                  onChange={(e) => setNewStation({ ...newStation, station: e.target.value })}
-                  placeholder="e.g., 0+000"
+                  value={formData.station}
+                  onChange={(e) => setFormData({ ...formData, station: e.target.value })}
+                  placeholder="e.g., 0+020"
                   className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Chainage (m) *
-                </label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Chainage (m) *</label>
                 <input
                   type="number"
                   step="0.01"
-                  value={newStation.chainage}
-                  onChange={(e) => setNewStation({ ...newStation, chainage: e.target.value })}
-                  placeholder="0.00"
+                  value={formData.chainage}
+                  onChange={(e) => setFormData({ ...formData, chainage: e.target.value })}
+                  placeholder="20.00"
                   className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Area (m²) *
-                </label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
                 <input
-                  type="number"
-                  step="0.01"
-                  value={newStation.area}
-                  onChange={(e) => setNewStation({ ...newStation, area: e.target.value })}
-                  placeholder="0.00"
+                  type="text"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="Optional"
                   className="w-full px-3 py-2 border border-gray-300 rounded"
                 />
               </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Notes
-                </label>
-                <input
-                  type="text"
-                  value={newStation.notes}
-                  onChange={(e) => setNewStation({ ...newStation, notes: e.target.value })}
-                  placeholder="Optional"
-                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ground Profile * (offset, elevation per line)</label>
+                <textarea
+                  value={formData.ground}
+                  onChange={(e) => setFormData({ ...formData, ground: e.target.value })}
+                  placeholder={'-10, 101.20\n0, 101.50\n10, 101.80'}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Design Profile * (to the catch points)</label>
+                <textarea
+                  value={formData.design}
+                  onChange={(e) => setFormData({ ...formData, design: e.target.value })}
+                  placeholder={'-6, 101.30\n-3, 100.00\n3, 100.00\n6, 101.70'}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-sm"
+                  required
                 />
               </div>
             </div>
-            <div className="mt-4 flex justify-end">
-              <button
-                onClick={handleAddStation}
-                className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
-              >
-                Add Station
+            <p className="text-xs text-gray-600">
+              Offsets from the centerline, negative to the left, increasing left to right.
+            </p>
+            <div className="flex justify-end">
+              <button type="submit" className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700">
+                {editingId ? 'Update Station' : 'Add Station'}
               </button>
             </div>
-          </div>
+          </form>
         )}
 
         {/* Stations List */}
@@ -376,7 +450,7 @@ export default function ExcavationStations({ projectId }: ExcavationStationsProp
           <div className="px-6 py-12 text-center text-gray-500">
             <div className="text-4xl mb-2">📏</div>
             <p>No stations added yet</p>
-            <p className="text-sm mt-1">Add at least 2 stations to calculate excavation volume</p>
+            <p className="text-sm mt-1">Add at least 2 stations to calculate cut and fill volumes</p>
           </div>
         ) : (
           <table className="min-w-full divide-y divide-gray-200">
@@ -384,104 +458,121 @@ export default function ExcavationStations({ projectId }: ExcavationStationsProp
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Station</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Chainage (m)</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Area (m²)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Points (G / D)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Width (m)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cut Area (m²)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fill Area (m²)</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {stations.map((station) => (
-                <tr key={station.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{station.station}</td>
-                  <td className="px-6 py-4 text-sm text-gray-700">{station.chainage.toFixed(2)}</td>
-                  <td className="px-6 py-4 text-sm text-gray-900 font-semibold">{station.area.toFixed(2)}</td>
-                  <td className="px-6 py-4 text-sm text-gray-600">{station.notes || '-'}</td>
-                  <td className="px-6 py-4 text-sm">
-                    <button
-                      onClick={() => handleDeleteStation(station.id)}
-                      className="text-red-600 hover:text-red-800"
-                    >
-                      Delete
-                    </button>
-                  </td>
-                </tr>
-              ))}
+              {stations.map((station) => {
+                const areas = sectionAreas.get(station.id);
+                return (
+                  <tr key={station.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{station.station}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{station.chainage.toFixed(2)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{station.ground.length} / {station.design.length}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{areas ? areas.width.toFixed(2) : '-'}</td>
+                    <td className="px-6 py-4 text-sm text-red-700 font-semibold">{areas ? areas.cutArea.toFixed(2) : '-'}</td>
+                    <td className="px-6 py-4 text-sm text-green-700 font-semibold">{areas ? areas.fillArea.toFixed(2) : '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{station.notes || '-'}</td>
+                    <td className="px-6 py-4 text-sm space-x-3">
+                      <button onClick={() => handleEdit(station)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(station.id)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         )}
       </div>
 
-      {/* Volume Calculations */}
-      {volumes.length > 0 && (
+      {calcErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          {calcErrors.map((error, idx) => <p key={idx}>{error}</p>)}
+        </div>
+      )}
+
+      {/* Volume Audit */}
+      {crossSections && crossSections.segments.length > 0 && (
         <div className="bg-white rounded-lg shadow-sm overflow-hidden">
           <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-            <h3 className="text-lg font-semibold text-gray-900">Volume Calculations (Average Area Method)</h3>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Volumes ({isPrismoidal ? 'Prismoidal Formula' : 'Average End Area Method'})
+            </h3>
           </div>
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">From Station</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">To Station</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Distance (m)</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Area 1 (m²)</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Area 2 (m²)</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Avg Area (m²)</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">From</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">To</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Length (m)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Cut A₁{isPrismoidal ? ' / Aₘ' : ''} / A₂ (m²)
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Fill A₁{isPrismoidal ? ' / Aₘ' : ''} / A₂ (m²)
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cut (m³)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fill (m³)</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {volumes.map((vol, idx) => (
-                <tr key={idx} className="hover:bg-gray-50">
-                  <td className="px-6 py-3 text-sm font-medium text-gray-900">{vol.from}</td>
-                  <td className="px-6 py-3 text-sm font-medium text-gray-900">{vol.to}</td>
-                  <td className="px-6 py-3 text-sm text-gray-700">{vol.distance.toFixed(2)}</td>
-                  <td className="px-6 py-3 text-sm text-gray-700">{vol.area1.toFixed(2)}</td>
-                  <td className="px-6 py-3 text-sm text-gray-700">{vol.area2.toFixed(2)}</td>
-                  <td className="px-6 py-3 text-sm text-gray-700">{vol.avgArea.toFixed(2)}</td>
-                  <td className="px-6 py-3 text-sm font-bold text-amber-700">{vol.volume.toFixed(2)}</td>
+              {crossSections.segments.map((segment) => (
+                <tr key={`${segment.fromChainage}-${segment.toChainage}`} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{segment.fromStation}</td>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{segment.toStation}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{segment.length.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {segment.cutArea1.toFixed(2)}{isPrismoidal ? ` / ${segment.cutAreaMid?.toFixed(2)}` : ''} / {segment.cutArea2.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {segment.fillArea1.toFixed(2)}{isPrismoidal ? ` / ${segment.fillAreaMid?.toFixed(2)}` : ''} / {segment.fillArea2.toFixed(2)}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-bold text-red-700">{segment.cutVolume.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-sm font-bold text-green-700">{segment.fillVolume.toFixed(2)}</td>
                 </tr>
               ))}
               <tr className="bg-amber-50">
-                <td colSpan={6} className="px-6 py-4 text-sm font-bold text-gray-900 text-right">
-                  TOTAL EXCAVATION VOLUME:
-                </td>
-                <td className="px-6 py-4 text-lg font-bold text-amber-700">
-                  {totalVolume.toFixed(2)} m³
+                <td colSpan={5} className="px-4 py-4 text-sm font-bold text-gray-900 text-right">
+                  TOTAL ({settings?.excavationItem} cut / {settings?.embankmentItem} fill):
                 </td>
+                <td className="px-4 py-4 text-lg font-bold text-red-700">{crossSections.totalCut.toFixed(2)} m³</td>
+                <td className="px-4 py-4 text-lg font-bold text-green-700">{crossSections.totalFill.toFixed(2)} m³</td>
               </tr>
             </tbody>
           </table>
+          <p className="px-4 py-2 text-xs text-gray-500 border-t">
+            Cut goes into the takeoff as excavation; fill is split into embankment from excavation and from borrow,
+            and unused cut goes in as surplus excavation, when the takeoff is next generated.
+          </p>
         </div>
       )}
 
-      {/* Save Button */}
-      {stations.length >= 2 && selectedDpwhItem && (
-        <div className="flex justify-end gap-4 items-center">
-          {savedToDatabase && (
-            <span className="text-green-600 text-sm font-medium">✓ Saved to database</span>
-          )}
-          <button
-            onClick={handleSaveToDatabase}
-            disabled={savedToDatabase}
-            className={`px-6 py-3 rounded font-medium ${
-              savedToDatabase
-                ? 'bg-gray-300 text-gray-600 cursor-not-allowed'
-                : 'bg-amber-600 text-white hover:bg-amber-700'
-            }`}
-          >
-            {savedToDatabase ? 'Saved' : 'Save to Database'}
-          </button>
-        </div>
+      {/* Mass Haul */}
+      {massHaul && settings && (
+        <MassHaulDiagram massHaul={massHaul} borrowItem={settings.borrowItem} wasteItem={settings.wasteItem} />
       )}
 
       {/* Formula Reference */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-        <h4 className="text-sm font-semibold text-blue-900 mb-2">📐 Average Area Method Formula</h4>
+        <h4 className="text-sm font-semibold text-blue-900 mb-2">📐 Volume Formulas</h4>
         <div className="text-sm text-blue-800 space-y-1">
-          <p><strong>Volume between two stations:</strong></p>
+          <p><strong>Average end area:</strong></p>
           <p className="font-mono bg-white px-3 py-2 rounded">V = (A₁ + A₂) / 2 × L</p>
+          <p><strong>Prismoidal:</strong></p>
+          <p className="font-mono bg-white px-3 py-2 rounded">V = L / 6 × (A₁ + 4Aₘ + A₂)</p>
           <p className="text-xs mt-2">
-            Where: V = Volume (m³), A₁ & A₂ = Cross-sectional areas at stations (m²), L = Distance between stations (m)
+            Where: A₁ & A₂ = cut or fill areas at the stations (m²), Aₘ = area of the section midway, interpolated
+            from both profiles (m²), L = distance between stations (m). Areas are the regions between the ground
+            and design profiles: ground above design is cut, below is fill.
           </p>
         </div>
       </div>
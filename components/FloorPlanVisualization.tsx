@@ -2,6 +2,7 @@
 
 import { useMemo } from 'react';
 import type { GridLine, Level, ElementInstance, ElementTemplate } from '@/types';
+import { calculateBeamSpan } from '@/lib/math/beamSpan';
 
 interface FloorPlanVisualizationProps {
   gridX: GridLine[];
@@ -122,6 +123,7 @@ export default function FloorPlanVisualization({
     | { type: 'foundation-mat'; x1: number; x2: number; y1: number; y2: number }
     | { type: 'foundation-footing'; x: number; y: number }
     | { type: 'column'; x: number; y: number }
+    | { type: 'pile'; x: number; y: number }
     | null => {
     if (!gridRef || gridRef.length === 0) return null;
 
@@ -213,11 +215,48 @@ export default function FloorPlanVisualization({
           return { type: 'column', x, y };
         }
       }
+    } else if (type === 'pile') {
+      // Pile group: [x-label, y-label]
+      if (gridRef.length >= 2) {
+        const x = getGridOffset(gridRef[0], 'X');
+        const y = getGridOffset(gridRef[1], 'Y');
+        if (x !== null && y !== null) {
+          return { type: 'pile', x, y };
+        }
+      }
     }
 
     return null;
   };
 
+  // Element coordinates, with beams moved to their explicit end points or end/line offsets
+  const getElementCoords = (instance: ElementInstance, template: ElementTemplate): ReturnType<typeof parseGridRef> => {
+    const { gridRef, beamCoordinates, beamOffsets } = instance.placement;
+    if (template.type === 'beam' && beamCoordinates) {
+      const [x1, y1] = beamCoordinates.start;
+      const [x2, y2] = beamCoordinates.end;
+      return { type: 'beam', x1, x2, y1, y2, axis: Math.abs(y2 - y1) < 1e-9 ? 'X' : 'Y' };
+    }
+
+    const coords = gridRef ? parseGridRef(gridRef, template) : null;
+    if (coords?.type === 'beam' && beamOffsets) {
+      const alongX = coords.axis === 'X';
+      try {
+        const span = calculateBeamSpan(
+          alongX,
+          alongX ? coords.x1 : coords.y1,
+          alongX ? coords.x2 : coords.y2,
+          alongX ? coords.y1 : coords.x1,
+          beamOffsets
+        );
+        return { ...coords, x1: span.start[0], y1: span.start[1], x2: span.end[0], y2: span.end[1] };
+      } catch {
+        return coords;
+      }
+    }
+    return coords;
+  };
+
   if (gridX.length === 0 || gridY.length === 0) {
     return (
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center text-gray-500">
@@ -329,9 +368,9 @@ export default function FloorPlanVisualization({
           {/* Element instances */}
           {visibleInstances.map((instance) => {
             const template = getTemplate(instance.templateId);
-            if (!template || !instance.placement.gridRef) return null;
+            if (!template) return null;
 
-            const coords = parseGridRef(instance.placement.gridRef, template);
+            const coords = getElementCoords(instance, template);
             if (!coords) return null;
 
             if (coords.type === 'beam') {
@@ -651,6 +690,59 @@ export default function FloorPlanVisualization({
                   </g>
                 );
               }
+            } else if (coords.type === 'pile') {
+              // Draw pile group as a dashed cap outline around a pile marker
+              const x = toSvgX(coords.x);
+              const y = toSvgY(coords.y);
+              const size = 18;
+              const pileCount = template.properties.pileCount || 1;
+              const pileSize = template.pileType === 'driven'
+                ? `${template.properties.width?.toFixed(2) || '?'}m sq.`
+                : `Ø${template.properties.diameter?.toFixed(2) || '?'}m`;
+
+              return (
+                <g key={instance.id}>
+                  <rect
+                    x={x - size / 2}
+                    y={y - size / 2}
+                    width={size}
+                    height={size}
+                    fill="none"
+                    stroke="#b45309"
+                    strokeWidth="2"
+                    strokeDasharray="3,2"
+                  />
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={5}
+                    fill="#d97706"
+                    stroke="#92400e"
+                    strokeWidth="1.5"
+                  />
+                  {/* Element label */}
+                  <text
+                    x={x}
+                    y={y - 16}
+                    fontSize="9"
+                    fill="#78350f"
+                    textAnchor="middle"
+                    fontWeight="bold"
+                  >
+                    {template.name}
+                  </text>
+                  {/* Pile count and size */}
+                  <text
+                    x={x}
+                    y={y + 22}
+                    fontSize="8"
+                    fill="#d97706"
+                    textAnchor="middle"
+                  >
+                    {pileCount}×{pileSize}
+                  </text>
+                </g>
+              );
             }
 
             return null;
@@ -693,6 +785,10 @@ export default function FloorPlanVisualization({
           <div className="w-4 h-4 bg-orange-500 border-2 border-orange-600" style={{ borderStyle: 'dashed' }}></div>
           <span>Footings</span>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded-full bg-amber-600 border-2 border-amber-800"></div>
+          <span>Piles</span>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+
+interface IntersectionModeToggleProps {
+  enabled: boolean;
+  onSave: (enabled: boolean) => Promise<void>;
+}
+
+export default function IntersectionModeToggle({ enabled: initialEnabled, onSave }: IntersectionModeToggleProps) {
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(enabled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save intersection mode');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h4 className="font-semibold text-gray-700">Intersection Deductions</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            When enabled, concrete shared at joints is counted once (column &gt; beam &gt; slab) and
+            shown as negative adjustment lines. Formwork is not adjusted. Regenerate the takeoff after saving.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            Deduct overlaps
+          </label>
+          <button
+            onClick={handleSave}
+            disabled={saving || enabled === initialEnabled}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
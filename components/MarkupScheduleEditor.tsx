@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import type { MarkupBracket, MarkupSchedule } from '@/types';
+
+interface MarkupScheduleEditorProps {
+  markups: MarkupSchedule;
+  onSave: (markups: MarkupSchedule) => Promise<void>;
+}
+
+type BracketKey = 'ocmBrackets' | 'profitBrackets';
+
+export default function MarkupScheduleEditor({ markups: initialMarkups, onSave }: MarkupScheduleEditorProps) {
+  const [markups, setMarkups] = useState<MarkupSchedule>(initialMarkups);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Update a bracket ceiling or percentage
+  const updateBracket = (key: BracketKey, index: number, field: keyof MarkupBracket, value: string) => {
+    const brackets = markups[key].map(b => ({ ...b }));
+    if (field === 'upTo') {
+      brackets[index].upTo = value === '' ? null : Number(value);
+    } else {
+      brackets[index].percent = Number(value) / 100;
+    }
+    setMarkups({ ...markups, [key]: brackets });
+  };
+
+  const addBracket = (key: BracketKey) => {
+    setMarkups({ ...markups, [key]: [...markups[key], { upTo: null, percent: 0 }] });
+  };
+
+  const deleteBracket = (key: BracketKey, index: number) => {
+    setMarkups({ ...markups, [key]: markups[key].filter((_, i) => i !== index) });
+  };
+
+  // Save markups
+  const handleSave = async () => {
+    if (markups.ocmBrackets.filter(b => b.upTo === null).length > 1 ||
+        markups.profitBrackets.filter(b => b.upTo === null).length > 1) {
+      setError('Only one open-ended bracket (blank ceiling) is allowed per table');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(markups);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save markups');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBrackets = (key: BracketKey, title: string) => (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <button
+          onClick={() => addBracket(key)}
+          className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700"
+        >
+          + Add Bracket
+        </button>
+      </div>
+      <div className="space-y-2">
+        {markups[key].map((bracket, index) => (
+          <div key={index} className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg">
+            <div className="flex-1 grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Direct Cost Up To (blank = no limit)
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  value={bracket.upTo ?? ''}
+                  onChange={(e) => updateBracket(key, index, 'upTo', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Rate (%)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={Number((bracket.percent * 100).toFixed(2))}
+                  onChange={(e) => updateBracket(key, index, 'percent', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            </div>
+            <button
+              onClick={() => deleteBracket(key, index)}
+              className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Indirect Cost Markups</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            OCM and profit rates are picked from the bracket the total estimated direct cost falls in.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Markups'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderBrackets('ocmBrackets', 'Overhead, Contingencies & Miscellaneous (OCM)')}
+        {renderBrackets('profitBrackets', "Contractor's Profit")}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">VAT (%)</label>
+          <input
+            type="number"
+            step="0.1"
+            value={Number((markups.vatPercent * 100).toFixed(2))}
+            onChange={(e) => setMarkups({ ...markups, vatPercent: Number(e.target.value) / 100 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Contingency (%, 0 = none)</label>
+          <input
+            type="number"
+            step="0.1"
+            value={Number((markups.contingencyPercent * 100).toFixed(2))}
+            onChange={(e) => setMarkups({ ...markups, contingencyPercent: Number(e.target.value) / 100 })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { type MassHaulResult } from '@/lib/math/earthwork';
+
+interface MassHaulDiagramProps {
+  massHaul: MassHaulResult;
+  borrowItem: string;
+  wasteItem: string;
+}
+
+export default function MassHaulDiagram({ massHaul, borrowItem, wasteItem }: MassHaulDiagramProps) {
+  const { ordinates } = massHaul;
+
+  // SVG viewport dimensions
+  const viewportWidth = 900;
+  const viewportHeight = 320;
+  const padding = { left: 70, right: 20, top: 20, bottom: 40 };
+  const plotWidth = viewportWidth - padding.left - padding.right;
+  const plotHeight = viewportHeight - padding.top - padding.bottom;
+
+  const minChainage = ordinates[0].chainage;
+  const maxChainage = ordinates[ordinates.length - 1].chainage;
+  const minOrdinate = Math.min(0, ...ordinates.map(o => o.ordinate));
+  const maxOrdinate = Math.max(0, ...ordinates.map(o => o.ordinate));
+  const chainageRange = maxChainage - minChainage || 1;
+  const ordinateRange = maxOrdinate - minOrdinate || 1;
+
+  // Helper to convert chainage/ordinate to SVG coordinates
+  const toSVG = (chainage: number, ordinate: number) => ({
+    x: padding.left + ((chainage - minChainage) / chainageRange) * plotWidth,
+    y: padding.top + ((maxOrdinate - ordinate) / ordinateRange) * plotHeight,
+  });
+
+  const points = ordinates.map(o => {
+    const { x, y } = toSVG(o.chainage, o.ordinate);
+    return `${x},${y}`;
+  }).join(' ');
+  const zeroY = toSVG(minChainage, 0).y;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Mass Haul Diagram</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Cumulative compacted cut less fill. Rising = cut, falling = fill, crossings of the zero line are balance points.
+        </p>
+      </div>
+
+      <div className="p-4">
+        <svg viewBox={`0 0 ${viewportWidth} ${viewportHeight}`} className="w-full h-auto">
+          {/* Axes */}
+          <line x1={padding.left} y1={padding.top} x2={padding.left} y2={padding.top + plotHeight} stroke="#9ca3af" />
+          <line x1={padding.left} y1={zeroY} x2={padding.left + plotWidth} y2={zeroY} stroke="#6b7280" strokeDasharray="4 4" />
+          <text x={padding.left - 8} y={toSVG(minChainage, maxOrdinate).y + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+            {maxOrdinate.toFixed(0)}
+          </text>
+          <text x={padding.left - 8} y={zeroY + 4} textAnchor="end" fontSize="11" fill="#6b7280">0</text>
+          <text x={padding.left - 8} y={toSVG(minChainage, minOrdinate).y + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+            {minOrdinate.toFixed(0)}
+          </text>
+
+          {/* Mass curve */}
+          <polyline points={points} fill="none" stroke="#d97706" strokeWidth="2.5" strokeLinejoin="round" />
+
+          {/* Stations */}
+          {ordinates.map(o => {
+            const { x, y } = toSVG(o.chainage, o.ordinate);
+            return (
+              <g key={o.chainage}>
+                <circle cx={x} cy={y} r="4" fill="#d97706">
+                  <title>{`${o.station}: ${o.ordinate.toFixed(2)} m³`}</title>
+                </circle>
+                <text x={x} y={viewportHeight - 15} textAnchor="middle" fontSize="11" fill="#374151">
+                  {o.station}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="grid grid-cols-5 gap-4 px-6 py-4 bg-amber-50 border-t border-amber-200 text-sm">
+        <div>
+          <div className="text-gray-600">Fill from Excavation</div>
+          <div className="font-bold text-gray-900">{massHaul.fillFromCut.toFixed(2)} m³</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Borrow ({borrowItem})</div>
+          <div className="font-bold text-green-700">{massHaul.borrow.toFixed(2)} m³</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Waste ({wasteItem})</div>
+          <div className="font-bold text-red-700">{massHaul.waste.toFixed(2)} m³</div>
+          <div className="text-xs text-gray-500">{massHaul.wasteLoose.toFixed(2)} m³ loose</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Free Haul (≤ {massHaul.freeHaulDistance.toFixed(0)} m)</div>
+          <div className="font-bold text-gray-900">{massHaul.freeHaulVolume.toFixed(2)} m³</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Overhaul</div>
+          <div className="font-bold text-gray-900">{massHaul.overhaul.toFixed(0)} m³·m</div>
+          <div className="text-xs text-gray-500">
+            {massHaul.overhaulVolume.toFixed(2)} m³, avg {massHaul.averageOverhaulDistance.toFixed(0)} m beyond free haul
+          </div>
+        </div>
+      </div>
+      <p className="px-4 py-2 text-xs text-gray-500 border-t">
+        Shrinkage {(massHaul.shrinkage * 100).toFixed(0)}% (bank → compacted), swell {(massHaul.swell * 100).toFixed(0)}%
+        (bank → loose). Overhaul has no separate pay item and is shown on the embankment lines.
+      </p>
+    </div>
+  );
+}
@@ -113,7 +113,7 @@ export default function FramingPlanVisualization({ framingParams, framingResult
         
         {/* Purlins (horizontal lines perpendicular to trusses) */}
         {framingResult.purlins.lines.filter(l => l.side === 'left').map((line, i) => {
-          const x = offsetX + (line.position_mm * scale);
+          const x = offsetX + (line.plan_mm * scale);
           return (
             <line
               key={`purlin-left-${i}`}
@@ -129,7 +129,7 @@ export default function FramingPlanVisualization({ framingParams, framingResult
         })}
         
         {framingResult.purlins.lines.filter(l => l.side === 'right').map((line, i) => {
-          const x = offsetX + totalWidth_px - (line.position_mm * scale);
+          const x = offsetX + totalWidth_px - (line.plan_mm * scale);
           return (
             <line
               key={`purlin-right-${i}`}
@@ -0,0 +1,497 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { MasonryWall, MasonryWallOpening, WallSurface, GridLine, Level, CHBThickness, MortarClass } from '@/types';
+import { getCHBDpwhItem, DEFAULT_PLASTER_THICKNESS_MM } from '@/lib/math/masonry';
+
+interface MasonryWallsManagerProps {
+  projectId: string;
+  levels: Level[];
+  gridX: GridLine[];
+  gridY: GridLine[];
+}
+
+const emptyForm = {
+  name: '',
+  placementMode: 'wallSurface' as 'wallSurface' | 'grid',
+  wallSurfaceId: '',
+  axis: 'X' as 'X' | 'Y',
+  gridLabel: '',
+  spanStart: '',
+  spanEnd: '',
+  levelStart: '',
+  levelEnd: '',
+  thickness_mm: 100 as CHBThickness,
+  loadBearing: false,
+  mortarClass: 'B' as MortarClass,
+  verticalDiameter: '10',
+  verticalSpacing: '0.80',
+  horizontalDiameter: '10',
+  horizontalSpacing: '0.60',
+  plasterSides: '0',
+  plasterThickness: String(DEFAULT_PLASTER_THICKNESS_MM),
+  wastePercent: '5',
+};
+
+export default function MasonryWallsManager({ projectId, levels, gridX, gridY }: MasonryWallsManagerProps) {
+  const [masonryWalls, setMasonryWalls] = useState<MasonryWall[]>([]);
+  const [wallSurfaces, setWallSurfaces] = useState<WallSurface[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyForm);
+  const [openings, setOpenings] = useState<MasonryWallOpening[]>([]);
+
+  useEffect(() => {
+    loadData();
+  }, [projectId]);
+
+  const loadData = async () => {
+    try {
+      const [wallsRes, surfacesRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/masonry-walls`),
+        fetch(`/api/projects/${projectId}/wall-surfaces`),
+      ]);
+      const wallsData = await wallsRes.json();
+      const surfacesData = await surfacesRes.json();
+      setMasonryWalls(wallsData.masonryWalls || []);
+      setWallSurfaces(surfacesData.wallSurfaces || []);
+    } catch (error) {
+      console.error('Error loading masonry walls:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const useSurface = formData.placementMode === 'wallSurface';
+    const plasterSides = parseInt(formData.plasterSides) as 0 | 1 | 2;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/masonry-walls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          wallSurfaceId: useSurface ? formData.wallSurfaceId : undefined,
+          gridLine: useSurface ? undefined : {
+            axis: formData.axis,
+            label: formData.gridLabel,
+            span: [formData.spanStart, formData.spanEnd],
+          },
+          levelStart: useSurface ? undefined : formData.levelStart,
+          levelEnd: useSurface ? undefined : formData.levelEnd,
+          openings: useSurface ? [] : openings,
+          thickness_mm: formData.thickness_mm,
+          loadBearing: formData.loadBearing,
+          mortarClass: formData.mortarClass,
+          reinforcement: {
+            verticalDiameter: parseFloat(formData.verticalDiameter),
+            verticalSpacing_m: parseFloat(formData.verticalSpacing),
+            horizontalDiameter: parseFloat(formData.horizontalDiameter),
+            horizontalSpacing_m: parseFloat(formData.horizontalSpacing),
+          },
+          plaster: plasterSides > 0
+            ? { sides: plasterSides, thickness_mm: parseFloat(formData.plasterThickness) }
+            : undefined,
+          wastePercent: parseFloat(formData.wastePercent) / 100,
+          tags: [],
+        }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        alert(`Error: ${error.error}\n${error.details?.join('\n') || ''}`);
+        return;
+      }
+
+      await loadData();
+      setFormData(emptyForm);
+      setOpenings([]);
+    } catch (error) {
+      console.error('Error creating masonry wall:', error);
+      alert('Failed to create masonry wall');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this masonry wall?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/masonry-walls/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) throw new Error('Failed to delete');
+
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting masonry wall:', error);
+      alert('Failed to delete masonry wall');
+    }
+  };
+
+  const updateOpening = (index: number, field: keyof MasonryWallOpening, value: string) => {
+    setOpenings(openings.map((o, i) => (i === index ? { ...o, [field]: parseFloat(value) || 0 } : o)));
+  };
+
+  const describePlacement = (wall: MasonryWall) => {
+    if (wall.wallSurfaceId) {
+      const surface = wallSurfaces.find(ws => ws.id === wall.wallSurfaceId);
+      return surface ? `Surface: ${surface.name}` : 'Surface not found';
+    }
+    if (!wall.gridLine) return '-';
+    return `${wall.gridLine.axis} = ${wall.gridLine.label}, ${wall.gridLine.span.join(' - ')} (${wall.levelStart} → ${wall.levelEnd})`;
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const spanGridLines = formData.axis === 'X' ? gridY : gridX;
+  const wallGridLines = formData.axis === 'X' ? gridX : gridY;
+
+  if (loading) {
+    return <div className="p-6">Loading masonry walls...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-6">
+        {/* Create Form */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h3 className="font-semibold text-base mb-3">Add CHB Wall</h3>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Wall Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Grid A Exterior CHB"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Placement</label>
+              <select
+                value={formData.placementMode}
+                onChange={(e) => setFormData({ ...formData, placementMode: e.target.value as 'wallSurface' | 'grid' })}
+                className={inputClass}
+              >
+                <option value="wallSurface">Use Wall Surface (openings from Part E)</option>
+                <option value="grid">Own grid line and levels</option>
+              </select>
+            </div>
+
+            {formData.placementMode === 'wallSurface' ? (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Wall Surface</label>
+                <select
+                  value={formData.wallSurfaceId}
+                  onChange={(e) => setFormData({ ...formData, wallSurfaceId: e.target.value })}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select Wall Surface</option>
+                  {wallSurfaces.map((ws) => (
+                    <option key={ws.id} value={ws.id}>
+                      {ws.name} ({ws.computed.length_m.toFixed(2)}m × {ws.computed.height_m.toFixed(2)}m)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Wall Axis</label>
+                    <select
+                      value={formData.axis}
+                      onChange={(e) => setFormData({ ...formData, axis: e.target.value as 'X' | 'Y', gridLabel: '', spanStart: '', spanEnd: '' })}
+                      className={inputClass}
+                    >
+                      <option value="X">X Axis (Grid A, B, C...)</option>
+                      <option value="Y">Y Axis (Grid 1, 2, 3...)</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Grid Line</label>
+                    <select
+                      value={formData.gridLabel}
+                      onChange={(e) => setFormData({ ...formData, gridLabel: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select</option>
+                      {wallGridLines.map((g) => (
+                        <option key={g.label} value={g.label}>{g.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Span Start</label>
+                    <select
+                      value={formData.spanStart}
+                      onChange={(e) => setFormData({ ...formData, spanStart: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select</option>
+                      {spanGridLines.map((g) => (
+                        <option key={g.label} value={g.label}>{g.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Span End</label>
+                    <select
+                      value={formData.spanEnd}
+                      onChange={(e) => setFormData({ ...formData, spanEnd: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select</option>
+                      {spanGridLines.map((g) => (
+                        <option key={g.label} value={g.label}>{g.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Level Start</label>
+                    <select
+                      value={formData.levelStart}
+                      onChange={(e) => setFormData({ ...formData, levelStart: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select Level</option>
+                      {levels.map((l) => (
+                        <option key={l.label} value={l.label}>{l.label} ({l.elevation}m)</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Level End</label>
+                    <select
+                      value={formData.levelEnd}
+                      onChange={(e) => setFormData({ ...formData, levelEnd: e.target.value })}
+                      className={inputClass}
+                      required
+                    >
+                      <option value="">Select Level</option>
+                      {levels.map((l) => (
+                        <option key={l.label} value={l.label}>{l.label} ({l.elevation}m)</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-xs font-medium text-gray-700">Openings (deducted)</label>
+                    <button
+                      type="button"
+                      onClick={() => setOpenings([...openings, { width_m: 0.9, height_m: 2.1, qty: 1 }])}
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      + Add Opening
+                    </button>
+                  </div>
+                  {openings.map((opening, index) => (
+                    <div key={index} className="grid grid-cols-4 gap-2 mb-1">
+                      <input type="number" step="0.01" value={opening.width_m} onChange={(e) => updateOpening(index, 'width_m', e.target.value)} className={inputClass} title="Width (m)" />
+                      <input type="number" step="0.01" value={opening.height_m} onChange={(e) => updateOpening(index, 'height_m', e.target.value)} className={inputClass} title="Height (m)" />
+                      <input type="number" step="1" value={opening.qty} onChange={(e) => updateOpening(index, 'qty', e.target.value)} className={inputClass} title="Quantity" />
+                      <button type="button" onClick={() => setOpenings(openings.filter((_, i) => i !== index))} className="text-xs text-red-600">
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  {openings.length > 0 && <p className="text-xs text-gray-500">Width (m) · Height (m) · Qty</p>}
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">CHB Thickness</label>
+                <select
+                  value={formData.thickness_mm}
+                  onChange={(e) => setFormData({ ...formData, thickness_mm: parseInt(e.target.value) as CHBThickness })}
+                  className={inputClass}
+                >
+                  <option value={100}>100 mm (4&quot;)</option>
+                  <option value={150}>150 mm (6&quot;)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Mortar Class</label>
+                <select
+                  value={formData.mortarClass}
+                  onChange={(e) => setFormData({ ...formData, mortarClass: e.target.value as MortarClass })}
+                  className={inputClass}
+                >
+                  <option value="A">A (1:2)</option>
+                  <option value="B">B (1:3)</option>
+                  <option value="C">C (1:4)</option>
+                  <option value="D">D (1:5)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Block Waste (%)</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={formData.wastePercent}
+                  onChange={(e) => setFormData({ ...formData, wastePercent: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.loadBearing}
+                onChange={(e) => setFormData({ ...formData, loadBearing: e.target.checked })}
+              />
+              Load-bearing
+              <span className="text-xs text-gray-500">
+                → DPWH {getCHBDpwhItem(formData.thickness_mm, formData.loadBearing)}
+              </span>
+            </label>
+
+            <div className="grid grid-cols-4 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Vert. Ø (mm)</label>
+                <input type="number" value={formData.verticalDiameter} onChange={(e) => setFormData({ ...formData, verticalDiameter: e.target.value })} className={inputClass} required />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Vert. @ (m)</label>
+                <input type="number" step="0.01" value={formData.verticalSpacing} onChange={(e) => setFormData({ ...formData, verticalSpacing: e.target.value })} className={inputClass} required />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Horiz. Ø (mm)</label>
+                <input type="number" value={formData.horizontalDiameter} onChange={(e) => setFormData({ ...formData, horizontalDiameter: e.target.value })} className={inputClass} required />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Horiz. @ (m)</label>
+                <input type="number" step="0.01" value={formData.horizontalSpacing} onChange={(e) => setFormData({ ...formData, horizontalSpacing: e.target.value })} className={inputClass} required />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Plaster</label>
+                <select
+                  value={formData.plasterSides}
+                  onChange={(e) => setFormData({ ...formData, plasterSides: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="0">None (use Finishes)</option>
+                  <option value="1">1 side</option>
+                  <option value="2">2 sides</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Plaster Thickness (mm)</label>
+                <input
+                  type="number"
+                  value={formData.plasterThickness}
+                  onChange={(e) => setFormData({ ...formData, plasterThickness: e.target.value })}
+                  className={inputClass}
+                  disabled={formData.plasterSides === '0'}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Plaster here is billed under Item 1027 (1). Do not also assign a plaster finish to the same wall surface.
+            </p>
+
+            <button
+              type="submit"
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm shadow-sm transition-colors"
+            >
+              Add CHB Wall
+            </button>
+          </form>
+        </div>
+
+        {/* Notes */}
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900 space-y-2">
+          <h3 className="font-semibold">How CHB walls are taken off</h3>
+          <ul className="list-disc pl-5 space-y-1">
+            <li>Net area = length × height − openings, billed per m² under DPWH Item 1046.</li>
+            <li>Blocks: 12.5 pcs/m² (400 × 200 mm) plus waste.</li>
+            <li>Mortar: laying plus cell filling, 0.0435 m³/m² (100 mm) or 0.0844 m³/m² (150 mm).</li>
+            <li>Bars: net area ÷ spacing each way, 40Ø lap per 6 m bar.</li>
+            <li>Blocks, mortar and bars are included in Item 1046 and are listed as materials only.</li>
+          </ul>
+        </div>
+      </div>
+
+      {/* Walls List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 bg-gray-50">
+          <h3 className="font-semibold text-lg">CHB Walls ({masonryWalls.length})</h3>
+        </div>
+
+        {masonryWalls.length === 0 ? (
+          <div className="p-12 text-center text-gray-400">
+            <div className="text-4xl mb-3">🧱</div>
+            <p>No CHB walls defined yet</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Placement</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">CHB</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reinforcement</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plaster</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">DPWH</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {masonryWalls.map((wall) => (
+                <tr key={wall.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{wall.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{describePlacement(wall)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {wall.thickness_mm}mm, Class {wall.mortarClass}{wall.loadBearing ? ', load-bearing' : ''}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    V {wall.reinforcement.verticalDiameter}mm @ {wall.reinforcement.verticalSpacing_m}m,
+                    H {wall.reinforcement.horizontalDiameter}mm @ {wall.reinforcement.horizontalSpacing_m}m
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {wall.plaster?.sides ? `${wall.plaster.sides} side(s), ${wall.plaster.thickness_mm}mm` : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                    {wall.dpwhItemNumberRaw || getCHBDpwhItem(wall.thickness_mm, wall.loadBearing)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => handleDelete(wall.id)}
+                      className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
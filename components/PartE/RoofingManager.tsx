@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { generateTruss, calculateTrussQuantity, calculateTotalTrussQuantities, type TrussType, type TrussParameters, type TrussResult, type PlateThickness } from '@/lib/math/roofing/truss';
+import { generateTruss, TRUSS_TYPES, calculateTrussQuantity, calculateTotalTrussQuantities, calculateTrussRunLength, type TrussParameters, type TrussResult, type PlateThickness } from '@/lib/math/roofing/truss';
 import { calculateRoofFraming, roofingMaterials, purlinSections, DEFAULT_DPWH_MAPPINGS, type FramingParameters, type FramingResult, type BracingConfiguration } from '@/lib/math/roofing/framing';
-import type { DPWHItemMapping } from '@/types';
+import type { DPWHItemMapping, GridLine, TrussDesign, TrussDesignAssignment } from '@/types';
 import TrussVisualization from './TrussVisualization';
 import FramingPlanVisualization from './FramingPlanVisualization';
 
@@ -24,36 +24,48 @@ const steelSections = [
   { section: 'Custom', weight_kg_per_m: 0 },
 ];
 
+const defaultTrussParams: TrussParameters = {
+  type: 'howe',
+  span_mm: 8000,
+  middleRise_mm: 1600,
+  overhang_mm: 450,
+  spacing_mm: 600,
+  verticalWebCount: 3,
+  plateThickness: '1.0mm (20 gauge)',
+  topChordMaterial: { section: 'C100x50x20x2.5', weight_kg_per_m: 4.89 },
+  bottomChordMaterial: { section: 'C100x50x20x2.5', weight_kg_per_m: 4.89 },
+  webMaterial: { section: '2L50x50x6', weight_kg_per_m: 4.5 },
+};
+
+const defaultFramingParams: Partial<FramingParameters> = {
+  roofingMaterial: roofingMaterials[0], // Default to first option (GI Sheet Gauge 26)
+  purlinSpacing_mm: 600,
+  purlinSpec: purlinSections[2], // C100x50x20x2.0
+  bracing: {
+    type: 'X-Brace',
+    interval_mm: 6000,
+    material: { section: '2L50x50x6', weight_kg_per_m: 4.6 },
+  },
+  includeRidgeCap: true,
+  includeEaveGirt: true,
+};
+
 export default function RoofingManager({ projectId }: RoofingManagerProps) {
   const [activeTab, setActiveTab] = useState<RoofingTab>('design');
-  const [trussParams, setTrussParams] = useState<TrussParameters>({
-    type: 'howe',
-    span_mm: 8000,
-    middleRise_mm: 1600,
-    overhang_mm: 450,
-    spacing_mm: 600,
-    verticalWebCount: 3,
-    plateThickness: '1.0mm (20 gauge)',
-    topChordMaterial: { section: 'C100x50x20x2.5', weight_kg_per_m: 4.89 },
-    bottomChordMaterial: { section: 'C100x50x20x2.5', weight_kg_per_m: 4.89 },
-    webMaterial: { section: '2L50x50x6', weight_kg_per_m: 4.5 },
-  });
+  const [trussParams, setTrussParams] = useState<TrussParameters>(defaultTrussParams);
   const [trussResult, setTrussResult] = useState<TrussResult | null>(null);
-  const [buildingLength_mm, setBuildingLength_mm] = useState(10000);
+  const [enteredBuildingLength_mm, setEnteredBuildingLength_mm] = useState(10000);
+
+  // Named truss designs; the selected one is edited below (null = not saved yet)
+  const [designs, setDesigns] = useState<TrussDesign[]>([]);
+  const [selectedDesignId, setSelectedDesignId] = useState<string | null>(null);
+  const [designName, setDesignName] = useState('Main Roof');
+  const [assignment, setAssignment] = useState<TrussDesignAssignment>({});
+  const [gridX, setGridX] = useState<GridLine[]>([]);
+  const [gridY, setGridY] = useState<GridLine[]>([]);
   
   // Framing parameters
-  const [framingParams, setFramingParams] = useState<Partial<FramingParameters>>({
-    roofingMaterial: roofingMaterials[0], // Default to first option (GI Sheet Gauge 26)
-    purlinSpacing_mm: 600,
-    purlinSpec: purlinSections[2], // C100x50x20x2.0
-    bracing: {
-      type: 'X-Brace',
-      interval_mm: 6000,
-      material: { section: '2L50x50x6', weight_kg_per_m: 4.6 },
-    },
-    includeRidgeCap: true,
-    includeEaveGirt: true,
-  });
+  const [framingParams, setFramingParams] = useState<Partial<FramingParameters>>(defaultFramingParams);
   const [framingResult, setFramingResult] = useState<FramingResult | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,34 +74,58 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
   const [dpwhMappings, setDpwhMappings] = useState(DEFAULT_DPWH_MAPPINGS);
   const [catalogItems, setCatalogItems] = useState<Array<{ itemNumber: string; description: string; unit: string }>>([]);
 
-  // Load saved truss design on mount
+  // Building length of the selected design: its grid range when assigned, otherwise as entered
+  const gridRange = assignment.gridAxis && assignment.gridFrom && assignment.gridTo
+    ? { axis: assignment.gridAxis, from: assignment.gridFrom, to: assignment.gridTo }
+    : undefined;
+  let buildingLength_mm = enteredBuildingLength_mm;
+  let gridRangeError: string | null = null;
+  try {
+    buildingLength_mm = calculateTrussRunLength(enteredBuildingLength_mm, gridRange, gridX, gridY);
+  } catch (error) {
+    gridRangeError = error instanceof Error ? error.message : String(error);
+  }
+
+  // Show a design in the editor (null starts a new one)
+  const selectDesign = (design: TrussDesign | null, newName = 'Main Roof') => {
+    setSelectedDesignId(design?.id ?? null);
+    setDesignName(design?.name ?? newName);
+    setAssignment(design?.assignment ?? {});
+    setTrussParams(design ? (design.trussParams as TrussParameters) : defaultTrussParams);
+    setEnteredBuildingLength_mm(design?.buildingLength_mm || 10000);
+    setFramingParams(design?.framingParams ? (design.framingParams as Partial<FramingParameters>) : defaultFramingParams);
+    setDpwhMappings(design?.dpwhItemMappings ? { ...DEFAULT_DPWH_MAPPINGS, ...design.dpwhItemMappings } : DEFAULT_DPWH_MAPPINGS);
+  };
+
+  // Load saved truss designs and the grid on mount
   useEffect(() => {
-    const loadTrussDesign = async () => {
+    const loadTrussDesigns = async () => {
       try {
-        const response = await fetch(`/api/projects/${projectId}/roof-design`);
-        if (response.ok) {
-          const data = await response.json();
-          console.log('Loaded roof design:', data);
-          if (data && data.trussParams) {
-            setTrussParams(data.trussParams);
-            setBuildingLength_mm(data.buildingLength_mm || 10000);
-            if (data.framingParams) {
-              setFramingParams(data.framingParams);
-              console.log('Loaded framingParams:', data.framingParams);
-            }
-            if (data.dpwhItemMappings) {
-              setDpwhMappings({ ...DEFAULT_DPWH_MAPPINGS, ...data.dpwhItemMappings });
-            }
+        const [designResponse, gridResponse] = await Promise.all([
+          fetch(`/api/projects/${projectId}/roof-design`),
+          fetch(`/api/projects/${projectId}/grid`),
+        ]);
+        if (designResponse.ok) {
+          const data = await designResponse.json();
+          const loaded: TrussDesign[] = data.trussDesigns || [];
+          setDesigns(loaded);
+          if (loaded.length > 0) {
+            selectDesign(loaded[0]);
           }
         }
+        if (gridResponse.ok) {
+          const gridData = await gridResponse.json();
+          setGridX(gridData.data?.gridX || []);
+          setGridY(gridData.data?.gridY || []);
+        }
       } catch (error) {
-        console.error('Error loading truss design:', error);
+        console.error('Error loading truss designs:', error);
       } finally {
         setIsLoading(false);
       }
     };
 
-    loadTrussDesign();
+    loadTrussDesigns();
   }, [projectId]);
 
   // Load DPWH catalog items for dropdowns
@@ -136,6 +172,8 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
       const trussQty = calculateTrussQuantity(buildingLength_mm, trussParams.spacing_mm);
       const fullFramingParams: FramingParameters = {
         trussSpan_mm: trussParams.span_mm,
+        trussRise_mm: trussResult.geometry.rise_mm,
+        overhang_mm: trussResult.geometry.overhang_mm,
         trussSpacing_mm: trussParams.spacing_mm,
         buildingLength_mm,
         trussQuantity: trussQty,
@@ -160,23 +198,35 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
     setIsSaving(true);
     try {
       const payload = {
+        name: designName,
+        assignment: gridRange || assignment.zone ? assignment : undefined,
         trussParams,
-        buildingLength_mm,
+        buildingLength_mm: enteredBuildingLength_mm,
         framingParams,
         dpwhItemMappings: dpwhMappings
       };
-      console.log('Saving roof design:', payload);
       
-      const response = await fetch(`/api/projects/${projectId}/roof-design`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
+      const response = await fetch(
+        selectedDesignId
+          ? `/api/projects/${projectId}/roof-design/${selectedDesignId}`
+          : `/api/projects/${projectId}/roof-design`,
+        {
+          method: selectedDesignId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload)
+        }
+      );
       
       if (response.ok) {
+        const saved: TrussDesign = await response.json();
+        setDesigns(selectedDesignId
+          ? designs.map(d => (d.id === selectedDesignId ? saved : d))
+          : [...designs, saved]);
+        setSelectedDesignId(saved.id);
         alert('Truss design saved successfully!');
       } else {
-        alert('Failed to save truss design');
+        const data = await response.json();
+        alert(`Failed to save truss design${data.details ? `: ${data.details.join(', ')}` : ''}`);
       }
     } catch (error) {
       console.error('Error saving truss design:', error);
@@ -186,6 +236,30 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
     }
   };
 
+  const handleDelete = async () => {
+    if (!selectedDesignId) {
+      selectDesign(designs[0] ?? null);
+      return;
+    }
+    if (!confirm(`Delete truss design "${designName}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/roof-design/${selectedDesignId}`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        const remaining = designs.filter(d => d.id !== selectedDesignId);
+        setDesigns(remaining);
+        selectDesign(remaining[0] ?? null);
+      } else {
+        alert('Failed to delete truss design');
+      }
+    } catch (error) {
+      console.error('Error deleting truss design:', error);
+      alert('Error deleting truss design');
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg p-3">
@@ -221,6 +295,108 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
         </div>
       </div>
 
+      <div className="bg-white border border-gray-200 rounded-lg p-3">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end text-xs">
+          <div className="md:col-span-2">
+            <label className="block font-medium text-gray-700 mb-1">Truss Design</label>
+            <div className="flex gap-2">
+              <select
+                value={selectedDesignId ?? ''}
+                onChange={(e) => selectDesign(designs.find(d => d.id === e.target.value) ?? null)}
+                className="flex-1 px-2 py-1.5 border border-gray-300 rounded"
+              >
+                {designs.map(d => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+                {!selectedDesignId && <option value="">{designName} (unsaved)</option>}
+              </select>
+              <button
+                onClick={() => selectDesign(null, `Design ${designs.length + 1}`)}
+                className="px-2 py-1.5 border border-blue-300 text-blue-700 rounded hover:bg-blue-50"
+              >
+                New
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={designs.length === 0 && !selectedDesignId}
+                className="px-2 py-1.5 border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={designName}
+              onChange={(e) => setDesignName(e.target.value)}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">Roof Zone</label>
+            <input
+              type="text"
+              value={assignment.zone || ''}
+              onChange={(e) => setAssignment({ ...assignment, zone: e.target.value || undefined })}
+              placeholder="e.g., main"
+              className="w-full px-2 py-1.5 border border-gray-300 rounded"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className="block font-medium text-gray-700 mb-1">Grid Range (sets building length)</label>
+            <div className="flex gap-2">
+              <select
+                value={assignment.gridAxis || ''}
+                onChange={(e) => setAssignment({
+                  ...assignment,
+                  gridAxis: (e.target.value || undefined) as TrussDesignAssignment['gridAxis'],
+                  gridFrom: undefined,
+                  gridTo: undefined,
+                })}
+                className="px-2 py-1.5 border border-gray-300 rounded"
+              >
+                <option value="">None</option>
+                <option value="x">X</option>
+                <option value="y">Y</option>
+              </select>
+              {assignment.gridAxis && (
+                <>
+                  <select
+                    value={assignment.gridFrom || ''}
+                    onChange={(e) => setAssignment({ ...assignment, gridFrom: e.target.value || undefined })}
+                    className="flex-1 px-2 py-1.5 border border-gray-300 rounded"
+                  >
+                    <option value="">From</option>
+                    {(assignment.gridAxis === 'x' ? gridX : gridY).map(line => (
+                      <option key={line.label} value={line.label}>{line.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={assignment.gridTo || ''}
+                    onChange={(e) => setAssignment({ ...assignment, gridTo: e.target.value || undefined })}
+                    className="flex-1 px-2 py-1.5 border border-gray-300 rounded"
+                  >
+                    <option value="">To</option>
+                    {(assignment.gridAxis === 'x' ? gridX : gridY).map(line => (
+                      <option key={line.label} value={line.label}>{line.label}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+        {gridRangeError ? (
+          <p className="text-xs text-red-600 mt-2">{gridRangeError}</p>
+        ) : gridRange && (
+          <p className="text-xs text-gray-500 mt-2">
+            Building length from grid {gridRange.axis.toUpperCase()} {gridRange.from}–{gridRange.to}: {(buildingLength_mm / 1000).toFixed(2)} m
+          </p>
+        )}
+      </div>
+
       <div className="border-b border-gray-200">
         <nav className="flex gap-4">
           <button
@@ -255,7 +431,7 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Truss Type</label>
                 <div className="grid grid-cols-3 gap-3">
-                  {(['howe', 'fink', 'kingpost'] as TrussType[]).map((type) => (
+                  {TRUSS_TYPES.map((type) => (
                     <button
                       key={type}
                       onClick={() => setTrussParams({ ...trussParams, type })}
@@ -286,17 +462,17 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Vertical Web Count
-                  <span className="text-xs text-gray-500 ml-2">(Howe only, excludes center)</span>
+                  <span className="text-xs text-gray-500 ml-2">(Howe; sets the panels of Pratt and Warren)</span>
                 </label>
                 <input
                   type="number"
                   step="1"
                   min="1"
-                  max="10"
+                  max="20"
                   value={trussParams.verticalWebCount || 3}
                   onChange={(e) => setTrussParams({ ...trussParams, verticalWebCount: parseInt(e.target.value) || 3 })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg"
-                  disabled={trussParams.type !== 'howe'}
+                  disabled={!['howe', 'pratt', 'warren'].includes(trussParams.type)}
                 />
                 <p className="text-xs text-gray-500 mt-1">Number of vertical web members (not including center web)</p>
               </div>
@@ -528,9 +704,10 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
                   <input
                     type="number"
                     step="100"
-                    value={buildingLength_mm}
-                    onChange={(e) => setBuildingLength_mm(parseInt(e.target.value) || 10000)}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                    value={gridRange ? buildingLength_mm : enteredBuildingLength_mm}
+                    onChange={(e) => setEnteredBuildingLength_mm(parseInt(e.target.value) || 10000)}
+                    disabled={!!gridRange}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
                   />
                 </div>
                 <div>
@@ -721,6 +898,8 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
                 <FramingPlanVisualization 
                   framingParams={{
                     trussSpan_mm: trussParams.span_mm,
+                    trussRise_mm: trussResult.geometry.rise_mm,
+                    overhang_mm: trussResult.geometry.overhang_mm,
                     buildingLength_mm,
                     trussSpacing_mm: trussParams.spacing_mm,
                     trussQuantity: calculateTrussQuantity(buildingLength_mm, trussParams.spacing_mm),
@@ -769,6 +948,16 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
                         <span className="text-gray-700">Length per line:</span>
                         <span className="font-semibold">{(buildingLength_mm / 1000).toFixed(2)} m</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Rafter (slope):</span>
+                        <span className="font-semibold">{(framingResult.purlins.slopeLength_mm / 1000).toFixed(2)} m</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Pieces per line:</span>
+                        <span className="font-semibold">
+                          {framingResult.purlins.lines[0]?.quantity} × {((framingResult.purlins.lines[0]?.pieceLength_mm || 0) / 1000).toFixed(2)} m
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-gray-700">Total length:</span>
                         <span className="font-semibold">{framingResult.purlins.totalLength_m.toFixed(2)} m</span>
@@ -850,10 +1039,16 @@ export default function RoofingManager({ projectId }: RoofingManagerProps) {
                         <span className="text-gray-700">Sheets:</span>
                         <span className="font-semibold">{framingResult.roofing.sheets} pcs</span>
                       </div>
-                      <div className="flex justify-between col-span-2">
+                      <div className="flex justify-between">
                         <span className="text-gray-700">Screws:</span>
                         <span className="font-semibold">{framingResult.roofing.screws} pcs</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">Cut Lengths:</span>
+                        <span className="font-semibold">
+                          {framingResult.roofing.schedule.map(entry => `${entry.count} × ${entry.length_m.toFixed(2)} m`).join(', ')}
+                        </span>
+                      </div>
                     </div>
                   </div>
 
@@ -229,6 +229,55 @@ function TrussDiagram({ trussResult }: { trussResult: TrussResult }) {
           <title>Integrated in top chord</title>
         </line>
       );
+    } else if (trussResult.type === 'queenpost' || trussResult.type === 'pratt' || trussResult.type === 'warren') {
+      // Panelled trusses: web nodes at equal panels along the bottom chord
+      const halfSpan = geometry.span_mm / 2;
+      const topHeight = (x: number) => geometry.rise_mm * (1 - Math.abs(x - halfSpan) / halfSpan);
+      const webCount = (subtype: 'vertical' | 'diagonal') => members
+        .filter(m => m.subtype === subtype && m.name !== 'End Vertical Web')
+        .reduce((sum, m) => sum + m.quantity, 0);
+      const webLine = (key: string, x1: number, y1: number, x2: number, y2: number, vertical: boolean, title: string) => {
+        const from = toSVG(x1, y1);
+        const to = toSVG(x2, y2);
+        paths.push(
+          <line key={key} x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+            stroke={vertical ? '#16a34a' : '#ea580c'} strokeWidth="2.5" strokeLinecap="round" opacity={vertical ? 1 : 0.8}>
+            <title>{title}</title>
+          </line>
+        );
+      };
+
+      if (trussResult.type === 'queenpost') {
+        // Queen posts at the third points, struts from their feet to the apex
+        [geometry.span_mm / 3, (2 * geometry.span_mm) / 3].forEach((x, i) => {
+          webLine(`queen-post-${i}`, x, 0, x, topHeight(x), true, 'Queen Post');
+          webLine(`strut-${i}`, x, 0, halfSpan, geometry.rise_mm, false, 'Strut');
+        });
+      } else if (trussResult.type === 'pratt') {
+        // Pratt: verticals at every node, diagonals sloping down towards mid-span
+        const panels = webCount('vertical') + 1;
+        const panelWidth = geometry.span_mm / panels;
+        for (let i = 1; i < panels; i++) {
+          const x = panelWidth * i;
+          webLine(`vert-${i}`, x, 0, x, topHeight(x), true, 'Vertical Web');
+          if (i < panels / 2) {
+            webLine(`diag-${i}`, x, topHeight(x), x + panelWidth, 0, false, 'Diagonal Web');
+          } else if (i > panels / 2) {
+            webLine(`diag-${i}`, x, topHeight(x), x - panelWidth, 0, false, 'Diagonal Web');
+          }
+        }
+      } else {
+        // Warren: diagonals zig-zag between the chords, odd nodes on the top chord
+        const panels = webCount('diagonal') + 2;
+        const panelWidth = geometry.span_mm / panels;
+        const nodeHeight = (j: number) => (j % 2 === 1 ? topHeight(j * panelWidth) : 0);
+        for (let j = 1; j < panels - 1; j++) {
+          webLine(`diag-${j}`, j * panelWidth, nodeHeight(j), (j + 1) * panelWidth, nodeHeight(j + 1), false, 'Diagonal Web');
+        }
+        if (webCount('vertical') > 0) {
+          webLine('centre-post', halfSpan, 0, halfSpan, geometry.rise_mm, true, 'Centre Post');
+        }
+      }
     }
     
     // Draw connector plate locations
@@ -0,0 +1,365 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { PriceBookEntry } from '@/types';
+
+interface PriceBookEditorProps {
+  projectId: string;
+}
+
+interface CatalogItem {
+  itemNumber: string;
+  description: string;
+  unit: string;
+  category: string;
+  trade: string;
+}
+
+export default function PriceBookEditor({ projectId }: PriceBookEditorProps) {
+  const [entries, setEntries] = useState<PriceBookEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  const [search, setSearch] = useState('');
+
+  // Form state
+  const [formData, setFormData] = useState({
+    dpwhItemNumberRaw: '',
+    unitCost: '',
+    currency: 'PHP',
+    source: '',
+    effectiveDate: new Date().toISOString().slice(0, 10),
+    notes: '',
+  });
+
+  const loadEntries = async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/price-book`);
+      if (res.ok) {
+        const data = await res.json();
+        setEntries(data.priceBook || []);
+      }
+    } catch (error) {
+      console.error('Error loading price book:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCatalogItems = async () => {
+    try {
+      const res = await fetch('/api/catalog?limit=5000');
+      if (res.ok) {
+        const response = await res.json();
+        const allResults: CatalogItem[] = response.data || response || [];
+        allResults.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
+        setCatalogItems(allResults);
+      }
+    } catch (error) {
+      console.error('Error loading catalog:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+    loadCatalogItems();
+  }, [projectId]);
+
+  const getCatalogItem = (itemNumber: string) =>
+    catalogItems.find(item => item.itemNumber === itemNumber);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.dpwhItemNumberRaw || !formData.unitCost || !formData.source) {
+      alert('Please select a DPWH item and enter unit cost and source');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/price-book`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dpwhItemNumberRaw: formData.dpwhItemNumberRaw,
+          unitCost: parseFloat(formData.unitCost),
+          currency: formData.currency || 'PHP',
+          source: formData.source,
+          effectiveDate: formData.effectiveDate,
+          notes: formData.notes || undefined,
+        }),
+      });
+
+      if (res.ok) {
+        await loadEntries();
+        resetForm();
+        setShowAddForm(false);
+      } else {
+        const error = await res.json();
+        alert(error.error || 'Failed to add price');
+      }
+    } catch (error) {
+      console.error('Error adding price:', error);
+      alert('Failed to add price');
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!confirm('Delete this price book entry?')) return;
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/price-book?entryId=${entryId}`, {
+        method: 'DELETE',
+      });
+
+      if (res.ok) {
+        await loadEntries();
+      } else {
+        alert('Failed to delete price');
+      }
+    } catch (error) {
+      console.error('Error deleting price:', error);
+      alert('Failed to delete price');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      dpwhItemNumberRaw: '',
+      unitCost: '',
+      currency: 'PHP',
+      source: '',
+      effectiveDate: new Date().toISOString().slice(0, 10),
+      notes: '',
+    });
+    setSearch('');
+  };
+
+  const filteredCatalog = search
+    ? catalogItems.filter(item =>
+        item.itemNumber.toLowerCase().includes(search.toLowerCase()) ||
+        item.description.toLowerCase().includes(search.toLowerCase())
+      ).slice(0, 200)
+    : catalogItems.slice(0, 200);
+
+  const sortedEntries = [...entries].sort((a, b) =>
+    a.dpwhItemNumberRaw.localeCompare(b.dpwhItemNumberRaw) ||
+    new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime()
+  );
+
+  const selectedCatalogItem = getCatalogItem(formData.dpwhItemNumberRaw);
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Price Book</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Unit costs per DPWH pay item. The latest effective price is applied when the BOQ is generated.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowAddForm(!showAddForm)}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          {showAddForm ? 'Cancel' : '+ Add Price'}
+        </button>
+      </div>
+
+      {/* Add Form */}
+      {showAddForm && (
+        <div className="bg-white rounded-lg shadow-sm p-6 border-2 border-blue-200">
+          <h3 className="text-lg font-semibold mb-4">Add Unit Cost</h3>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search DPWH Item
+              </label>
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="e.g., 900 (1) or Structural Concrete"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                DPWH Item *
+              </label>
+              <select
+                value={formData.dpwhItemNumberRaw}
+                onChange={(e) => setFormData({ ...formData, dpwhItemNumberRaw: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded bg-white"
+                required
+              >
+                <option value="">-- Select an item --</option>
+                {filteredCatalog.map((item) => (
+                  <option key={item.itemNumber} value={item.itemNumber}>
+                    {item.itemNumber} - {item.description} ({item.unit})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit Cost *
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.unitCost}
+                  onChange={(e) => setFormData({ ...formData, unitCost: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+                {selectedCatalogItem && (
+                  <div className="text-xs text-gray-500 mt-1">Per {selectedCatalogItem.unit}</div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Currency
+                </label>
+                <input
+                  type="text"
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Effective Date *
+                </label>
+                <input
+                  type="date"
+                  value={formData.effectiveDate}
+                  onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Source *
+              </label>
+              <input
+                type="text"
+                value={formData.source}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                placeholder="e.g., DPWH regional price data, supplier quotation"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowAddForm(false);
+                  resetForm();
+                }}
+                className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!formData.dpwhItemNumberRaw || !formData.unitCost || !formData.source}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Add Price
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Entries Table */}
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-4xl mb-2">💰</div>
+            <p>No unit costs defined yet</p>
+            <p className="text-sm mt-1">BOQ lines will be generated without amounts</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Effective</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedEntries.map((entry) => {
+                const catalogItem = getCatalogItem(entry.dpwhItemNumberRaw);
+                return (
+                  <tr key={entry.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {entry.dpwhItemNumberRaw}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {catalogItem?.description || '-'}
+                      {entry.notes && (
+                        <div className="text-xs text-gray-500 mt-1">{entry.notes}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 font-semibold text-right">
+                      {entry.currency} {entry.unitCost.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      {catalogItem && (
+                        <div className="text-xs text-gray-500 font-normal">per {catalogItem.unit}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{entry.source}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {new Date(entry.effectiveDate).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import type { RebarStockSettings } from '@/types';
+import { COMMERCIAL_STOCK_LENGTHS } from '@/lib/math/rebarOptimizer';
+
+interface RebarStockSettingsEditorProps {
+  settings: RebarStockSettings;
+  wasteRebar: number; // flat waste used when optimization is off
+  onSave: (settings: RebarStockSettings) => Promise<void>;
+}
+
+export default function RebarStockSettingsEditor({ settings: initialSettings, wasteRebar, onSave }: RebarStockSettingsEditorProps) {
+  const [settings, setSettings] = useState<RebarStockSettings>(initialSettings);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleStockLength = (length: number) => {
+    const stockLengths = settings.stockLengths.includes(length)
+      ? settings.stockLengths.filter(l => l !== length)
+      : [...settings.stockLengths, length].sort((a, b) => a - b);
+    setSettings({ ...settings, stockLengths });
+  };
+
+  const handleSave = async () => {
+    if (settings.stockLengths.length === 0) {
+      setError('Select at least one stock length');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rebar settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h4 className="font-semibold text-gray-700">Rebar Cutting Stock</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            When enabled, rebar waste comes from packing cut lengths into commercial bars
+            instead of the flat {(wasteRebar * 100).toFixed(0)}% allowance. Regenerate the takeoff after saving.
+          </p>
+        </div>
+        <div className="flex items-center gap-4 flex-wrap">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            />
+            Use optimized waste
+          </label>
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span className="text-xs text-gray-500">Stock (m):</span>
+            {COMMERCIAL_STOCK_LENGTHS.map(length => (
+              <label key={length} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={settings.stockLengths.includes(length)}
+                  onChange={() => toggleStockLength(length)}
+                />
+                {length}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
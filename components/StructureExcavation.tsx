@@ -1,227 +1,99 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import type { ScheduleItem } from '@/types';
+import type { CalcRun, ExcavationSettings, TakeoffLine } from '@/types';
+import ExcavationPits from '@/components/ExcavationPits';
 
 interface StructureExcavationProps {
   projectId: string;
+  settings: ExcavationSettings;
+  onSave: (settings: ExcavationSettings) => Promise<void>;
 }
 
-interface ExcavationItem {
-  id: string;
-  description: string;
-  length_m: number;
-  width_m: number;
-  depth_m: number;
-  count: number;
-  volume_m3: number;
-  location: string;
-  dpwhItemNumber: string;
-  dpwhUnit: string;
-}
-
-interface CatalogItem {
-  itemNumber: string;
-  description: string;
-  unit: string;
-  category: string;
-  trade: string;
-}
-
-export default function StructureExcavation({ projectId }: StructureExcavationProps) {
-  const [items, setItems] = useState<ExcavationItem[]>([]);
-  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
-  const [showAddForm, setShowAddForm] = useState(false);
-  
-  // Form state
-  const [formData, setFormData] = useState({
-    dpwhItemNumber: '',
-    dpwhUnit: '',
-    description: '',
-    length: '',
-    width: '',
-    depth: '',
-    count: '1',
-    location: '',
+// Earthwork takeoff lines derived from footing and mat instances and from other pits
+const EXCAVATION_RESOURCE_KEYS = ['structure-excavation', 'gravel-bedding', 'structure-backfill'];
+
+const RESOURCE_LABELS: Record<string, string> = {
+  'structure-excavation': 'Excavation',
+  'gravel-bedding': 'Gravel Bedding',
+  'structure-backfill': 'Backfill',
+};
+
+const getDpwhItem = (line: TakeoffLine): string =>
+  line.tags.find(tag => tag.startsWith('dpwh:'))?.replace('dpwh:', '') || '-';
+
+export default function StructureExcavation({ projectId, settings: initialSettings, onSave }: StructureExcavationProps) {
+  const [lines, setLines] = useState<TakeoffLine[]>([]);
+  const [lastCalculated, setLastCalculated] = useState<Date | null>(null);
+  const [form, setForm] = useState({
+    groundElevation: String(initialSettings.groundElevation),
+    workingSpace: String(initialSettings.workingSpace),
+    sideSlope: String(initialSettings.sideSlope),
+    beddingThickness: String(initialSettings.beddingThickness),
   });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    loadCatalogItems();
+    loadLines();
   }, [projectId]);
 
-  useEffect(() => {
-    if (catalogItems.length > 0) {
-      loadItems();
-    }
-  }, [projectId, catalogItems]);
-
-  const loadItems = async () => {
+  const loadLines = async () => {
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items?category=earthworks-structure-excavation`);
+      const res = await fetch(`/api/projects/${projectId}/calcruns/latest`);
       if (res.ok) {
-        const data = await res.json();
-        const scheduleItems = data.scheduleItems || [];
-        
-        // Parse items from stored schedule items
-        const excavationItems = scheduleItems.map((item: ScheduleItem) => {
-          const lengthTag = item.tags?.find((t: string) => t.startsWith('length:'));
-          const widthTag = item.tags?.find((t: string) => t.startsWith('width:'));
-          const depthTag = item.tags?.find((t: string) => t.startsWith('depth:'));
-          const countTag = item.tags?.find((t: string) => t.startsWith('count:'));
-          const locationTag = item.tags?.find((t: string) => t.startsWith('location:'));
-          
-          return {
-            id: item.id,
-            description: item.descriptionOverride || item.dpwhItemNumberRaw,
-            length_m: parseFloat(lengthTag?.replace('length:', '') || '0'),
-            width_m: parseFloat(widthTag?.replace('width:', '') || '0'),
-            depth_m: parseFloat(depthTag?.replace('depth:', '') || '0'),
-            count: parseInt(countTag?.replace('count:', '') || '1'),
-            volume_m3: item.qty,
-            location: locationTag?.replace('location:', '') || '',
-            dpwhItemNumber: item.dpwhItemNumberRaw,
-            dpwhUnit: item.unit,
-          };
-        });
-        
-        setItems(excavationItems);
+        const data: { calcRun: CalcRun } = await res.json();
+        const takeoffLines = data.calcRun?.takeoffLines || [];
+        setLines(takeoffLines.filter(line => line.trade === 'Earthwork' && EXCAVATION_RESOURCE_KEYS.includes(line.resourceKey)));
+        setLastCalculated(data.calcRun?.timestamp || null);
       }
-    } catch (error) {
-      console.error('Error loading items:', error);
+    } catch (err) {
+      console.error('Error loading takeoff lines:', err);
     }
   };
 
-  const loadCatalogItems = async () => {
-    try {
-      const res = await fetch('/api/catalog?limit=5000');
-      if (res.ok) {
-        const response = await res.json();
-        const allResults: CatalogItem[] = response.data || response || [];
-        
-        // Filter to structure excavation items (Part C - 800 series)
-        const structureExcavationItems = allResults.filter(item =>
-          (item.trade === 'Earthwork' || item.itemNumber.startsWith('8')) &&
-          (item.description?.toLowerCase().includes('structure excavation') ||
-           item.description?.toLowerCase().includes('foundation'))
-        );
-        
-        structureExcavationItems.sort((a, b) => a.itemNumber.localeCompare(b.itemNumber));
-        setCatalogItems(structureExcavationItems);
-      }
-    } catch (error) {
-      console.error('Error loading catalog:', error);
-    }
-  };
+  const handleSave = async () => {
+    const next: ExcavationSettings = {
+      groundElevation: parseFloat(form.groundElevation),
+      workingSpace: parseFloat(form.workingSpace),
+      sideSlope: parseFloat(form.sideSlope),
+      beddingThickness: parseFloat(form.beddingThickness),
+    };
 
-  const handleCatalogItemSelect = (itemNumber: string) => {
-    const item = catalogItems.find(i => i.itemNumber === itemNumber);
-    if (item) {
-      setFormData({
-        ...formData,
-        dpwhItemNumber: item.itemNumber,
-        dpwhUnit: item.unit,
-        description: item.description,
-      });
+    if (Object.values(next).some(value => isNaN(value))) {
+      setError('All excavation settings must be numbers');
+      return;
     }
-  };
-
-  const calculateVolume = () => {
-    const length = parseFloat(formData.length) || 0;
-    const width = parseFloat(formData.width) || 0;
-    const depth = parseFloat(formData.depth) || 0;
-    const count = parseInt(formData.count) || 1;
-    return length * width * depth * count;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!formData.dpwhItemNumber || !formData.length || !formData.width || !formData.depth) {
-      alert('Please fill in DPWH item, length, width, and depth');
+    if (next.workingSpace < 0 || next.sideSlope < 0 || next.beddingThickness < 0) {
+      setError('Working space, side slope and bedding cannot be negative');
       return;
     }
 
-    const volume = calculateVolume();
-
     try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          category: 'earthworks-structure-excavation',
-          dpwhItemNumberRaw: formData.dpwhItemNumber,
-          descriptionOverride: formData.description,
-          unit: formData.dpwhUnit,
-          qty: volume,
-          basisNote: `${formData.count} × (L=${formData.length}m × W=${formData.width}m × D=${formData.depth}m)${formData.location ? ` at ${formData.location}` : ''}`,
-          tags: [
-            `length:${formData.length}`,
-            `width:${formData.width}`,
-            `depth:${formData.depth}`,
-            `count:${formData.count}`,
-            formData.location ? `location:${formData.location}` : '',
-          ].filter(Boolean),
-        }),
-      });
-
-      if (res.ok) {
-        await loadItems();
-        resetForm();
-        setShowAddForm(false);
-      } else {
-        let errorMessage = 'Unknown error';
-        try {
-          const error = await res.json();
-          console.error('API Error:', error);
-          errorMessage = error.error || JSON.stringify(error);
-        } catch (parseError) {
-          const textError = await res.text();
-          console.error('Response text:', textError);
-          errorMessage = textError || `HTTP ${res.status}`;
-        }
-        alert(`Failed to add item: ${errorMessage}`);
-      }
-    } catch (error) {
-      console.error('Error adding item:', error);
-      alert('Failed to add item: ' + (error instanceof Error ? error.message : 'Network error'));
+      setSaving(true);
+      setError(null);
+      await onSave(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save excavation settings');
+    } finally {
+      setSaving(false);
     }
   };
 
-  const handleDelete = async (itemId: string) => {
-    if (!confirm('Delete this excavation item?')) return;
-
-    try {
-      const res = await fetch(`/api/projects/${projectId}/schedule-items/${itemId}`, {
-        method: 'DELETE',
-      });
-
-      if (res.ok) {
-        await loadItems();
-      } else {
-        alert('Failed to delete item');
-      }
-    } catch (error) {
-      console.error('Error deleting item:', error);
-      alert('Failed to delete item');
-    }
-  };
-
-  const resetForm = () => {
-    setFormData({
-      dpwhItemNumber: '',
-      dpwhUnit: '',
-      description: '',
-      length: '',
-      width: '',
-      depth: '',
-      count: '1',
-      location: '',
-    });
-  };
-
-  const getTotalVolume = () => {
-    return items.reduce((sum, item) => sum + item.volume_m3, 0);
-  };
+  // Totals per DPWH item
+  const totals = lines.reduce((acc, line) => {
+    const item = getDpwhItem(line);
+    acc[item] = acc[item] || { label: RESOURCE_LABELS[line.resourceKey] || line.resourceKey, quantity: 0 };
+    acc[item].quantity += line.quantity;
+    return acc;
+  }, {} as Record<string, { label: string; quantity: number }>);
+
+  const settingsFields: { key: keyof typeof form; label: string; step: string }[] = [
+    { key: 'groundElevation', label: 'Natural Ground Elevation (m)', step: '0.01' },
+    { key: 'workingSpace', label: 'Working Space Each Side (m)', step: '0.05' },
+    { key: 'sideSlope', label: 'Side Slope (H per 1V)', step: '0.1' },
+    { key: 'beddingThickness', label: 'Gravel Bedding (m)', step: '0.01' },
+  ];
 
   return (
     <div className="space-y-6">
@@ -229,222 +101,112 @@ export default function StructureExcavation({ projectId }: StructureExcavationPr
       <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
         <h2 className="text-2xl font-bold text-amber-900 mb-2">🏗️ Structure Excavation</h2>
         <p className="text-sm text-amber-700">
-          Excavation for structures, foundations, and utilities with dimensional input
+          Excavation, gravel bedding and backfill derived from footing and mat instances at their levels
         </p>
       </div>
 
-      {/* Add Button */}
-      <div className="flex justify-end">
-        <button
-          onClick={() => setShowAddForm(!showAddForm)}
-          className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
-        >
-          {showAddForm ? 'Cancel' : '+ Add Structure Excavation'}
-        </button>
-      </div>
-
-      {/* Add Form */}
-      {showAddForm && (
-        <div className="bg-white rounded-lg shadow-sm p-6 border-2 border-amber-200">
-          <h4 className="text-lg font-semibold mb-4">Add Structure Excavation</h4>
-          
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {/* DPWH Item Dropdown */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select DPWH Item *
-              </label>
-              <select
-                value={formData.dpwhItemNumber}
-                onChange={(e) => handleCatalogItemSelect(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded bg-white"
-                required
-              >
-                <option value="">-- Select an item --</option>
-                {catalogItems.map((item) => (
-                  <option key={item.itemNumber} value={item.itemNumber}>
-                    {item.itemNumber} - {item.description} ({item.unit})
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            {/* Dimensions */}
-            <div className="grid grid-cols-4 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Length (m) *
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.length}
-                  onChange={(e) => setFormData({ ...formData, length: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Width (m) *
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.width}
-                  onChange={(e) => setFormData({ ...formData, width: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Depth (m) *
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.depth}
-                  onChange={(e) => setFormData({ ...formData, depth: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Count *
-                </label>
-                <input
-                  type="number"
-                  step="1"
-                  min="1"
-                  value={formData.count}
-                  onChange={(e) => setFormData({ ...formData, count: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded"
-                  required
-                />
-              </div>
-            </div>
-
-            {/* Calculated Volume */}
-            {formData.length && formData.width && formData.depth && (
-              <div className="bg-amber-50 border border-amber-200 rounded p-4">
-                <div className="text-sm font-semibold text-amber-900">Calculated Volume:</div>
-                <div className="text-2xl font-bold text-amber-700 mt-1">
-                  {calculateVolume().toFixed(2)} m³
-                </div>
-                <div className="text-xs text-amber-600 mt-1">
-                  {formData.count} × ({formData.length} × {formData.width} × {formData.depth}) = {calculateVolume().toFixed(2)} m³
-                </div>
-              </div>
-            )}
-
-            {/* Location */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Location / Description
-              </label>
+      {/* Settings */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <h4 className="font-semibold text-gray-700">Excavation Settings</h4>
+        <p className="text-xs text-gray-500 mt-1">
+          Pits are dug from natural ground to the underside of the bedding, with the working space on every side.
+          Regenerate the takeoff after saving.
+        </p>
+        <div className="grid grid-cols-4 gap-4 mt-3">
+          {settingsFields.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
               <input
-                type="text"
-                value={formData.location}
-                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                placeholder="e.g., Column A1 footing, Grid 1-2"
+                type="number"
+                step={field.step}
+                value={form[field.key]}
+                onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded"
               />
             </div>
-
-            <div className="flex justify-end gap-2 pt-4 border-t">
-              <button
-                type="button"
-                onClick={() => {
-                  setShowAddForm(false);
-                  resetForm();
-                }}
-                className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700"
-              >
-                Add Item
-              </button>
-            </div>
-          </form>
+          ))}
+        </div>
+        <div className="flex justify-end mt-3">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 text-sm bg-amber-600 text-white rounded hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
         </div>
-      )}
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
 
-      {/* Items Table */}
+      {/* Derived Lines */}
       <div className="bg-white rounded-lg shadow-sm overflow-hidden">
-        {items.length === 0 ? (
+        {lines.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
             <div className="text-4xl mb-2">🏗️</div>
-            <p>No structure excavation items added yet</p>
-            <p className="text-sm mt-1">Click "Add Structure Excavation" to get started</p>
+            <p>No structure excavation in the latest takeoff</p>
+            <p className="text-sm mt-1">Place footings or mats below natural ground or add pits below, then generate the takeoff</p>
           </div>
         ) : (
-          <>
-            <table className="min-w-full divide-y divide-gray-200">
-              <thead className="bg-gray-50">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Length (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Width (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Depth (m)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Count</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-gray-200">
-                {items.map((item) => (
-                  <tr key={item.id} className="hover:bg-gray-50">
-                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.dpwhItemNumber}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.description}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.length_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.width_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700">{item.depth_m.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-900 font-semibold">{item.count}</td>
-                    <td className="px-4 py-3 text-sm font-bold text-amber-700">{item.volume_m3.toFixed(2)}</td>
-                    <td className="px-4 py-3 text-sm text-gray-600">{item.location || '-'}</td>
-                    <td className="px-4 py-3 text-sm">
-                      <button
-                        onClick={() => handleDelete(item.id)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        Delete
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-              <tfoot className="bg-amber-50">
-                <tr>
-                  <td colSpan={6} className="px-4 py-3 text-sm font-bold text-gray-900 text-right">
-                    TOTAL VOLUME:
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Element</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Work</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">DPWH Item</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Formula</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Volume (m³)</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.map((line) => (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                    {line.tags.find(tag => tag.startsWith('template:') || tag.startsWith('pit:'))?.replace(/^(template|pit):/, '') || line.sourceElementId}
+                    <span className="text-xs text-gray-500 ml-2">{line.sourceElementId}</span>
                   </td>
-                  <td className="px-4 py-3 text-lg font-bold text-amber-700">
-                    {getTotalVolume().toFixed(2)} m³
+                  <td className="px-4 py-3 text-sm text-gray-700">{RESOURCE_LABELS[line.resourceKey]}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{getDpwhItem(line)}</td>
+                  <td className="px-4 py-3 text-xs text-gray-600 font-mono">{line.formulaText}</td>
+                  <td className="px-4 py-3 text-sm font-bold text-amber-700">{line.quantity.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-amber-50">
+              {Object.entries(totals).map(([item, total]) => (
+                <tr key={item}>
+                  <td colSpan={4} className="px-4 py-2 text-sm font-bold text-gray-900 text-right">
+                    {total.label} ({item}):
                   </td>
-                  <td colSpan={2}></td>
+                  <td className="px-4 py-2 text-sm font-bold text-amber-700">{total.quantity.toFixed(2)} m³</td>
                 </tr>
-              </tfoot>
-            </table>
-          </>
+              ))}
+            </tfoot>
+          </table>
+        )}
+        {lastCalculated && (
+          <p className="px-4 py-2 text-xs text-gray-500 border-t">
+            From takeoff of {new Date(lastCalculated).toLocaleString()}
+          </p>
         )}
       </div>
 
+      {/* Pits not modelled as footings */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <ExcavationPits projectId={projectId} />
+      </div>
+
       {/* Formula Reference */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="text-sm font-semibold text-blue-900 mb-2">📐 Volume Calculation Formula</h4>
         <div className="text-sm text-blue-800 space-y-1">
-          <p><strong>Rectangular excavation volume:</strong></p>
-          <p className="font-mono bg-white px-3 py-2 rounded">V = Count × (L × W × D)</p>
+          <p><strong>Pit with working space w and side slope s over depth h:</strong></p>
+          <p className="font-mono bg-white px-3 py-2 rounded">V = A·h + P·(w·h + s·h²/2) + 4·(w²·h + w·s·h² + s²·h³/3)</p>
+          <p className="font-mono bg-white px-3 py-2 rounded">Backfill = V − concrete and bedding below natural ground</p>
+          <p><strong>Other pits, bottom L × W with side slope s:</strong></p>
+          <p className="font-mono bg-white px-3 py-2 rounded">V = Count × (L·W·h + (L + W)·s·h² + 4/3·s²·h³)</p>
           <p className="text-xs mt-2">
-            Where: V = Total Volume (m³), Count = Number of identical excavations, L = Length (m), W = Width (m), D = Depth (m)
+            Where: A = element plan area (m²), P = plan perimeter (m), h = natural ground to underside of bedding (m).
+            For rectangular footings this equals the prismoidal formula h/6 × (A₁ + 4Aₘ + A₂).
           </p>
         </div>
       </div>
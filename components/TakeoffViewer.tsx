@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import type { TakeoffLine } from '@/types';
+import type { TakeoffLine, ConcreteMaterialsReport, RebarCuttingPlan } from '@/types';
 import { classifyDPWHItem, sortDPWHParts } from '@/lib/dpwhClassification';
 
 interface TakeoffViewerProps {
@@ -22,11 +22,15 @@ interface CalcRun {
   timestamp: string;
   takeoffLines: TakeoffLine[];
   summary: TakeoffSummary;
+  concreteMaterials?: ConcreteMaterialsReport;
+  rebarCuttingPlan?: RebarCuttingPlan;
 }
 
 export default function TakeoffViewer({ projectId, onTakeoffGenerated }: TakeoffViewerProps) {
   const [takeoffLines, setTakeoffLines] = useState<TakeoffLine[]>([]);
   const [summary, setSummary] = useState<TakeoffSummary | null>(null);
+  const [concreteMaterials, setConcreteMaterials] = useState<ConcreteMaterialsReport | null>(null);
+  const [rebarCuttingPlan, setRebarCuttingPlan] = useState<RebarCuttingPlan | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [errors, setErrors] = useState<string[]>([]);
@@ -48,6 +52,8 @@ export default function TakeoffViewer({ projectId, onTakeoffGenerated }: Takeoff
         const data: CalcRun = await res.json();
         setTakeoffLines(data.takeoffLines || []);
         setSummary(data.summary || null);
+        setConcreteMaterials(data.concreteMaterials || null);
+        setRebarCuttingPlan(data.rebarCuttingPlan || null);
         setLastCalculated(data.timestamp);
         setHasCalcRun(true);
         
@@ -83,6 +89,8 @@ export default function TakeoffViewer({ projectId, onTakeoffGenerated }: Takeoff
       const lines = data.takeoffLines || [];
       setTakeoffLines(lines);
       setSummary(data.summary || null);
+      setConcreteMaterials(data.concreteMaterials || null);
+      setRebarCuttingPlan(data.rebarCuttingPlan || null);
       setLastCalculated(new Date().toISOString());
       setHasCalcRun(true);
       if (data.errors && data.errors.length > 0) {
@@ -490,6 +498,92 @@ export default function TakeoffViewer({ projectId, onTakeoffGenerated }: Takeoff
         </div>
       )}
 
+      {/* Concrete Mix Materials */}
+      {concreteMaterials && concreteMaterials.lines.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h4 className="font-semibold text-gray-700">Concrete Materials</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              Cement (40 kg bags), sand, gravel and water from the concrete class of each line&apos;s DPWH item
+            </p>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Class</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Concrete (m³)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cement (bags)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Sand (m³)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Gravel (m³)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Water (L)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {[...concreteMaterials.totalsByClass, concreteMaterials.grandTotal].map(total => (
+                <tr key={total.concreteClass} className={total.concreteClass === 'ALL' ? 'bg-gray-50 font-semibold' : ''}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {total.concreteClass === 'ALL' ? 'Total' : `Class ${total.concreteClass}`}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{total.concreteVolume.toFixed(3)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{total.cementBags.toLocaleString('en-US')}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{total.sand.toFixed(3)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{total.gravel.toFixed(3)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">
+                    {total.water.toLocaleString('en-US', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Rebar Cutting Plan */}
+      {rebarCuttingPlan && rebarCuttingPlan.diameters.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h4 className="font-semibold text-gray-700">Rebar Cutting Plan</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              Commercial bars to order from {rebarCuttingPlan.stockLengths.join(', ')} m stock; waste is the real offcut length
+            </p>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Diameter</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cuts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bars to Order</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Required (m)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Ordered (m)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Offcut Waste</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Order Weight (kg)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rebarCuttingPlan.diameters.map(plan => (
+                <tr key={plan.diameter}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{plan.diameter}mm</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{plan.cutCount}</td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {plan.stockBars.map(bar => `${bar.count} × ${bar.length}m`).join(', ')}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{plan.requiredLength.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{plan.orderedLength.toFixed(2)}</td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">
+                    {plan.offcutLength.toFixed(2)} m ({(plan.wastePercent * 100).toFixed(1)}%)
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-900">{plan.orderedWeight.toFixed(2)}</td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-6 py-3 text-sm text-gray-900" colSpan={6}>Total</td>
+                <td className="px-6 py-3 text-sm text-right text-gray-900">{rebarCuttingPlan.totalOrderedWeight.toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Takeoff Lines Table */}
       {takeoffLines.length > 0 && (
         <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
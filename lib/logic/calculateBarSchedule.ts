@@ -0,0 +1,506 @@
+/**
+ * BAR BENDING SCHEDULE SERVICE
+ * Orchestrates bar bending schedule generation (DB → Math → Results)
+ *
+ * Architecture: LOGIC LAYER
+ * - Resolves member geometry from grid, levels and templates
+ * - Calls pure bar shape functions for each rebarConfig bar set
+ * - Returns one schedule row per bar mark with totals per diameter
+ */
+
+import type {
+  ProjectModel,
+  ElementTemplate,
+  ElementInstance,
+  GridLine,
+  Level,
+  BarBendingSchedule,
+  BarBendingScheduleEntry,
+} from '@/types';
+import {
+  calculateStraightBar,
+  calculateHookedBar,
+  calculateStirrupBar,
+  calculateScheduleQuantities,
+  summarizeBarSchedule,
+  type BarShapeOutput,
+} from '@/lib/math/barSchedule';
+import { calculateBarCount, calculateLapLength, calculateDevelopmentLength } from '@/lib/math/rebar';
+import { calculateStairGeometry } from '@/lib/math/stairs';
+import { DEFAULT_WALL_LAYERS } from '@/lib/math/concreteWalls';
+import { calculateSlabBarRuns } from '@/lib/math/slabOutline';
+import { calculateBeamSpanFromPoints } from '@/lib/math/beamSpan';
+
+export interface BarScheduleCalculationResult {
+  barSchedule: BarBendingSchedule;
+  errors: string[];
+}
+
+// Concrete cover (mm) used for stirrup/tie and footing bar dimensions
+export const DEFAULT_COVER_MM: Record<ElementTemplate['type'], number> = {
+  beam: 40,
+  column: 40,
+  slab: 20,
+  foundation: 75,
+  pile: 75,
+  stair: 20,
+  wall: 40,
+};
+
+const BAR_MARK_PREFIX: Record<ElementTemplate['type'], string> = {
+  beam: 'B',
+  column: 'C',
+  slab: 'S',
+  foundation: 'F',
+  pile: 'P',
+  stair: 'ST',
+  wall: 'W',
+};
+
+/**
+ * Read a template property (plain object or Mongoose Map)
+ */
+function getProperty(template: ElementTemplate, key: string): number | undefined {
+  const value = template.properties[key];
+  if (typeof value === 'number') return value;
+  return (template.properties as unknown as { get?: (k: string) => number | undefined }).get?.(key);
+}
+
+/**
+ * Build the bar bending schedule for all element instances of a project
+ */
+export async function calculateBarBendingSchedule(
+  project: ProjectModel
+): Promise<BarScheduleCalculationResult> {
+  const entries: BarBendingScheduleEntry[] = [];
+  const errors: string[] = [];
+
+  const instances = project.elementInstances || [];
+  const templates = project.elementTemplates || [];
+  const gridX = project.gridX || [];
+  const gridY = project.gridY || [];
+  const levels = project.levels || [];
+
+  const markCounters: Record<string, number> = {};
+  const nextBarMark = (type: ElementTemplate['type']): string => {
+    const prefix = BAR_MARK_PREFIX[type];
+    markCounters[prefix] = (markCounters[prefix] || 0) + 1;
+    return `${prefix}${String(markCounters[prefix]).padStart(2, '0')}`;
+  };
+
+  const getGridOffset = (label: string, axis: 'X' | 'Y'): number | null => {
+    const grid = axis === 'X' ? gridX : gridY;
+    const gridLine = grid.find((g: GridLine) => g.label === label);
+    return gridLine ? gridLine.offset : null;
+  };
+
+  const getLevel = (label: string): Level | null => {
+    return levels.find((l: Level) => l.label === label) || null;
+  };
+
+  const getNextLevel = (currentLabel: string): Level | null => {
+    const sortedLevels = [...levels].sort((a: Level, b: Level) => a.elevation - b.elevation);
+    const currentIndex = sortedLevels.findIndex((l: Level) => l.label === currentLabel);
+    return currentIndex >= 0 && currentIndex < sortedLevels.length - 1
+      ? sortedLevels[currentIndex + 1]
+      : null;
+  };
+
+  // Rectangular extents from a ["A-B", "1-2"] grid reference
+  const getGridRect = (gridRef?: string[]): { xMin: number; yMin: number; xLength: number; yLength: number } | null => {
+    if (!gridRef || gridRef.length < 2) return null;
+    const [xStart, xEnd] = gridRef[0].split('-');
+    const [yStart, yEnd] = gridRef[1].split('-');
+    const x1 = getGridOffset(xStart, 'X');
+    const x2 = getGridOffset(xEnd, 'X');
+    const y1 = getGridOffset(yStart, 'Y');
+    const y2 = getGridOffset(yEnd, 'Y');
+    if (x1 === null || x2 === null || y1 === null || y2 === null) return null;
+    return { xMin: Math.min(x1, x2), yMin: Math.min(y1, y2), xLength: Math.abs(x2 - x1), yLength: Math.abs(y2 - y1) };
+  };
+
+  // Beam span from a grid reference with one "start-end" axis
+  const getBeamLength = (gridRef?: string[]): number => {
+    if (!gridRef || gridRef.length < 2) return 0;
+    const [ref1, ref2] = gridRef;
+    if (ref1.includes('-')) {
+      const [start, end] = ref1.split('-');
+      const x1 = getGridOffset(start, 'X');
+      const x2 = getGridOffset(end, 'X');
+      return x1 !== null && x2 !== null ? Math.abs(x2 - x1) : 0;
+    }
+    if (ref2.includes('-')) {
+      const [start, end] = ref2.split('-');
+      const y1 = getGridOffset(start, 'Y');
+      const y2 = getGridOffset(end, 'Y');
+      return y1 !== null && y2 !== null ? Math.abs(y2 - y1) : 0;
+    }
+    return 0;
+  };
+
+  // Beam length from explicit end points, or the grid span plus its end offsets
+  const getBeamInstanceLength = (instance: ElementInstance): number => {
+    const { gridRef, beamOffsets, beamCoordinates } = instance.placement;
+    if (beamCoordinates) {
+      return calculateBeamSpanFromPoints(
+        beamCoordinates.start,
+        beamCoordinates.end,
+        gridX.map((g: GridLine) => g.offset),
+        gridY.map((g: GridLine) => g.offset)
+      ).length;
+    }
+    const length = getBeamLength(gridRef);
+    return length > 0 ? length + (beamOffsets?.start || 0) + (beamOffsets?.end || 0) : 0;
+  };
+
+  const addEntry = (
+    instance: ElementInstance,
+    template: ElementTemplate,
+    memberLabel: string,
+    barType: BarBendingScheduleEntry['barType'],
+    diameter: number,
+    shape: BarShapeOutput,
+    barsPerMember: number,
+    notes: string[]
+  ) => {
+    if (barsPerMember <= 0) return;
+    const quantities = calculateScheduleQuantities(diameter, shape.cutLength, barsPerMember);
+
+    entries.push({
+      barMark: nextBarMark(template.type),
+      memberId: instance.id,
+      memberType: template.type,
+      memberLabel,
+      barType,
+      diameter,
+      shapeCode: shape.shapeCode,
+      dimensions: shape.dimensions,
+      cutLength: shape.cutLength,
+      barsPerMember,
+      memberCount: 1,
+      ...quantities,
+      notes,
+    });
+  };
+
+  for (const instance of instances) {
+    const template = templates.find((t: ElementTemplate) => t.id === instance.templateId);
+    if (!template) {
+      errors.push(`Template not found for instance ${instance.id}`);
+      continue;
+    }
+
+    const rebarConfig = template.rebarConfig;
+    if (!rebarConfig) continue;
+
+    const level = getLevel(instance.placement.levelId);
+    if (!level) {
+      errors.push(`Level not found for instance ${instance.id}`);
+      continue;
+    }
+
+    const gridText = instance.placement.gridRef?.length ? ` ${instance.placement.gridRef.join('/')}` : '';
+    const memberLabel = `${template.name} @ ${level.label}${gridText}`;
+    const cover = DEFAULT_COVER_MM[template.type];
+
+    try {
+      if (template.type === 'beam') {
+        const length = getBeamInstanceLength(instance);
+        const width = getProperty(template, 'width') || 0;
+        const height = getProperty(template, 'height') || 0;
+
+        if (length <= 0) {
+          errors.push(`Could not determine beam length for instance ${instance.id}`);
+          continue;
+        }
+
+        if (rebarConfig.mainBars?.count && rebarConfig.mainBars.diameter) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const lap = calculateLapLength(diameter);
+          addEntry(instance, template, memberLabel, 'main', diameter,
+            calculateStraightBar((length + lap) * 1000), rebarConfig.mainBars.count,
+            [`Span ${length.toFixed(2)}m + ${(lap * 1000).toFixed(0)}mm lap`]);
+        }
+
+        if (rebarConfig.stirrups && width > 0 && height > 0) {
+          const diameter = rebarConfig.stirrups.diameter;
+          addEntry(instance, template, memberLabel, 'stirrups', diameter,
+            calculateStirrupBar(width * 1000 - 2 * cover, height * 1000 - 2 * cover, diameter),
+            calculateBarCount(length, rebarConfig.stirrups.spacing),
+            [`${cover}mm cover`, `@ ${(rebarConfig.stirrups.spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+      } else if (template.type === 'column') {
+        const endLevel = instance.placement.endLevelId
+          ? getLevel(instance.placement.endLevelId)
+          : getNextLevel(instance.placement.levelId);
+        const columnHeight = endLevel ? endLevel.elevation - level.elevation : 0;
+
+        if (columnHeight <= 0) {
+          errors.push(`Could not determine column height for instance ${instance.id}`);
+          continue;
+        }
+
+        if (rebarConfig.mainBars?.count && rebarConfig.mainBars.diameter) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const lap = calculateLapLength(diameter);
+          addEntry(instance, template, memberLabel, 'main', diameter,
+            calculateStraightBar((columnHeight + lap) * 1000), rebarConfig.mainBars.count,
+            [`Height ${columnHeight.toFixed(2)}m + ${(lap * 1000).toFixed(0)}mm lap`]);
+        }
+
+        const width = getProperty(template, 'width') || 0;
+        const depth = getProperty(template, 'height') || 0;
+        if (rebarConfig.stirrups && width > 0 && depth > 0) {
+          const diameter = rebarConfig.stirrups.diameter;
+          addEntry(instance, template, memberLabel, 'ties', diameter,
+            calculateStirrupBar(width * 1000 - 2 * cover, depth * 1000 - 2 * cover, diameter),
+            calculateBarCount(columnHeight, rebarConfig.stirrups.spacing),
+            [`${cover}mm cover`, `@ ${(rebarConfig.stirrups.spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+      } else if (template.type === 'slab' || (template.type === 'foundation' && getProperty(template, 'thickness') !== undefined)) {
+        // Slabs and mat foundations: straight bars each way across the panel
+        const rect = getGridRect(instance.placement.gridRef);
+        const openings = instance.placement.openingPolygons || [];
+        const outline = instance.placement.boundary?.points?.length
+          ? instance.placement.boundary
+          : rect && openings.length > 0
+            ? { points: [
+                [rect.xMin, rect.yMin], [rect.xMin + rect.xLength, rect.yMin],
+                [rect.xMin + rect.xLength, rect.yMin + rect.yLength], [rect.xMin, rect.yMin + rect.yLength],
+              ] as [number, number][] }
+            : null;
+        if (!rect && !outline) {
+          errors.push(`Could not determine panel extents for instance ${instance.id}`);
+          continue;
+        }
+
+        // Polygon outlines: one row per cut length, bars cut at the outline and openings
+        const addOutlineEntries = (
+          barType: BarBendingScheduleEntry['barType'],
+          diameter: number,
+          direction: 'X' | 'Y',
+          spacing: number
+        ) => {
+          const lap = calculateLapLength(diameter);
+          const runs = calculateSlabBarRuns(outline!, openings, direction, spacing, cover / 1000);
+          const piecesByCut = new Map<number, number>();
+          for (const piece of runs.pieces) {
+            const cut = Math.round((piece + lap) * 1000);
+            piecesByCut.set(cut, (piecesByCut.get(cut) || 0) + 1);
+          }
+          [...piecesByCut.entries()]
+            .sort((a, b) => b[0] - a[0])
+            .forEach(([cut, count]) => addEntry(instance, template, memberLabel, barType, diameter,
+              calculateStraightBar(cut), count,
+              [`Along ${direction}, cut at outline/openings + ${(lap * 1000).toFixed(0)}mm lap`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]));
+        };
+
+        if (rebarConfig.mainBars?.diameter) {
+          const diameter = rebarConfig.mainBars.diameter;
+          if (outline) {
+            addOutlineEntries('main', diameter, 'X', rebarConfig.mainBars.spacing || 0.15);
+          } else if (rect) {
+            const spacing = rebarConfig.mainBars.spacing
+              || (rebarConfig.mainBars.count && rebarConfig.mainBars.count > 1
+                ? rect.yLength / (rebarConfig.mainBars.count - 1)
+                : 0.15);
+            const lap = calculateLapLength(diameter);
+            addEntry(instance, template, memberLabel, 'main', diameter,
+              calculateStraightBar((rect.xLength + lap) * 1000), calculateBarCount(rect.yLength, spacing),
+              [`Along X ${rect.xLength.toFixed(2)}m + ${(lap * 1000).toFixed(0)}mm lap`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+          }
+        }
+
+        if (rebarConfig.secondaryBars?.diameter) {
+          const diameter = rebarConfig.secondaryBars.diameter;
+          const spacing = rebarConfig.secondaryBars.spacing || 0.15;
+          if (outline) {
+            addOutlineEntries('secondary', diameter, 'Y', spacing);
+          } else if (rect) {
+            const lap = calculateLapLength(diameter);
+            addEntry(instance, template, memberLabel, 'secondary', diameter,
+              calculateStraightBar((rect.yLength + lap) * 1000), calculateBarCount(rect.xLength, spacing),
+              [`Along Y ${rect.yLength.toFixed(2)}m + ${(lap * 1000).toFixed(0)}mm lap`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+          }
+        }
+
+      } else if (template.type === 'foundation') {
+        // Isolated footing: hooked bars each way, inside the cover
+        const length = getProperty(template, 'length') || 0;
+        const width = getProperty(template, 'width') || 0;
+
+        if (length <= 0 || width <= 0) {
+          errors.push(`Footing template '${template.name}' has invalid dimensions (length: ${length}, width: ${width})`);
+          continue;
+        }
+
+        const clearLength = length * 1000 - 2 * cover;
+        const clearWidth = width * 1000 - 2 * cover;
+
+        if (rebarConfig.mainBars?.diameter) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const spacing = rebarConfig.mainBars.spacing || 0.15;
+          addEntry(instance, template, memberLabel, 'main', diameter,
+            calculateHookedBar(clearLength, diameter), calculateBarCount(clearWidth / 1000, spacing),
+            [`${cover}mm cover`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+        if (rebarConfig.secondaryBars?.diameter) {
+          const diameter = rebarConfig.secondaryBars.diameter;
+          const spacing = rebarConfig.secondaryBars.spacing || 0.15;
+          addEntry(instance, template, memberLabel, 'secondary', diameter,
+            calculateHookedBar(clearWidth, diameter), calculateBarCount(clearLength / 1000, spacing),
+            [`${cover}mm cover`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+      } else if (template.type === 'pile') {
+        // Pile group: straight bars developed into the cap, ties for square piles, cap mat each way
+        // (spirals of bored piles are coiled, not cut and bent, so they stay in the takeoff only)
+        const customLength = instance.placement.customGeometry?.length;
+        const pileLength = customLength ?? getProperty(template, 'length') ?? 0;
+        const pileCount = getProperty(template, 'pileCount') || 1;
+
+        if (pileLength <= 0) {
+          errors.push(`Pile template '${template.name}' has invalid length (${pileLength})`);
+          continue;
+        }
+
+        if (rebarConfig.mainBars?.count && rebarConfig.mainBars.diameter) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const development = calculateDevelopmentLength(diameter, false);
+          addEntry(instance, template, memberLabel, 'main', diameter,
+            calculateStraightBar((pileLength + development) * 1000), rebarConfig.mainBars.count * pileCount,
+            [`Pile ${pileLength.toFixed(2)}m + ${(development * 1000).toFixed(0)}mm into cap`, `${pileCount} piles`]);
+        }
+
+        const width = getProperty(template, 'width') || 0;
+        if (template.pileType === 'driven' && rebarConfig.stirrups && width > 0) {
+          const diameter = rebarConfig.stirrups.diameter;
+          addEntry(instance, template, memberLabel, 'ties', diameter,
+            calculateStirrupBar(width * 1000 - 2 * cover, width * 1000 - 2 * cover, diameter),
+            calculateBarCount(pileLength, rebarConfig.stirrups.spacing) * pileCount,
+            [`${cover}mm cover`, `@ ${(rebarConfig.stirrups.spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+        const capLength = getProperty(template, 'capLength') || 0;
+        const capWidth = getProperty(template, 'capWidth') || 0;
+        if (rebarConfig.secondaryBars?.diameter && capLength > 0 && capWidth > 0) {
+          const diameter = rebarConfig.secondaryBars.diameter;
+          const spacing = rebarConfig.secondaryBars.spacing || 0.15;
+          const clearLength = capLength * 1000 - 2 * cover;
+          const clearWidth = capWidth * 1000 - 2 * cover;
+          addEntry(instance, template, memberLabel, 'secondary', diameter,
+            calculateHookedBar(clearLength, diameter), calculateBarCount(clearWidth / 1000, spacing),
+            ['Pile cap bottom mat', `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+          addEntry(instance, template, memberLabel, 'secondary', diameter,
+            calculateHookedBar(clearWidth, diameter), calculateBarCount(clearLength / 1000, spacing),
+            ['Pile cap bottom mat', `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+      } else if (template.type === 'stair') {
+        // Stair: main bars along each flight anchored 40Ø at both ends, distribution bars across
+        const endLevel = instance.placement.endLevelId
+          ? getLevel(instance.placement.endLevelId)
+          : getNextLevel(instance.placement.levelId);
+        if (!endLevel) {
+          errors.push(`Could not determine end level for stair instance ${instance.id}`);
+          continue;
+        }
+
+        const width = getProperty(template, 'width') || 0;
+        const geometry = calculateStairGeometry({
+          riser: getProperty(template, 'riser') || 0,
+          tread: getProperty(template, 'tread') || 0,
+          width,
+          waistThickness: getProperty(template, 'waistThickness') || 0,
+          flights: getProperty(template, 'flights') || 1,
+          landingLength: getProperty(template, 'landingLength') || 0,
+          landingWidth: getProperty(template, 'landingWidth') || width,
+          totalRise: endLevel.elevation - level.elevation,
+        });
+        const clearWidth = width * 1000 - 2 * cover;
+
+        if (rebarConfig.mainBars?.diameter && rebarConfig.mainBars.spacing) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const spacing = rebarConfig.mainBars.spacing;
+          const lap = calculateLapLength(diameter);
+          for (const flight of geometry.flights) {
+            addEntry(instance, template, memberLabel, 'main', diameter,
+              calculateStraightBar((flight.slopeLength + 2 * lap) * 1000), calculateBarCount(clearWidth / 1000, spacing),
+              [`Flight ${flight.slopeLength.toFixed(2)}m + 2 × ${(lap * 1000).toFixed(0)}mm anchorage`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+          }
+        }
+
+        if (rebarConfig.secondaryBars?.diameter && rebarConfig.secondaryBars.spacing) {
+          const diameter = rebarConfig.secondaryBars.diameter;
+          const spacing = rebarConfig.secondaryBars.spacing;
+          const barCount = geometry.flights.reduce((sum, f) => sum + calculateBarCount(f.slopeLength - 2 * cover / 1000, spacing), 0);
+          addEntry(instance, template, memberLabel, 'secondary', diameter,
+            calculateStraightBar(clearWidth), barCount,
+            [`${cover}mm cover`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`]);
+        }
+
+        // Landings: main bars across, distribution bars along, one set per landing
+        const landingLength = getProperty(template, 'landingLength') || 0;
+        const landingWidth = getProperty(template, 'landingWidth') || width;
+        if (geometry.landingCount > 0 && landingLength > 0) {
+          const clearLength = landingLength * 1000 - 2 * cover;
+          const clearLandingWidth = landingWidth * 1000 - 2 * cover;
+          if (rebarConfig.mainBars?.diameter && rebarConfig.mainBars.spacing) {
+            addEntry(instance, template, memberLabel, 'main', rebarConfig.mainBars.diameter,
+              calculateStraightBar(clearLandingWidth), calculateBarCount(clearLength / 1000, rebarConfig.mainBars.spacing) * geometry.landingCount,
+              ['Landing', `@ ${(rebarConfig.mainBars.spacing * 1000).toFixed(0)}mm o.c.`]);
+          }
+          if (rebarConfig.secondaryBars?.diameter && rebarConfig.secondaryBars.spacing) {
+            addEntry(instance, template, memberLabel, 'secondary', rebarConfig.secondaryBars.diameter,
+              calculateStraightBar(clearLength), calculateBarCount(clearLandingWidth / 1000, rebarConfig.secondaryBars.spacing) * geometry.landingCount,
+              ['Landing', `@ ${(rebarConfig.secondaryBars.spacing * 1000).toFixed(0)}mm o.c.`]);
+          }
+        }
+
+      } else if (template.type === 'wall') {
+        // Wall: vertical bars lapped with the bars below, horizontal bars along the span, per layer
+        // (bars are scheduled full length; pieces at openings are cut on site)
+        const length = getBeamLength(instance.placement.gridRef);
+        const endLevel = instance.placement.endLevelId
+          ? getLevel(instance.placement.endLevelId)
+          : getNextLevel(instance.placement.levelId);
+        const height = endLevel ? endLevel.elevation - level.elevation : 0;
+
+        if (length <= 0 || height <= 0) {
+          errors.push(`Could not determine wall length and height for instance ${instance.id}`);
+          continue;
+        }
+
+        const layers = getProperty(template, 'layers') || DEFAULT_WALL_LAYERS;
+        const layerText = `${layers} layer${layers > 1 ? 's' : ''}`;
+
+        if (rebarConfig.mainBars?.diameter && rebarConfig.mainBars.spacing) {
+          const diameter = rebarConfig.mainBars.diameter;
+          const spacing = rebarConfig.mainBars.spacing;
+          const lap = calculateLapLength(diameter);
+          addEntry(instance, template, memberLabel, 'main', diameter,
+            calculateStraightBar((height + lap) * 1000), calculateBarCount(length - 2 * cover / 1000, spacing) * layers,
+            [`Vertical ${height.toFixed(2)}m + ${(lap * 1000).toFixed(0)}mm lap`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`, layerText]);
+        }
+
+        if (rebarConfig.secondaryBars?.diameter && rebarConfig.secondaryBars.spacing) {
+          const diameter = rebarConfig.secondaryBars.diameter;
+          const spacing = rebarConfig.secondaryBars.spacing;
+          addEntry(instance, template, memberLabel, 'secondary', diameter,
+            calculateStraightBar(length * 1000), calculateBarCount(height - 2 * cover / 1000, spacing) * layers,
+            [`Horizontal ${length.toFixed(2)}m`, `@ ${(spacing * 1000).toFixed(0)}mm o.c.`, layerText]);
+        }
+      }
+    } catch (error) {
+      errors.push(`Error scheduling bars for instance ${instance.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return {
+    barSchedule: summarizeBarSchedule(entries),
+    errors,
+  };
+}
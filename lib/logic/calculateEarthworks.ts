@@ -0,0 +1,275 @@
+/**
+ * EARTHWORKS CALCULATION SERVICE
+ * Orchestrates earthwork takeoff calculations (DB → Math → Results)
+ *
+ * Architecture: LOGIC LAYER
+ * - Reads surveyed stations, excavation pits, embankment prisms and cross-section settings from the project
+ * - Calls pure cross-section, mass haul and pit/prism math functions
+ * - Returns takeoff lines plus the per-station audit table and mass haul
+ */
+
+import type { ProjectModel, TakeoffLine, CrossSectionSettings } from '@/types';
+import {
+  calculateEarthworkVolumes,
+  calculateMassHaul,
+  calculatePitVolume,
+  calculatePrismVolume,
+  DEFAULT_CROSS_SECTION_DPWH_ITEMS,
+  DEFAULT_MASS_HAUL_DPWH_ITEMS,
+  DEFAULT_SHRINKAGE,
+  DEFAULT_SWELL,
+  DEFAULT_FREE_HAUL_DISTANCE,
+  type EarthworkVolumes,
+  type MassHaulResult,
+} from '@/lib/math/earthwork';
+
+export interface EarthworkCalculationResult {
+  takeoffLines: TakeoffLine[];
+  errors: string[];
+  crossSections: EarthworkVolumes | null;
+  massHaul: MassHaulResult | null;
+  summary: {
+    stationCount: number;
+    pitCount: number;
+    prismCount: number;
+    totalCut_m3: number;
+    totalFill_m3: number;
+    borrow_m3: number;
+    waste_m3: number;
+    pitExcavation_m3: number;
+    prismEmbankment_m3: number;
+  };
+}
+
+/**
+ * Cross-section settings with defaults filled in
+ */
+export function resolveCrossSectionSettings(project: ProjectModel): CrossSectionSettings {
+  const settings = project.settings?.crossSections;
+  return {
+    volumeMethod: settings?.volumeMethod || 'average-end-area',
+    excavationItem: settings?.excavationItem || DEFAULT_CROSS_SECTION_DPWH_ITEMS.excavation,
+    embankmentItem: settings?.embankmentItem || DEFAULT_CROSS_SECTION_DPWH_ITEMS.embankment,
+    borrowItem: settings?.borrowItem || DEFAULT_MASS_HAUL_DPWH_ITEMS.borrow,
+    wasteItem: settings?.wasteItem || DEFAULT_MASS_HAUL_DPWH_ITEMS.waste,
+    shrinkage: settings?.shrinkage ?? DEFAULT_SHRINKAGE,
+    swell: settings?.swell ?? DEFAULT_SWELL,
+    freeHaulDistance: settings?.freeHaulDistance ?? DEFAULT_FREE_HAUL_DISTANCE,
+  };
+}
+
+/**
+ * Calculate all earthwork takeoff lines for a project
+ *
+ * Each segment between consecutive stations gives, after balancing cut against
+ * fill along the mass haul, its excavation (cut used as fill, bank measure),
+ * surplus excavation (wasted cut, bank measure), embankment from excavation
+ * and embankment from borrow. Every bank m³ of cut is paid once, under either
+ * the excavation or the surplus item. Overhaul has no pay item and is only
+ * noted on the embankment line. Zero quantities give no line. Each excavation
+ * pit and embankment prism gives one line under its own DPWH item; these are
+ * outside the mass haul.
+ */
+export async function calculateEarthworks(
+  project: ProjectModel
+): Promise<EarthworkCalculationResult> {
+  const takeoffLines: TakeoffLine[] = [];
+  const errors: string[] = [];
+  const stations = project.earthworkStations || [];
+  const pits = project.earthworkPits || [];
+  const prisms = project.embankmentPrisms || [];
+  const { volumeMethod, excavationItem, embankmentItem, borrowItem, wasteItem, shrinkage, swell, freeHaulDistance } =
+    resolveCrossSectionSettings(project);
+  const methodLabel = volumeMethod === 'prismoidal' ? 'Prismoidal formula' : 'Average end area';
+
+  let crossSections: EarthworkVolumes | null = null;
+  let massHaul: MassHaulResult | null = null;
+
+  if (stations.length === 1) {
+    errors.push(`Earthwork station ${stations[0].station}: at least 2 stations are needed to compute volumes`);
+  } else if (stations.length > 1) {
+    try {
+      crossSections = calculateEarthworkVolumes(stations, volumeMethod);
+      massHaul = calculateMassHaul(crossSections.segments, { shrinkage, swell, freeHaulDistance });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Earthwork cross sections: ${errorMsg}`);
+    }
+  }
+
+  const balanceText = `Shrinkage ${(shrinkage * 100).toFixed(0)}%, swell ${(swell * 100).toFixed(0)}%, free haul ${freeHaulDistance.toFixed(0)}m`;
+
+  (crossSections?.segments || []).forEach((segment, index) => {
+    const balance = massHaul!.segments[index];
+    const range = `${segment.fromStation} to ${segment.toStation}`;
+    const inputsSnapshot = {
+      fromChainage: segment.fromChainage,
+      toChainage: segment.toChainage,
+      length: segment.length,
+      cutArea1: segment.cutArea1,
+      cutArea2: segment.cutArea2,
+      fillArea1: segment.fillArea1,
+      fillArea2: segment.fillArea2,
+      ...(segment.cutAreaMid !== undefined ? { cutAreaMid: segment.cutAreaMid } : {}),
+      ...(segment.fillAreaMid !== undefined ? { fillAreaMid: segment.fillAreaMid } : {}),
+    };
+    const baseTags = ['type:cross-section', `station:${segment.fromStation}`, `stationTo:${segment.toStation}`];
+
+    const balanceSnapshot = {
+      ...inputsSnapshot,
+      fillVolume: balance.fillVolume,
+      sideHaul: balance.sideHaul,
+      fillFromCut: balance.fillFromCut,
+      borrow: balance.borrow,
+      waste: balance.waste,
+      wasteLoose: balance.wasteLoose,
+      overhaul: balance.overhaul,
+    };
+
+    const volumeLines = [
+      {
+        suffix: 'cut',
+        resourceKey: 'excavation',
+        volume: segment.cutVolume - balance.waste,
+        formulaText: balance.waste > 0
+          ? `${segment.cutFormulaText} − ${balance.waste.toFixed(2)} m³ surplus = ${(segment.cutVolume - balance.waste).toFixed(2)} m³`
+          : segment.cutFormulaText,
+        snapshot: { ...inputsSnapshot, cutVolume: segment.cutVolume, waste: balance.waste },
+        dpwhItem: excavationItem,
+        note: balance.waste > 0
+          ? `${methodLabel}, cut areas from ground and design profiles; surplus cut paid under ${wasteItem}`
+          : `${methodLabel}, cut areas from ground and design profiles`,
+      },
+      {
+        suffix: 'fill',
+        resourceKey: 'embankment',
+        volume: balance.fillFromCut,
+        formulaText: `${segment.fillFormulaText} − ${balance.borrow.toFixed(2)} m³ borrow = ${balance.fillFromCut.toFixed(2)} m³ from excavation`,
+        snapshot: balanceSnapshot,
+        dpwhItem: embankmentItem,
+        note: balance.overhaul > 0
+          ? `${methodLabel}; overhaul ${balance.overhaul.toFixed(0)} m³·m beyond free haul, not paid separately`
+          : `${methodLabel}, hauled within free haul`,
+      },
+      {
+        suffix: 'borrow',
+        resourceKey: 'embankment-borrow',
+        volume: balance.borrow,
+        formulaText: `${balance.fillVolume.toFixed(2)} m³ fill − ${balance.fillFromCut.toFixed(2)} m³ from excavation = ${balance.borrow.toFixed(2)} m³`,
+        snapshot: balanceSnapshot,
+        dpwhItem: borrowItem,
+        note: 'Deficit after balancing cut against fill',
+      },
+      {
+        suffix: 'waste',
+        resourceKey: 'surplus-excavation',
+        volume: balance.waste,
+        formulaText: `${(balance.waste * (1 - shrinkage)).toFixed(2)} m³ unused (compacted) ÷ (1 − ${shrinkage}) = ${balance.waste.toFixed(2)} m³ bank`,
+        snapshot: balanceSnapshot,
+        dpwhItem: wasteItem,
+        note: `Surplus after balancing, not included in the excavation line; ${balance.wasteLoose.toFixed(2)} m³ loose to dispose`,
+      },
+    ];
+
+    for (const volumeLine of volumeLines) {
+      if (volumeLine.volume <= 0) continue;
+
+      takeoffLines.push({
+        id: `ewk_${segment.fromChainage}_${segment.toChainage}_${volumeLine.suffix}`,
+        sourceElementId: `station:${segment.fromStation}`,
+        trade: 'Earthwork',
+        resourceKey: volumeLine.resourceKey,
+        quantity: Math.round(volumeLine.volume * 100) / 100,
+        unit: 'm³',
+        formulaText: volumeLine.formulaText,
+        inputsSnapshot: volumeLine.snapshot,
+        assumptions: [
+          `Stations ${range} (${segment.length.toFixed(2)}m)`,
+          volumeLine.note,
+          balanceText,
+          `DPWH Item: ${volumeLine.dpwhItem}`,
+        ],
+        tags: [...baseTags, `dpwh:${volumeLine.dpwhItem}`],
+        calculatedAt: new Date(),
+      });
+    }
+  });
+
+  // Excavation pits
+  let pitExcavation = 0;
+  for (const pit of pits) {
+    try {
+      const result = calculatePitVolume(pit);
+      pitExcavation += result.quantity;
+
+      takeoffLines.push({
+        id: `ewk_pit_${pit.id}`,
+        sourceElementId: `pit:${pit.id}`,
+        trade: 'Earthwork',
+        resourceKey: 'structure-excavation',
+        quantity: Math.round(result.quantity * 100) / 100,
+        unit: 'm³',
+        formulaText: result.formulaText,
+        inputsSnapshot: result.inputs,
+        assumptions: [
+          `${pit.description}${pit.location ? ` at ${pit.location}` : ''}`,
+          (pit.sideSlope ?? 0) > 0 ? 'Pit dimensions at the bottom, sides sloped to the ground' : 'Vertical-sided pit',
+          `DPWH Item: ${pit.dpwhItem}`,
+        ],
+        tags: ['type:pit', `pit:${pit.description}`, `dpwh:${pit.dpwhItem}`],
+        calculatedAt: new Date(),
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Excavation pit ${pit.description}: ${errorMsg}`);
+    }
+  }
+
+  // Embankment prisms
+  let prismEmbankment = 0;
+  for (const prism of prisms) {
+    try {
+      const result = calculatePrismVolume(prism);
+      prismEmbankment += result.quantity;
+
+      takeoffLines.push({
+        id: `ewk_prism_${prism.id}`,
+        sourceElementId: `prism:${prism.id}`,
+        trade: 'Earthwork',
+        resourceKey: 'embankment',
+        quantity: Math.round(result.quantity * 100) / 100,
+        unit: 'm³',
+        formulaText: result.formulaText,
+        inputsSnapshot: result.inputs,
+        assumptions: [
+          `${prism.description}${prism.location ? ` at ${prism.location}` : ''}`,
+          'Compacted in place, vertical ends',
+          `DPWH Item: ${prism.dpwhItem}`,
+        ],
+        tags: ['type:prism', `prism:${prism.description}`, `dpwh:${prism.dpwhItem}`],
+        calculatedAt: new Date(),
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Embankment prism ${prism.description}: ${errorMsg}`);
+    }
+  }
+
+  return {
+    takeoffLines,
+    errors,
+    crossSections,
+    massHaul,
+    summary: {
+      stationCount: stations.length,
+      pitCount: pits.length,
+      prismCount: prisms.length,
+      totalCut_m3: crossSections?.totalCut || 0,
+      totalFill_m3: crossSections?.totalFill || 0,
+      borrow_m3: massHaul?.borrow || 0,
+      waste_m3: massHaul?.waste || 0,
+      pitExcavation_m3: pitExcavation,
+      prismEmbankment_m3: prismEmbankment,
+    },
+  };
+}
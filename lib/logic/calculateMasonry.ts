@@ -0,0 +1,248 @@
+/**
+ * MASONRY CALCULATION SERVICE
+ * Orchestrates CHB wall takeoff calculations (DB → Math → Results)
+ *
+ * Architecture: LOGIC LAYER
+ * - Resolves wall geometry from a WallSurface or the wall's own grid placement
+ * - Calls pure masonry math functions
+ * - Returns structured results with errors
+ */
+
+import type { ProjectModel, TakeoffLine, MasonryWall, MasonryWallOpening, WallSurface } from '@/types';
+import { computeWallSurfaceGeometry } from '@/lib/math/finishes/wallSurface';
+import {
+  calculateNetWallArea,
+  calculateCHBCount,
+  calculateCHBMortar,
+  calculateCHBReinforcement,
+  calculatePlaster,
+  getCHBDpwhItem,
+  DEFAULT_PLASTER_THICKNESS_MM,
+  PLASTER_DPWH_ITEM,
+} from '@/lib/math/masonry';
+
+export interface MasonryCalculationResult {
+  takeoffLines: TakeoffLine[];
+  errors: string[];
+  summary: {
+    wallCount: number;
+    totalWallArea_m2: number;
+    totalBlocks: number;
+  };
+}
+
+interface WallPlacement {
+  length: number;
+  height: number;
+  levelStart: string;
+  openings: MasonryWallOpening[];
+  source: string;
+}
+
+/**
+ * Resolve length, height and openings for a masonry wall
+ */
+function resolvePlacement(wall: MasonryWall, project: ProjectModel): WallPlacement {
+  const gridSystem = { gridX: project.gridX || [], gridY: project.gridY || [] };
+  const levels = project.levels || [];
+
+  if (wall.wallSurfaceId) {
+    const wallSurface = project.wallSurfaces?.find(ws => ws.id === wall.wallSurfaceId);
+    if (!wallSurface) {
+      throw new Error(`wall surface not found (${wall.wallSurfaceId})`);
+    }
+    const geometry = computeWallSurfaceGeometry(wallSurface, gridSystem, levels);
+    const openings = (project.openings || [])
+      .filter(o => o.wallSurfaceId === wallSurface.id)
+      .map(o => ({ width_m: o.width_m, height_m: o.height_m, qty: o.qty }));
+
+    return {
+      length: geometry.length_m,
+      height: geometry.height_m,
+      levelStart: wallSurface.levelStart,
+      openings,
+      source: `Wall surface: ${wallSurface.name}`,
+    };
+  }
+
+  if (!wall.gridLine || !wall.levelStart || !wall.levelEnd) {
+    throw new Error('requires a wall surface or a grid line with start and end levels');
+  }
+
+  const geometry = computeWallSurfaceGeometry(
+    { gridLine: wall.gridLine, levelStart: wall.levelStart, levelEnd: wall.levelEnd, surfaceType: 'exterior' } as WallSurface,
+    gridSystem,
+    levels
+  );
+
+  return {
+    length: geometry.length_m,
+    height: geometry.height_m,
+    levelStart: wall.levelStart,
+    openings: wall.openings || [],
+    source: `Grid ${wall.gridLine.axis}=${wall.gridLine.label}, ${wall.gridLine.span.join('-')}`,
+  };
+}
+
+/**
+ * Calculate all CHB wall takeoff lines for a project
+ *
+ * Only the wall area line carries a DPWH tag. Blocks, mortar and bars are
+ * paid under Item 1046 (including reinforcing steel), so they are tagged
+ * paidUnder: and stay out of the BOQ and the rebar cutting-stock plan.
+ */
+export async function calculateMasonry(
+  project: ProjectModel
+): Promise<MasonryCalculationResult> {
+  const takeoffLines: TakeoffLine[] = [];
+  const errors: string[] = [];
+  let totalWallArea_m2 = 0;
+  let totalBlocks = 0;
+
+  const walls = project.masonryWalls || [];
+
+  for (const wall of walls) {
+    try {
+      const placement = resolvePlacement(wall, project);
+      const area = calculateNetWallArea(placement.length, placement.height, placement.openings);
+      if (area.netArea <= 0) {
+        errors.push(`Masonry wall "${wall.name}": no net wall area after openings`);
+        continue;
+      }
+
+      const dpwhItem = wall.dpwhItemNumberRaw || getCHBDpwhItem(wall.thickness_mm, wall.loadBearing);
+      const waste = wall.wastePercent ?? 0.05;
+      const baseTags = [
+        `masonryWall:${wall.name}`,
+        `thickness:${wall.thickness_mm}mm`,
+        `level:${placement.levelStart}`,
+        ...(wall.tags || []),
+      ];
+      const baseAssumptions = [
+        placement.source,
+        `${wall.thickness_mm}mm CHB, ${wall.loadBearing ? 'load-bearing' : 'non-load-bearing'}`,
+      ];
+
+      totalWallArea_m2 += area.netArea;
+
+      // Wall area (pay item)
+      takeoffLines.push({
+        id: `msn_${wall.id}_chb`,
+        sourceElementId: wall.id,
+        trade: 'Masonry',
+        resourceKey: `chb-${wall.thickness_mm}mm`,
+        quantity: Math.round(area.netArea * 100) / 100,
+        unit: 'm²',
+        formulaText: area.formulaText,
+        inputsSnapshot: {
+          length: placement.length,
+          height: placement.height,
+          grossArea: area.grossArea,
+          openingArea: area.openingArea,
+          netArea: area.netArea,
+        },
+        assumptions: [...baseAssumptions, `Openings deducted: ${placement.openings.length}`],
+        tags: [`dpwh:${dpwhItem}`, 'component:wall', ...baseTags],
+      });
+
+      // Blocks
+      const blocks = calculateCHBCount(area.netArea, waste);
+      totalBlocks += blocks.blocks;
+      takeoffLines.push({
+        id: `msn_${wall.id}_blocks`,
+        sourceElementId: wall.id,
+        trade: 'Masonry',
+        resourceKey: `chb-block-${wall.thickness_mm}mm`,
+        quantity: blocks.blocks,
+        unit: 'pcs',
+        formulaText: blocks.formulaText,
+        inputsSnapshot: { netArea: area.netArea, waste },
+        assumptions: [...baseAssumptions, '400 × 200 mm blocks, 12.5 pcs/m²'],
+        tags: [`paidUnder:${dpwhItem}`, 'component:blocks', ...baseTags],
+      });
+
+      // Laying and cell-filling mortar
+      const mortar = calculateCHBMortar(area.netArea, wall.thickness_mm, wall.mortarClass);
+      takeoffLines.push({
+        id: `msn_${wall.id}_mortar`,
+        sourceElementId: wall.id,
+        trade: 'Masonry',
+        resourceKey: `mortar-class-${wall.mortarClass.toLowerCase()}`,
+        quantity: Math.round(mortar.volume * 1000) / 1000,
+        unit: 'm³',
+        formulaText: mortar.formulaText,
+        inputsSnapshot: { netArea: area.netArea, cementBags: mortar.cementBags, sand: mortar.sand },
+        assumptions: [...baseAssumptions, 'Includes filling of cells'],
+        tags: [`paidUnder:${dpwhItem}`, 'component:mortar', ...baseTags],
+      });
+
+      // Vertical and horizontal bars
+      const { reinforcement } = wall;
+      const bars = [
+        { direction: 'vertical', diameter: reinforcement.verticalDiameter, spacing: reinforcement.verticalSpacing_m },
+        { direction: 'horizontal', diameter: reinforcement.horizontalDiameter, spacing: reinforcement.horizontalSpacing_m },
+      ];
+      for (const bar of bars) {
+        const rebar = calculateCHBReinforcement(area.netArea, bar.spacing, bar.diameter);
+        takeoffLines.push({
+          id: `msn_${wall.id}_rebar_${bar.direction}`,
+          sourceElementId: wall.id,
+          trade: 'Masonry',
+          resourceKey: `rebar-${bar.diameter}mm`,
+          quantity: Math.round(rebar.weight * 100) / 100,
+          unit: 'kg',
+          formulaText: rebar.formulaText,
+          inputsSnapshot: rebar.inputs,
+          assumptions: [...baseAssumptions, `${bar.direction} bars @ ${(bar.spacing * 1000).toFixed(0)}mm`, 'Lap: 40Ø per 6m bar'],
+          tags: [`paidUnder:${dpwhItem}`, `component:rebar-${bar.direction}`, ...baseTags],
+        });
+      }
+
+      // Plaster (Item 1027)
+      const sides = wall.plaster?.sides ?? 0;
+      if (sides > 0) {
+        const thicknessMm = wall.plaster?.thickness_mm || DEFAULT_PLASTER_THICKNESS_MM;
+        const plasterArea = area.netArea * sides;
+        const plaster = calculatePlaster(plasterArea, thicknessMm, wall.mortarClass);
+
+        takeoffLines.push({
+          id: `msn_${wall.id}_plaster`,
+          sourceElementId: wall.id,
+          trade: 'Finishes',
+          resourceKey: 'plaster',
+          quantity: Math.round(plasterArea * 100) / 100,
+          unit: 'm²',
+          formulaText: `${area.netArea.toFixed(2)} m² × ${sides} side${sides > 1 ? 's' : ''} = ${plasterArea.toFixed(2)} m²`,
+          inputsSnapshot: { netArea: area.netArea, sides },
+          assumptions: [...baseAssumptions, `Plaster ${thicknessMm}mm thick`],
+          tags: [`dpwh:${PLASTER_DPWH_ITEM}`, 'component:plaster', ...baseTags],
+        });
+        takeoffLines.push({
+          id: `msn_${wall.id}_plaster_mortar`,
+          sourceElementId: wall.id,
+          trade: 'Masonry',
+          resourceKey: `mortar-class-${wall.mortarClass.toLowerCase()}`,
+          quantity: Math.round(plaster.volume * 1000) / 1000,
+          unit: 'm³',
+          formulaText: plaster.formulaText,
+          inputsSnapshot: { plasterArea, thicknessMm, cementBags: plaster.cementBags, sand: plaster.sand },
+          assumptions: [...baseAssumptions, `Plaster ${thicknessMm}mm thick`],
+          tags: [`paidUnder:${PLASTER_DPWH_ITEM}`, 'component:plaster-mortar', ...baseTags],
+        });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Masonry wall "${wall.name}": ${errorMsg}`);
+    }
+  }
+
+  return {
+    takeoffLines,
+    errors,
+    summary: {
+      wallCount: walls.length,
+      totalWallArea_m2,
+      totalBlocks,
+    },
+  };
+}
@@ -8,10 +8,18 @@
  * - Returns structured results with errors
  */
 
-import type { ProjectModel, TakeoffLine, RoofPlane, RoofType, GridLine } from '@/types';
-import { computeRoofPlaneGeometry, computeRoofCoverTakeoff } from '@/lib/math/roofing';
-import { calculateRoofFraming, type FramingParameters, roofingMaterials } from '@/lib/math/roofing/framing';
-import { generateTruss } from '@/lib/math/roofing/truss';
+import type { ProjectModel, TakeoffLine, RoofPlane, RoofType, GridLine, TrussDesign, RoofAccessoryItem } from '@/types';
+import {
+  computeRoofPlaneGeometry,
+  computeRoofCoverTakeoff,
+  computeRoofSheetTakeoff,
+  resolveRoofAccessorySettings,
+  sumRoofPlaneEdges,
+  calculateRoofAccessories,
+  ROOF_ACCESSORY_LABELS,
+} from '@/lib/math/roofing';
+import { calculateRoofFraming, type FramingParameters, roofingMaterials, DEFAULT_PURLIN_STOCK_LENGTH_mm } from '@/lib/math/roofing/framing';
+import { generateTruss, calculateTrussRunLength, type TrussParameters, type TrussResult } from '@/lib/math/roofing/truss';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface RoofingCalculationResult {
@@ -27,14 +35,54 @@ export interface RoofingCalculationResult {
   };
 }
 
+/**
+ * Id given to a project's single truss design saved before designs were named
+ */
+export const LEGACY_TRUSS_DESIGN_ID = 'main';
+
+/**
+ * Named truss designs of a project
+ * A single design saved before designs were named is read as "Main Roof"
+ */
+export function resolveTrussDesigns(project: ProjectModel): TrussDesign[] {
+  if (project.trussDesigns && project.trussDesigns.length > 0) {
+    return project.trussDesigns;
+  }
+  if (project.trussDesign?.trussParams) {
+    return [{ ...project.trussDesign, id: LEGACY_TRUSS_DESIGN_ID, name: 'Main Roof' }];
+  }
+  return [];
+}
+
+/**
+ * Where a truss design is used, for assumptions and the UI
+ */
+export function describeTrussAssignment(design: TrussDesign): string {
+  const { assignment } = design;
+  if (assignment?.gridAxis && assignment.gridFrom && assignment.gridTo) {
+    return `grid ${assignment.gridAxis.toUpperCase()} ${assignment.gridFrom}–${assignment.gridTo}`;
+  }
+  if (assignment?.zone) {
+    return `zone ${assignment.zone}`;
+  }
+  return 'whole roof';
+}
+
 /**
  * Calculate all roofing takeoff lines for a project
+ *
+ * Each truss design gives its own truss, purlin, bracing and accessory lines
+ * over the building length of its zone or grid range; designs on touching grid
+ * ranges share the truss on their common grid line. Roof planes with edge
+ * lengths give gutter, fascia, flashing, valley, hip roll and downspout lines
+ * per roof type.
  */
 export async function calculateRoofing(
   project: ProjectModel
 ): Promise<RoofingCalculationResult> {
   const takeoffLines: TakeoffLine[] = [];
   const errors: string[] = [];
+  const trussDesigns = resolveTrussDesigns(project);
   let totalRoofArea_m2 = 0;
   let totalTrussWeight_kg = 0;
   let totalPurlinWeight_kg = 0;
@@ -46,8 +94,8 @@ export async function calculateRoofing(
 
   // Validate prerequisites
   if (!project.roofPlanes || project.roofPlanes.length === 0) {
-    // No roof planes, but check if truss design exists
-    if (!project.trussDesign) {
+    // No roof planes, but check if truss designs exist
+    if (trussDesigns.length === 0) {
       return {
         takeoffLines: [],
         errors: [],
@@ -81,8 +129,10 @@ export async function calculateRoofing(
 
           totalRoofArea_m2 += geometry.slopeArea_m2;
 
-          // Generate takeoff line for roof covering
-          const takeoffLine = computeRoofCoverTakeoff(roofPlane, roofType);
+          // Generate takeoff line for roof covering (cut sheets when laid out)
+          const takeoffLine = roofPlane.sheetLayout
+            ? computeRoofSheetTakeoff(roofPlane, roofType)
+            : computeRoofCoverTakeoff(roofPlane, roofType);
           takeoffLines.push(takeoffLine);
 
         } catch (error) {
@@ -97,17 +147,48 @@ export async function calculateRoofing(
   // PART 2: ROOF STRUCTURAL SYSTEM (trusses, purlins, bracing)
   // ===================================
 
-  if (project.trussDesign) {
+  // Grid lines already carrying an end truss; a design starting or ending on one shares that truss
+  const endTrussGridLines = new Set<string>();
+
+  for (const trussDesign of trussDesigns) {
     try {
-      const trussDesign = project.trussDesign;
       const mappings = trussDesign.dpwhItemMappings || {};
+      let trussGeometry: TrussResult['geometry'] | null = null;
+      const { assignment } = trussDesign;
+      const gridRange = assignment?.gridAxis && assignment.gridFrom && assignment.gridTo
+        ? { axis: assignment.gridAxis, from: assignment.gridFrom, to: assignment.gridTo }
+        : undefined;
+      const buildingLength_mm = calculateTrussRunLength(
+        trussDesign.buildingLength_mm,
+        gridRange,
+        project.gridX || [],
+        project.gridY || []
+      );
+
+      const endGridLines = gridRange ? [`${gridRange.axis}:${gridRange.from}`, `${gridRange.axis}:${gridRange.to}`] : [];
+      const sharedEndTrusses = endGridLines.filter(line => endTrussGridLines.has(line)).length;
+      endGridLines.forEach(line => endTrussGridLines.add(line));
+      const trussCount = trussDesign.trussParams && buildingLength_mm
+        ? Math.ceil(buildingLength_mm / trussDesign.trussParams.spacing_mm) + 1 - sharedEndTrusses
+        : 0;
+
+      // Tag every line with its design
+      const pushDesignLines = (lines: TakeoffLine[]) => takeoffLines.push(...lines.map(line => ({
+        ...line,
+        sourceElementId: `${line.sourceElementId}:${trussDesign.id}`,
+        tags: [...line.tags, `trussDesign:${trussDesign.name}`],
+        assumptions: [
+          `Truss design: ${trussDesign.name} (${describeTrussAssignment(trussDesign)}, ${buildingLength_mm} mm long)`,
+          ...(line.assumptions || []),
+        ],
+      })));
 
       // Calculate truss weight
-      if (trussDesign.trussParams && trussDesign.buildingLength_mm) {
-        const trussResult = generateTruss(trussDesign.trussParams as any); // Type cast for plateThickness
-        const trussCount = Math.ceil(trussDesign.buildingLength_mm / trussDesign.trussParams.spacing_mm) + 1;
+      if (trussDesign.trussParams && buildingLength_mm) {
+        const trussResult = generateTruss(trussDesign.trussParams as TrussParameters); // Saved plateThickness is a plain string
+        trussGeometry = trussResult.geometry;
         const totalTrussWeight = trussResult.summary.totalWeight_kg * trussCount;
-        totalTrussWeight_kg = totalTrussWeight;
+        totalTrussWeight_kg += totalTrussWeight;
 
         // Generate truss takeoff line
         const trussMapping = mappings.trussSteel || {
@@ -118,7 +199,7 @@ export async function calculateRoofing(
 
         const formulaText = `${trussCount} trusses × ${Math.round(trussResult.summary.totalWeight_kg * 100) / 100} kg = ${Math.round(totalTrussWeight * 100) / 100} kg`;
 
-        takeoffLines.push({
+        pushDesignLines([{
           id: uuidv4(),
           sourceElementId: 'truss_system',
           trade: 'Roofing',
@@ -144,208 +225,302 @@ export async function calculateRoofing(
             `Span: ${trussResult.geometry.span_mm} mm`,
             `Spacing: ${trussDesign.trussParams.spacing_mm} mm`,
             `Quantity: ${trussCount} trusses`,
+            ...(sharedEndTrusses > 0
+              ? [`${sharedEndTrusses} end truss(es) on a grid line shared with another design, counted there`]
+              : []),
             `Weight per truss: ${Math.round(trussResult.summary.totalWeight_kg * 100) / 100} kg`,
             `Top chord: ${trussDesign.trussParams.topChordMaterial.section}`,
             `Bottom chord: ${trussDesign.trussParams.bottomChordMaterial.section}`,
             `Web: ${trussDesign.trussParams.webMaterial.section}`
           ],
-        });
+        }]);
       }
 
-      // Calculate framing (purlins, bracing, accessories)
-      if (trussDesign.framingParams && trussDesign.trussParams && trussDesign.buildingLength_mm) {
-        // Find roofing material definition
-        const roofingMaterialType = trussDesign.framingParams.roofingMaterial?.type || 'GI_Sheet_26';
-        const roofingMaterial = roofingMaterials.find(m => m.type === roofingMaterialType) || roofingMaterials[0];
-
-        const framingParams: FramingParameters = {
-          trussSpan_mm: trussDesign.trussParams.span_mm,
-          trussSpacing_mm: trussDesign.trussParams.spacing_mm,
-          buildingLength_mm: trussDesign.buildingLength_mm,
-          trussQuantity: Math.ceil(trussDesign.buildingLength_mm / trussDesign.trussParams.spacing_mm) + 1,
-          roofingMaterial,
-          purlinSpacing_mm: trussDesign.framingParams.purlinSpacing_mm,
-          purlinSpec: trussDesign.framingParams.purlinSpec,
-          bracing: trussDesign.framingParams.bracing,
-          includeRidgeCap: trussDesign.framingParams.includeRidgeCap ?? true,
-          includeEaveGirt: trussDesign.framingParams.includeEaveGirt ?? true,
-        };
-
-        const framingResult = calculateRoofFraming(framingParams);
-        totalPurlinWeight_kg = framingResult.purlins.totalWeight_kg;
-        totalBracingWeight_kg = framingResult.bracing.totalWeight_kg;
-
-        // Generate purlin takeoff line
-        const purlinMapping = mappings.purlinSteel || {
-          dpwhItemNumberRaw: '1047 (8) b',
-          description: 'Structural Steel Purlins',
-          unit: 'Kilogram'
-        };
-
-        const purlinFormula = `${Math.round(framingResult.purlins.totalLength_m * 10) / 10} m × ${framingParams.purlinSpec.weight_kg_per_m} kg/m = ${Math.round(framingResult.purlins.totalWeight_kg * 100) / 100} kg`;
-
-        takeoffLines.push({
-          id: uuidv4(),
-          sourceElementId: 'purlin_system',
-          trade: 'Roofing',
-          resourceKey: `purlin-${framingParams.purlinSpec.section}`,
-          quantity: Math.round(framingResult.purlins.totalWeight_kg * 100) / 100,
-          unit: 'kg',
-          formulaText: purlinFormula,
-          inputsSnapshot: {
-            totalLength_m: framingResult.purlins.totalLength_m,
-            weight_kg_per_m: framingParams.purlinSpec.weight_kg_per_m,
-            linesPerSide: framingResult.purlins.linesPerSide,
-            spacing_mm: framingParams.purlinSpacing_mm,
-          },
-          tags: [
-            `dpwh:${purlinMapping.dpwhItemNumberRaw}`,
-            `component:purlin`,
-            `section:${framingParams.purlinSpec.section}`,
-            `spacing:${framingParams.purlinSpacing_mm}mm`
-          ],
-          assumptions: [
-            `Purlin section: ${framingParams.purlinSpec.section}`,
-            `Purlin spacing: ${framingParams.purlinSpacing_mm} mm`,
-            `Total length: ${Math.round(framingResult.purlins.totalLength_m * 10) / 10} m`,
-            `Weight per meter: ${framingParams.purlinSpec.weight_kg_per_m} kg/m`,
-            `Lines per side: ${framingResult.purlins.linesPerSide}`
-          ],
-        });
+      // Calculate framing (purlins, bracing, accessories); a failure here keeps the truss line
+      if (trussDesign.framingParams && trussDesign.trussParams && buildingLength_mm) {
+        try {
+          const designLines: TakeoffLine[] = [];
+
+          // Find roofing material definition
+          const roofingMaterialType = trussDesign.framingParams.roofingMaterial?.type || 'GI_Sheet_26';
+          const roofingMaterial = roofingMaterials.find(m => m.type === roofingMaterialType) || roofingMaterials[0];
+
+          const framingParams: FramingParameters = {
+            trussSpan_mm: trussDesign.trussParams.span_mm,
+            trussRise_mm: trussGeometry?.rise_mm ?? trussDesign.trussParams.middleRise_mm,
+            overhang_mm: trussGeometry?.overhang_mm ?? trussDesign.trussParams.overhang_mm,
+            trussSpacing_mm: trussDesign.trussParams.spacing_mm,
+            buildingLength_mm: buildingLength_mm,
+            trussQuantity: trussCount,
+            roofingMaterial,
+            purlinSpacing_mm: trussDesign.framingParams.purlinSpacing_mm,
+            purlinSpec: trussDesign.framingParams.purlinSpec,
+            bracing: trussDesign.framingParams.bracing,
+            includeRidgeCap: trussDesign.framingParams.includeRidgeCap ?? true,
+            includeEaveGirt: trussDesign.framingParams.includeEaveGirt ?? true,
+          };
 
-        // Generate bracing takeoff lines
-        const bracingFormula = `${Math.round(framingResult.bracing.totalLength_m * 10) / 10} m × ${framingParams.bracing.material.weight_kg_per_m} kg/m = ${Math.round(framingResult.bracing.totalWeight_kg * 100) / 100} kg`;
+          const framingResult = calculateRoofFraming(framingParams);
+          totalPurlinWeight_kg += framingResult.purlins.totalWeight_kg;
+          totalBracingWeight_kg += framingResult.bracing.totalWeight_kg;
 
-        // Bracing steel weight
-        takeoffLines.push({
-          id: uuidv4(),
-          sourceElementId: 'bracing_system',
-          trade: 'Roofing',
-          resourceKey: `bracing-${framingParams.bracing.type}`,
-          quantity: Math.round(framingResult.bracing.totalWeight_kg * 100) / 100,
-          unit: 'kg',
-          formulaText: bracingFormula,
-          inputsSnapshot: {
-            totalLength_m: framingResult.bracing.totalLength_m,
-            weight_kg_per_m: framingParams.bracing.material.weight_kg_per_m,
-            bayCount: framingResult.bracing.bayCount,
-          },
-          tags: [
-            `dpwh:1047 (5) a`, // Bolts and Rods for bracing weight
-            `component:bracing`,
-            `bracingType:${framingParams.bracing.type}`,
-            `bays:${framingResult.bracing.bayCount}`
-          ],
-          assumptions: [
-            `Bracing type: ${framingParams.bracing.type}`,
-            `Bracing interval: ${framingParams.bracing.interval_mm} mm`,
-            `Bay count: ${framingResult.bracing.bayCount}`,
-            `Total length: ${Math.round(framingResult.bracing.totalLength_m * 10) / 10} m`,
-            `Section: ${framingParams.bracing.material.section}`
-          ],
-        });
-
-        // Turnbuckles
-        if (framingResult.bracing.turnbuckleCount > 0) {
-          const bracingMapping = mappings.bracingSteel || {
-            dpwhItemNumberRaw: '1047 (4) b',
-            description: 'Metal Structure Accessories Turnbuckle',
-            unit: 'Each'
+          // Generate purlin takeoff line
+          const purlinMapping = mappings.purlinSteel || {
+            dpwhItemNumberRaw: '1047 (8) b',
+            description: 'Structural Steel Purlins',
+            unit: 'Kilogram'
           };
 
-          takeoffLines.push({
+          const purlinLines = framingResult.purlins.lines;
+          const purlinPieces = purlinLines[0]?.quantity || 0;
+          const purlinPieceLength_mm = purlinLines[0]?.pieceLength_mm || 0;
+          const purlinFormula = `${purlinLines.length} lines × ${buildingLength_mm / 1000} m = ${Math.round(framingResult.purlins.totalLength_m * 10) / 10} m × ${framingParams.purlinSpec.weight_kg_per_m} kg/m = ${Math.round(framingResult.purlins.totalWeight_kg * 100) / 100} kg`;
+
+          designLines.push({
             id: uuidv4(),
-            sourceElementId: 'turnbuckle_system',
+            sourceElementId: 'purlin_system',
             trade: 'Roofing',
-            resourceKey: 'turnbuckles',
-            quantity: framingResult.bracing.turnbuckleCount,
-            unit: 'pcs',
-            formulaText: `${framingResult.bracing.bayCount} bays × ${framingParams.bracing.type === 'X-Brace' ? '2' : '1'} = ${framingResult.bracing.turnbuckleCount} pcs`,
+            resourceKey: `purlin-${framingParams.purlinSpec.section}`,
+            quantity: Math.round(framingResult.purlins.totalWeight_kg * 100) / 100,
+            unit: 'kg',
+            formulaText: purlinFormula,
             inputsSnapshot: {
-              bayCount: framingResult.bracing.bayCount,
-              multiplier: framingParams.bracing.type === 'X-Brace' ? 2 : 1,
+              totalLength_m: framingResult.purlins.totalLength_m,
+              weight_kg_per_m: framingParams.purlinSpec.weight_kg_per_m,
+              linesPerSide: framingResult.purlins.linesPerSide,
+              spacing_mm: framingParams.purlinSpacing_mm,
+              slopeLength_mm: framingResult.purlins.slopeLength_mm,
+              piecesPerLine: purlinPieces,
+              pieceLength_mm: purlinPieceLength_mm,
+              splices: framingResult.purlins.totalSplices,
             },
             tags: [
-              `dpwh:${bracingMapping.dpwhItemNumberRaw}`,
-              `component:turnbuckle`,
-              `bays:${framingResult.bracing.bayCount}`
+              `dpwh:${purlinMapping.dpwhItemNumberRaw}`,
+              `component:purlin`,
+              `section:${framingParams.purlinSpec.section}`,
+              `spacing:${framingParams.purlinSpacing_mm}mm`
             ],
             assumptions: [
-              `Quantity: ${framingResult.bracing.turnbuckleCount} pieces`,
-              `For ${framingParams.bracing.type} bracing`
+              `Purlin section: ${framingParams.purlinSpec.section}`,
+              `Purlin spacing: ${framingParams.purlinSpacing_mm} mm`,
+              `Total length: ${Math.round(framingResult.purlins.totalLength_m * 10) / 10} m`,
+              `Weight per meter: ${framingParams.purlinSpec.weight_kg_per_m} kg/m`,
+              `Lines per side: ${framingResult.purlins.linesPerSide} (eave to ridge purlin over ${Math.round(framingResult.purlins.slopeLength_mm)} mm rafter incl. overhang)`,
+              `Pieces per line: ${purlinPieces} × ${purlinPieceLength_mm} mm max, ${framingResult.purlins.totalSplices} splices over trusses`,
+              ...(purlinPieceLength_mm > DEFAULT_PURLIN_STOCK_LENGTH_mm
+                ? [`Bays exceed the ${DEFAULT_PURLIN_STOCK_LENGTH_mm} mm stock length: ${purlinPieceLength_mm} mm pieces ordered as long stock`]
+                : []),
             ],
           });
-        }
 
-        // Ridge cap
-        if (framingResult.accessories.ridgeCap_m > 0) {
-          const ridgeMapping = mappings.ridgeCap || {
-            dpwhItemNumberRaw: '1013 (2) a',
-            description: 'Fabricated Metal Roofing Accessory Ridge/Hip Rolls',
-            unit: 'Linear Meter'
-          };
+          // Generate bracing takeoff lines
+          const bracingFormula = `${Math.round(framingResult.bracing.totalLength_m * 10) / 10} m × ${framingParams.bracing.material.weight_kg_per_m} kg/m = ${Math.round(framingResult.bracing.totalWeight_kg * 100) / 100} kg`;
 
-          takeoffLines.push({
+          // Bracing steel weight
+          designLines.push({
             id: uuidv4(),
-            sourceElementId: 'ridge_cap',
+            sourceElementId: 'bracing_system',
             trade: 'Roofing',
-            resourceKey: 'ridge-cap',
-            quantity: Math.round(framingResult.accessories.ridgeCap_m * 100) / 100,
-            unit: 'lm',
-            formulaText: `Building length = ${Math.round(framingResult.accessories.ridgeCap_m * 100) / 100} m`,
+            resourceKey: `bracing-${framingParams.bracing.type}`,
+            quantity: Math.round(framingResult.bracing.totalWeight_kg * 100) / 100,
+            unit: 'kg',
+            formulaText: bracingFormula,
             inputsSnapshot: {
-              buildingLength_mm: trussDesign.buildingLength_mm,
+              totalLength_m: framingResult.bracing.totalLength_m,
+              weight_kg_per_m: framingParams.bracing.material.weight_kg_per_m,
+              bayCount: framingResult.bracing.bayCount,
             },
             tags: [
-              `dpwh:${ridgeMapping.dpwhItemNumberRaw}`,
-              `component:ridgeCap`
+              `dpwh:1047 (5) a`, // Bolts and Rods for bracing weight
+              `component:bracing`,
+              `bracingType:${framingParams.bracing.type}`,
+              `bays:${framingResult.bracing.bayCount}`
             ],
             assumptions: [
-              `Length: ${Math.round(framingResult.accessories.ridgeCap_m * 100) / 100} m`
+              `Bracing type: ${framingParams.bracing.type}`,
+              `Bracing interval: ${framingParams.bracing.interval_mm} mm`,
+              `Bay count: ${framingResult.bracing.bayCount}`,
+              `Total length: ${Math.round(framingResult.bracing.totalLength_m * 10) / 10} m`,
+              `Section: ${framingParams.bracing.material.section}`
             ],
           });
-        }
 
-        // Fasteners and accessories
-        if (framingResult.accessories.boltsAndNuts > 0) {
-          const boltsMapping = mappings.boltsAndRods || {
-            dpwhItemNumberRaw: '1047 (5) a',
-            description: 'Metal Structure Accessories Bolts and Rods',
-            unit: 'Kilogram'
-          };
+          // Turnbuckles
+          if (framingResult.bracing.turnbuckleCount > 0) {
+            const bracingMapping = mappings.bracingSteel || {
+              dpwhItemNumberRaw: '1047 (4) b',
+              description: 'Metal Structure Accessories Turnbuckle',
+              unit: 'Each'
+            };
+
+            designLines.push({
+              id: uuidv4(),
+              sourceElementId: 'turnbuckle_system',
+              trade: 'Roofing',
+              resourceKey: 'turnbuckles',
+              quantity: framingResult.bracing.turnbuckleCount,
+              unit: 'pcs',
+              formulaText: `${framingResult.bracing.bayCount} bays × ${framingParams.bracing.type === 'X-Brace' ? '2' : '1'} = ${framingResult.bracing.turnbuckleCount} pcs`,
+              inputsSnapshot: {
+                bayCount: framingResult.bracing.bayCount,
+                multiplier: framingParams.bracing.type === 'X-Brace' ? 2 : 1,
+              },
+              tags: [
+                `dpwh:${bracingMapping.dpwhItemNumberRaw}`,
+                `component:turnbuckle`,
+                `bays:${framingResult.bracing.bayCount}`
+              ],
+              assumptions: [
+                `Quantity: ${framingResult.bracing.turnbuckleCount} pieces`,
+                `For ${framingParams.bracing.type} bracing`
+              ],
+            });
+          }
 
-          // Estimate 0.05 kg per bolt assembly
-          const boltsWeight_kg = framingResult.accessories.boltsAndNuts * 0.05;
+          // Ridge cap
+          if (framingResult.accessories.ridgeCap_m > 0) {
+            const ridgeMapping = mappings.ridgeCap || {
+              dpwhItemNumberRaw: '1013 (2) a',
+              description: 'Fabricated Metal Roofing Accessory Ridge/Hip Rolls',
+              unit: 'Linear Meter'
+            };
+
+            designLines.push({
+              id: uuidv4(),
+              sourceElementId: 'ridge_cap',
+              trade: 'Roofing',
+              resourceKey: 'ridge-cap',
+              quantity: Math.round(framingResult.accessories.ridgeCap_m * 100) / 100,
+              unit: 'lm',
+              formulaText: `Building length = ${Math.round(framingResult.accessories.ridgeCap_m * 100) / 100} m`,
+              inputsSnapshot: {
+                buildingLength_mm: buildingLength_mm,
+              },
+              tags: [
+                `dpwh:${ridgeMapping.dpwhItemNumberRaw}`,
+                `component:ridgeCap`
+              ],
+              assumptions: [
+                `Length: ${Math.round(framingResult.accessories.ridgeCap_m * 100) / 100} m`
+              ],
+            });
+          }
 
-          takeoffLines.push({
-            id: uuidv4(),
-            sourceElementId: 'purlin_bolts',
-            trade: 'Roofing',
-            resourceKey: 'purlin-bolts',
-            quantity: Math.round(boltsWeight_kg * 100) / 100,
-            unit: 'kg',
-            formulaText: `${framingResult.accessories.boltsAndNuts} bolts × 0.05 kg = ${Math.round(boltsWeight_kg * 100) / 100} kg`,
-            inputsSnapshot: {
-              boltCount: framingResult.accessories.boltsAndNuts,
-              weightPerBolt_kg: 0.05,
-            },
-            tags: [
-              `dpwh:${boltsMapping.dpwhItemNumberRaw}`,
-              `component:bolts`,
-              `count:${framingResult.accessories.boltsAndNuts}`
-            ],
-            assumptions: [
-              `Total bolts: ${framingResult.accessories.boltsAndNuts} pieces`,
-              `Estimated weight: 0.05 kg per bolt assembly`
-            ],
-          });
-        }
+          // Fasteners and accessories
+          if (framingResult.accessories.boltsAndNuts > 0) {
+            const boltsMapping = mappings.boltsAndRods || {
+              dpwhItemNumberRaw: '1047 (5) a',
+              description: 'Metal Structure Accessories Bolts and Rods',
+              unit: 'Kilogram'
+            };
+
+            // Estimate 0.05 kg per bolt assembly
+            const boltsWeight_kg = framingResult.accessories.boltsAndNuts * 0.05;
+
+            designLines.push({
+              id: uuidv4(),
+              sourceElementId: 'purlin_bolts',
+              trade: 'Roofing',
+              resourceKey: 'purlin-bolts',
+              quantity: Math.round(boltsWeight_kg * 100) / 100,
+              unit: 'kg',
+              formulaText: `${framingResult.accessories.boltsAndNuts} bolts × 0.05 kg = ${Math.round(boltsWeight_kg * 100) / 100} kg`,
+              inputsSnapshot: {
+                boltCount: framingResult.accessories.boltsAndNuts,
+                weightPerBolt_kg: 0.05,
+              },
+              tags: [
+                `dpwh:${boltsMapping.dpwhItemNumberRaw}`,
+                `component:bolts`,
+                `count:${framingResult.accessories.boltsAndNuts}`
+              ],
+              assumptions: [
+                `Total bolts: ${framingResult.accessories.boltsAndNuts} pieces`,
+                `Estimated weight: 0.05 kg per bolt assembly`
+              ],
+            });
+          }
 
+          pushDesignLines(designLines);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          errors.push(`Truss design "${trussDesign.name}" framing calculation failed: ${errorMsg}`);
+        }
       }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`Truss design "${trussDesign.name}" calculation failed: ${errorMsg}`);
+    }
+  }
+
+  // ===================================
+  // PART 3: ROOF ACCESSORIES (gutters, flashing, rolls, downspouts)
+  // ===================================
+
+  // Ridge already covered by the truss designs' ridge cap lines is left out of the hip rolls,
+  // taken from the roof types in order until the capped length is used up
+  let ridgeCapRemaining_m = takeoffLines
+    .filter(line => line.tags.includes('component:ridgeCap'))
+    .reduce((sum, line) => sum + line.quantity, 0);
+  const levels = project.levels || [];
+  const groundElevation = levels.length > 0 ? Math.min(...levels.map(l => l.elevation)) : 0;
+
+  for (const roofType of project.roofTypes || []) {
+    if (roofType.assumptions?.accessoriesBundled) continue;
+
+    const planes = (project.roofPlanes || []).filter(
+      rp => rp.roofTypeId === roofType.id && rp.edges && rp.computed
+    );
+    if (planes.length === 0) continue;
 
+    try {
+      const settings = resolveRoofAccessorySettings(roofType.dpwhItemNumberRaw, project.settings?.roofAccessories);
+      const edges = sumRoofPlaneEdges(planes.map(rp => ({ edges: rp.edges, planArea_m2: rp.computed.planArea_m2 })));
+      const roofLevel = levels.find(l => l.label === planes[0].levelId);
+      const ridgeCapped_m = Math.min(edges.ridge_m, ridgeCapRemaining_m);
+      const accessories = calculateRoofAccessories(edges, settings, {
+        ridgeCapped_m,
+        roofElevation_m: roofLevel ? roofLevel.elevation - groundElevation : undefined,
+      });
+      ridgeCapRemaining_m -= ridgeCapped_m;
+
+      for (const accessory of accessories) {
+        const item = settings[accessory.kind] as RoofAccessoryItem;
+        takeoffLines.push({
+          id: uuidv4(),
+          sourceElementId: `roof_${accessory.kind}:${roofType.id}`,
+          trade: 'Roofing',
+          resourceKey: `roof-${accessory.kind}`,
+          quantity: Math.round(accessory.quantity * 100) / 100,
+          unit: 'lm',
+          formulaText: accessory.formulaText,
+          inputsSnapshot: {
+            ...edges,
+            length_m: accessory.length_m,
+            joints: accessory.joints,
+            pieceLength_m: item.pieceLength_m,
+            lap_mm: item.lap_mm,
+            ...(accessory.count !== undefined && { count: accessory.count }),
+          },
+          tags: [
+            `dpwh:${accessory.dpwhItem}`,
+            `component:${accessory.kind}`,
+            `roofType:${roofType.name}`,
+            ...(accessory.count !== undefined ? [`count:${accessory.count}`] : []),
+          ],
+          assumptions: [
+            `${ROOF_ACCESSORY_LABELS[accessory.kind]} in ${item.pieceLength_m} m pieces lapped ${item.lap_mm} mm`,
+            `From the edges of ${planes.length} roof plane(s) of ${roofType.name}`,
+            ...(accessory.kind === 'hipRoll' && ridgeCapped_m > 0
+              ? [`${Math.round(ridgeCapped_m * 100) / 100} m of ridge is covered by the truss ridge cap`]
+              : []),
+            ...(accessory.count !== undefined ? [`One downspout per ${settings.drainedAreaPerDownspout_m2} m² of drained plan area`] : []),
+          ],
+        });
+      }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      errors.push(`Truss design calculation failed: ${errorMsg}`);
+      errors.push(`Roof accessories for "${roofType.name}": ${errorMsg}`);
     }
   }
 
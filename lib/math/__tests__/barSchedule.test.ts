@@ -0,0 +1,89 @@
+/**
+ * UNIT TESTS - Bar Bending Schedule
+ * Testing shape cut lengths and per-diameter totals
+ */
+
+import {
+  calculateStraightBar,
+  calculateHookedBar,
+  calculateStirrupBar,
+  calculateScheduleQuantities,
+  summarizeBarSchedule,
+} from '../barSchedule';
+import type { BarBendingScheduleEntry } from '@/types';
+
+describe('Bar Bending Schedule', () => {
+  describe('bar shapes', () => {
+    test('should keep straight bars at their length', () => {
+      const result = calculateStraightBar(6640);
+      expect(result.shapeCode).toBe('00');
+      expect(result.cutLength).toBe(6640);
+    });
+
+    test('should add 12Ø hooks less two 90° bend deductions', () => {
+      const result = calculateHookedBar(1350, 16);
+
+      expect(result.shapeCode).toBe('21');
+      expect(result.dimensions).toEqual({ A: 192, B: 1350, C: 192 });
+      expect(result.cutLength).toBe(1670); // 192 + 1350 + 192 - 2×32
+    });
+
+    test('should compute a closed stirrup with 135° hooks', () => {
+      const result = calculateStirrupBar(220, 420, 10);
+
+      expect(result.shapeCode).toBe('51');
+      expect(result.dimensions.hook).toBe(100);
+      expect(result.cutLength).toBe(1360); // 2×640 + 2×100 - 3×20 - 2×30
+    });
+
+    test('should apply the 75mm minimum stirrup hook for small bars', () => {
+      expect(calculateStirrupBar(200, 200, 6).dimensions.hook).toBe(75);
+    });
+
+    test('should reject non-positive dimensions', () => {
+      expect(() => calculateStraightBar(0)).toThrow();
+      expect(() => calculateStirrupBar(0, 400, 10)).toThrow();
+    });
+  });
+
+  describe('quantities', () => {
+    test('should multiply cut length by bar count and unit weight', () => {
+      const result = calculateScheduleQuantities(16, 6000, 4);
+
+      expect(result.totalBars).toBe(4);
+      expect(result.totalLength).toBe(24);
+      expect(result.weight).toBe(37.87); // 24 × 1.578
+    });
+
+    test('should total entries per diameter in ascending order', () => {
+      const entry = (barMark: string, diameter: number, totalLength: number, weight: number): BarBendingScheduleEntry => ({
+        barMark,
+        memberId: 'i1',
+        memberType: 'beam',
+        memberLabel: 'B-1',
+        barType: 'main',
+        diameter,
+        shapeCode: '00',
+        dimensions: {},
+        cutLength: 0,
+        barsPerMember: 2,
+        memberCount: 1,
+        totalBars: 2,
+        totalLength,
+        weight,
+        notes: [],
+      });
+
+      const schedule = summarizeBarSchedule([
+        entry('B01', 16, 12, 18.94),
+        entry('B02', 10, 8, 4.94),
+        entry('B03', 16, 10, 15.78),
+      ]);
+
+      expect(schedule.totalsByDiameter.map(t => t.diameter)).toEqual([10, 16]);
+      expect(schedule.totalsByDiameter[1].totalBars).toBe(4);
+      expect(schedule.totalsByDiameter[1].weight).toBe(34.72);
+      expect(schedule.totalWeight).toBe(39.66);
+    });
+  });
+});
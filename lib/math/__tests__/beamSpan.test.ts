@@ -0,0 +1,48 @@
+/**
+ * UNIT TESTS - Beam Spans
+ * Testing end offsets, line offsets, explicit coordinates and free-end formwork
+ */
+
+import { calculateBeamSpan, calculateBeamSpanFromPoints } from '../beamSpan';
+import { calculateBeamFormwork } from '../formwork';
+
+describe('Beam Spans', () => {
+  test('should extend a cantilever past the end grid', () => {
+    // Grid A (0) to B (6) on line 1 (0), 1.5m cantilever past B
+    const span = calculateBeamSpan(true, 0, 6, 0, { end: 1.5 });
+
+    expect(span.length).toBeCloseTo(7.5);
+    expect(span.end).toEqual([7.5, 0]);
+    expect(span.freeStart).toBe(false);
+    expect(span.freeEnd).toBe(true);
+  });
+
+  test('should stop short and move off the grid line', () => {
+    // Span 1 (8) to 2 (2) runs toward −Y; the start stops 0.5m short
+    const span = calculateBeamSpan(false, 8, 2, 4, { start: -0.5, line: 1.2 });
+
+    expect(span.length).toBeCloseTo(5.5);
+    expect(span.start).toEqual([5.2, 7.5]);
+    expect(span.freeStart).toBe(false);
+  });
+
+  test('should reject offsets that leave no length', () => {
+    expect(() => calculateBeamSpan(true, 0, 3, 0, { start: -2, end: -1 })).toThrow('no beam length');
+  });
+
+  test('should free the ends of explicit beams outside the grid', () => {
+    const span = calculateBeamSpanFromPoints([2, 3], [2, 10], [0, 4, 8], [0, 6]);
+
+    expect(span.length).toBeCloseTo(7);
+    expect(span.alongX).toBe(false);
+    expect(span.freeStart).toBe(false);
+    expect(span.freeEnd).toBe(true);
+  });
+
+  test('should form the end face of each free end', () => {
+    const closed = calculateBeamFormwork(0.3, 0.5, 4);
+    const cantilever = calculateBeamFormwork(0.3, 0.5, 4, 1);
+
+    expect(cantilever.area - closed.area).toBeCloseTo(0.15);
+  });
+});
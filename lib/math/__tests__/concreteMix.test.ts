@@ -0,0 +1,80 @@
+/**
+ * UNIT TESTS - Concrete Mix Materials
+ * Testing class resolution from DPWH items and cement/sand/gravel/water quantities
+ */
+
+import {
+  resolveConcreteClass,
+  calculateConcreteMaterials,
+  summarizeConcreteMaterials,
+  CONCRETE_MIX_TABLE,
+} from '../concreteMix';
+import type { ConcreteMaterialLine } from '@/types';
+
+describe('Concrete Mix Materials', () => {
+  describe('resolveConcreteClass', () => {
+    test('should resolve the class from the Item 900 sub-item', () => {
+      expect(resolveConcreteClass('900 (1) a')).toBe('A');
+      expect(resolveConcreteClass('900 (2) b')).toBe('B');
+      expect(resolveConcreteClass('900 (3) c')).toBe('C');
+    });
+
+    test('should prefer the class named in the description', () => {
+      expect(resolveConcreteClass('900 (1) a', 'Structural Concrete Class AA 28 days')).toBe('AA');
+    });
+
+    test('should return null for items without a mix class', () => {
+      expect(resolveConcreteClass('900 (4) a', 'Structural Concrete Class P 7 days')).toBeNull();
+      expect(resolveConcreteClass('901 (1)', 'Lean Concrete')).toBeNull();
+    });
+  });
+
+  describe('calculateConcreteMaterials', () => {
+    test('should compute Class A materials for 2 m³', () => {
+      const result = calculateConcreteMaterials(2, CONCRETE_MIX_TABLE.A);
+
+      expect(result.cementBags).toBe(18);
+      expect(result.sand).toBe(1);
+      expect(result.gravel).toBe(2);
+      expect(result.water).toBe(360); // 18 × 40 kg × 0.50
+    });
+
+    test('should reject negative volume', () => {
+      expect(() => calculateConcreteMaterials(-1, CONCRETE_MIX_TABLE.A)).toThrow();
+    });
+  });
+
+  describe('summarizeConcreteMaterials', () => {
+    const line = (id: string, concreteClass: 'A' | 'C', volume: number): ConcreteMaterialLine => {
+      const materials = calculateConcreteMaterials(volume, CONCRETE_MIX_TABLE[concreteClass]);
+      return {
+        sourceTakeoffLineId: `tof_${id}_concrete`,
+        sourceElementId: id,
+        dpwhItemNumberRaw: concreteClass === 'A' ? '900 (1) a' : '900 (3) a',
+        concreteClass,
+        concreteVolume: volume,
+        cementBags: materials.cementBags,
+        sand: materials.sand,
+        gravel: materials.gravel,
+        water: materials.water,
+        formulaText: materials.formulaText,
+        assumptions: [],
+        tags: [],
+      };
+    };
+
+    test('should total by class and round cement up to whole bags', () => {
+      const report = summarizeConcreteMaterials([
+        line('b1', 'A', 0.25),
+        line('b2', 'A', 0.30),
+        line('f1', 'C', 1.0),
+      ]);
+
+      expect(report.totalsByClass.map(t => t.concreteClass)).toEqual(['A', 'C']);
+      expect(report.totalsByClass[0].cementBags).toBe(5); // 4.95 bags
+      expect(report.totalsByClass[0].concreteVolume).toBe(0.55);
+      expect(report.grandTotal.cementBags).toBe(11); // 4.95 + 6
+      expect(report.grandTotal.gravel).toBe(1.55);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * UNIT TESTS - Reinforced Concrete Walls
+ * Testing concrete, two-sided formwork and wall bars with openings deducted
+ */
+
+import {
+  calculateWallConcrete,
+  calculateWallFormwork,
+  calculateWallBars,
+  type ConcreteWallInput,
+} from '../concreteWalls';
+
+const wall: ConcreteWallInput = {
+  length: 6,
+  height: 3,
+  thickness: 0.2,
+  openings: [{ width_m: 1, height_m: 2, qty: 1 }],
+};
+
+describe('Reinforced Concrete Walls', () => {
+  test('should deduct openings from wall concrete', () => {
+    const concrete = calculateWallConcrete(wall, 0.05);
+
+    // (18 − 2) × 0.2 = 3.2 m³
+    expect(concrete.volume).toBeCloseTo(3.2);
+    expect(concrete.volumeWithWaste).toBeCloseTo(3.36);
+  });
+
+  test('should form both faces plus opening reveals', () => {
+    const formwork = calculateWallFormwork(wall);
+
+    // 2 × 16 + 2 × (1 + 2) × 0.2 = 33.2 m²
+    expect(formwork.area).toBeCloseTo(33.2);
+    expect(formwork.inputs.revealArea).toBeCloseTo(1.2);
+  });
+
+  test('should reject openings larger than the wall', () => {
+    expect(() => calculateWallConcrete({ ...wall, openings: [{ width_m: 3, height_m: 3, qty: 2 }] }, 0)).toThrow('exceed wall area');
+  });
+
+  test('should cut bars back at openings for each layer', () => {
+    // 31 bars @ 0.2 over 6m, (31 × 3.5 − 2 ÷ 0.2) × 2 layers = 197m × 0.888 kg/m
+    const bars = calculateWallBars({
+      diameter: 12,
+      spacing: 0.2,
+      barLength: 3,
+      distributionLength: 6,
+      openingArea: 2,
+      layers: 2,
+      lapLength: 0.5,
+      waste: 0,
+    });
+
+    expect(bars.inputs.barCount).toBe(62);
+    expect(bars.inputs.totalLength).toBeCloseTo(197);
+    expect(bars.weight).toBeCloseTo(197 * 0.888);
+  });
+});
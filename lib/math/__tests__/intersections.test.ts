@@ -0,0 +1,52 @@
+/**
+ * UNIT TESTS - Element Intersections
+ * Testing joint overlaps and column > beam > slab deductions
+ */
+
+import {
+  intersectBoxes,
+  calculateUnionVolume,
+  calculateIntersectionDeductions,
+  type ElementBox,
+} from '../intersections';
+
+// 0.4 × 0.4 column at (0, 0) from 0m to 3m
+const column: ElementBox = { id: 'c1', type: 'column', xMin: -0.2, xMax: 0.2, yMin: -0.2, yMax: 0.2, zMin: 0, zMax: 3 };
+// 0.3 × 0.5 beam along X from 0 to 5m, top at 3m
+const beam: ElementBox = { id: 'b1', type: 'beam', xMin: 0, xMax: 5, yMin: -0.15, yMax: 0.15, zMin: 2.5, zMax: 3 };
+// 0.1m slab 0–5m × 0–4m, top at 3m
+const slab: ElementBox = { id: 's1', type: 'slab', xMin: 0, xMax: 5, yMin: 0, yMax: 4, zMin: 2.9, zMax: 3 };
+
+describe('Element Intersections', () => {
+  test('should ignore boxes that only touch', () => {
+    const a = { xMin: 0, xMax: 1, yMin: 0, yMax: 1, zMin: 0, zMax: 1 };
+    const b = { xMin: 1, xMax: 2, yMin: 0, yMax: 1, zMin: 0, zMax: 1 };
+    expect(intersectBoxes(a, b)).toBeNull();
+  });
+
+  test('should count overlapping regions once in the union', () => {
+    const a = { xMin: 0, xMax: 2, yMin: 0, yMax: 1, zMin: 0, zMax: 1 };
+    const b = { xMin: 1, xMax: 3, yMin: 0, yMax: 1, zMin: 0, zMax: 1 };
+    expect(calculateUnionVolume([a, b])).toBeCloseTo(3);
+  });
+
+  test('should deduct the beam end inside the column and keep the column whole', () => {
+    const deductions = calculateIntersectionDeductions([column, beam]);
+
+    // 0.2 × 0.3 × 0.5 = 0.03 m³
+    expect(deductions).toHaveLength(1);
+    expect(deductions[0].elementId).toBe('b1');
+    expect(deductions[0].volume).toBeCloseTo(0.03);
+    expect(deductions[0].overlappingIds).toEqual(['c1']);
+  });
+
+  test('should deduct the slab overlap with beam and column once', () => {
+    const deductions = calculateIntersectionDeductions([column, beam, slab]);
+    const slabDeduction = deductions.find(d => d.elementId === 's1');
+
+    // Column corner 0.2 × 0.2 × 0.1 = 0.004, beam strip 5 × 0.15 × 0.1 = 0.075,
+    // shared 0.2 × 0.15 × 0.1 = 0.003 → 0.076 m³
+    expect(slabDeduction?.volume).toBeCloseTo(0.076);
+    expect(slabDeduction?.formulaText).toContain('1 column + 1 beam');
+  });
+});
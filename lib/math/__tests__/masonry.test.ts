@@ -0,0 +1,59 @@
+/**
+ * UNIT TESTS - CHB Masonry
+ * Testing net area, blocks, mortar, wall bars and DPWH items
+ */
+
+import {
+  calculateNetWallArea,
+  calculateCHBCount,
+  calculateCHBMortar,
+  calculateCHBReinforcement,
+  calculatePlaster,
+  getCHBDpwhItem,
+} from '../masonry';
+
+describe('CHB Masonry', () => {
+  test('should deduct openings from the gross wall area', () => {
+    const area = calculateNetWallArea(5, 3, [{ width_m: 0.9, height_m: 2.1, qty: 1 }]);
+
+    expect(area.grossArea).toBeCloseTo(15);
+    expect(area.openingArea).toBeCloseTo(1.89);
+    expect(area.netArea).toBeCloseTo(13.11);
+  });
+
+  test('should reject openings larger than the wall', () => {
+    expect(() => calculateNetWallArea(2, 2, [{ width_m: 1, height_m: 2, qty: 3 }])).toThrow('exceed wall area');
+  });
+
+  test('should round blocks up after waste', () => {
+    // 13.11 × 12.5 × 1.05 = 172.07
+    expect(calculateCHBCount(13.11, 0.05).blocks).toBe(173);
+    expect(calculateCHBCount(8, 0).blocks).toBe(100);
+  });
+
+  test('should size mortar by block thickness and class', () => {
+    const mortar = calculateCHBMortar(10, 100, 'B');
+
+    expect(mortar.volume).toBeCloseTo(0.435);
+    expect(mortar.cementBags).toBeCloseTo(5.22);
+    expect(mortar.sand).toBeCloseTo(0.435);
+    expect(calculateCHBMortar(10, 150, 'B').volume).toBeCloseTo(0.844);
+  });
+
+  test('should run bars at spacing with a lap per 6m bar', () => {
+    // 10 m² ÷ 0.8 = 12.5m run → 3 bars + 3 × 0.4m lap = 13.7m × 0.617 kg/m
+    const rebar = calculateCHBReinforcement(10, 0.8, 10, 0);
+
+    expect(rebar.inputs.barCount).toBe(3);
+    expect(rebar.weight).toBeCloseTo(13.7 * 0.617);
+  });
+
+  test('should compute plaster mortar from area and thickness', () => {
+    expect(calculatePlaster(20, 16, 'A').volume).toBeCloseTo(0.32);
+  });
+
+  test('should map thickness and load-bearing to DPWH Item 1046', () => {
+    expect(getCHBDpwhItem(100, false)).toBe('1046 (2) a1');
+    expect(getCHBDpwhItem(150, true)).toBe('1046 (1) a2');
+  });
+});
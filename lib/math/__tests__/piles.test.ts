@@ -0,0 +1,53 @@
+/**
+ * UNIT TESTS - Pile Foundations
+ * Testing paid/cutoff lengths, spiral weights and DPWH piling items
+ */
+
+import {
+  calculatePileLengths,
+  calculatePileSpiralWeight,
+  getDPWHPilingItems,
+} from '../piles';
+
+describe('Pile Foundations', () => {
+  describe('calculatePileLengths', () => {
+    test('should pay cutoff level to tip and add the cutoff allowance to the total', () => {
+      const result = calculatePileLengths(18, 0.6, 4);
+
+      expect(result.paidLength).toBeCloseTo(72);
+      expect(result.cutoffLength).toBeCloseTo(2.4);
+      expect(result.totalLength).toBeCloseTo(74.4);
+      expect(result.formulaText).toContain('4 piles');
+    });
+
+    test('should reject a fractional pile count', () => {
+      expect(() => calculatePileLengths(18, 0.6, 2.5)).toThrow('Pile count must be a positive whole number');
+    });
+  });
+
+  describe('calculatePileSpiralWeight', () => {
+    test('should add end turns and use the helix length per turn', () => {
+      // 10m / 0.1m pitch + 3 end turns = 103 turns
+      const result = calculatePileSpiralWeight(10, 0.1, 0.65, 10, 2, 0);
+      const lengthPerTurn = Math.sqrt(Math.pow(Math.PI * 0.65, 2) + 0.01);
+
+      expect(result.inputs.turns).toBeCloseTo(103);
+      expect(result.inputs.barLength).toBeCloseTo(103 * lengthPerTurn);
+      expect(result.weight).toBeCloseTo(103 * lengthPerTurn * 2 * 0.617, 1);
+    });
+  });
+
+  describe('getDPWHPilingItems', () => {
+    test('should match bored piles by diameter', () => {
+      expect(getDPWHPilingItems('bored', 0.8)).toEqual({ installed: '1052 (17) a', furnished: null });
+    });
+
+    test('should split driven piles into furnished and driven items', () => {
+      expect(getDPWHPilingItems('driven', 0.4)).toEqual({ installed: '1052 (14)', furnished: '1052 (4) a1' });
+    });
+
+    test('should return null for sizes without a pay item', () => {
+      expect(getDPWHPilingItems('bored', 0.75).installed).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * UNIT TESTS - Main Bar Detailing
+ * Testing hooks, development lengths and stock-length splices
+ */
+
+import {
+  calculateStandardHookLength,
+  calculateDevelopmentLength,
+  calculateSpliceCount,
+  calculateMainBarWeight,
+} from '../rebar';
+
+describe('Main Bar Detailing', () => {
+  test('should use 12Ø hooks and 20Ø (min 150mm) hooked development', () => {
+    expect(calculateStandardHookLength(16)).toBeCloseTo(0.192);
+    expect(calculateDevelopmentLength(16, true)).toBeCloseTo(0.32);
+    expect(calculateDevelopmentLength(6, true)).toBe(0.15);
+    expect(calculateDevelopmentLength(16, false)).toBeCloseTo(0.64);
+  });
+
+  test('should add one splice per stock-length interval', () => {
+    expect(calculateSpliceCount(11.5, 12, 0.6)).toBe(0);
+    expect(calculateSpliceCount(12.5, 12, 0.6)).toBe(1);
+    expect(calculateSpliceCount(23.4, 12, 0.6)).toBe(1); // 23.4 + 0.6 = 2 × 12
+    expect(calculateSpliceCount(23.5, 12, 0.6)).toBe(2);
+  });
+
+  test('should include development, hooks and splices in the bar length', () => {
+    const result = calculateMainBarWeight(16, 4, 14, {
+      start: { development: 0.32, hooked: true },
+      end: { development: 0.32, hooked: true },
+      stockLength: 12,
+      spliceLapLength: 0.6,
+    }, 0);
+
+    // 14 + 2 × 0.32 + 2 × 0.192 = 15.024m → 1 splice
+    expect(result.inputs.barLength).toBeCloseTo(15.024);
+    expect(result.inputs.spliceCount).toBe(1);
+    expect(result.weight).toBeCloseTo(4 * 15.624 * 1.578, 2);
+    expect(result.formulaText).toContain('0.32m + 0.32m development');
+    expect(result.formulaText).toContain('2 × 0.19m hook');
+    expect(result.formulaText).toContain('1 × 0.60m splice');
+  });
+
+  test('should leave unanchored ends plain', () => {
+    const result = calculateMainBarWeight(20, 8, 3, {
+      start: null,
+      end: { development: 0.6, hooked: false },
+      stockLength: 12,
+      spliceLapLength: 0.6,
+    }, 0.03);
+
+    expect(result.inputs.barLength).toBeCloseTo(3.6);
+    expect(result.inputs.startHook).toBe(0);
+    expect(result.formulaText).not.toContain('hook');
+  });
+});
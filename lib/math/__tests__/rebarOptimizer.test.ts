@@ -0,0 +1,119 @@
+/**
+ * UNIT TESTS - Rebar Cutting Stock
+ * Testing cut extraction, long-bar splicing and stock bar packing
+ */
+
+import {
+  extractRebarCuts,
+  splitLongCut,
+  optimizeDiameter,
+  optimizeCuttingStock,
+} from '../rebarOptimizer';
+import type { TakeoffLine } from '@/types';
+
+describe('Rebar Cutting Stock', () => {
+  describe('extractRebarCuts', () => {
+    test('should read bar length, lap and count from rebar lines only', () => {
+      const lines: TakeoffLine[] = [
+        {
+          id: 'tof_b1_rebar_main',
+          sourceElementId: 'b1',
+          trade: 'Rebar',
+          resourceKey: 'rebar-16mm',
+          quantity: 0,
+          unit: 'kg',
+          formulaText: '',
+          inputsSnapshot: { barDiameter: 16, barLength: 6, barCount: 4, lapLength: 0.64 },
+          assumptions: [],
+          tags: [],
+        },
+        {
+          id: 'tof_b1_concrete',
+          sourceElementId: 'b1',
+          trade: 'Concrete',
+          resourceKey: 'concrete-class-a',
+          quantity: 1,
+          unit: 'm³',
+          formulaText: '',
+          inputsSnapshot: { width: 0.3 },
+          assumptions: [],
+          tags: [],
+        },
+      ];
+
+      const cuts = extractRebarCuts(lines);
+      expect(cuts).toHaveLength(1);
+      expect(cuts[0].length).toBeCloseTo(6.64);
+      expect(cuts[0].count).toBe(4);
+    });
+
+    test('should split spliced main bars into equal pieces', () => {
+      const cuts = extractRebarCuts([
+        {
+          id: 'tof_b2_rebar_main',
+          sourceElementId: 'b2',
+          trade: 'Rebar',
+          resourceKey: 'rebar-16mm',
+          quantity: 0,
+          unit: 'kg',
+          formulaText: '',
+          inputsSnapshot: { barDiameter: 16, barLength: 15, barCount: 2, lapLength: 0.6, spliceCount: 1 },
+          assumptions: [],
+          tags: [],
+        },
+      ]);
+
+      expect(cuts[0].length).toBeCloseTo(7.8);
+      expect(cuts[0].count).toBe(4);
+    });
+  });
+
+  describe('splitLongCut', () => {
+    test('should splice cuts longer than the longest stock with a 40Ø lap', () => {
+      // 20m of 16mm: 12m + (20 - 12 + 0.64) = 8.64m
+      expect(splitLongCut(20000, 16, 12000)).toEqual([12000, 8640]);
+    });
+
+    test('should keep short cuts whole', () => {
+      expect(splitLongCut(4000, 16, 12000)).toEqual([4000]);
+    });
+  });
+
+  describe('optimizeDiameter', () => {
+    test('should pair cuts into one stock bar and downsize the stock length', () => {
+      const plan = optimizeDiameter(12, [{ diameter: 12, length: 4.4, count: 2 }]);
+
+      // 2 × 4.4 = 8.8m fits a 9m bar
+      expect(plan.stockBars).toEqual([{ length: 9, count: 1 }]);
+      expect(plan.offcutLength).toBeCloseTo(0.2);
+      expect(plan.wastePercent).toBeCloseTo(0.0227, 4);
+    });
+
+    test('should open a new bar when a cut does not fit', () => {
+      const plan = optimizeDiameter(16, [{ diameter: 16, length: 7, count: 3 }]);
+
+      expect(plan.cutCount).toBe(3);
+      expect(plan.stockBars).toEqual([{ length: 7.5, count: 3 }]);
+      expect(plan.orderedLength).toBe(22.5);
+    });
+
+    test('should respect a restricted stock list', () => {
+      const plan = optimizeDiameter(10, [{ diameter: 10, length: 2, count: 3 }], [6]);
+      expect(plan.stockBars).toEqual([{ length: 6, count: 1 }]);
+      expect(plan.wastePercent).toBe(0);
+    });
+  });
+
+  describe('optimizeCuttingStock', () => {
+    test('should plan each diameter separately', () => {
+      const plan = optimizeCuttingStock([
+        { diameter: 16, length: 6, count: 2 },
+        { diameter: 10, length: 3, count: 4 },
+      ]);
+
+      expect(plan.diameters.map(d => d.diameter)).toEqual([10, 16]);
+      expect(plan.diameters[0].stockBars).toEqual([{ length: 12, count: 1 }]);
+      expect(plan.diameters[1].stockBars).toEqual([{ length: 12, count: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * UNIT TESTS - Slab Outlines
+ * Testing polygon area, openings, bar runs and edge formwork
+ */
+
+import {
+  calculateSlabOutline,
+  calculateSlabBarRuns,
+  calculateSlabOutlineFormwork,
+} from '../slabOutline';
+import type { PolygonBoundary } from '@/types';
+
+// 8 × 6 with a 4 × 2 notch out of the top-right corner
+const lShape: PolygonBoundary = { points: [[0, 0], [8, 0], [8, 4], [4, 4], [4, 6], [0, 6]] };
+const stairWell: PolygonBoundary = { points: [[1, 1], [3, 1], [3, 3], [1, 3]] };
+
+describe('Slab Outlines', () => {
+  test('should compute area and edges of an L-shaped outline less openings', () => {
+    const geometry = calculateSlabOutline(lShape, [stairWell]);
+
+    expect(geometry.grossArea).toBeCloseTo(40);
+    expect(geometry.openingArea).toBeCloseTo(4);
+    expect(geometry.netArea).toBeCloseTo(36);
+    expect(geometry.outerEdgeLength).toBeCloseTo(28);
+    expect(geometry.openingEdgeLength).toBeCloseTo(8);
+    expect(geometry.xMax).toBe(8);
+    expect(geometry.yMax).toBe(6);
+  });
+
+  test('should reject openings outside the outline', () => {
+    const outside: PolygonBoundary = { points: [[5, 5], [7, 5], [7, 5.5]] };
+    expect(() => calculateSlabOutline(lShape, [outside])).toThrow('not inside the slab outline');
+  });
+
+  test('should cut bar runs at the outline and openings', () => {
+    const square: PolygonBoundary = { points: [[0, 0], [4, 0], [4, 4], [0, 4]] };
+    const well: PolygonBoundary = { points: [[1, 0.5], [3, 0.5], [3, 3.5], [1, 3.5]] };
+    const runs = calculateSlabBarRuns(square, [well], 'X', 1);
+
+    // Lines at y = 0..4; y = 1, 2, 3 cross the well (x 1-3) and split in two
+    expect(runs.lineCount).toBe(5);
+    expect(runs.pieces).toHaveLength(8);
+    expect(runs.totalLength).toBeCloseTo(2 * 4 + 3 * 2);
+    expect(runs.longestPiece).toBeCloseTo(4);
+  });
+
+  test('should follow the notch of an L-shaped outline', () => {
+    const runs = calculateSlabBarRuns(lShape, [], 'X', 1, 0.02);
+
+    // Lines from y 0.02 to 5.98: below y 4 the bars run 8m, above they run 4m
+    expect(runs.lineCount).toBe(6);
+    expect(runs.pieces.filter(p => p > 7)).toHaveLength(4);
+    expect(runs.pieces.filter(p => p < 4)).toHaveLength(2);
+    expect(runs.longestPiece).toBeCloseTo(7.96);
+  });
+
+  test('should form soffit and opening edges for slabs, all edges for mats', () => {
+    const geometry = calculateSlabOutline(lShape, [stairWell]);
+
+    expect(calculateSlabOutlineFormwork(geometry, 0.15, 'slab').area).toBeCloseTo(36 + 8 * 0.15);
+    expect(calculateSlabOutlineFormwork(geometry, 0.5, 'mat').area).toBeCloseTo((28 + 8) * 0.5);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * UNIT TESTS - Slab Support
+ * Testing bedding, vapour barrier and compaction on grade, and shoring for suspended slabs
+ */
+
+import {
+  calculateGravelBedding,
+  calculateVapourBarrier,
+  calculateSubgradeCompaction,
+  calculateSlabShoring,
+} from '../slabSupport';
+
+describe('Slab Support', () => {
+  test('should size gravel bedding from area and thickness', () => {
+    expect(calculateGravelBedding(24, 0.1).quantity).toBeCloseTo(2.4);
+    expect(calculateGravelBedding(24, 0.1, 0.05).quantity).toBeCloseTo(2.52);
+  });
+
+  test('should add laps to the poly sheet', () => {
+    expect(calculateVapourBarrier(24).quantity).toBeCloseTo(26.4);
+  });
+
+  test('should compact the ground to the default depth', () => {
+    expect(calculateSubgradeCompaction(24).quantity).toBeCloseTo(3.6);
+  });
+
+  test('should count shores at spacing each way', () => {
+    const shoring = calculateSlabShoring(24, 2.88);
+
+    // 24 ÷ 1.44 = 16.7 → 17 shores
+    expect(shoring.quantity).toBe(17);
+    expect(shoring.inputs.area).toBeCloseTo(24);
+  });
+
+  test('should reject a slab without area', () => {
+    expect(() => calculateGravelBedding(0, 0.1)).toThrow('Slab area must be positive');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * UNIT TESTS - Stairs
+ * Testing step layout, concrete volume and formwork area
+ */
+
+import {
+  calculateStairGeometry,
+  calculateStairConcrete,
+  calculateStairFormwork,
+  type StairInput,
+} from '../stairs';
+
+const input: StairInput = {
+  riser: 0.175,
+  tread: 0.28,
+  width: 1.2,
+  waistThickness: 0.15,
+  flights: 2,
+  landingLength: 1.2,
+  landingWidth: 1.2,
+  totalRise: 3.0,
+};
+
+describe('Stairs', () => {
+  test('should fit risers to the level-to-level rise', () => {
+    const geometry = calculateStairGeometry(input);
+
+    expect(geometry.riserCount).toBe(18);
+    expect(geometry.riserHeight).toBeCloseTo(0.1667, 4);
+    expect(geometry.landingCount).toBe(1);
+    expect(geometry.flights.map(f => f.risers)).toEqual([9, 9]);
+    expect(geometry.flights[0].treads).toBe(8);
+    expect(geometry.flights[0].going).toBeCloseTo(2.24);
+    expect(geometry.flights[0].slopeLength).toBeCloseTo(Math.sqrt(2.24 ** 2 + 1.5 ** 2));
+  });
+
+  test('should put the extra riser in the first flight', () => {
+    const geometry = calculateStairGeometry({ ...input, totalRise: 3.15, riser: 0.166 });
+
+    expect(geometry.riserCount).toBe(19);
+    expect(geometry.flights.map(f => f.risers)).toEqual([10, 9]);
+  });
+
+  test('should reject stairs without enough risers for their flights', () => {
+    expect(() => calculateStairGeometry({ ...input, totalRise: 0.3 })).toThrow('cannot form');
+    expect(() => calculateStairGeometry({ ...input, landingLength: 0 })).toThrow('Landings');
+  });
+
+  test('should sum waist, steps and landings', () => {
+    const geometry = calculateStairGeometry(input);
+    const concrete = calculateStairConcrete(input, geometry, 0.05);
+
+    const slope = 2 * Math.sqrt(2.24 ** 2 + 1.5 ** 2);
+    const expected = slope * 0.15 * 1.2 + 16 * 0.5 * (3 / 18) * 0.28 * 1.2 + 1.2 * 1.2 * 0.15;
+    expect(concrete.volume).toBeCloseTo(expected);
+    expect(concrete.volumeWithWaste).toBeCloseTo(expected * 1.05);
+  });
+
+  test('should form soffit, landings and riser faces', () => {
+    const geometry = calculateStairGeometry(input);
+    const formwork = calculateStairFormwork(input, geometry);
+
+    const slope = 2 * Math.sqrt(2.24 ** 2 + 1.5 ** 2);
+    expect(formwork.area).toBeCloseTo(slope * 1.2 + 1.44 + 18 * (3 / 18) * 1.2);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * UNIT TESTS - Structure Excavation
+ * Testing pit volumes with working space and side slopes, and backfill
+ */
+
+import { calculateStructureExcavation, calculateStructureBackfill } from '../structureExcavation';
+
+describe('Structure Excavation', () => {
+  test('should add working space around a footing with vertical sides', () => {
+    // 2 × 2 footing, 1.5m pit: (2 + 2 × 0.3)² × 1.5
+    const pit = calculateStructureExcavation({ area: 4, perimeter: 8, depth: 1.5 });
+
+    expect(pit.quantity).toBeCloseTo(10.14);
+    expect(pit.inputs.bottomArea).toBeCloseTo(6.76);
+  });
+
+  test('should match the prismoidal formula for sloped sides', () => {
+    // Bottom 2.6 × 2.6, top 4.1 × 4.1, mid 3.35 × 3.35
+    const pit = calculateStructureExcavation({ area: 4, perimeter: 8, depth: 1.5, sideSlope: 0.5 });
+    const prismoidal = (1.5 / 6) * (2.6 * 2.6 + 4 * 3.35 * 3.35 + 4.1 * 4.1);
+
+    expect(pit.quantity).toBeCloseTo(prismoidal);
+    expect(pit.inputs.topArea).toBeCloseTo(16.81);
+  });
+
+  test('should excavate the bare plan without working space', () => {
+    const pit = calculateStructureExcavation({ area: 3, perimeter: 8, depth: 2, workingSpace: 0 });
+
+    expect(pit.quantity).toBeCloseTo(6);
+  });
+
+  test('should backfill what the concrete and bedding leave', () => {
+    // 0.5m thick footing and 0.1m bedding under a 2 × 2 plan
+    const backfill = calculateStructureBackfill(10.14, 4 * 0.5 + 4 * 0.1);
+
+    expect(backfill.quantity).toBeCloseTo(7.74);
+  });
+
+  test('should reject pits without depth and oversized buried volumes', () => {
+    expect(() => calculateStructureExcavation({ area: 4, perimeter: 8, depth: 0 })).toThrow('depth must be positive');
+    expect(() => calculateStructureBackfill(2, 3)).toThrow('exceeds the excavation');
+  });
+});
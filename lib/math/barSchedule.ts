@@ -0,0 +1,141 @@
+/**
+ * BAR BENDING SCHEDULE
+ * Pure math functions for bar shapes, cut lengths and schedule totals
+ * Dimensions and cut lengths in millimeters (mm), totals in meters (m) and kilograms (kg)
+ */
+
+import type {
+  BarShapeCode,
+  BarBendingScheduleEntry,
+  BarBendingScheduleDiameterTotal,
+  BarBendingSchedule,
+} from '@/types';
+import { getRebarWeightPerMeter } from './rebar';
+
+export const SHAPE_CODE_DESCRIPTIONS: Record<BarShapeCode, string> = {
+  '00': 'Straight',
+  '21': 'U-bar (90° hooks both ends)',
+  '51': 'Closed link (135° hooks)',
+};
+
+// Standard 90° hook extension: 12Ø
+export const STANDARD_HOOK_FACTOR = 12;
+// Stirrup/tie 135° seismic hook extension: 10Ø, minimum 75 mm
+export const STIRRUP_HOOK_FACTOR = 10;
+export const STIRRUP_HOOK_MIN_MM = 75;
+// Bend deductions: 2Ø per 90° bend, 3Ø per 135° bend
+export const BEND_DEDUCTION_90 = 2;
+export const BEND_DEDUCTION_135 = 3;
+
+export interface BarShapeOutput {
+  shapeCode: BarShapeCode;
+  dimensions: Record<string, number>; // mm
+  cutLength: number; // mm
+}
+
+/**
+ * Shape 00 - straight bar
+ * Cut length = A
+ */
+export function calculateStraightBar(lengthMm: number): BarShapeOutput {
+  if (lengthMm <= 0) {
+    throw new Error('Bar length must be positive');
+  }
+
+  return {
+    shapeCode: '00',
+    dimensions: { A: Math.round(lengthMm) },
+    cutLength: Math.round(lengthMm),
+  };
+}
+
+/**
+ * Shape 21 - U-bar with standard 90° hooks at both ends
+ * A = C = 12Ø, Cut length = A + B + C - 2 × 2Ø
+ */
+export function calculateHookedBar(straightMm: number, diameter: number): BarShapeOutput {
+  if (straightMm <= 0) {
+    throw new Error('Bar length must be positive');
+  }
+
+  const hook = STANDARD_HOOK_FACTOR * diameter;
+  const cutLength = hook + straightMm + hook - 2 * BEND_DEDUCTION_90 * diameter;
+
+  return {
+    shapeCode: '21',
+    dimensions: { A: Math.round(hook), B: Math.round(straightMm), C: Math.round(hook) },
+    cutLength: Math.round(cutLength),
+  };
+}
+
+/**
+ * Shape 51 - closed stirrup/tie with 135° hooks
+ * A × B out-to-out, Cut length = 2(A + B) + 2 × hook - 3 × 2Ø - 2 × 3Ø
+ */
+export function calculateStirrupBar(widthMm: number, heightMm: number, diameter: number): BarShapeOutput {
+  if (widthMm <= 0 || heightMm <= 0) {
+    throw new Error('Stirrup dimensions must be positive');
+  }
+
+  const hook = Math.max(STIRRUP_HOOK_FACTOR * diameter, STIRRUP_HOOK_MIN_MM);
+  const cutLength = 2 * (widthMm + heightMm) + 2 * hook
+    - 3 * BEND_DEDUCTION_90 * diameter
+    - 2 * BEND_DEDUCTION_135 * diameter;
+
+  return {
+    shapeCode: '51',
+    dimensions: { A: Math.round(widthMm), B: Math.round(heightMm), hook: Math.round(hook) },
+    cutLength: Math.round(cutLength),
+  };
+}
+
+/**
+ * Quantities for one schedule row
+ * Total length = cut length × bars per member × member count
+ */
+export function calculateScheduleQuantities(
+  diameter: number,
+  cutLengthMm: number,
+  barsPerMember: number,
+  memberCount: number = 1
+): { totalBars: number; totalLength: number; weight: number } {
+  const totalBars = barsPerMember * memberCount;
+  const totalLength = (cutLengthMm / 1000) * totalBars;
+  const weight = totalLength * getRebarWeightPerMeter(diameter);
+
+  return {
+    totalBars,
+    totalLength: Math.round(totalLength * 100) / 100,
+    weight: Math.round(weight * 100) / 100,
+  };
+}
+
+/**
+ * Total schedule rows per bar diameter (ascending)
+ */
+export function summarizeBarSchedule(entries: BarBendingScheduleEntry[]): BarBendingSchedule {
+  const byDiameter: Record<number, BarBendingScheduleDiameterTotal> = {};
+
+  for (const entry of entries) {
+    if (!byDiameter[entry.diameter]) {
+      byDiameter[entry.diameter] = { diameter: entry.diameter, totalBars: 0, totalLength: 0, weight: 0 };
+    }
+    byDiameter[entry.diameter].totalBars += entry.totalBars;
+    byDiameter[entry.diameter].totalLength += entry.totalLength;
+    byDiameter[entry.diameter].weight += entry.weight;
+  }
+
+  const totalsByDiameter = Object.values(byDiameter)
+    .sort((a, b) => a.diameter - b.diameter)
+    .map(t => ({
+      ...t,
+      totalLength: Math.round(t.totalLength * 100) / 100,
+      weight: Math.round(t.weight * 100) / 100,
+    }));
+
+  return {
+    entries,
+    totalsByDiameter,
+    totalWeight: Math.round(totalsByDiameter.reduce((sum, t) => sum + t.weight, 0) * 100) / 100,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * BEAM SPANS
+ * Pure functions for beam plan geometry: grid spans with end offsets, and explicit end points
+ * All coordinates and lengths in meters (m)
+ *
+ * A beam runs along a grid line between two grids. End offsets extend the
+ * beam past its start/end grid (+, cantilever) or stop it short (−); a line
+ * offset moves it off the grid line for secondary beams between grids.
+ * Ends projecting past the grid are free: they are formed across the beam
+ * section and the bars stop with a hook instead of anchoring into a support.
+ */
+
+import type { BeamOffsets } from '@/types';
+
+type Point = [number, number];
+
+export interface BeamSpan {
+  start: Point;
+  end: Point;
+  length: number;
+  alongX: boolean | null; // null for beams skewed to the grid
+  freeStart: boolean; // cantilever tip at the start
+  freeEnd: boolean; // cantilever tip at the end
+}
+
+/**
+ * Beam on a grid line span, with optional end and line offsets
+ * @param alongX - true when the span runs along X (gridRef ["A-B", "1"])
+ * @param spanStart - offset of the start grid of the span
+ * @param spanEnd - offset of the end grid of the span
+ * @param line - offset of the grid line the beam runs on
+ */
+export function calculateBeamSpan(
+  alongX: boolean,
+  spanStart: number,
+  spanEnd: number,
+  line: number,
+  offsets: BeamOffsets = {}
+): BeamSpan {
+  const startOffset = offsets.start || 0;
+  const endOffset = offsets.end || 0;
+  const direction = spanEnd >= spanStart ? 1 : -1;
+  const a = spanStart - direction * startOffset;
+  const b = spanEnd + direction * endOffset;
+
+  if ((b - a) * direction <= 0) {
+    throw new Error('Beam end offsets leave no beam length');
+  }
+
+  const beamLine = line + (offsets.line || 0);
+  return {
+    start: alongX ? [a, beamLine] : [beamLine, a],
+    end: alongX ? [b, beamLine] : [beamLine, b],
+    length: Math.abs(b - a),
+    alongX,
+    freeStart: startOffset > 0,
+    freeEnd: endOffset > 0,
+  };
+}
+
+/**
+ * Beam between explicit plan points
+ * An end is free when it lies outside the grid (beyond the outermost grid lines)
+ */
+export function calculateBeamSpanFromPoints(
+  start: Point,
+  end: Point,
+  gridXOffsets: number[],
+  gridYOffsets: number[]
+): BeamSpan {
+  const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+  if (length <= 0) {
+    throw new Error('Beam start and end points must differ');
+  }
+
+  const tolerance = 1e-6;
+  const isOutsideGrid = ([x, y]: Point): boolean =>
+    (gridXOffsets.length > 0 && (x < Math.min(...gridXOffsets) - tolerance || x > Math.max(...gridXOffsets) + tolerance)) ||
+    (gridYOffsets.length > 0 && (y < Math.min(...gridYOffsets) - tolerance || y > Math.max(...gridYOffsets) + tolerance));
+
+  const alongX = Math.abs(end[1] - start[1]) < tolerance
+    ? true
+    : Math.abs(end[0] - start[0]) < tolerance ? false : null;
+
+  return {
+    start,
+    end,
+    length,
+    alongX,
+    freeStart: isOutsideGrid(start),
+    freeEnd: isOutsideGrid(end),
+  };
+}
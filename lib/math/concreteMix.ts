@@ -0,0 +1,118 @@
+/**
+ * CONCRETE MIX MATERIALS
+ * Pure math functions converting concrete volume into cement, sand, gravel and water
+ * Volumes in cubic meters (m³), cement in 40 kg bags, water in liters
+ */
+
+import type {
+  ConcreteClass,
+  ConcreteMixDesign,
+  ConcreteMaterialLine,
+  ConcreteMaterialsTotal,
+  ConcreteMaterialsReport,
+} from '@/types';
+
+export const CEMENT_BAG_KG = 40;
+
+/**
+ * Nominal mix proportions per m³ of concrete (40 kg cement bags)
+ */
+export const CONCRETE_MIX_TABLE: Record<ConcreteClass, ConcreteMixDesign> = {
+  AA: { concreteClass: 'AA', proportion: '1:1.5:3', cementBagsPerM3: 12.0, sandPerM3: 0.50, gravelPerM3: 1.00, waterCementRatio: 0.40 },
+  A: { concreteClass: 'A', proportion: '1:2:4', cementBagsPerM3: 9.0, sandPerM3: 0.50, gravelPerM3: 1.00, waterCementRatio: 0.50 },
+  B: { concreteClass: 'B', proportion: '1:2.5:5', cementBagsPerM3: 7.5, sandPerM3: 0.50, gravelPerM3: 1.00, waterCementRatio: 0.55 },
+  C: { concreteClass: 'C', proportion: '1:3:6', cementBagsPerM3: 6.0, sandPerM3: 0.50, gravelPerM3: 1.00, waterCementRatio: 0.60 },
+};
+
+export interface ConcreteMaterialsOutput {
+  cementBags: number;
+  sand: number; // m³
+  gravel: number; // m³
+  water: number; // liters
+  formulaText: string;
+  inputs: Record<string, number>;
+}
+
+/**
+ * Resolve the concrete class from a DPWH item
+ * The description is checked first ("Structural Concrete Class B ..."),
+ * then the Item 900 sub-item: (1) Class A, (2) Class B, (3) Class C.
+ * Returns null when the class cannot be derived (e.g., Class P, lean concrete)
+ */
+export function resolveConcreteClass(dpwhItemNumber: string, description?: string): ConcreteClass | null {
+  const classMatch = description?.match(/\bClass\s+(AA|A|B|C)\b/i);
+  if (classMatch) {
+    return classMatch[1].toUpperCase() as ConcreteClass;
+  }
+
+  const itemMatch = dpwhItemNumber.replace(/\s+/g, '').match(/^900\((\d+)\)/);
+  if (!itemMatch) return null;
+
+  switch (itemMatch[1]) {
+    case '1': return 'A';
+    case '2': return 'B';
+    case '3': return 'C';
+    default: return null;
+  }
+}
+
+/**
+ * Calculate mix materials for a concrete volume
+ * Cement = V × bags/m³, Sand = V × sand/m³, Gravel = V × gravel/m³
+ * Water = cement (kg) × w/c ratio (1 kg = 1 liter)
+ */
+export function calculateConcreteMaterials(volume: number, mix: ConcreteMixDesign): ConcreteMaterialsOutput {
+  if (volume < 0) {
+    throw new Error('Concrete volume cannot be negative');
+  }
+
+  const cementBags = volume * mix.cementBagsPerM3;
+  const sand = volume * mix.sandPerM3;
+  const gravel = volume * mix.gravelPerM3;
+  const water = cementBags * CEMENT_BAG_KG * mix.waterCementRatio;
+
+  const formulaText = `Class ${mix.concreteClass} (${mix.proportion}): ` +
+    `Cement = ${volume.toFixed(3)} × ${mix.cementBagsPerM3} = ${cementBags.toFixed(2)} bags; ` +
+    `Sand = ${volume.toFixed(3)} × ${mix.sandPerM3} = ${sand.toFixed(3)} m³; ` +
+    `Gravel = ${volume.toFixed(3)} × ${mix.gravelPerM3} = ${gravel.toFixed(3)} m³; ` +
+    `Water = ${cementBags.toFixed(2)} × ${CEMENT_BAG_KG} kg × ${mix.waterCementRatio} = ${water.toFixed(1)} L`;
+
+  return {
+    cementBags: Math.round(cementBags * 100) / 100,
+    sand: Math.round(sand * 1000) / 1000,
+    gravel: Math.round(gravel * 1000) / 1000,
+    water: Math.round(water * 10) / 10,
+    formulaText,
+    inputs: {
+      volume,
+      cementBagsPerM3: mix.cementBagsPerM3,
+      sandPerM3: mix.sandPerM3,
+      gravelPerM3: mix.gravelPerM3,
+      waterCementRatio: mix.waterCementRatio,
+    },
+  };
+}
+
+/**
+ * Total material lines by class and overall
+ * Cement is rounded up to whole bags for purchasing
+ */
+export function summarizeConcreteMaterials(lines: ConcreteMaterialLine[]): ConcreteMaterialsReport {
+  const total = (concreteClass: ConcreteClass | 'ALL', subset: ConcreteMaterialLine[]): ConcreteMaterialsTotal => ({
+    concreteClass,
+    concreteVolume: Math.round(subset.reduce((sum, l) => sum + l.concreteVolume, 0) * 1000) / 1000,
+    cementBags: Math.max(0, Math.ceil(subset.reduce((sum, l) => sum + l.cementBags, 0) - 1e-9)),
+    sand: Math.round(subset.reduce((sum, l) => sum + l.sand, 0) * 1000) / 1000,
+    gravel: Math.round(subset.reduce((sum, l) => sum + l.gravel, 0) * 1000) / 1000,
+    water: Math.round(subset.reduce((sum, l) => sum + l.water, 0) * 10) / 10,
+  });
+
+  const classes = (Object.keys(CONCRETE_MIX_TABLE) as ConcreteClass[])
+    .filter(c => lines.some(l => l.concreteClass === c));
+
+  return {
+    lines,
+    totalsByClass: classes.map(c => total(c, lines.filter(l => l.concreteClass === c))),
+    grandTotal: total('ALL', lines),
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * REINFORCED CONCRETE WALLS
+ * Pure functions for RC, shear, retaining and basement walls: concrete, formwork and wall bars
+ * All lengths in meters (m), volumes in m³, areas in m², weights in kg
+ *
+ * A wall runs along a grid line span between two levels. Openings are
+ * deducted from concrete, both formwork faces and the bars that cross them;
+ * opening reveals (jambs, head and sill) are formed across the wall thickness.
+ */
+
+import type { MasonryWallOpening, RebarOutput } from '@/types';
+import type { ConcreteOutput } from './concrete';
+import type { FormworkOutput } from './formwork';
+import { calculateBarCount, getRebarWeightPerMeter } from './rebar';
+
+/**
+ * Concrete cover to wall bars (m)
+ */
+export const WALL_COVER = 0.04;
+
+/**
+ * Bar layers (curtains) when a wall template does not set one
+ */
+export const DEFAULT_WALL_LAYERS = 2;
+
+export interface ConcreteWallInput {
+  length: number; // along the grid line span
+  height: number; // level to level
+  thickness: number;
+  openings: MasonryWallOpening[];
+}
+
+export interface WallBarInput {
+  diameter: number; // mm
+  spacing: number; // center-to-center, m
+  barLength: number; // one bar before openings (vertical: wall height, horizontal: wall length)
+  distributionLength: number; // extent the bars are spaced across
+  openingArea: number; // bars crossing openings are cut back by area ÷ spacing
+  layers: number; // 1 = single curtain, 2 = each face
+  lapLength: number; // total laps added to each bar, m
+  spliceCount?: number; // splices within each bar (pieces − 1), for cutting stock
+  waste?: number;
+}
+
+/**
+ * Total area of wall openings (m²)
+ */
+export function calculateWallOpeningArea(openings: MasonryWallOpening[]): number {
+  return openings.reduce((sum, o) => sum + o.width_m * o.height_m * o.qty, 0);
+}
+
+function getNetWallArea(input: ConcreteWallInput): { grossArea: number; openingArea: number; netArea: number } {
+  const { length, height, thickness, openings } = input;
+
+  if (length <= 0 || height <= 0 || thickness <= 0) {
+    throw new Error('Wall length, height and thickness must be positive');
+  }
+  for (const opening of openings) {
+    if (opening.width_m <= 0 || opening.height_m <= 0 || opening.qty < 1) {
+      throw new Error('Wall openings need a positive width, height and quantity');
+    }
+  }
+
+  const grossArea = length * height;
+  const openingArea = calculateWallOpeningArea(openings);
+  if (openingArea >= grossArea) {
+    throw new Error(`Openings (${openingArea.toFixed(2)} m²) exceed wall area (${grossArea.toFixed(2)} m²)`);
+  }
+
+  return { grossArea, openingArea, netArea: grossArea - openingArea };
+}
+
+/**
+ * Concrete for a wall
+ * Volume = (length × height − openings) × thickness
+ */
+export function calculateWallConcrete(input: ConcreteWallInput, waste: number): ConcreteOutput {
+  if (waste < 0 || waste > 1) {
+    throw new Error('Waste must be between 0 and 1');
+  }
+
+  const { length, height, thickness } = input;
+  const { grossArea, openingArea, netArea } = getNetWallArea(input);
+  const volume = netArea * thickness;
+  const volumeWithWaste = volume * (1 + waste);
+
+  const openingText = openingArea > 0 ? ` − ${openingArea.toFixed(2)}m² openings` : '';
+  const formulaText = `(${length.toFixed(2)}m × ${height.toFixed(2)}m${openingText}) × ${thickness}m = ${volume.toFixed(3)} m³ ` +
+    `(+ ${(waste * 100).toFixed(0)}% waste = ${volumeWithWaste.toFixed(3)} m³)`;
+
+  return {
+    volume,
+    volumeWithWaste,
+    formulaText,
+    inputs: { length, height, thickness, grossArea, openingArea, netArea, waste },
+  };
+}
+
+/**
+ * Formwork for a wall
+ * Both faces = 2 × (length × height − openings), Reveals = Σ opening perimeter × thickness
+ * (wall ends are assumed to stop against columns)
+ */
+export function calculateWallFormwork(input: ConcreteWallInput): FormworkOutput {
+  const { thickness, openings } = input;
+  const { openingArea, netArea } = getNetWallArea(input);
+
+  const faceArea = 2 * netArea;
+  const revealArea = openings.reduce((sum, o) => sum + 2 * (o.width_m + o.height_m) * thickness * o.qty, 0);
+  const totalArea = faceArea + revealArea;
+
+  const revealText = revealArea > 0 ? ` + Reveals ${revealArea.toFixed(3)}m²` : '';
+  const formulaText = `2 faces × ${netArea.toFixed(3)}m²${revealText} = ${totalArea.toFixed(3)} m²`;
+
+  return {
+    area: totalArea,
+    formulaText,
+    inputs: { netArea, openingArea, faceArea, revealArea },
+  };
+}
+
+/**
+ * Weight of one direction of wall bars
+ * Total length = layers × (bar count × (bar length + laps) − opening area ÷ spacing)
+ */
+export function calculateWallBars(input: WallBarInput): RebarOutput {
+  const { diameter, spacing, barLength, distributionLength, openingArea, layers, lapLength, spliceCount = 0, waste = 0.03 } = input;
+
+  if (spacing <= 0) {
+    throw new Error('Wall bar spacing must be positive');
+  }
+  if (!Number.isInteger(layers) || layers < 1) {
+    throw new Error('Wall bar layers must be a positive whole number');
+  }
+
+  const weightPerMeter = getRebarWeightPerMeter(diameter);
+  const barCount = calculateBarCount(distributionLength, spacing);
+  const openingDeduction = openingArea / spacing;
+  const lengthPerLayer = barCount * (barLength + lapLength) - openingDeduction;
+  const totalLength = layers * lengthPerLayer;
+  const weight = totalLength * weightPerMeter * (1 + waste);
+
+  const lapText = lapLength > 0 ? ` + ${lapLength.toFixed(2)}m lap` : '';
+  const openingText = openingDeduction > 0 ? ` − ${openingArea.toFixed(2)}m² ÷ ${spacing}m openings` : '';
+  const wasteText = waste > 0 ? ` × (1 + ${(waste * 100).toFixed(0)}% waste)` : '';
+  const formulaText = `${layers} layer(s) × (${barCount} bars × (${barLength.toFixed(2)}m${lapText})${openingText}) × ` +
+    `${weightPerMeter.toFixed(3)} kg/m${wasteText} = ${weight.toFixed(2)} kg`;
+
+  return {
+    weight,
+    formulaText,
+    inputs: {
+      barDiameter: diameter,
+      barLength,
+      barCount: barCount * layers,
+      lapLength,
+      spliceCount,
+      spacing,
+      distributionLength,
+      openingArea,
+      openingDeduction,
+      layers,
+      totalLength,
+      waste,
+      weightPerMeter,
+    },
+  };
+}
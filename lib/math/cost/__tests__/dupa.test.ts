@@ -0,0 +1,106 @@
+/**
+ * UNIT TESTS - Detailed Unit Price Analysis
+ * Testing DUPA breakdown (A to K) and BOQ pricing from DUPA
+ */
+
+import { computeDUPA, applyDUPAs } from '../dupa';
+import type { BOQLine, DUPA } from '@/types';
+
+describe('Cost Estimation - DUPA', () => {
+  const concreteDUPA: DUPA = {
+    id: 'dupa1',
+    dpwhItemNumberRaw: '900 (1) a',
+    description: 'Structural Concrete, Class A',
+    unit: 'Cubic Meter',
+    outputPerDay: 10,
+    labor: [
+      { designation: 'Foreman', noOfPersons: 1, noOfHours: 8, hourlyRate: 100 },
+      { designation: 'Laborer', noOfPersons: 5, noOfHours: 8, hourlyRate: 60 },
+    ],
+    equipment: [
+      { description: 'Concrete Mixer', noOfUnits: 1, noOfHours: 8, hourlyRate: 150 },
+    ],
+    materials: [
+      { description: 'Portland Cement', unit: 'bag', quantity: 9, unitCost: 250 },
+      { description: 'Sand', unit: 'm³', quantity: 0.5, unitCost: 1200 },
+    ],
+    ocmPercent: 0.15,
+    profitPercent: 0.10,
+    vatPercent: 0.12,
+    currency: 'PHP',
+  };
+
+  describe('computeDUPA', () => {
+    test('should divide labor and equipment by daily output', () => {
+      const result = computeDUPA(concreteDUPA);
+
+      expect(result.laborCostPerDay).toBe(3200); // 800 + 2400
+      expect(result.equipmentCostPerDay).toBe(1200);
+      expect(result.laborEquipmentCostPerDay).toBe(4400);
+      expect(result.laborEquipmentUnitCost).toBe(440); // 4400 / 10
+    });
+
+    test('should add materials per unit and apply markups', () => {
+      const result = computeDUPA(concreteDUPA);
+
+      expect(result.materialUnitCost).toBe(2850); // 9×250 + 0.5×1200
+      expect(result.directUnitCost).toBe(3290);
+      expect(result.ocmAmount).toBe(493.5);
+      expect(result.profitAmount).toBe(329);
+      expect(result.vatAmount).toBe(493.5); // 12% × 4112.5
+      expect(result.totalUnitCost).toBe(4606);
+    });
+
+    test('should use markup overrides from the project schedule', () => {
+      const result = computeDUPA(concreteDUPA, { ocmPercent: 0.12, profitPercent: 0.08, vatPercent: 0.12 });
+
+      expect(result.ocmAmount).toBe(394.8); // 12% × 3290
+      expect(result.profitAmount).toBe(263.2); // 8% × 3290
+    });
+
+    test('should reject zero output when labor is costed', () => {
+      expect(() => computeDUPA({ ...concreteDUPA, outputPerDay: 0 })).toThrow(
+        'output per day must be greater than zero'
+      );
+    });
+  });
+
+  describe('applyDUPAs', () => {
+    const boqLines: BOQLine[] = [
+      {
+        id: 'boq_1',
+        dpwhItemNumberRaw: '900 (1) a',
+        description: 'Structural Concrete, Class A',
+        unit: 'Cubic Meter',
+        quantity: 2.5,
+        sourceTakeoffLineIds: [],
+        tags: [],
+        unitCost: 1000,
+        amount: 2500,
+        priceSource: 'Price book',
+      },
+      {
+        id: 'boq_2',
+        dpwhItemNumberRaw: '903 (1)',
+        description: 'Formworks',
+        unit: 'Square Meter',
+        quantity: 10,
+        sourceTakeoffLineIds: [],
+        tags: [],
+      },
+    ];
+
+    test('should override price book rates with the DUPA direct unit cost', () => {
+      const priced = applyDUPAs(boqLines, [concreteDUPA]);
+
+      expect(priced[0].unitCost).toBe(3290);
+      expect(priced[0].amount).toBe(8225); // 2.5 × 3290
+      expect(priced[0].priceSource).toBe('DUPA');
+    });
+
+    test('should leave lines without a DUPA unchanged', () => {
+      const priced = applyDUPAs(boqLines, [concreteDUPA]);
+      expect(priced[1]).toEqual(boqLines[1]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * UNIT TESTS - Indirect Cost Markups
+ * Testing bracket resolution and OCM/profit/contingency/VAT roll-up
+ */
+
+import { resolveBracketPercent, computeMarkups, DEFAULT_MARKUP_SCHEDULE } from '../markups';
+import type { MarkupSchedule } from '@/types';
+
+describe('Cost Estimation - Markups', () => {
+  describe('resolveBracketPercent', () => {
+    test('should pick the bracket the direct cost falls in', () => {
+      expect(resolveBracketPercent(DEFAULT_MARKUP_SCHEDULE.ocmBrackets, 1_000_000)).toBe(0.15);
+      expect(resolveBracketPercent(DEFAULT_MARKUP_SCHEDULE.ocmBrackets, 5_000_000)).toBe(0.15);
+      expect(resolveBracketPercent(DEFAULT_MARKUP_SCHEDULE.ocmBrackets, 5_000_001)).toBe(0.12);
+      expect(resolveBracketPercent(DEFAULT_MARKUP_SCHEDULE.ocmBrackets, 200_000_000)).toBe(0.08);
+    });
+
+    test('should not depend on bracket order', () => {
+      const brackets = [
+        { upTo: null, percent: 0.05 },
+        { upTo: 100, percent: 0.2 },
+      ];
+      expect(resolveBracketPercent(brackets, 50)).toBe(0.2);
+      expect(resolveBracketPercent(brackets, 150)).toBe(0.05);
+    });
+  });
+
+  describe('computeMarkups', () => {
+    test('should apply OCM, profit and VAT on a direct cost', () => {
+      const result = computeMarkups(1_000_000);
+
+      expect(result.ocmAmount).toBe(150_000);
+      expect(result.profitAmount).toBe(100_000);
+      expect(result.contingencyAmount).toBe(0);
+      expect(result.vatAmount).toBe(150_000); // 12% × 1,250,000
+      expect(result.totalEstimatedCost).toBe(1_400_000);
+    });
+
+    test('should include contingency in the VAT base', () => {
+      const schedule: MarkupSchedule = { ...DEFAULT_MARKUP_SCHEDULE, contingencyPercent: 0.05 };
+      const result = computeMarkups(1_000_000, schedule);
+
+      expect(result.contingencyAmount).toBe(50_000);
+      expect(result.vatAmount).toBe(156_000); // 12% × 1,300,000
+      expect(result.totalEstimatedCost).toBe(1_456_000);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * UNIT TESTS - Price Book
+ * Testing BOQ pricing and DPWH Part cost roll-up
+ */
+
+import { findPriceEntry, applyPriceBook, summarizeBOQCost } from '../priceBook';
+import type { BOQLine, PriceBookEntry } from '@/types';
+
+describe('Cost Estimation - Price Book', () => {
+  const priceBook: PriceBookEntry[] = [
+    {
+      id: 'p1',
+      dpwhItemNumberRaw: '900 (1) a',
+      unitCost: 6500,
+      currency: 'PHP',
+      source: '2024 price data',
+      effectiveDate: new Date('2024-01-01'),
+    },
+    {
+      id: 'p2',
+      dpwhItemNumberRaw: '900 (1) a',
+      unitCost: 7200,
+      currency: 'PHP',
+      source: '2025 price data',
+      effectiveDate: new Date('2025-01-01'),
+    },
+    {
+      id: 'p3',
+      dpwhItemNumberRaw: '1013 (2)',
+      unitCost: 850,
+      currency: 'PHP',
+      source: 'Supplier quote',
+      effectiveDate: new Date('2025-03-01'),
+    },
+  ];
+
+  const boqLines: BOQLine[] = [
+    {
+      id: 'boq_1',
+      dpwhItemNumberRaw: '900 (1) a',
+      description: 'Structural Concrete, Class A',
+      unit: 'Cubic Meter',
+      quantity: 12.5,
+      sourceTakeoffLineIds: ['t1'],
+      tags: ['trade:Concrete'],
+    },
+    {
+      id: 'boq_2',
+      dpwhItemNumberRaw: '1013(2)',
+      description: 'Corrugated Metal Roofing',
+      unit: 'Square Meter',
+      quantity: 100,
+      sourceTakeoffLineIds: ['t2'],
+      tags: ['trade:Roofing'],
+    },
+    {
+      id: 'boq_3',
+      dpwhItemNumberRaw: '903 (1)',
+      description: 'Formworks and Falseworks',
+      unit: 'Square Meter',
+      quantity: 40,
+      sourceTakeoffLineIds: ['t3'],
+      tags: ['trade:Formwork'],
+    },
+  ];
+
+  describe('findPriceEntry', () => {
+    test('should pick the latest entry effective on or before the date', () => {
+      const entry = findPriceEntry(priceBook, '900 (1) a', new Date('2025-06-01'));
+      expect(entry?.unitCost).toBe(7200);
+    });
+
+    test('should ignore entries not yet effective', () => {
+      const entry = findPriceEntry(priceBook, '900 (1) a', new Date('2024-06-01'));
+      expect(entry?.unitCost).toBe(6500);
+    });
+
+    test('should match item numbers regardless of spacing', () => {
+      const entry = findPriceEntry(priceBook, '1013(2)', new Date('2025-06-01'));
+      expect(entry?.id).toBe('p3');
+    });
+  });
+
+  describe('applyPriceBook', () => {
+    test('should compute amount as quantity × unit cost', () => {
+      const priced = applyPriceBook(boqLines, priceBook, new Date('2025-06-01'));
+
+      expect(priced[0].unitCost).toBe(7200);
+      expect(priced[0].amount).toBe(90000); // 12.5 × 7200
+      expect(priced[0].priceSource).toBe('2025 price data');
+      expect(priced[1].amount).toBe(85000); // 100 × 850
+    });
+
+    test('should leave lines without an entry unpriced', () => {
+      const priced = applyPriceBook(boqLines, priceBook, new Date('2025-06-01'));
+
+      expect(priced[2].unitCost).toBeUndefined();
+      expect(priced[2].amount).toBeUndefined();
+    });
+  });
+
+  describe('summarizeBOQCost', () => {
+    test('should subtotal by DPWH Part in Part order', () => {
+      const priced = applyPriceBook(boqLines, priceBook, new Date('2025-06-01'));
+      const summary = summarizeBOQCost(priced);
+
+      expect(summary.partSubtotals.map(p => p.part)).toEqual([
+        'PART D: CONCRETE WORKS',
+        'PART E: FINISHING WORKS',
+      ]);
+      expect(summary.partSubtotals[0].amount).toBe(90000);
+      expect(summary.grandTotal).toBe(175000);
+      expect(summary.currency).toBe('PHP');
+    });
+
+    test('should report unpriced items', () => {
+      const priced = applyPriceBook(boqLines, priceBook, new Date('2025-06-01'));
+      const summary = summarizeBOQCost(priced);
+
+      expect(summary.pricedLineCount).toBe(2);
+      expect(summary.unpricedLineCount).toBe(1);
+      expect(summary.unpricedItems).toEqual(['903 (1)']);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * COST ESTIMATION - DETAILED UNIT PRICE ANALYSIS (DUPA)
+ * Pure deterministic functions following the DPWH DUPA sheet layout
+ * No database access, no side effects
+ */
+
+import type { BOQLine, DUPA, DUPABreakdown } from '@/types';
+import { normalizeItemNumber, roundAmount, DEFAULT_CURRENCY } from './priceBook';
+
+export const DEFAULT_DUPA_MARKUPS = {
+  ocmPercent: 0.15,
+  profitPercent: 0.10,
+  vatPercent: 0.12,
+};
+
+/**
+ * Compute the DUPA breakdown (items A to K of the DPWH form)
+ * - A/B: labor and equipment cost per day
+ * - E: (A + B) / output per day
+ * - F: materials per unit of pay item
+ * - H/I: OCM and profit on the direct unit cost
+ * - J: VAT on direct cost + OCM + profit
+ * Markup overrides let the sheet follow the project markup schedule
+ */
+export function computeDUPA(
+  dupa: DUPA,
+  markups?: { ocmPercent: number; profitPercent: number; vatPercent: number }
+): DUPABreakdown {
+  const ocmPercent = markups?.ocmPercent ?? dupa.ocmPercent ?? 0;
+  const profitPercent = markups?.profitPercent ?? dupa.profitPercent ?? 0;
+  const vatPercent = markups?.vatPercent ?? dupa.vatPercent ?? 0;
+
+  const laborCostPerDay = dupa.labor.reduce(
+    (sum, l) => sum + l.noOfPersons * l.noOfHours * l.hourlyRate,
+    0
+  );
+  const equipmentCostPerDay = dupa.equipment.reduce(
+    (sum, e) => sum + e.noOfUnits * e.noOfHours * e.hourlyRate,
+    0
+  );
+  const laborEquipmentCostPerDay = laborCostPerDay + equipmentCostPerDay;
+
+  const outputPerDay = dupa.outputPerDay > 0 ? dupa.outputPerDay : 0;
+  if (laborEquipmentCostPerDay > 0 && outputPerDay === 0) {
+    throw new Error(`DUPA for ${dupa.dpwhItemNumberRaw}: output per day must be greater than zero`);
+  }
+  const laborEquipmentUnitCost = outputPerDay > 0 ? laborEquipmentCostPerDay / outputPerDay : 0;
+
+  const materialUnitCost = dupa.materials.reduce((sum, m) => sum + m.quantity * m.unitCost, 0);
+
+  const directUnitCost = laborEquipmentUnitCost + materialUnitCost;
+  const ocmAmount = directUnitCost * ocmPercent;
+  const profitAmount = directUnitCost * profitPercent;
+  const vatAmount = (directUnitCost + ocmAmount + profitAmount) * vatPercent;
+
+  return {
+    laborCostPerDay: roundAmount(laborCostPerDay),
+    equipmentCostPerDay: roundAmount(equipmentCostPerDay),
+    laborEquipmentCostPerDay: roundAmount(laborEquipmentCostPerDay),
+    outputPerDay,
+    laborEquipmentUnitCost: roundAmount(laborEquipmentUnitCost),
+    materialUnitCost: roundAmount(materialUnitCost),
+    directUnitCost: roundAmount(directUnitCost),
+    ocmAmount: roundAmount(ocmAmount),
+    profitAmount: roundAmount(profitAmount),
+    vatAmount: roundAmount(vatAmount),
+    totalUnitCost: roundAmount(directUnitCost + ocmAmount + profitAmount + vatAmount),
+  };
+}
+
+/**
+ * Find the DUPA for a DPWH item
+ */
+export function findDUPA(dupas: DUPA[], dpwhItemNumberRaw: string): DUPA | undefined {
+  const key = normalizeItemNumber(dpwhItemNumberRaw);
+  return dupas.find(d => normalizeItemNumber(d.dpwhItemNumberRaw) === key);
+}
+
+/**
+ * Price BOQ lines from their DUPA
+ * Lines carry the direct unit cost (G); indirect costs are applied once
+ * to the BOQ total by the project markup schedule.
+ * DUPA-derived unit costs take precedence over price book rates;
+ * lines without a DUPA are returned unchanged
+ */
+export function applyDUPAs(boqLines: BOQLine[], dupas: DUPA[]): BOQLine[] {
+  return boqLines.map(line => {
+    const dupa = findDUPA(dupas, line.dpwhItemNumberRaw);
+    if (!dupa) return line;
+
+    const { directUnitCost } = computeDUPA(dupa);
+    return {
+      ...line,
+      unitCost: directUnitCost,
+      amount: roundAmount(line.quantity * directUnitCost),
+      currency: dupa.currency || DEFAULT_CURRENCY,
+      priceSource: 'DUPA',
+      priceEffectiveDate: dupa.updatedAt ? new Date(dupa.updatedAt) : undefined,
+    };
+  });
+}
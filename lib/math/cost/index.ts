@@ -0,0 +1,27 @@
+/**
+ * COST ESTIMATION - MATH LAYER
+ * Pure deterministic functions for pricing and cost roll-ups
+ * Export all math functions from this module
+ */
+
+export {
+  DEFAULT_CURRENCY,
+  normalizeItemNumber,
+  roundAmount,
+  findPriceEntry,
+  applyPriceBook,
+  summarizeBOQCost,
+} from './priceBook';
+
+export {
+  DEFAULT_DUPA_MARKUPS,
+  computeDUPA,
+  findDUPA,
+  applyDUPAs,
+} from './dupa';
+
+export {
+  DEFAULT_MARKUP_SCHEDULE,
+  resolveBracketPercent,
+  computeMarkups,
+} from './markups';
@@ -0,0 +1,79 @@
+/**
+ * COST ESTIMATION - INDIRECT COST MARKUPS
+ * Pure deterministic functions for OCM, profit, contingency and VAT
+ * No database access, no side effects
+ */
+
+import type { MarkupBracket, MarkupSchedule, MarkupBreakdown } from '@/types';
+import { roundAmount } from './priceBook';
+
+/**
+ * Default sliding scale by estimated direct cost (EDC)
+ * Adjust per project in settings to match the governing department order
+ */
+export const DEFAULT_MARKUP_SCHEDULE: MarkupSchedule = {
+  ocmBrackets: [
+    { upTo: 5_000_000, percent: 0.15 },
+    { upTo: 50_000_000, percent: 0.12 },
+    { upTo: 150_000_000, percent: 0.10 },
+    { upTo: null, percent: 0.08 },
+  ],
+  profitBrackets: [
+    { upTo: 5_000_000, percent: 0.10 },
+    { upTo: 50_000_000, percent: 0.08 },
+    { upTo: 150_000_000, percent: 0.08 },
+    { upTo: null, percent: 0.08 },
+  ],
+  vatPercent: 0.12,
+  contingencyPercent: 0,
+};
+
+/**
+ * Resolve the percentage of the bracket the direct cost falls in
+ * The whole direct cost takes that bracket's rate (not a progressive tax)
+ */
+export function resolveBracketPercent(brackets: MarkupBracket[], directCost: number): number {
+  if (brackets.length === 0) return 0;
+
+  const sorted = [...brackets].sort((a, b) => {
+    if (a.upTo === null || a.upTo === undefined) return 1;
+    if (b.upTo === null || b.upTo === undefined) return -1;
+    return a.upTo - b.upTo;
+  });
+
+  const bracket = sorted.find(b => b.upTo === null || b.upTo === undefined || directCost <= b.upTo);
+  return (bracket || sorted[sorted.length - 1]).percent;
+}
+
+/**
+ * Apply the markup schedule to a total direct cost
+ * - OCM, profit and contingency are percentages of the direct cost
+ * - VAT is applied on direct cost + OCM + profit + contingency
+ */
+export function computeMarkups(
+  directCost: number,
+  schedule: MarkupSchedule = DEFAULT_MARKUP_SCHEDULE
+): MarkupBreakdown {
+  const ocmPercent = resolveBracketPercent(schedule.ocmBrackets, directCost);
+  const profitPercent = resolveBracketPercent(schedule.profitBrackets, directCost);
+  const contingencyPercent = schedule.contingencyPercent || 0;
+  const vatPercent = schedule.vatPercent || 0;
+
+  const ocmAmount = roundAmount(directCost * ocmPercent);
+  const profitAmount = roundAmount(directCost * profitPercent);
+  const contingencyAmount = roundAmount(directCost * contingencyPercent);
+  const vatAmount = roundAmount((directCost + ocmAmount + profitAmount + contingencyAmount) * vatPercent);
+
+  return {
+    directCost: roundAmount(directCost),
+    ocmPercent,
+    ocmAmount,
+    profitPercent,
+    profitAmount,
+    contingencyPercent,
+    contingencyAmount,
+    vatPercent,
+    vatAmount,
+    totalEstimatedCost: roundAmount(directCost + ocmAmount + profitAmount + contingencyAmount + vatAmount),
+  };
+}
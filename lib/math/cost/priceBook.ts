@@ -0,0 +1,135 @@
+/**
+ * COST ESTIMATION - PRICE BOOK
+ * Pure deterministic functions for pricing BOQ lines and rolling up costs
+ * No database access, no side effects
+ */
+
+import type { BOQLine, PriceBookEntry, BOQCostSummary, BOQPartSubtotal } from '@/types';
+import { classifyDPWHItem, sortDPWHParts } from '@/lib/dpwhClassification';
+
+export const DEFAULT_CURRENCY = 'PHP';
+
+/**
+ * Normalize a DPWH item number for matching
+ * "900 (1) a" and "900(1)a" resolve to the same key
+ */
+export function normalizeItemNumber(itemNumber: string): string {
+  return itemNumber.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Round a money value to centavos
+ */
+export function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Find the price book entry for a DPWH item
+ * When several entries exist, the latest effective date on or before asOf wins
+ */
+export function findPriceEntry(
+  priceBook: PriceBookEntry[],
+  dpwhItemNumberRaw: string,
+  asOf: Date = new Date()
+): PriceBookEntry | undefined {
+  const key = normalizeItemNumber(dpwhItemNumberRaw);
+  const asOfTime = asOf.getTime();
+
+  let best: PriceBookEntry | undefined;
+  let bestTime = -Infinity;
+
+  for (const entry of priceBook) {
+    if (normalizeItemNumber(entry.dpwhItemNumberRaw) !== key) continue;
+
+    const time = new Date(entry.effectiveDate).getTime();
+    if (isNaN(time) || time > asOfTime) continue;
+
+    if (time >= bestTime) {
+      best = entry;
+      bestTime = time;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply price book unit costs to BOQ lines
+ * Lines without a matching entry are returned unpriced
+ */
+export function applyPriceBook(
+  boqLines: BOQLine[],
+  priceBook: PriceBookEntry[],
+  asOf: Date = new Date()
+): BOQLine[] {
+  return boqLines.map(line => {
+    const entry = findPriceEntry(priceBook, line.dpwhItemNumberRaw, asOf);
+    if (!entry) {
+      return {
+        ...line,
+        unitCost: undefined,
+        amount: undefined,
+        currency: undefined,
+        priceSource: undefined,
+        priceEffectiveDate: undefined,
+      };
+    }
+
+    return {
+      ...line,
+      unitCost: entry.unitCost,
+      amount: roundAmount(line.quantity * entry.unitCost),
+      currency: entry.currency || DEFAULT_CURRENCY,
+      priceSource: entry.source,
+      priceEffectiveDate: new Date(entry.effectiveDate),
+    };
+  });
+}
+
+/**
+ * Roll up priced BOQ lines into DPWH Part subtotals and a grand total
+ * The category lookup is optional and only refines the Part label
+ */
+export function summarizeBOQCost(
+  boqLines: BOQLine[],
+  getCategory?: (dpwhItemNumberRaw: string) => string | undefined
+): BOQCostSummary {
+  const parts = new Map<string, BOQPartSubtotal>();
+  const unpricedItems: string[] = [];
+  let pricedLineCount = 0;
+  let currency: string | undefined;
+
+  for (const line of boqLines) {
+    if (line.amount === undefined || line.amount === null) {
+      unpricedItems.push(line.dpwhItemNumberRaw);
+      continue;
+    }
+
+    pricedLineCount++;
+    currency = currency || line.currency;
+
+    const { part, partName } = classifyDPWHItem(
+      line.dpwhItemNumberRaw,
+      getCategory?.(line.dpwhItemNumberRaw)
+    );
+
+    const subtotal = parts.get(part) || { part, partName, amount: 0, lineCount: 0 };
+    subtotal.amount += line.amount;
+    subtotal.lineCount++;
+    parts.set(part, subtotal);
+  }
+
+  const partSubtotals = Array.from(parts.values())
+    .map(p => ({ ...p, amount: roundAmount(p.amount) }))
+    .sort((a, b) => sortDPWHParts(a.part, b.part));
+
+  return {
+    currency: currency || DEFAULT_CURRENCY,
+    partSubtotals,
+    grandTotal: roundAmount(partSubtotals.reduce((sum, p) => sum + p.amount, 0)),
+    pricedLineCount,
+    unpricedLineCount: unpricedItems.length,
+    unpricedItems: Array.from(new Set(unpricedItems)),
+  };
+}
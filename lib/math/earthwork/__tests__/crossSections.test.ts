@@ -0,0 +1,60 @@
+/**
+ * UNIT TESTS - Earthwork Cross Sections
+ * Testing cut/fill areas from profiles, average end area and prismoidal volumes
+ */
+
+import { calculateSectionAreas, calculateEarthworkVolumes, validateEarthworkStation } from '../crossSections';
+import type { EarthworkStation, ProfilePoint } from '@/types';
+
+const flatGround: ProfilePoint[] = [[-10, 10], [10, 10]];
+
+// 6m formation with 1:1 side slopes cut into flat ground
+const cutStation = (id: string, chainage: number, depth: number): EarthworkStation => ({
+  id,
+  station: `0+${String(chainage).padStart(3, '0')}`,
+  chainage,
+  ground: flatGround,
+  design: [[-3 - depth, 10], [-3, 10 - depth], [3, 10 - depth], [3 + depth, 10]],
+});
+
+describe('Earthwork Cross Sections', () => {
+  test('should measure a trapezoidal cut', () => {
+    const areas = calculateSectionAreas(flatGround, cutStation('a', 0, 2).design);
+
+    // Top 10m, bottom 6m, 2m deep
+    expect(areas.cutArea).toBeCloseTo(16);
+    expect(areas.fillArea).toBeCloseTo(0);
+    expect(areas.width).toBeCloseTo(10);
+  });
+
+  test('should split cut and fill where the profiles cross', () => {
+    const areas = calculateSectionAreas([[-5, 9], [5, 11]], [[-5, 10], [5, 10]]);
+
+    expect(areas.cutArea).toBeCloseTo(2.5);
+    expect(areas.fillArea).toBeCloseTo(2.5);
+  });
+
+  test('should average end areas between stations', () => {
+    const volumes = calculateEarthworkVolumes([cutStation('b', 20, 4), cutStation('a', 0, 2)]);
+
+    // (16 + 40) / 2 × 20
+    expect(volumes.segments).toHaveLength(1);
+    expect(volumes.segments[0].fromStation).toBe('0+000');
+    expect(volumes.totalCut).toBeCloseTo(560);
+    expect(volumes.totalFill).toBeCloseTo(0);
+  });
+
+  test('should apply the prismoidal formula with an interpolated mid-section', () => {
+    const volumes = calculateEarthworkVolumes([cutStation('a', 0, 2), cutStation('b', 20, 4)], 'prismoidal');
+
+    // Mid-section 3m deep: (12 + 6) / 2 × 3 = 27; 20 / 6 × (16 + 4 × 27 + 40)
+    expect(volumes.segments[0].cutAreaMid).toBeCloseTo(27);
+    expect(volumes.totalCut).toBeCloseTo(546.667, 2);
+  });
+
+  test('should reject profiles out of order or apart', () => {
+    expect(validateEarthworkStation({ station: '0+000', chainage: 0, ground: [[5, 10], [0, 10]], design: flatGround }).errors)
+      .toContain('Ground profile offsets must increase left to right');
+    expect(() => calculateSectionAreas([[-10, 10], [-5, 10]], [[0, 9], [5, 9]])).toThrow('do not overlap');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * UNIT TESTS - Mass Haul
+ * Testing mass ordinates, shrinkage and swell, free haul, overhaul, borrow and waste
+ */
+
+import { calculateMassHaul, type MassHaulSegmentInput } from '../massHaul';
+
+const segment = (from: number, cutVolume: number, fillVolume: number): MassHaulSegmentInput => ({
+  fromStation: `0+${String(from).padStart(3, '0')}`,
+  toStation: `0+${String(from + 100).padStart(3, '0')}`,
+  fromChainage: from,
+  toChainage: from + 100,
+  cutVolume,
+  fillVolume,
+});
+
+describe('Mass Haul', () => {
+  const cutThenFill = [segment(0, 200, 0), segment(100, 0, 90), segment(200, 0, 150)];
+
+  test('should accumulate compacted cut less fill as mass ordinates', () => {
+    const haul = calculateMassHaul(cutThenFill, { shrinkage: 0.1, freeHaulDistance: 150 });
+
+    expect(haul.ordinates.map(o => o.ordinate)).toEqual([0, 180, 90, -60]);
+    expect(haul.ordinates[3].chainage).toBe(300);
+  });
+
+  test('should haul free within the free-haul distance and charge overhaul beyond it', () => {
+    const haul = calculateMassHaul(cutThenFill, { shrinkage: 0.1, freeHaulDistance: 150 });
+
+    // 90 m³ carried 100m (free), 90 m³ carried 200m (50m overhaul)
+    expect(haul.freeHaulVolume).toBeCloseTo(90);
+    expect(haul.overhaulVolume).toBeCloseTo(90);
+    expect(haul.overhaul).toBeCloseTo(4500);
+    expect(haul.averageOverhaulDistance).toBeCloseTo(50);
+    expect(haul.segments[2].overhaul).toBeCloseTo(4500);
+  });
+
+  test('should borrow the deficit left after balancing', () => {
+    const haul = calculateMassHaul(cutThenFill, { shrinkage: 0.1, freeHaulDistance: 150 });
+
+    expect(haul.fillFromCut).toBeCloseTo(180);
+    expect(haul.borrow).toBeCloseTo(60);
+    expect(haul.segments[2].borrow).toBeCloseTo(60);
+    expect(haul.waste).toBeCloseTo(0);
+  });
+
+  test('should waste surplus cut in bank and loose measure after side haul', () => {
+    const haul = calculateMassHaul([segment(0, 50, 30), segment(100, 50, 0)], { shrinkage: 0, swell: 0.25 });
+
+    expect(haul.segments[0].sideHaul).toBeCloseTo(30);
+    expect(haul.waste).toBeCloseTo(70);
+    expect(haul.wasteLoose).toBeCloseTo(87.5);
+    expect(haul.borrow).toBeCloseTo(0);
+  });
+
+  test('should reject shrinkage of 100% or more', () => {
+    expect(() => calculateMassHaul(cutThenFill, { shrinkage: 1 })).toThrow('Shrinkage');
+  });
+});
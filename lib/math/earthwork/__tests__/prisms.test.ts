@@ -0,0 +1,60 @@
+/**
+ * UNIT TESTS - Earthwork Pits and Prisms
+ * Testing pit and embankment prism volumes with and without side slopes
+ */
+
+import { calculatePitVolume, calculatePrismVolume, validateEarthworkPit } from '../prisms';
+import type { EarthworkPit, EmbankmentPrism } from '@/types';
+
+const pit: EarthworkPit = {
+  id: 'p1',
+  description: 'Septic tank',
+  dpwhItem: '803 (1) a',
+  length: 3,
+  width: 2,
+  depth: 1.5,
+  count: 2,
+};
+
+const prism: EmbankmentPrism = {
+  id: 'e1',
+  description: 'Platform',
+  dpwhItem: '804 (1) a',
+  length: 20,
+  width: 4,
+  height: 1,
+  count: 1,
+};
+
+describe('Earthwork Pits and Prisms', () => {
+  test('should give a vertical-sided pit as L × W × D × count', () => {
+    const result = calculatePitVolume(pit);
+
+    expect(result.quantity).toBeCloseTo(18);
+    expect(result.inputs.volumeEach).toBeCloseTo(9);
+  });
+
+  test('should widen a sloped pit towards the ground (frustum)', () => {
+    const result = calculatePitVolume({ ...pit, count: 1, depth: 1, sideSlope: 0.5 });
+
+    // Bottom 3×2, top 4×3, 1m deep: h/6 × (6 + 4 × 3.5 × 2.5 + 12) = 8.833
+    expect(result.quantity).toBeCloseTo(8.8333, 3);
+  });
+
+  test('should give an embankment prism with a trapezoidal section', () => {
+    expect(calculatePrismVolume(prism).quantity).toBeCloseTo(80);
+
+    // 4m top, 1:1.5 sides, 1m high: (4 + 1.5) × 1 = 5.5 m²
+    const sloped = calculatePrismVolume({ ...prism, sideSlope: 1.5 });
+    expect(sloped.inputs.sectionArea).toBeCloseTo(5.5);
+    expect(sloped.quantity).toBeCloseTo(110);
+  });
+
+  test('should reject missing dimensions and fractional counts', () => {
+    const validation = validateEarthworkPit({ ...pit, depth: 0, count: 1.5 });
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toHaveLength(2);
+    expect(() => calculatePitVolume({ ...pit, depth: 0 })).toThrow('depth must be positive');
+  });
+});
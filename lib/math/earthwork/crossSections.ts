@@ -0,0 +1,270 @@
+/**
+ * EARTHWORK CROSS SECTIONS
+ * Pure functions for cut/fill areas of surveyed cross sections and the volumes between stations
+ * Offsets, elevations and chainages in meters (m), areas in m², volumes in m³
+ *
+ * Each station carries two profiles across the alignment as [offset, elevation]
+ * points, left to right: the existing ground and the design (formation with its
+ * side slopes). Ground above design is cut, ground below design is fill; only
+ * the width both profiles cover is measured, so the design should run out to
+ * its catch points. Volumes between stations use the average end area method
+ * or the prismoidal formula with a mid-section interpolated from both ends.
+ *
+ * Architecture: PURE - no side effects, 100% deterministic, fully testable
+ */
+
+import type { ProfilePoint, EarthworkStation, EarthworkVolumeMethod } from '@/types';
+
+/**
+ * Default DPWH items for cross-section volumes (selectable per project)
+ * - Cut: Item 803 (2) a Building Excavation, Common Soil
+ * - Fill: Item 804 (1) a Embankment from Roadway/Structure Excavation, Common Soil
+ */
+export const DEFAULT_CROSS_SECTION_DPWH_ITEMS = {
+  excavation: '803 (2) a',
+  embankment: '804 (1) a',
+} as const;
+
+export interface SectionAreas {
+  cutArea: number; // m²
+  fillArea: number; // m²
+  width: number; // measured width where both profiles overlap (m)
+}
+
+export interface EarthworkSegment {
+  fromStation: string;
+  toStation: string;
+  fromChainage: number;
+  toChainage: number;
+  length: number;
+  cutArea1: number;
+  cutArea2: number;
+  fillArea1: number;
+  fillArea2: number;
+  cutAreaMid?: number; // prismoidal only
+  fillAreaMid?: number;
+  cutVolume: number;
+  fillVolume: number;
+  cutFormulaText: string;
+  fillFormulaText: string;
+}
+
+export interface EarthworkVolumes {
+  method: EarthworkVolumeMethod;
+  stations: Array<{ id: string; station: string; chainage: number } & SectionAreas>;
+  segments: EarthworkSegment[];
+  totalCut: number;
+  totalFill: number;
+}
+
+/**
+ * Validate a profile: at least two points with strictly increasing offsets
+ */
+export function validateProfile(profile: ProfilePoint[] | undefined, name: string): string[] {
+  if (!profile || profile.length < 2) {
+    return [`${name} profile needs at least 2 points`];
+  }
+  for (let i = 0; i < profile.length; i++) {
+    const [offset, elevation] = profile[i];
+    if (!Number.isFinite(offset) || !Number.isFinite(elevation)) {
+      return [`${name} profile point ${i + 1} must have a numeric offset and elevation`];
+    }
+    if (i > 0 && offset <= profile[i - 1][0]) {
+      return [`${name} profile offsets must increase left to right`];
+    }
+  }
+  return [];
+}
+
+/**
+ * Validate an earthwork station before saving
+ */
+export function validateEarthworkStation(station: Partial<EarthworkStation>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!station.station) {
+    errors.push('Station label is required');
+  }
+  if (typeof station.chainage !== 'number' || !Number.isFinite(station.chainage) || station.chainage < 0) {
+    errors.push('Chainage must be a non-negative number');
+  }
+
+  const profileErrors = [...validateProfile(station.ground, 'Ground'), ...validateProfile(station.design, 'Design')];
+  errors.push(...profileErrors);
+
+  if (profileErrors.length === 0 && station.ground && station.design) {
+    const left = Math.max(station.ground[0][0], station.design[0][0]);
+    const right = Math.min(station.ground[station.ground.length - 1][0], station.design[station.design.length - 1][0]);
+    if (right <= left) {
+      errors.push('Ground and design profiles do not overlap');
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Elevation of a profile at an offset (linear between points)
+ */
+export function interpolateProfile(profile: ProfilePoint[], offset: number): number {
+  if (offset <= profile[0][0]) return profile[0][1];
+  for (let i = 1; i < profile.length; i++) {
+    const [x1, z1] = profile[i - 1];
+    const [x2, z2] = profile[i];
+    if (offset <= x2) {
+      return z1 + ((z2 - z1) * (offset - x1)) / (x2 - x1);
+    }
+  }
+  return profile[profile.length - 1][1];
+}
+
+/**
+ * Cut and fill areas between ground and design
+ * The difference (ground − design) is linear between breakpoints, so each
+ * interval is a trapezoid, or two triangles where the profiles cross.
+ */
+export function calculateSectionAreas(ground: ProfilePoint[], design: ProfilePoint[]): SectionAreas {
+  const errors = [...validateProfile(ground, 'Ground'), ...validateProfile(design, 'Design')];
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  const left = Math.max(ground[0][0], design[0][0]);
+  const right = Math.min(ground[ground.length - 1][0], design[design.length - 1][0]);
+  if (right <= left) {
+    throw new Error('Ground and design profiles do not overlap');
+  }
+
+  const offsets = [...new Set([left, right, ...ground.map(p => p[0]), ...design.map(p => p[0])])]
+    .filter(x => x >= left && x <= right)
+    .sort((a, b) => a - b);
+  const depth = (x: number): number => interpolateProfile(ground, x) - interpolateProfile(design, x);
+
+  let cutArea = 0;
+  let fillArea = 0;
+  for (let i = 1; i < offsets.length; i++) {
+    const x1 = offsets[i - 1];
+    const x2 = offsets[i];
+    const d1 = depth(x1);
+    const d2 = depth(x2);
+
+    if (d1 >= 0 && d2 >= 0) {
+      cutArea += ((d1 + d2) / 2) * (x2 - x1);
+    } else if (d1 <= 0 && d2 <= 0) {
+      fillArea -= ((d1 + d2) / 2) * (x2 - x1);
+    } else {
+      // Profiles cross inside the interval
+      const crossing = x1 + ((x2 - x1) * d1) / (d1 - d2);
+      const a1 = (Math.abs(d1) * (crossing - x1)) / 2;
+      const a2 = (Math.abs(d2) * (x2 - crossing)) / 2;
+      if (d1 > 0) {
+        cutArea += a1;
+        fillArea += a2;
+      } else {
+        fillArea += a1;
+        cutArea += a2;
+      }
+    }
+  }
+
+  return { cutArea, fillArea, width: right - left };
+}
+
+/**
+ * Profile halfway between two stations
+ * Profiles with the same number of points are averaged point by point, so
+ * corresponding breaks (shoulders, toes, catch points) move linearly as in a
+ * true prismoid; otherwise elevations are averaged at every offset of either.
+ */
+export function interpolateMidProfile(a: ProfilePoint[], b: ProfilePoint[]): ProfilePoint[] {
+  if (a.length === b.length) {
+    return a.map(([x, z], i) => [(x + b[i][0]) / 2, (z + b[i][1]) / 2]);
+  }
+
+  const left = Math.max(a[0][0], b[0][0]);
+  const right = Math.min(a[a.length - 1][0], b[b.length - 1][0]);
+  const offsets = [...new Set([left, right, ...a.map(p => p[0]), ...b.map(p => p[0])])]
+    .filter(x => x >= left && x <= right)
+    .sort((x1, x2) => x1 - x2);
+  return offsets.map(x => [x, (interpolateProfile(a, x) + interpolateProfile(b, x)) / 2]);
+}
+
+/**
+ * Cut and fill volumes between consecutive stations
+ * - Average end area: V = L × (A₁ + A₂) / 2
+ * - Prismoidal: V = L / 6 × (A₁ + 4Aₘ + A₂), Aₘ from the interpolated mid-section
+ */
+export function calculateEarthworkVolumes(
+  stations: EarthworkStation[],
+  method: EarthworkVolumeMethod = 'average-end-area'
+): EarthworkVolumes {
+  if (stations.length < 2) {
+    throw new Error('At least 2 stations are needed to compute volumes');
+  }
+
+  const sorted = [...stations].sort((a, b) => a.chainage - b.chainage);
+  const sections = sorted.map(s => ({
+    id: s.id,
+    station: s.station,
+    chainage: s.chainage,
+    ...calculateSectionAreas(s.ground, s.design),
+  }));
+
+  const segments: EarthworkSegment[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const s1 = sections[i - 1];
+    const s2 = sections[i];
+    const length = s2.chainage - s1.chainage;
+    if (length <= 0) {
+      throw new Error(`Stations ${s1.station} and ${s2.station} share chainage ${s1.chainage}`);
+    }
+
+    let cutVolume: number;
+    let fillVolume: number;
+    let mid: SectionAreas | undefined;
+    let cutFormulaText: string;
+    let fillFormulaText: string;
+
+    if (method === 'prismoidal') {
+      mid = calculateSectionAreas(
+        interpolateMidProfile(sorted[i - 1].ground, sorted[i].ground),
+        interpolateMidProfile(sorted[i - 1].design, sorted[i].design)
+      );
+      cutVolume = (length / 6) * (s1.cutArea + 4 * mid.cutArea + s2.cutArea);
+      fillVolume = (length / 6) * (s1.fillArea + 4 * mid.fillArea + s2.fillArea);
+      cutFormulaText = `${length.toFixed(2)}m / 6 × (${s1.cutArea.toFixed(2)} + 4 × ${mid.cutArea.toFixed(2)} + ${s2.cutArea.toFixed(2)}) m² = ${cutVolume.toFixed(2)} m³`;
+      fillFormulaText = `${length.toFixed(2)}m / 6 × (${s1.fillArea.toFixed(2)} + 4 × ${mid.fillArea.toFixed(2)} + ${s2.fillArea.toFixed(2)}) m² = ${fillVolume.toFixed(2)} m³`;
+    } else {
+      cutVolume = (length * (s1.cutArea + s2.cutArea)) / 2;
+      fillVolume = (length * (s1.fillArea + s2.fillArea)) / 2;
+      cutFormulaText = `${length.toFixed(2)}m × (${s1.cutArea.toFixed(2)} + ${s2.cutArea.toFixed(2)}) / 2 m² = ${cutVolume.toFixed(2)} m³`;
+      fillFormulaText = `${length.toFixed(2)}m × (${s1.fillArea.toFixed(2)} + ${s2.fillArea.toFixed(2)}) / 2 m² = ${fillVolume.toFixed(2)} m³`;
+    }
+
+    segments.push({
+      fromStation: s1.station,
+      toStation: s2.station,
+      fromChainage: s1.chainage,
+      toChainage: s2.chainage,
+      length,
+      cutArea1: s1.cutArea,
+      cutArea2: s2.cutArea,
+      fillArea1: s1.fillArea,
+      fillArea2: s2.fillArea,
+      cutAreaMid: mid?.cutArea,
+      fillAreaMid: mid?.fillArea,
+      cutVolume,
+      fillVolume,
+      cutFormulaText,
+      fillFormulaText,
+    });
+  }
+
+  return {
+    method,
+    stations: sections,
+    segments,
+    totalCut: segments.reduce((sum, s) => sum + s.cutVolume, 0),
+    totalFill: segments.reduce((sum, s) => sum + s.fillVolume, 0),
+  };
+}
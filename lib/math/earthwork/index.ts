@@ -0,0 +1,8 @@
+/**
+ * EARTHWORK MODULE EXPORTS
+ * Pure math functions for earthwork calculations
+ */
+
+export * from './crossSections';
+export * from './massHaul';
+export * from './prisms';
@@ -0,0 +1,211 @@
+/**
+ * MASS HAUL
+ * Pure functions for balancing cut against fill along an alignment
+ * Chainages and distances in meters (m), volumes in m³, haul in m³·m
+ *
+ * Cut is measured in the bank and fill compacted in place. A bank cubic meter
+ * compacts to (1 − shrinkage) m³ of embankment and loosens to (1 + swell) m³
+ * in the truck. Mass ordinates accumulate compacted-equivalent cut less fill
+ * from the first station: a rising curve is cut, a falling curve is fill.
+ *
+ * Cut is first used to fill its own segment (side haul), then surplus is
+ * carried forward or back to deficits in chainage order, each segment's
+ * material treated as sitting at its mid-chainage. Material carried within the
+ * free-haul distance is free; beyond it, the extra distance is overhaul.
+ * Surplus left over is wasted, deficits left over are borrowed.
+ *
+ * Architecture: PURE - no side effects, 100% deterministic, fully testable
+ */
+
+/**
+ * Default shrinkage of common earth, bank to compacted (10%)
+ */
+export const DEFAULT_SHRINKAGE = 0.1;
+
+/**
+ * Default swell of common earth, bank to loose (25%)
+ */
+export const DEFAULT_SWELL = 0.25;
+
+/**
+ * Default free-haul distance (m); set per contract
+ */
+export const DEFAULT_FREE_HAUL_DISTANCE = 600;
+
+/**
+ * Default DPWH items for balancing lines (selectable per project)
+ * - Borrow: Item 804 (2) a Embankment from Borrow, Common Soil
+ * - Waste: Item 802 (2) Surplus Common Excavation, the cut not used as fill (billed instead of excavation)
+ */
+export const DEFAULT_MASS_HAUL_DPWH_ITEMS = {
+  borrow: '804 (2) a',
+  waste: '802 (2)',
+} as const;
+
+export interface MassHaulSegmentInput {
+  fromStation: string;
+  toStation: string;
+  fromChainage: number;
+  toChainage: number;
+  cutVolume: number; // bank m³
+  fillVolume: number; // compacted m³
+}
+
+export interface MassHaulOptions {
+  shrinkage?: number; // fraction lost bank → compacted
+  swell?: number; // fraction gained bank → loose
+  freeHaulDistance?: number; // m
+}
+
+export interface MassHaulSegment {
+  fromStation: string;
+  toStation: string;
+  cutVolume: number; // bank m³
+  fillVolume: number; // compacted m³
+  compactedCut: number; // cut × (1 − shrinkage)
+  sideHaul: number; // fill placed from the segment's own cut (compacted m³)
+  fillFromCut: number; // fill placed from any cut, incl. side haul (compacted m³)
+  borrow: number; // fill brought in from borrow (compacted m³)
+  waste: number; // surplus cut wasted (bank m³)
+  wasteLoose: number; // surplus cut wasted (loose m³)
+  overhaul: number; // m³·m beyond free haul, charged to the receiving segment
+}
+
+export interface MassOrdinate {
+  station: string;
+  chainage: number;
+  ordinate: number; // compacted m³
+}
+
+export interface MassHaulResult {
+  ordinates: MassOrdinate[];
+  segments: MassHaulSegment[];
+  shrinkage: number;
+  swell: number;
+  freeHaulDistance: number;
+  totalCut: number;
+  totalFill: number;
+  fillFromCut: number;
+  borrow: number;
+  waste: number;
+  wasteLoose: number;
+  freeHaulVolume: number; // compacted m³ moved within free haul (incl. side haul)
+  overhaulVolume: number; // compacted m³ moved beyond free haul
+  overhaul: number; // m³·m
+  averageOverhaulDistance: number; // m beyond free haul, per overhauled m³
+}
+
+/**
+ * Mass ordinates, balancing and haul for consecutive segments
+ */
+export function calculateMassHaul(segments: MassHaulSegmentInput[], options: MassHaulOptions = {}): MassHaulResult {
+  const shrinkage = options.shrinkage ?? DEFAULT_SHRINKAGE;
+  const swell = options.swell ?? DEFAULT_SWELL;
+  const freeHaulDistance = options.freeHaulDistance ?? DEFAULT_FREE_HAUL_DISTANCE;
+
+  if (shrinkage < 0 || shrinkage >= 1) {
+    throw new Error('Shrinkage must be from 0 to less than 1');
+  }
+  if (swell < 0) {
+    throw new Error('Swell cannot be negative');
+  }
+  if (freeHaulDistance < 0) {
+    throw new Error('Free-haul distance cannot be negative');
+  }
+  if (segments.length === 0) {
+    throw new Error('At least one segment is needed for a mass haul');
+  }
+
+  const sorted = [...segments].sort((a, b) => a.fromChainage - b.fromChainage);
+
+  // Mass ordinates at each station
+  const ordinates: MassOrdinate[] = [{ station: sorted[0].fromStation, chainage: sorted[0].fromChainage, ordinate: 0 }];
+  let ordinate = 0;
+  for (const segment of sorted) {
+    ordinate += segment.cutVolume * (1 - shrinkage) - segment.fillVolume;
+    ordinates.push({ station: segment.toStation, chainage: segment.toChainage, ordinate });
+  }
+
+  // Side haul within each segment, then net surplus and deficit
+  const results: MassHaulSegment[] = sorted.map(segment => {
+    const compactedCut = segment.cutVolume * (1 - shrinkage);
+    const sideHaul = Math.min(compactedCut, segment.fillVolume);
+    return {
+      fromStation: segment.fromStation,
+      toStation: segment.toStation,
+      cutVolume: segment.cutVolume,
+      fillVolume: segment.fillVolume,
+      compactedCut,
+      sideHaul,
+      fillFromCut: sideHaul,
+      borrow: 0,
+      waste: 0,
+      wasteLoose: 0,
+      overhaul: 0,
+    };
+  });
+  const surplus = results.map(r => r.compactedCut - r.sideHaul);
+  const deficit = results.map(r => r.fillVolume - r.sideHaul);
+  const position = sorted.map(s => (s.fromChainage + s.toChainage) / 2);
+
+  // Carry surplus to deficits in chainage order
+  let freeHaulVolume = results.reduce((sum, r) => sum + r.sideHaul, 0);
+  let overhaulVolume = 0;
+  let overhaul = 0;
+  let i = 0;
+  let j = 0;
+  const tolerance = 1e-9;
+  while (i < results.length && j < results.length) {
+    if (surplus[i] <= tolerance) {
+      i++;
+      continue;
+    }
+    if (deficit[j] <= tolerance) {
+      j++;
+      continue;
+    }
+
+    const amount = Math.min(surplus[i], deficit[j]);
+    const distance = Math.abs(position[j] - position[i]);
+    surplus[i] -= amount;
+    deficit[j] -= amount;
+    results[j].fillFromCut += amount;
+
+    if (distance <= freeHaulDistance) {
+      freeHaulVolume += amount;
+    } else {
+      overhaulVolume += amount;
+      overhaul += amount * (distance - freeHaulDistance);
+      results[j].overhaul += amount * (distance - freeHaulDistance);
+    }
+  }
+
+  // Leftovers: surplus is wasted (back to bank and loose measure), deficits borrowed
+  results.forEach((r, k) => {
+    const leftover = Math.max(surplus[k], 0);
+    r.waste = leftover / (1 - shrinkage);
+    r.wasteLoose = r.waste * (1 + swell);
+    r.borrow = Math.max(deficit[k], 0);
+  });
+
+  const total = (key: keyof MassHaulSegment): number =>
+    results.reduce((sum, r) => sum + (r[key] as number), 0);
+
+  return {
+    ordinates,
+    segments: results,
+    shrinkage,
+    swell,
+    freeHaulDistance,
+    totalCut: total('cutVolume'),
+    totalFill: total('fillVolume'),
+    fillFromCut: total('fillFromCut'),
+    borrow: total('borrow'),
+    waste: total('waste'),
+    wasteLoose: total('wasteLoose'),
+    freeHaulVolume,
+    overhaulVolume,
+    overhaul,
+    averageOverhaulDistance: overhaulVolume > 0 ? overhaul / overhaulVolume : 0,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * EARTHWORK PITS AND PRISMS
+ * Pure functions for dimensioned excavation pits and embankment prisms
+ * All lengths in meters (m), areas in m², volumes in m³
+ *
+ * For work not covered by modelled footings or surveyed stations: pits for
+ * septic tanks, manholes and the like, and embankment runs such as platforms
+ * and dikes. A pit is given by its bottom and widens towards the ground by the
+ * side slope on every side. A prism is given by its top width and widens
+ * towards its base by the side slope on both sides; its ends are vertical.
+ *
+ * Architecture: PURE - no side effects, 100% deterministic, fully testable
+ */
+
+import type { EarthworkPit, EmbankmentPrism } from '@/types';
+
+export interface PrismVolumeOutput {
+  quantity: number;
+  formulaText: string;
+  inputs: Record<string, number>;
+}
+
+function validateDimensions(
+  item: { description?: string; dpwhItem?: string; length?: number; width?: number; count?: number; sideSlope?: number },
+  height: number | undefined,
+  heightName: string
+): string[] {
+  const errors: string[] = [];
+  const positive = (value: number | undefined) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  if (!item.description) {
+    errors.push('Description is required');
+  }
+  if (!item.dpwhItem) {
+    errors.push('DPWH item is required');
+  }
+  if (!positive(item.length) || !positive(item.width) || !positive(height)) {
+    errors.push(`Length, width and ${heightName} must be positive`);
+  }
+  if (!Number.isInteger(item.count) || (item.count as number) < 1) {
+    errors.push('Count must be a whole number of at least 1');
+  }
+  if (item.sideSlope !== undefined && (!Number.isFinite(item.sideSlope) || item.sideSlope < 0)) {
+    errors.push('Side slope cannot be negative');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate an excavation pit before saving
+ */
+export function validateEarthworkPit(pit: Partial<EarthworkPit>): { valid: boolean; errors: string[] } {
+  const errors = validateDimensions(pit, pit.depth, 'depth');
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validate an embankment prism before saving
+ */
+export function validateEmbankmentPrism(prism: Partial<EmbankmentPrism>): { valid: boolean; errors: string[] } {
+  const errors = validateDimensions(prism, prism.height, 'height');
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Excavation volume of a pit
+ * The plan at height z above the bottom is offset by s·z on every side:
+ *   V = n × (L·W·h + (L + W)·s·h² + 4/3·s²·h³)
+ */
+export function calculatePitVolume(pit: EarthworkPit): PrismVolumeOutput {
+  const { length, width, depth, count } = pit;
+  const sideSlope = pit.sideSlope ?? 0;
+
+  const validation = validateEarthworkPit(pit);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  const h = depth;
+  const s = sideSlope;
+  const volumeEach = length * width * h + (length + width) * s * h * h + (4 / 3) * s * s * h * h * h;
+  const quantity = volumeEach * count;
+  const topLength = length + 2 * s * h;
+  const topWidth = width + 2 * s * h;
+
+  const pitText = s > 0
+    ? `${length.toFixed(2)}×${width.toFixed(2)}m bottom, ${topLength.toFixed(2)}×${topWidth.toFixed(2)}m top (${s.toFixed(2)}:1) × ${h.toFixed(2)}m deep`
+    : `${length.toFixed(2)} × ${width.toFixed(2)} × ${h.toFixed(2)}m`;
+
+  return {
+    quantity,
+    formulaText: `${count} × (${pitText}) = ${quantity.toFixed(3)} m³`,
+    inputs: { length, width, depth, count, sideSlope: s, volumeEach },
+  };
+}
+
+/**
+ * Embankment volume of a prism
+ * Trapezoidal section, top width W widening by s·H on each side at the base:
+ *   V = n × L × (W + s·H) × H
+ */
+export function calculatePrismVolume(prism: EmbankmentPrism): PrismVolumeOutput {
+  const { length, width, height, count } = prism;
+  const sideSlope = prism.sideSlope ?? 0;
+
+  const validation = validateEmbankmentPrism(prism);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  const sectionArea = (width + sideSlope * height) * height;
+  const volumeEach = length * sectionArea;
+  const quantity = volumeEach * count;
+  const baseWidth = width + 2 * sideSlope * height;
+
+  const sectionText = sideSlope > 0
+    ? `${sectionArea.toFixed(3)} m² section (${width.toFixed(2)}m top, ${baseWidth.toFixed(2)}m base × ${height.toFixed(2)}m)`
+    : `${width.toFixed(2)} × ${height.toFixed(2)}m`;
+
+  return {
+    quantity,
+    formulaText: `${count} × ${length.toFixed(2)}m × ${sectionText} = ${quantity.toFixed(3)} m³`,
+    inputs: { length, width, height, count, sideSlope, sectionArea, volumeEach },
+  };
+}
@@ -12,25 +12,30 @@ export interface FormworkOutput {
 
 /**
  * Calculate formwork area for a beam
- * Formwork needed: bottom + 2 sides (no top, as concrete is open)
+ * Formwork needed: bottom + 2 sides (no top, as concrete is open),
+ * plus the end face at each free (cantilever) end
  * 
  * @param width - Beam width in meters
  * @param height - Beam height in meters
  * @param length - Beam length in meters
+ * @param endFaces - Number of free ends formed across the section (0-2)
  * @returns Formwork area calculation result
  */
 export function calculateBeamFormwork(
   width: number,
   height: number,
-  length: number
+  length: number,
+  endFaces: number = 0
 ): FormworkOutput {
-  // Contact area = 2 sides + bottom
-  // Area = (2 × height × length) + (width × length)
+  // Contact area = 2 sides + bottom (+ free end faces)
+  // Area = (2 × height × length) + (width × length) + (endFaces × width × height)
   const sidesArea = 2 * height * length;
   const bottomArea = width * length;
-  const totalArea = sidesArea + bottomArea;
+  const endArea = endFaces * width * height;
+  const totalArea = sidesArea + bottomArea + endArea;
   
-  const formulaText = `(2 × ${height.toFixed(2)}m × ${length.toFixed(2)}m) + (${width.toFixed(2)}m × ${length.toFixed(2)}m) = ${totalArea.toFixed(3)} m²`;
+  const endText = endFaces > 0 ? ` + (${endFaces} × ${width.toFixed(2)}m × ${height.toFixed(2)}m)` : '';
+  const formulaText = `(2 × ${height.toFixed(2)}m × ${length.toFixed(2)}m) + (${width.toFixed(2)}m × ${length.toFixed(2)}m)${endText} = ${totalArea.toFixed(3)} m²`;
   
   return {
     area: totalArea,
@@ -41,6 +46,8 @@ export function calculateBeamFormwork(
       length,
       sidesArea,
       bottomArea,
+      endFaces,
+      endArea,
     },
   };
 }
@@ -0,0 +1,132 @@
+/**
+ * ELEMENT INTERSECTION DEDUCTIONS
+ * Pure math functions for overlapping concrete volumes at joints
+ * All inputs in meters, outputs in cubic meters (m³)
+ *
+ * Precedence: column > beam > slab
+ * - Columns keep their full level-to-level volume
+ * - Beams deduct the part inside columns
+ * - Slabs deduct the part inside columns or beams (counted once)
+ */
+
+export type IntersectingElementType = 'column' | 'beam' | 'slab';
+
+export const INTERSECTION_PRECEDENCE: Record<IntersectingElementType, number> = {
+  column: 3,
+  beam: 2,
+  slab: 1,
+};
+
+export interface ElementBox {
+  id: string; // ElementInstance id
+  type: IntersectingElementType;
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  zMin: number; // elevation (m)
+  zMax: number;
+}
+
+export interface IntersectionDeduction {
+  elementId: string;
+  elementType: IntersectingElementType;
+  volume: number; // m³ to deduct from the element
+  overlappingIds: string[]; // higher-precedence elements it overlaps
+  formulaText: string;
+}
+
+type Box = Pick<ElementBox, 'xMin' | 'xMax' | 'yMin' | 'yMax' | 'zMin' | 'zMax'>;
+
+/**
+ * Overlapping box of two boxes, or null when they only touch or are apart
+ */
+export function intersectBoxes(a: Box, b: Box): Box | null {
+  const box = {
+    xMin: Math.max(a.xMin, b.xMin),
+    xMax: Math.min(a.xMax, b.xMax),
+    yMin: Math.max(a.yMin, b.yMin),
+    yMax: Math.min(a.yMax, b.yMax),
+    zMin: Math.max(a.zMin, b.zMin),
+    zMax: Math.min(a.zMax, b.zMax),
+  };
+  const eps = 1e-9;
+  if (box.xMax - box.xMin <= eps || box.yMax - box.yMin <= eps || box.zMax - box.zMin <= eps) {
+    return null;
+  }
+  return box;
+}
+
+/**
+ * Volume of the union of boxes (coordinate compression)
+ * Each grid cell is counted once if any box covers it
+ */
+export function calculateUnionVolume(boxes: Box[]): number {
+  if (boxes.length === 0) return 0;
+
+  const unique = (values: number[]) => [...new Set(values)].sort((a, b) => a - b);
+  const xs = unique(boxes.flatMap(b => [b.xMin, b.xMax]));
+  const ys = unique(boxes.flatMap(b => [b.yMin, b.yMax]));
+  const zs = unique(boxes.flatMap(b => [b.zMin, b.zMax]));
+
+  let volume = 0;
+  for (let i = 0; i < xs.length - 1; i++) {
+    const cx = (xs[i] + xs[i + 1]) / 2;
+    for (let j = 0; j < ys.length - 1; j++) {
+      const cy = (ys[j] + ys[j + 1]) / 2;
+      for (let k = 0; k < zs.length - 1; k++) {
+        const cz = (zs[k] + zs[k + 1]) / 2;
+        const covered = boxes.some(b =>
+          cx > b.xMin && cx < b.xMax && cy > b.yMin && cy < b.yMax && cz > b.zMin && cz < b.zMax
+        );
+        if (covered) {
+          volume += (xs[i + 1] - xs[i]) * (ys[j + 1] - ys[j]) * (zs[k + 1] - zs[k]);
+        }
+      }
+    }
+  }
+
+  return volume;
+}
+
+/**
+ * Find the joint volume each element must give up to higher-precedence elements
+ * Only elements with a non-zero overlap are returned
+ */
+export function calculateIntersectionDeductions(boxes: ElementBox[]): IntersectionDeduction[] {
+  const deductions: IntersectionDeduction[] = [];
+
+  for (const box of boxes) {
+    const rank = INTERSECTION_PRECEDENCE[box.type];
+    const overlaps: { id: string; type: IntersectingElementType; box: Box }[] = [];
+
+    for (const other of boxes) {
+      if (other.id === box.id || INTERSECTION_PRECEDENCE[other.type] <= rank) continue;
+      const overlap = intersectBoxes(box, other);
+      if (overlap) {
+        overlaps.push({ id: other.id, type: other.type, box: overlap });
+      }
+    }
+
+    if (overlaps.length === 0) continue;
+
+    const volume = calculateUnionVolume(overlaps.map(o => o.box));
+    if (volume <= 1e-9) continue;
+
+    const counts = overlaps.reduce<Record<string, number>>((acc, o) => {
+      acc[o.type] = (acc[o.type] || 0) + 1;
+      return acc;
+    }, {});
+    const withText = Object.entries(counts).map(([type, count]) => `${count} ${type}${count > 1 ? 's' : ''}`).join(' + ');
+
+    deductions.push({
+      elementId: box.id,
+      elementType: box.type,
+      volume,
+      overlappingIds: overlaps.map(o => o.id),
+      formulaText: `ΔV = −(overlap with ${withText}, counted once) = −${volume.toFixed(3)} m³`,
+    });
+  }
+
+  return deductions;
+}
@@ -0,0 +1,249 @@
+/**
+ * CHB MASONRY
+ * Pure functions for concrete hollow block walls: blocks, mortar, reinforcement and plaster
+ * Lengths in meters (m), areas in m², volumes in m³, cement in 40 kg bags, bar diameters in mm
+ *
+ * Quantities are per net wall area (gross area less openings), so bars and mortar
+ * are not counted through door and window openings.
+ */
+
+import type { CHBThickness, MortarClass, MasonryWall, MasonryWallOpening, RebarOutput, Level, WallSurface } from '@/types';
+import { calculateBarWeight, calculateLapLength } from './rebar';
+import { validateWallSurface, type GridSystem } from './finishes/wallSurface';
+
+/**
+ * Blocks per m² for 400 × 200 mm CHB with 10 mm joints
+ */
+export const CHB_PER_M2 = 12.5;
+
+/**
+ * Mortar per m² of wall, laying plus filling of cells (m³)
+ */
+export const CHB_MORTAR_PER_M2: Record<CHBThickness, number> = {
+  100: 0.0435,
+  150: 0.0844,
+};
+
+/**
+ * Mortar mix proportions per m³ of mortar (40 kg cement bags)
+ */
+export const MORTAR_MIX_TABLE: Record<MortarClass, { proportion: string; cementBagsPerM3: number; sandPerM3: number }> = {
+  A: { proportion: '1:2', cementBagsPerM3: 18.0, sandPerM3: 1.0 },
+  B: { proportion: '1:3', cementBagsPerM3: 12.0, sandPerM3: 1.0 },
+  C: { proportion: '1:4', cementBagsPerM3: 9.0, sandPerM3: 1.0 },
+  D: { proportion: '1:5', cementBagsPerM3: 7.5, sandPerM3: 1.0 },
+};
+
+/**
+ * Commercial bar length used to count splices in wall bars (m)
+ */
+export const MASONRY_BAR_STOCK_LENGTH = 6;
+
+export const DEFAULT_PLASTER_THICKNESS_MM = 16;
+
+/**
+ * DPWH Item 1046: CHB (including Reinforcing Steel), by load-bearing and thickness
+ */
+export const CHB_DPWH_ITEMS: Record<'loadBearing' | 'nonLoadBearing', Record<CHBThickness, string>> = {
+  loadBearing: { 100: '1046 (1) a1', 150: '1046 (1) a2' },
+  nonLoadBearing: { 100: '1046 (2) a1', 150: '1046 (2) a2' },
+};
+
+/**
+ * DPWH Item 1027 (1): Cement Plaster Finish
+ */
+export const PLASTER_DPWH_ITEM = '1027 (1)';
+
+export interface WallAreaOutput {
+  grossArea: number;
+  openingArea: number;
+  netArea: number;
+  formulaText: string;
+}
+
+export interface MortarOutput {
+  volume: number; // m³
+  cementBags: number;
+  sand: number; // m³
+  formulaText: string;
+}
+
+export function getCHBDpwhItem(thickness: CHBThickness, loadBearing: boolean): string {
+  return CHB_DPWH_ITEMS[loadBearing ? 'loadBearing' : 'nonLoadBearing'][thickness];
+}
+
+/**
+ * Net wall area = length × height − Σ(opening width × height × qty)
+ */
+export function calculateNetWallArea(length: number, height: number, openings: MasonryWallOpening[] = []): WallAreaOutput {
+  if (length <= 0 || height <= 0) {
+    throw new Error('Wall length and height must be positive');
+  }
+
+  const grossArea = length * height;
+  const openingArea = openings.reduce((sum, o) => sum + o.width_m * o.height_m * o.qty, 0);
+  if (openingArea > grossArea) {
+    throw new Error(`Openings (${openingArea.toFixed(2)} m²) exceed wall area (${grossArea.toFixed(2)} m²)`);
+  }
+  const netArea = grossArea - openingArea;
+
+  const openingText = openingArea > 0 ? ` − ${openingArea.toFixed(2)} m² openings` : '';
+  return {
+    grossArea,
+    openingArea,
+    netArea,
+    formulaText: `${length.toFixed(2)}m × ${height.toFixed(2)}m${openingText} = ${netArea.toFixed(2)} m²`,
+  };
+}
+
+/**
+ * Block count = net area × 12.5 pcs/m² × (1 + waste), rounded up
+ */
+export function calculateCHBCount(netArea: number, waste: number = 0.05): { blocks: number; formulaText: string } {
+  const blocks = Math.ceil(netArea * CHB_PER_M2 * (1 + waste) - 1e-9);
+  const wasteText = waste > 0 ? ` × (1 + ${(waste * 100).toFixed(0)}% waste)` : '';
+  return {
+    blocks,
+    formulaText: `${netArea.toFixed(2)} m² × ${CHB_PER_M2} pcs/m²${wasteText} = ${blocks} pcs`,
+  };
+}
+
+/**
+ * Cement and sand for a mortar volume
+ */
+export function calculateMortarMaterials(volume: number, mortarClass: MortarClass): MortarOutput {
+  if (volume < 0) {
+    throw new Error('Mortar volume cannot be negative');
+  }
+
+  const mix = MORTAR_MIX_TABLE[mortarClass];
+  const cementBags = volume * mix.cementBagsPerM3;
+  const sand = volume * mix.sandPerM3;
+
+  return {
+    volume,
+    cementBags,
+    sand,
+    formulaText: `Class ${mortarClass} (${mix.proportion}): Cement = ${volume.toFixed(4)} × ${mix.cementBagsPerM3} = ${cementBags.toFixed(2)} bags; ` +
+      `Sand = ${volume.toFixed(4)} × ${mix.sandPerM3} = ${sand.toFixed(3)} m³`,
+  };
+}
+
+/**
+ * Laying and cell-filling mortar for a CHB wall
+ * Volume = net area × mortar/m² for the block thickness
+ */
+export function calculateCHBMortar(netArea: number, thickness: CHBThickness, mortarClass: MortarClass): MortarOutput {
+  const volume = netArea * CHB_MORTAR_PER_M2[thickness];
+  const materials = calculateMortarMaterials(volume, mortarClass);
+  return {
+    ...materials,
+    formulaText: `${netArea.toFixed(2)} m² × ${CHB_MORTAR_PER_M2[thickness]} m³/m² = ${volume.toFixed(4)} m³; ${materials.formulaText}`,
+  };
+}
+
+/**
+ * Plaster mortar = plastered area × thickness
+ */
+export function calculatePlaster(area: number, thicknessMm: number, mortarClass: MortarClass): MortarOutput {
+  if (thicknessMm <= 0) {
+    throw new Error('Plaster thickness must be positive');
+  }
+
+  const volume = area * thicknessMm / 1000;
+  const materials = calculateMortarMaterials(volume, mortarClass);
+  return {
+    ...materials,
+    formulaText: `${area.toFixed(2)} m² × ${thicknessMm}mm = ${volume.toFixed(4)} m³; ${materials.formulaText}`,
+  };
+}
+
+/**
+ * Wall bars at a spacing, one direction
+ * Run length = net area / spacing, cut into 6m stock bars with a 40Ø lap each
+ */
+export function calculateCHBReinforcement(netArea: number, spacing: number, diameter: number, waste: number = 0.03): RebarOutput {
+  if (spacing <= 0) {
+    throw new Error('Bar spacing must be positive');
+  }
+
+  const runLength = netArea / spacing;
+  const barCount = Math.max(1, Math.ceil(runLength / MASONRY_BAR_STOCK_LENGTH));
+  const result = calculateBarWeight({
+    barDiameter: diameter,
+    barLength: runLength / barCount,
+    barCount,
+    lapLength: calculateLapLength(diameter),
+    waste,
+  });
+
+  return {
+    ...result,
+    formulaText: `${netArea.toFixed(2)} m² ÷ ${spacing.toFixed(2)}m = ${runLength.toFixed(2)}m run; ${result.formulaText}`,
+    inputs: { ...result.inputs, spacing, runLength },
+  };
+}
+
+/**
+ * Validate masonry wall definition
+ * Placement is either an existing wall surface or the wall's own grid line and levels
+ */
+export function validateMasonryWall(
+  wall: Partial<MasonryWall>,
+  gridSystem: GridSystem,
+  levels: Level[],
+  wallSurfaces: WallSurface[]
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!wall.name) {
+    errors.push('Masonry wall name is required');
+  }
+
+  if (wall.wallSurfaceId) {
+    if (!wallSurfaces.some(ws => ws.id === wall.wallSurfaceId)) {
+      errors.push(`Wall surface ${wall.wallSurfaceId} not found`);
+    }
+  } else {
+    const placement = validateWallSurface(
+      { name: wall.name || 'masonry', gridLine: wall.gridLine, levelStart: wall.levelStart, levelEnd: wall.levelEnd, surfaceType: 'exterior' },
+      gridSystem,
+      levels
+    );
+    errors.push(...placement.errors);
+  }
+
+  if (wall.thickness_mm !== 100 && wall.thickness_mm !== 150) {
+    errors.push('CHB thickness must be 100 or 150 mm');
+  }
+  if (!wall.mortarClass || !(wall.mortarClass in MORTAR_MIX_TABLE)) {
+    errors.push('Mortar class must be A, B, C or D');
+  }
+
+  const r = wall.reinforcement;
+  if (!r || !(r.verticalDiameter > 0) || !(r.horizontalDiameter > 0)) {
+    errors.push('Vertical and horizontal bar diameters are required');
+  }
+  if (!r || !(r.verticalSpacing_m > 0) || !(r.horizontalSpacing_m > 0)) {
+    errors.push('Vertical and horizontal bar spacings must be positive');
+  }
+
+  for (const opening of wall.openings || []) {
+    if (!(opening.width_m > 0) || !(opening.height_m > 0) || !Number.isInteger(opening.qty) || opening.qty < 1) {
+      errors.push('Openings need a positive width, height and whole quantity');
+      break;
+    }
+  }
+
+  if (wall.plaster && wall.plaster.sides > 0 && !(wall.plaster.thickness_mm > 0)) {
+    errors.push('Plaster thickness must be positive');
+  }
+  if (wall.wastePercent !== undefined && (wall.wastePercent < 0 || wall.wastePercent >= 1)) {
+    errors.push('Block waste must be between 0 and 1');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
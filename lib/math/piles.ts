@@ -0,0 +1,178 @@
+/**
+ * PILE FOUNDATIONS
+ * Pure functions for bored and driven pile lengths, spirals and DPWH piling items
+ * All lengths in meters (m), bar diameters in millimeters (mm)
+ *
+ * Pile length is measured from the cutoff level (underside of pile cap) to the tip.
+ * The cutoff allowance is the extra length above the cutoff level:
+ * - Bored piles: overpour cast above cutoff, chipped off to sound concrete
+ * - Driven piles: head of the furnished pile broken out after driving
+ */
+
+import type { PileType, RebarOutput } from '@/types';
+import { getRebarWeightPerMeter } from './rebar';
+
+/**
+ * Default cutoff allowance per pile (m)
+ */
+export const DEFAULT_PILE_CUTOFF: Record<PileType, number> = {
+  bored: 0.6,
+  driven: 0.5,
+};
+
+/**
+ * Concrete cover to spirals and ties (m)
+ */
+export const PILE_COVER: Record<PileType, number> = {
+  bored: 0.075,
+  driven: 0.05,
+};
+
+/**
+ * Extra spiral turns at each end for anchorage
+ */
+export const SPIRAL_END_TURNS = 1.5;
+
+/**
+ * DPWH Item 1052 (17): Concrete Piles cast in Drilled Holes, by diameter (m)
+ */
+export const BORED_PILE_DPWH_ITEMS: Record<string, string> = {
+  '0.60': '1052 (17)',
+  '0.80': '1052 (17) a',
+  '0.90': '1052 (17) b',
+  '1.00': '1052 (17) c',
+  '1.10': '1052 (17) d',
+  '1.20': '1052 (17) e',
+  '1.30': '1052 (17) f',
+  '1.40': '1052 (17) g',
+  '1.50': '1052 (17) h',
+  '1.60': '1052 (17) i',
+  '1.70': '1052 (17) j',
+  '1.80': '1052 (17) k',
+  '1.90': '1052 (17) l',
+  '2.00': '1052 (17) m',
+  '2.10': '1052 (17) n',
+  '2.20': '1052 (17) o',
+  '2.30': '1052 (17) p',
+  '2.40': '1052 (17) q',
+  '2.50': '1052 (17) r',
+  '2.60': '1052 (17) s',
+  '2.70': '1052 (17) t',
+  '2.80': '1052 (17) u',
+  '2.90': '1052 (17) v',
+  '3.00': '1052 (17) w',
+  '3.50': '1052 (17) x',
+};
+
+/**
+ * DPWH Item 1052 (4): Precast Concrete Piles, Furnished, by square size (m)
+ */
+export const PRECAST_PILE_DPWH_ITEMS: Record<string, string> = {
+  '0.40': '1052 (4) a1',
+  '0.45': '1052 (4) a2',
+};
+
+/**
+ * DPWH Item 1052 (14): Precast Concrete Piles, Driven
+ */
+export const DRIVEN_PILE_DPWH_ITEM = '1052 (14)';
+
+/**
+ * DPWH Item 900 (1) a: Structural Concrete Class A for pile caps
+ * (pile templates carry the piling item, so the cap item is fixed here)
+ */
+export const PILE_CAP_CONCRETE_ITEM = '900 (1) a';
+
+export interface PileLengthOutput {
+  paidLength: number; // cutoff level to tip, all piles
+  cutoffLength: number; // allowance above cutoff level, all piles
+  totalLength: number; // cast (bored) or furnished (driven) length, all piles
+  formulaText: string;
+}
+
+export interface PilingItems {
+  installed: string | null; // bored: drilled-hole pile; driven: driving
+  furnished: string | null; // driven only: precast pile supply
+}
+
+/**
+ * Paid, cutoff and total pile lengths for a group of piles
+ * Paid = n × L, Total = n × (L + cutoff)
+ */
+export function calculatePileLengths(pileLength: number, cutoffAllowance: number, pileCount: number): PileLengthOutput {
+  if (pileLength <= 0) {
+    throw new Error('Pile length must be positive');
+  }
+  if (cutoffAllowance < 0) {
+    throw new Error('Cutoff allowance cannot be negative');
+  }
+  if (!Number.isInteger(pileCount) || pileCount < 1) {
+    throw new Error('Pile count must be a positive whole number');
+  }
+
+  const paidLength = pileCount * pileLength;
+  const cutoffLength = pileCount * cutoffAllowance;
+  const totalLength = paidLength + cutoffLength;
+
+  return {
+    paidLength,
+    cutoffLength,
+    totalLength,
+    formulaText: `${pileCount} piles × (${pileLength.toFixed(2)}m + ${cutoffAllowance.toFixed(2)}m cutoff) = ${totalLength.toFixed(2)}m (paid ${paidLength.toFixed(2)}m)`,
+  };
+}
+
+/**
+ * Weight of continuous spirals for a group of circular piles
+ * Length per turn = √((π × core diameter)² + pitch²)
+ * Turns = height / pitch + 1.5 extra turns at each end
+ */
+export function calculatePileSpiralWeight(
+  spiralDiameter: number,
+  pitch: number,
+  coreDiameter: number,
+  height: number,
+  pileCount: number,
+  waste: number = 0.03
+): RebarOutput {
+  if (pitch <= 0 || coreDiameter <= 0 || height <= 0) {
+    throw new Error('Spiral pitch, core diameter and height must be positive');
+  }
+
+  const turns = height / pitch + 2 * SPIRAL_END_TURNS;
+  const lengthPerTurn = Math.sqrt(Math.pow(Math.PI * coreDiameter, 2) + pitch * pitch);
+  const spiralLength = turns * lengthPerTurn;
+  const weightPerMeter = getRebarWeightPerMeter(spiralDiameter);
+  const weight = spiralLength * pileCount * weightPerMeter * (1 + waste);
+
+  const wasteText = waste > 0 ? ` × (1 + ${(waste * 100).toFixed(0)}% waste)` : '';
+  const formulaText = `${pileCount} spirals × ${turns.toFixed(1)} turns × ${lengthPerTurn.toFixed(3)}m/turn × ${weightPerMeter.toFixed(3)} kg/m${wasteText} = ${weight.toFixed(2)} kg`;
+
+  return {
+    weight,
+    formulaText,
+    inputs: {
+      barDiameter: spiralDiameter,
+      barLength: spiralLength,
+      barCount: pileCount,
+      lapLength: 0,
+      pitch,
+      coreDiameter,
+      turns,
+      waste,
+      weightPerMeter,
+    },
+  };
+}
+
+/**
+ * DPWH piling pay items for a pile type and size
+ * Bored piles are matched by diameter, driven precast piles by square size
+ */
+export function getDPWHPilingItems(pileType: PileType, size: number): PilingItems {
+  const key = size.toFixed(2);
+  if (pileType === 'bored') {
+    return { installed: BORED_PILE_DPWH_ITEMS[key] ?? null, furnished: null };
+  }
+  return { installed: DRIVEN_PILE_DPWH_ITEM, furnished: PRECAST_PILE_DPWH_ITEMS[key] ?? null };
+}
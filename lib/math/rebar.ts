@@ -272,3 +272,115 @@ export function calculateSpacing(span: number, barCount: number): number {
   if (barCount <= 1) return span;
   return span / (barCount - 1);
 }
+
+// ===================================
+// MAIN BAR DETAILING (splices, hooks, anchorage)
+// ===================================
+
+export interface BarEndAnchorage {
+  development: number; // meters embedded into the adjoining member
+  hooked: boolean; // standard 90° hook at this end
+}
+
+export interface MainBarDetailing {
+  start: BarEndAnchorage | null;
+  end: BarEndAnchorage | null;
+  stockLength: number; // meters, longest commercial bar
+  spliceLapLength: number; // meters per splice
+}
+
+/**
+ * Standard 90° hook extension: 12 times diameter (12Ø)
+ * @returns Hook length in meters
+ */
+export function calculateStandardHookLength(diameter: number): number {
+  return (diameter * 12) / 1000;
+}
+
+/**
+ * Development length into an adjoining member
+ * Hooked: max(20Ø, 150mm) embedment before the hook
+ * Straight: 40Ø (same as a tension lap)
+ * @returns Development length in meters
+ */
+export function calculateDevelopmentLength(diameter: number, hooked: boolean): number {
+  if (hooked) {
+    return Math.max((diameter * 20) / 1000, 0.15);
+  }
+  return calculateLapLength(diameter);
+}
+
+/**
+ * Number of lap splices needed so no piece exceeds the stock length
+ * Each splice adds one lap, so pieces shorten by (stock - lap)
+ */
+export function calculateSpliceCount(barLength: number, stockLength: number, spliceLapLength: number): number {
+  if (barLength <= stockLength) return 0;
+  if (spliceLapLength >= stockLength) {
+    throw new Error('Splice lap length must be shorter than the stock length');
+  }
+  return Math.ceil((barLength - stockLength) / (stockLength - spliceLapLength) - 1e-9);
+}
+
+/**
+ * Calculate weight for main bars with anchorage, hooks and splices
+ * Bar length = run + development (each end) + hooks + splices × lap
+ */
+export function calculateMainBarWeight(
+  barDiameter: number,
+  barCount: number,
+  runLength: number,
+  detailing: MainBarDetailing,
+  waste: number = 0.03
+): RebarOutput {
+  const weightPerMeter = getRebarWeightPerMeter(barDiameter);
+  const hookLength = calculateStandardHookLength(barDiameter);
+
+  const startDevelopment = detailing.start?.development || 0;
+  const endDevelopment = detailing.end?.development || 0;
+  const startHook = detailing.start?.hooked ? hookLength : 0;
+  const endHook = detailing.end?.hooked ? hookLength : 0;
+
+  const barLength = runLength + startDevelopment + endDevelopment + startHook + endHook;
+  const spliceCount = calculateSpliceCount(barLength, detailing.stockLength, detailing.spliceLapLength);
+  const lapLength = spliceCount * detailing.spliceLapLength;
+
+  const weightBeforeWaste = (barLength + lapLength) * barCount * weightPerMeter;
+  const totalWeight = weightBeforeWaste * (1 + waste);
+
+  // Build formula text listing every added length
+  const parts = [`${runLength.toFixed(2)}m run`];
+  if (startDevelopment + endDevelopment > 0) {
+    parts.push(`${[startDevelopment, endDevelopment].filter(d => d > 0).map(d => `${d.toFixed(2)}m`).join(' + ')} development`);
+  }
+  const hookCount = (startHook > 0 ? 1 : 0) + (endHook > 0 ? 1 : 0);
+  if (hookCount > 0) {
+    parts.push(`${hookCount} × ${hookLength.toFixed(2)}m hook`);
+  }
+  if (spliceCount > 0) {
+    parts.push(`${spliceCount} × ${detailing.spliceLapLength.toFixed(2)}m splice`);
+  }
+  const wasteText = waste > 0 ? ` × (1 + ${(waste * 100).toFixed(1)}% waste)` : '';
+  const formulaText = `${barCount} bars × (${parts.join(' + ')}) × ${weightPerMeter.toFixed(3)} kg/m${wasteText} = ${totalWeight.toFixed(2)} kg`;
+
+  return {
+    weight: totalWeight,
+    formulaText,
+    inputs: {
+      barDiameter,
+      barCount,
+      runLength,
+      startDevelopment,
+      endDevelopment,
+      startHook,
+      endHook,
+      stockLength: detailing.stockLength,
+      spliceLapLength: detailing.spliceLapLength,
+      spliceCount,
+      barLength, // per bar, excluding splices
+      lapLength, // per bar, total of all splices
+      waste,
+      weightPerMeter,
+    },
+  };
+}
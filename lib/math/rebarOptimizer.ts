@@ -0,0 +1,157 @@
+/**
+ * REBAR CUTTING STOCK OPTIMIZATION
+ * Pure functions packing required cut lengths into commercial stock bars
+ * Lengths in meters (m), computed internally in millimeters to avoid float drift
+ */
+
+import type {
+  TakeoffLine,
+  RebarCut,
+  RebarStockOrder,
+  RebarCuttingPlanDiameter,
+  RebarCuttingPlan,
+} from '@/types';
+import { getRebarWeightPerMeter, calculateLapLength } from './rebar';
+
+/**
+ * Commercial rebar lengths available in the Philippines (m)
+ */
+export const COMMERCIAL_STOCK_LENGTHS = [6, 7.5, 9, 10.5, 12];
+
+/**
+ * Collect required cut lengths from rebar takeoff lines
+ * Cut length = bar length + lap, count = bar count (from calculateBarWeight inputs)
+ * Spliced main bars (spliceCount > 0) are already detailed into equal pieces
+ */
+export function extractRebarCuts(takeoffLines: TakeoffLine[]): RebarCut[] {
+  const cuts: RebarCut[] = [];
+
+  for (const line of takeoffLines) {
+    if (line.trade !== 'Rebar') continue;
+    const { barDiameter, barLength, barCount, lapLength = 0, spliceCount = 0 } = line.inputsSnapshot;
+    if (!barDiameter || !barLength || !barCount) continue;
+
+    const pieces = spliceCount + 1;
+    cuts.push({
+      diameter: barDiameter,
+      length: (barLength + lapLength) / pieces,
+      count: barCount * pieces,
+      sourceTakeoffLineId: line.id,
+    });
+  }
+
+  return cuts;
+}
+
+/**
+ * Split a cut longer than the longest stock bar into spliced pieces
+ * Each splice adds a 40Ø lap to the remaining length
+ */
+export function splitLongCut(lengthMm: number, diameter: number, maxStockMm: number): number[] {
+  const lapMm = Math.round(calculateLapLength(diameter) * 1000);
+  if (lapMm >= maxStockMm) {
+    throw new Error(`Lap length for ${diameter}mm bars exceeds the longest stock bar`);
+  }
+
+  const pieces: number[] = [];
+  let remaining = lengthMm;
+  while (remaining > maxStockMm) {
+    pieces.push(maxStockMm);
+    remaining = remaining - maxStockMm + lapMm;
+  }
+  pieces.push(remaining);
+  return pieces;
+}
+
+/**
+ * Pack cuts of one diameter into stock bars (best-fit decreasing)
+ * Bars are opened at the longest stock length, then each bar is
+ * downsized to the shortest stock length that still holds its cuts
+ */
+export function optimizeDiameter(
+  diameter: number,
+  cuts: RebarCut[],
+  stockLengths: number[] = COMMERCIAL_STOCK_LENGTHS
+): RebarCuttingPlanDiameter {
+  const stockMm = [...new Set(stockLengths.map(l => Math.round(l * 1000)))]
+    .filter(l => l > 0)
+    .sort((a, b) => a - b);
+  if (stockMm.length === 0) {
+    throw new Error('At least one stock length is required');
+  }
+  const maxStockMm = stockMm[stockMm.length - 1];
+
+  const pieces: number[] = [];
+  for (const cut of cuts) {
+    const lengthMm = Math.round(cut.length * 1000);
+    if (lengthMm <= 0 || cut.count <= 0) continue;
+    const split = splitLongCut(lengthMm, diameter, maxStockMm);
+    for (let i = 0; i < cut.count; i++) {
+      pieces.push(...split);
+    }
+  }
+  pieces.sort((a, b) => b - a);
+
+  // Used length of each opened bar
+  const bars: number[] = [];
+  for (const piece of pieces) {
+    let bestIndex = -1;
+    let bestRemaining = Infinity;
+    for (let i = 0; i < bars.length; i++) {
+      const remaining = maxStockMm - bars[i] - piece;
+      if (remaining >= 0 && remaining < bestRemaining) {
+        bestIndex = i;
+        bestRemaining = remaining;
+      }
+    }
+    if (bestIndex >= 0) {
+      bars[bestIndex] += piece;
+    } else {
+      bars.push(piece);
+    }
+  }
+
+  const orderCounts: Record<number, number> = {};
+  let orderedMm = 0;
+  for (const used of bars) {
+    const stock = stockMm.find(l => l >= used) as number;
+    orderCounts[stock] = (orderCounts[stock] || 0) + 1;
+    orderedMm += stock;
+  }
+
+  const requiredMm = pieces.reduce((sum, p) => sum + p, 0);
+  const stockBars: RebarStockOrder[] = Object.entries(orderCounts)
+    .map(([length, count]) => ({ length: Number(length) / 1000, count }))
+    .sort((a, b) => b.length - a.length);
+
+  return {
+    diameter,
+    cutCount: pieces.length,
+    requiredLength: requiredMm / 1000,
+    stockBars,
+    orderedLength: orderedMm / 1000,
+    offcutLength: (orderedMm - requiredMm) / 1000,
+    wastePercent: requiredMm > 0 ? Math.round(((orderedMm - requiredMm) / requiredMm) * 10000) / 10000 : 0,
+    orderedWeight: Math.round((orderedMm / 1000) * getRebarWeightPerMeter(diameter) * 100) / 100,
+  };
+}
+
+/**
+ * Build the cutting plan for all diameters (ascending)
+ */
+export function optimizeCuttingStock(
+  cuts: RebarCut[],
+  stockLengths: number[] = COMMERCIAL_STOCK_LENGTHS
+): RebarCuttingPlan {
+  const diameters = [...new Set(cuts.map(c => c.diameter))].sort((a, b) => a - b);
+  const plans = diameters.map(d => optimizeDiameter(d, cuts.filter(c => c.diameter === d), stockLengths));
+
+  return {
+    stockLengths: [...stockLengths].sort((a, b) => a - b),
+    diameters: plans,
+    totalRequiredWeight: Math.round(
+      plans.reduce((sum, p) => sum + p.requiredLength * getRebarWeightPerMeter(p.diameter), 0) * 100
+    ) / 100,
+    totalOrderedWeight: Math.round(plans.reduce((sum, p) => sum + p.orderedWeight, 0) * 100) / 100,
+  };
+}
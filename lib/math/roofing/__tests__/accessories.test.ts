@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Roof Accessories
+ * Tests for lapped edge runs, ridge/hip rolls and downspouts by drained area
+ */
+
+import {
+  calculateRoofAccessories,
+  resolveRoofAccessorySettings,
+  sumRoofPlaneEdges,
+  DEFAULT_METAL_ROOF_ACCESSORIES,
+} from '../accessories';
+
+describe('Roof Accessories', () => {
+  // Gable roof 12m long with two 6m rakes per side
+  const edges = sumRoofPlaneEdges([
+    { edges: { eave_m: 12, rake_m: 12, ridge_m: 12 }, planArea_m2: 48 },
+    { edges: { eave_m: 12, rake_m: 12, ridge_m: 12 }, planArea_m2: 48 },
+  ]);
+
+  test('should count shared ridges, hips and valleys once', () => {
+    expect(edges.eave_m).toBeCloseTo(24);
+    expect(edges.rake_m).toBeCloseTo(24);
+    expect(edges.ridge_m).toBeCloseTo(12);
+    expect(edges.drainedArea_m2).toBeCloseTo(96);
+  });
+
+  test('should add one lap per joint between stock pieces', () => {
+    const accessories = calculateRoofAccessories(edges, DEFAULT_METAL_ROOF_ACCESSORIES);
+    const gutter = accessories.find(a => a.kind === 'gutter')!;
+    const hipRoll = accessories.find(a => a.kind === 'hipRoll')!;
+
+    // 24m of gutter in 3m pieces lapped 50mm: ⌈23.95 / 2.95⌉ = 9 pieces, 8 joints
+    expect(gutter.dpwhItem).toBe('1013 (2) c');
+    expect(gutter.joints).toBe(8);
+    expect(gutter.quantity).toBeCloseTo(24.4);
+
+    // 12m of ridge roll in 2.4m pieces lapped 100mm: ⌈11.9 / 2.3⌉ = 6 pieces
+    expect(hipRoll.quantity).toBeCloseTo(12.5);
+    expect(accessories.find(a => a.kind === 'fascia')!.quantity).toBeCloseTo(48);
+    expect(accessories.find(a => a.kind === 'valleyGutter')).toBeUndefined();
+  });
+
+  test('should leave only the ridge capped by trusses out of the rolls', () => {
+    const partly = calculateRoofAccessories(edges, DEFAULT_METAL_ROOF_ACCESSORIES, { ridgeCapped_m: 10 });
+    const fully = calculateRoofAccessories(edges, DEFAULT_METAL_ROOF_ACCESSORIES, { ridgeCapped_m: 15 });
+
+    // 12m ridge less 10m of truss ridge cap: 2m in one piece
+    expect(partly.find(a => a.kind === 'hipRoll')!.quantity).toBeCloseTo(2);
+    expect(fully.find(a => a.kind === 'hipRoll')).toBeUndefined();
+  });
+
+  test('should count downspouts by drained area and run them to the ground', () => {
+    const accessories = calculateRoofAccessories(edges, DEFAULT_METAL_ROOF_ACCESSORIES, { roofElevation_m: 6 });
+    const downspout = accessories.find(a => a.kind === 'downspout')!;
+
+    // ⌈96 / 40⌉ = 3 downspouts of 6m, each three 3m pieces with two 50mm laps
+    expect(downspout.count).toBe(3);
+    expect(downspout.quantity).toBeCloseTo(18.3);
+  });
+
+  test('should use asphalt accessories for asphalt roofing and apply overrides', () => {
+    const settings = resolveRoofAccessorySettings('1013 (5) a', { gutter: { dpwhItem: '1013 (2) c', pieceLength_m: 6, lap_mm: 50 } });
+
+    expect(settings.hipRoll.dpwhItem).toBe('1013 (6) a');
+    expect(settings.gutter.pieceLength_m).toBe(6);
+    expect(() => calculateRoofAccessories(edges, { ...settings, drainedAreaPerDownspout_m2: 0 }))
+      .toThrow('Drained area per downspout must be positive');
+  });
+});
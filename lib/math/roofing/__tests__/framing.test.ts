@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for Roof Framing Calculations
+ * Tests for purlin layout along the true rafter length and splices over trusses
+ */
+
+import { calculateRoofFraming, roofingMaterials, type FramingParameters } from '../framing';
+
+describe('Roof Framing Calculations', () => {
+  // 8m span, 3m rise: slope factor 5/4, rafter (4000 + 400) × 1.25 = 5500 mm
+  const params: FramingParameters = {
+    trussSpan_mm: 8000,
+    trussRise_mm: 3000,
+    overhang_mm: 400,
+    trussSpacing_mm: 4000,
+    buildingLength_mm: 15000,
+    trussQuantity: 5,
+    roofingMaterial: roofingMaterials[0],
+    purlinSpacing_mm: 600,
+    purlinSpec: { section: 'C100x50x20x2.0', weight_kg_per_m: 3.91 },
+    bracing: { type: 'X-Brace', interval_mm: 6000, material: { section: '2L50x50x6', weight_kg_per_m: 4.6 } },
+    includeRidgeCap: true,
+    includeEaveGirt: false,
+  };
+
+  test('should lay purlins along the sloped rafter including the overhang', () => {
+    const { purlins } = calculateRoofFraming(params);
+
+    expect(purlins.slopeLength_mm).toBeCloseTo(5500);
+    // Eave purlin at 100, ridge purlin at 5350: 9 spaces of ≤ 600 mm
+    expect(purlins.linesPerSide).toBe(10);
+    expect(purlins.lines).toHaveLength(20);
+    expect(purlins.totalLength_m).toBeCloseTo(300);
+
+    const left = purlins.lines.filter(line => line.side === 'left');
+    expect(left[0].position_mm).toBeCloseTo(100);
+    expect(left[9].position_mm).toBeCloseTo(5350);
+    // 100 mm up the slope is 80 mm in plan, inside the 400 mm overhang
+    expect(left[0].plan_mm).toBeCloseTo(-320);
+  });
+
+  test('should share a single ridge purlin when it sits on the apex', () => {
+    const { purlins } = calculateRoofFraming({ ...params, ridgePurlinOffset_mm: 0 });
+
+    expect(purlins.lines.filter(line => line.side === 'ridge')).toHaveLength(1);
+    expect(purlins.lines).toHaveLength(2 * purlins.linesPerSide - 1);
+  });
+
+  test('should cut purlins to whole truss bays so splices fall on trusses', () => {
+    const { purlins } = calculateRoofFraming(params);
+
+    // 6m stock over 4m bays: 4m pieces, 4 per 15m line, 3 splices
+    expect(purlins.lines[0].pieceLength_mm).toBe(4000);
+    expect(purlins.lines[0].quantity).toBe(4);
+    expect(purlins.lines[0].splices).toBe(3);
+    expect(purlins.totalSplices).toBe(60);
+  });
+
+  test('should use one-bay pieces when the bay is longer than the stock length', () => {
+    const { purlins } = calculateRoofFraming({ ...params, trussSpacing_mm: 7500, buildingLength_mm: 30000 });
+
+    // 7.5m bays over 6m stock: 7.5m pieces ordered long, 4 per 30m line
+    expect(purlins.lines[0].pieceLength_mm).toBe(7500);
+    expect(purlins.lines[0].quantity).toBe(4);
+    expect(purlins.lines[0].splices).toBe(3);
+  });
+
+  test('should take sheet sizes from the catalogue for a saved material type', () => {
+    const saved = { type: roofingMaterials[0].type, maxPurlinSpacing_mm: roofingMaterials[0].maxPurlinSpacing_mm };
+
+    expect(calculateRoofFraming({ ...params, roofingMaterial: saved as FramingParameters['roofingMaterial'] }).roofing)
+      .toEqual(calculateRoofFraming(params).roofing);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Parametric Roof Generation
+ * Tests for plane outlines, edge lengths and placement over a grid extent
+ */
+
+import { generateParametricRoof, generateParametricRoofOnExtent, type RoofParameters } from '../parametric';
+import { computePolygonPlanArea } from '../roofGeometry';
+
+describe('Parametric Roof Generation', () => {
+  // 12m × 8m, 3:4 pitch (slope factor 5/4), 0.5m overhang
+  const params: RoofParameters = {
+    style: 'hip',
+    length_m: 12,
+    width_m: 8,
+    pitchFormat: 'rise-run',
+    pitchRise: 3,
+    pitchRun: 4,
+    overhang_m: 0.5,
+  };
+
+  test.each(['gable', 'hip', 'flat', 'gambrel'] as const)('should outline each %s plane over its plan area', (style) => {
+    const roof = generateParametricRoof({ ...params, style });
+
+    for (const plane of roof.planes) {
+      expect(computePolygonPlanArea({ points: plane.outline })).toBeCloseTo(plane.planArea_m2);
+    }
+    expect(roof.summary.totalPlanArea_m2).toBeCloseTo(13 * 9);
+  });
+
+  test('should count shared ridges and hips once', () => {
+    const roof = generateParametricRoof(params);
+
+    // Ridge 12 - 8 = 4m; four hips over a 4.5m run: 4.5 × √(1 + 1.25²) = 7.203m each
+    expect(roof.summary.ridgeLength_m).toBeCloseTo(4);
+    expect(roof.summary.hipLength_m).toBeCloseTo(4 * 7.2034, 3);
+    expect(roof.summary.eaveLength_m).toBeCloseTo(2 * 13 + 2 * 9);
+  });
+
+  test('should run the ridge along the longer side of the extent', () => {
+    const roof = generateParametricRoofOnExtent(
+      { style: 'gable', pitchFormat: 'rise-run', pitchRise: 3, pitchRun: 4, overhang_m: 0.5 },
+      { x: [10, 18], y: [20, 32] }
+    );
+
+    expect(roof.metadata.length_m).toBe(12);
+    expect(roof.metadata.width_m).toBe(8);
+    expect(roof.planes.map(plane => plane.name)).toEqual(['East Slope', 'West Slope']);
+    // East slope from the ridge at x = 14 to the eave 0.5m past x = 18
+    expect(roof.planes[0].outline).toEqual([[14, 19.5], [14, 32.5], [18.5, 32.5], [18.5, 19.5]]);
+    expect(() => generateParametricRoofOnExtent(params, { x: [0, 0], y: [0, 8] })).toThrow('positive length and width');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for Roof Sheet Layout
+ * Tests for sheet schedules, end-lap splits, hip cuts and fasteners at purlin crossings
+ */
+
+import { calculateRoofSheetLayout, validateRoofSheetLayout } from '../sheetLayout';
+import type { RoofSheetLayout } from '@/types';
+
+describe('Roof Sheet Layout', () => {
+  // 1:1.333 slope: slope factor 1.25, 4m run gives 5m sheets
+  const layout: RoofSheetLayout = {
+    eaveLength_m: 10.2,
+    rafterRun_m: 4,
+    effectiveCoverWidth_mm: 1000,
+    sideLap_mm: 30,
+    endLap_mm: 150,
+    purlinSpacing_mm: 600,
+    fastenersPerCrossing: 4,
+  };
+
+  test('should cut one sheet per column from eave to ridge', () => {
+    const result = calculateRoofSheetLayout(layout, 1.25);
+
+    expect(result.sheetsAcross).toBe(11);
+    expect(result.schedule).toEqual([{ length_m: 5, count: 11 }]);
+    expect(result.sideLaps).toBe(10);
+    expect(result.endLaps).toBe(0);
+    // 5m column crosses 9 purlins at 600 mm
+    expect(result.purlinCrossings).toBe(99);
+    expect(result.fasteners).toBe(396);
+    expect(result.area_m2).toBeCloseTo(55 * 1.03);
+  });
+
+  test('should split runs longer than the longest sheet with end laps', () => {
+    // 15m slope, 12m sheets: 2 equal cuts of (15 + 0.15) / 2
+    const long = { ...layout, eaveLength_m: 2, rafterRun_m: 12 };
+    const result = calculateRoofSheetLayout(long, 1.25);
+
+    expect(result.schedule).toEqual([{ length_m: 7.58, count: 4 }]);
+    expect(result.endLaps).toBe(2);
+
+    // Custom cuts from the eave up, the last trimmed to what is left
+    const custom = calculateRoofSheetLayout({ ...long, customCutLengths_m: [6, 6, 6] }, 1.25);
+    expect(custom.schedule).toEqual([{ length_m: 6, count: 4 }, { length_m: 3.3, count: 2 }]);
+
+    expect(() => calculateRoofSheetLayout({ ...long, customCutLengths_m: [6, 6] }, 1.25)).toThrow('Custom cut lengths cover');
+  });
+
+  test('should shorten columns cut to the hips of a hip end', () => {
+    // Triangular hip end, 6m eave, 3m run: columns ordered at their longest edge
+    const result = calculateRoofSheetLayout({ ...layout, eaveLength_m: 6, ridgeLength_m: 0, rafterRun_m: 3 }, 1.25);
+
+    expect(result.schedule).toEqual([
+      { length_m: 3.75, count: 2 },
+      { length_m: 2.5, count: 2 },
+      { length_m: 1.25, count: 2 },
+    ]);
+    expect(result.totalSheetLength_m).toBeCloseTo(15);
+  });
+
+  test('should reject incomplete layouts', () => {
+    const validation = validateRoofSheetLayout({ ...layout, effectiveCoverWidth_mm: 0, fastenersPerCrossing: 0 });
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toHaveLength(2);
+    expect(() => calculateRoofSheetLayout({ ...layout, ridgeLength_m: 12 }, 1.25)).toThrow('Ridge length');
+  });
+});
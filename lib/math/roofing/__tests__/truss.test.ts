@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Truss Designs
+ * Tests for the building length of a design assigned to a grid range
+ * and member generation of the panelled truss types
+ */
+
+import { calculateTrussRunLength, generateTruss, validateTrussDesign, type TrussParameters } from '../truss';
+import type { GridLine, TrussDesign } from '@/types';
+
+describe('Truss Designs', () => {
+  const gridX: GridLine[] = [
+    { label: 'A', offset: 0 },
+    { label: 'B', offset: 4 },
+    { label: 'C', offset: 10.5 },
+  ];
+  const gridY: GridLine[] = [
+    { label: '1', offset: 0 },
+    { label: '2', offset: 6 },
+  ];
+
+  test('should take the building length between the assigned grid lines', () => {
+    expect(calculateTrussRunLength(12000, undefined, gridX, gridY)).toBe(12000);
+    expect(calculateTrussRunLength(12000, { axis: 'x', from: 'C', to: 'B' }, gridX, gridY)).toBeCloseTo(6500);
+    expect(calculateTrussRunLength(12000, { axis: 'y', from: '1', to: '2' }, gridX, gridY)).toBeCloseTo(6000);
+
+    expect(() => calculateTrussRunLength(12000, { axis: 'y', from: '1', to: '3' }, gridX, gridY)).toThrow('Grid line 3 not found');
+  });
+
+  test('should require a name, a known truss type and either a building length or a full grid range', () => {
+    const trussParams = { type: 'warren', spacing_mm: 600, span_mm: 8000 } as TrussDesign['trussParams'];
+
+    expect(validateTrussDesign({ name: 'Porch', trussParams, buildingLength_mm: 6000 }).valid).toBe(true);
+    expect(validateTrussDesign({ name: 'Porch', trussParams, assignment: { gridAxis: 'x', gridFrom: 'A', gridTo: 'C' } }).valid).toBe(true);
+
+    const validation = validateTrussDesign({ name: ' ', trussParams, assignment: { gridAxis: 'x', gridFrom: 'A' } });
+    expect(validation.valid).toBe(false);
+    expect(validation.errors).toEqual(['Design name is required', 'Grid range needs an axis and both grid lines']);
+
+    const unknownType = { ...trussParams, type: 'bowstring' } as unknown as TrussDesign['trussParams'];
+    expect(validateTrussDesign({ name: 'Gym', trussParams: unknownType, buildingLength_mm: 30000 }).errors[0]).toMatch(/^Truss type must be one of/);
+  });
+
+  describe('Panelled truss types', () => {
+    const params: TrussParameters = {
+      type: 'pratt',
+      span_mm: 12000,
+      middleRise_mm: 3000,
+      overhang_mm: 0,
+      spacing_mm: 1000,
+      verticalWebCount: 5,
+      plateThickness: '1.5mm (16 gauge)',
+      topChordMaterial: { section: 'C150x75x20x3.0', weight_kg_per_m: 8.37 },
+      bottomChordMaterial: { section: 'C150x75x20x3.0', weight_kg_per_m: 8.37 },
+      webMaterial: { section: '2L50x50x6', weight_kg_per_m: 4.5 },
+    };
+    const webs = (result: ReturnType<typeof generateTruss>, subtype: 'vertical' | 'diagonal') =>
+      result.members.filter(m => m.subtype === subtype).map(m => [Math.round(m.length_mm), m.quantity]);
+
+    test('should generate Pratt verticals at every panel point with diagonals down towards mid-span', () => {
+      // 6 panels of 2m: verticals 1m, 2m, 3m (centre), 2m, 1m
+      const result = generateTruss(params);
+
+      expect(webs(result, 'vertical')).toEqual([[1000, 2], [2000, 2], [3000, 1]]);
+      expect(webs(result, 'diagonal')).toEqual([[2236, 2], [2828, 2]]);
+      expect(result.summary.webMembersTotal_mm).toBeCloseTo(9000 + 2 * (2236.07 + 2828.43), 0);
+      expect(result.connectorPlates.find(p => p.name === 'Node Plate')?.quantity).toBe(9);
+      expect(result.summary.webWeight_kg).toBeCloseTo((result.summary.webMembersTotal_mm / 1000) * 4.5);
+    });
+
+    test('should zig-zag Warren diagonals between the chords without verticals', () => {
+      const result = generateTruss({ ...params, type: 'warren' });
+
+      // Top-chord nodes at 2m (1m high) and 6m (apex): diagonals to the bottom nodes at 4m and 8m
+      expect(webs(result, 'vertical')).toEqual([]);
+      expect(webs(result, 'diagonal')).toEqual([[2236, 2], [3606, 2]]);
+
+      // Four panels: web meets the bottom chord at mid-span, so a centre post is added
+      const fourPanels = generateTruss({ ...params, type: 'warren', verticalWebCount: 3 });
+      expect(webs(fourPanels, 'vertical')).toEqual([[3000, 1]]);
+    });
+
+    test('should place queen posts at the third points with struts to the apex', () => {
+      const result = generateTruss({ ...params, type: 'queenpost', span_mm: 9000, overhang_mm: 450 });
+
+      expect(webs(result, 'vertical')).toEqual([[2000, 2], [300, 2]]);
+      expect(webs(result, 'diagonal')).toEqual([[3354, 2]]);
+      expect(result.geometry.totalLength_mm).toBe(9900);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * ROOF ACCESSORIES
+ * Pure functions for gutters, fascia, flashing, valley gutters, hip rolls and downspouts
+ * Edge lengths and accessory lengths in meters (m), laps in millimeters (mm), areas in m²
+ *
+ * Each accessory follows a kind of roof edge: gutters the eaves, fascia the eaves
+ * and rakes, flashing the rakes, valley gutters the valleys and hip rolls the
+ * hips and ridges (less any ridge the truss framing already caps). A run
+ * is made of stock pieces lapped at every joint, so the quantity is the edge
+ * length plus one lap per joint. Downspouts are counted by the plan area
+ * drained into the gutters and run from the eave to the ground.
+ *
+ * Architecture: PURE - no side effects, 100% deterministic, fully testable
+ */
+
+import type { RoofAccessoryItem, RoofAccessorySettings, RoofPlaneEdges } from '@/types';
+
+export type RoofAccessoryKind = 'gutter' | 'fascia' | 'flashing' | 'valleyGutter' | 'hipRoll' | 'downspout';
+
+export const DEFAULT_DOWNSPOUT_LENGTH_m = 3;
+
+export const ROOF_ACCESSORY_LABELS: Record<RoofAccessoryKind, string> = {
+  gutter: 'Gutter',
+  fascia: 'Fascia Board',
+  flashing: 'Flashing',
+  valleyGutter: 'Valley Gutter',
+  hipRoll: 'Ridge/Hip Roll',
+  downspout: 'Downspout',
+};
+
+/**
+ * Default accessories for metal roofing (DPWH 1013 (2)); fascia boards are carpentry (1003)
+ */
+export const DEFAULT_METAL_ROOF_ACCESSORIES: RoofAccessorySettings = {
+  gutter: { dpwhItem: '1013 (2) c', pieceLength_m: 3, lap_mm: 50 },
+  fascia: { dpwhItem: '1003 (11) a1', pieceLength_m: 2.4, lap_mm: 0 },
+  flashing: { dpwhItem: '1013 (2) b', pieceLength_m: 2.4, lap_mm: 100 },
+  valleyGutter: { dpwhItem: '1013 (2) e', pieceLength_m: 2.4, lap_mm: 150 },
+  hipRoll: { dpwhItem: '1013 (2) a', pieceLength_m: 2.4, lap_mm: 100 },
+  downspout: { dpwhItem: '1013 (2) d', pieceLength_m: 3, lap_mm: 50 },
+  drainedAreaPerDownspout_m2: 40,
+};
+
+/**
+ * Default accessories for asphalt roofing (DPWH 1013 (6))
+ */
+export const DEFAULT_ASPHALT_ROOF_ACCESSORIES: RoofAccessorySettings = {
+  ...DEFAULT_METAL_ROOF_ACCESSORIES,
+  gutter: { dpwhItem: '1013 (6) c', pieceLength_m: 3, lap_mm: 50 },
+  flashing: { dpwhItem: '1013 (6) b', pieceLength_m: 2.4, lap_mm: 100 },
+  valleyGutter: { dpwhItem: '1013 (6) e', pieceLength_m: 2.4, lap_mm: 150 },
+  hipRoll: { dpwhItem: '1013 (6) a', pieceLength_m: 2.4, lap_mm: 100 },
+  downspout: { dpwhItem: '1013 (6) d', pieceLength_m: 3, lap_mm: 50 },
+};
+
+export interface RoofEdgeTotals {
+  eave_m: number;
+  rake_m: number;
+  ridge_m: number;
+  hip_m: number;
+  valley_m: number;
+  drainedArea_m2: number; // plan area of planes with an eave
+}
+
+export interface RoofAccessoryQuantity {
+  kind: RoofAccessoryKind;
+  dpwhItem: string;
+  length_m: number; // net edge length (all downspouts together)
+  joints: number;
+  quantity: number; // linear meters including laps
+  count?: number; // downspouts
+  formulaText: string;
+}
+
+/**
+ * Validate roof plane edge lengths before saving
+ */
+export function validateRoofPlaneEdges(edges: Partial<RoofPlaneEdges>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  for (const key of ['eave_m', 'rake_m', 'ridge_m', 'hip_m', 'valley_m'] as const) {
+    const value = edges[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push(`${key} cannot be negative`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Accessory settings for a roof type: its family's defaults with the project's overrides
+ * Asphalt roofing (1013 (5)) takes the 1013 (6) accessories, every other roofing the metal ones.
+ */
+export function resolveRoofAccessorySettings(
+  roofTypeDpwhItem: string,
+  overrides?: Partial<RoofAccessorySettings>
+): RoofAccessorySettings {
+  const defaults = roofTypeDpwhItem.startsWith('1013 (5)')
+    ? DEFAULT_ASPHALT_ROOF_ACCESSORIES
+    : DEFAULT_METAL_ROOF_ACCESSORIES;
+  if (!overrides) return defaults;
+
+  return {
+    gutter: { ...defaults.gutter, ...overrides.gutter },
+    fascia: { ...defaults.fascia, ...overrides.fascia },
+    flashing: { ...defaults.flashing, ...overrides.flashing },
+    valleyGutter: { ...defaults.valleyGutter, ...overrides.valleyGutter },
+    hipRoll: { ...defaults.hipRoll, ...overrides.hipRoll },
+    downspout: { ...defaults.downspout, ...overrides.downspout },
+    drainedAreaPerDownspout_m2: overrides.drainedAreaPerDownspout_m2 ?? defaults.drainedAreaPerDownspout_m2,
+    downspoutLength_m: overrides.downspoutLength_m ?? defaults.downspoutLength_m,
+  };
+}
+
+/**
+ * Total edge lengths of a set of roof planes
+ * Ridges, hips and valleys are entered on both planes they bound, so they are halved.
+ */
+export function sumRoofPlaneEdges(planes: Array<{ edges?: RoofPlaneEdges; planArea_m2: number }>): RoofEdgeTotals {
+  const totals: RoofEdgeTotals = { eave_m: 0, rake_m: 0, ridge_m: 0, hip_m: 0, valley_m: 0, drainedArea_m2: 0 };
+
+  for (const { edges, planArea_m2 } of planes) {
+    if (!edges) continue;
+    totals.eave_m += edges.eave_m || 0;
+    totals.rake_m += edges.rake_m || 0;
+    totals.ridge_m += (edges.ridge_m || 0) / 2;
+    totals.hip_m += (edges.hip_m || 0) / 2;
+    totals.valley_m += (edges.valley_m || 0) / 2;
+    if ((edges.eave_m || 0) > 0) {
+      totals.drainedArea_m2 += planArea_m2;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Joints in a run of lapped stock pieces: ⌈(L - lap) / (piece - lap)⌉ - 1
+ */
+function countJoints(length_m: number, item: RoofAccessoryItem): number {
+  const lap_m = item.lap_mm / 1000;
+  if (!(item.pieceLength_m > lap_m)) {
+    throw new Error(`Piece length of ${item.dpwhItem} must be longer than its lap`);
+  }
+  return Math.max(0, Math.ceil((length_m - lap_m) / (item.pieceLength_m - lap_m) - 1e-9) - 1);
+}
+
+/**
+ * Accessory quantities from roof edge lengths
+ * ridgeCapped_m is ridge already covered by a truss ridge cap line, left out of the hip rolls.
+ */
+export function calculateRoofAccessories(
+  edges: RoofEdgeTotals,
+  settings: RoofAccessorySettings,
+  options: { ridgeCapped_m?: number; roofElevation_m?: number } = {}
+): RoofAccessoryQuantity[] {
+  if (!(settings.drainedAreaPerDownspout_m2 > 0)) {
+    throw new Error('Drained area per downspout must be positive');
+  }
+
+  const results: RoofAccessoryQuantity[] = [];
+  const addRun = (kind: RoofAccessoryKind, length_m: number, edgeText: string) => {
+    if (length_m <= 0) return;
+    const item = settings[kind] as RoofAccessoryItem;
+    const joints = countJoints(length_m, item);
+    const quantity = length_m + joints * item.lap_mm / 1000;
+    results.push({
+      kind,
+      dpwhItem: item.dpwhItem,
+      length_m,
+      joints,
+      quantity,
+      formulaText: `${edgeText} = ${length_m.toFixed(2)} m + ${joints} laps × ${item.lap_mm} mm = ${quantity.toFixed(2)} lm`,
+    });
+  };
+
+  addRun('gutter', edges.eave_m, 'Eaves');
+  addRun('fascia', edges.eave_m + edges.rake_m, 'Eaves + rakes');
+  addRun('flashing', edges.rake_m, 'Rakes');
+  addRun('valleyGutter', edges.valley_m, 'Valleys');
+  const ridgeCapped_m = Math.min(edges.ridge_m, options.ridgeCapped_m ?? 0);
+  const rolledRidge_m = edges.ridge_m - ridgeCapped_m;
+  addRun(
+    'hipRoll',
+    edges.hip_m + rolledRidge_m,
+    (rolledRidge_m > 0 ? 'Hips + ridges' : 'Hips')
+      + (ridgeCapped_m > 0 ? ` (less ${ridgeCapped_m.toFixed(2)} m ridge capped by trusses)` : '')
+  );
+
+  // Downspouts by drained plan area, each from the eave to the ground
+  if (edges.eave_m > 0 && edges.drainedArea_m2 > 0) {
+    const count = Math.ceil(edges.drainedArea_m2 / settings.drainedAreaPerDownspout_m2 - 1e-9);
+    const each_m = settings.downspoutLength_m
+      ?? (options.roofElevation_m && options.roofElevation_m > 0 ? options.roofElevation_m : DEFAULT_DOWNSPOUT_LENGTH_m);
+    const joints = countJoints(each_m, settings.downspout);
+    const quantity = count * (each_m + joints * settings.downspout.lap_mm / 1000);
+    results.push({
+      kind: 'downspout',
+      dpwhItem: settings.downspout.dpwhItem,
+      length_m: count * each_m,
+      joints: count * joints,
+      quantity,
+      count,
+      formulaText: `⌈${edges.drainedArea_m2.toFixed(2)} m² / ${settings.drainedAreaPerDownspout_m2} m²⌉ = ${count} × (${each_m.toFixed(2)} m + ${joints} laps × ${settings.downspout.lap_mm} mm) = ${quantity.toFixed(2)} lm`,
+    });
+  }
+
+  return results;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { DPWHItemMapping } from '@/types';
+import { calculateRoofSheetLayout, type SheetScheduleEntry } from './sheetLayout';
 
 // Default DPWH Item Mappings for Roof Framing Components
 export const DEFAULT_DPWH_MAPPINGS = {
@@ -49,28 +50,63 @@ export const DEFAULT_DPWH_MAPPINGS = {
   } as DPWHItemMapping,
 };
 
+/**
+ * Default purlin stock length (mm); pieces are cut to whole truss bays so splices land on a truss
+ */
+export const DEFAULT_PURLIN_STOCK_LENGTH_mm = 6000;
+
+/**
+ * Default eave purlin position, measured up the slope from the eave edge (mm)
+ */
+export const DEFAULT_EAVE_PURLIN_OFFSET_mm = 100;
+
+/**
+ * Default ridge purlin position, measured down the slope from the apex on each side (mm)
+ * 0 places a single ridge purlin on the apex
+ */
+export const DEFAULT_RIDGE_PURLIN_OFFSET_mm = 150;
+
 export interface RoofingMaterial {
   type: string;
   name: string;
   dpwhItem: string;
   description: string;
   maxPurlinSpacing_mm: number; // Maximum purlin spacing for this material
+  effectiveCoverWidth_mm?: number; // Width covered by one sheet once side-lapped
+  sideLap_mm?: number; // Overlap between adjacent sheets
+  maxSheetLength_m?: number; // Longest sheet supplied; longer slopes are end-lapped
 }
 
+/**
+ * Default sheet end lap where sheets are joined along the slope (mm)
+ */
+export const DEFAULT_SHEET_END_LAP_mm = 150;
+
+/**
+ * Default roofing screws per sheet at each purlin it crosses
+ */
+export const DEFAULT_FASTENERS_PER_CROSSING = 4;
+
 export const roofingMaterials: RoofingMaterial[] = [
   { 
     type: 'GI_Sheet_26', 
     name: 'Corrugated Metal Roofing Gauge 26 (0.551 mm)', 
     dpwhItem: '1013 (1)',
     description: 'Corrugated Metal Roofing Gauge 26 (0.551 mm)',
-    maxPurlinSpacing_mm: 600 
+    maxPurlinSpacing_mm: 600,
+    effectiveCoverWidth_mm: 700,
+    sideLap_mm: 100,
+    maxSheetLength_m: 3.6,
   },
   { 
     type: 'Asphalt_3mm', 
     name: 'Corrugated Asphalt Roofing 3 mm', 
     dpwhItem: '1013 (5)',
     description: 'Corrugated Asphalt Roofing 3 mm',
-    maxPurlinSpacing_mm: 600 
+    maxPurlinSpacing_mm: 600,
+    effectiveCoverWidth_mm: 850,
+    sideLap_mm: 100,
+    maxSheetLength_m: 2.0,
   },
 ];
 
@@ -100,6 +136,8 @@ export interface BracingConfiguration {
 export interface FramingParameters {
   // Truss details
   trussSpan_mm: number;
+  trussRise_mm: number; // Apex height above the bottom chord
+  overhang_mm: number; // Horizontal projection of the overhang at each eave
   trussSpacing_mm: number;
   buildingLength_mm: number;
   trussQuantity: number;
@@ -108,6 +146,9 @@ export interface FramingParameters {
   roofingMaterial: RoofingMaterial;
   purlinSpacing_mm: number; // Actual purlin spacing (must be <= maxPurlinSpacing_mm)
   purlinSpec: PurlinSpecification;
+  purlinStockLength_mm?: number; // Default DEFAULT_PURLIN_STOCK_LENGTH_mm
+  eavePurlinOffset_mm?: number; // Default DEFAULT_EAVE_PURLIN_OFFSET_mm
+  ridgePurlinOffset_mm?: number; // Default DEFAULT_RIDGE_PURLIN_OFFSET_mm
   
   // Bracing configuration
   bracing: BracingConfiguration;
@@ -118,9 +159,12 @@ export interface FramingParameters {
 }
 
 export interface PurlinLine {
-  position_mm: number; // Distance from eave along slope
+  position_mm: number; // Distance from eave edge along slope
+  plan_mm: number; // Horizontal distance from the truss heel (negative within the overhang)
   length_mm: number; // Total length (building length)
-  quantity: number; // Number of continuous pieces needed
+  quantity: number; // Number of pieces needed
+  pieceLength_mm: number; // Cut length of a full piece (whole truss bays)
+  splices: number; // Joints along the line, each over a truss
   side: 'left' | 'right' | 'ridge';
 }
 
@@ -138,6 +182,8 @@ export interface FramingResult {
     totalLength_m: number;
     totalWeight_kg: number;
     linesPerSide: number;
+    slopeLength_mm: number;
+    totalSplices: number;
   };
   
   bracing: {
@@ -159,6 +205,7 @@ export interface FramingResult {
     area_m2: number;
     sheets: number;
     screws: number;
+    schedule: SheetScheduleEntry[]; // both slopes, longest first
   };
   
   summary: {
@@ -169,70 +216,99 @@ export interface FramingResult {
 
 /**
  * Calculate purlin layout along roof slope
+ * The rafter runs along the top chord from the eave edge to the apex:
+ * (half span + overhang) × √(1 + (rise / half span)²). The eave purlin sits
+ * just above the eave edge, a ridge purlin just below the apex on each side,
+ * and the purlins between them are evenly spaced at no more than the purlin
+ * spacing. Each line is cut into pieces of whole truss bays from the stock
+ * length, so every splice falls on a truss. Bays longer than the stock length
+ * take one-bay pieces, ordered as longer stock.
  */
 function calculatePurlins(params: FramingParameters): {
   lines: PurlinLine[];
   totalLength_m: number;
   totalWeight_kg: number;
   linesPerSide: number;
+  slopeLength_mm: number;
+  totalSplices: number;
 } {
-  const { trussSpan_mm, buildingLength_mm, purlinSpacing_mm, purlinSpec } = params;
-  
-  // Calculate roof slope length (from eave to ridge on one side)
+  const { trussSpan_mm, trussRise_mm, overhang_mm, trussSpacing_mm, buildingLength_mm, purlinSpacing_mm, purlinSpec } = params;
+  const stockLength_mm = params.purlinStockLength_mm ?? DEFAULT_PURLIN_STOCK_LENGTH_mm;
+  const eaveOffset_mm = params.eavePurlinOffset_mm ?? DEFAULT_EAVE_PURLIN_OFFSET_mm;
+  const ridgeOffset_mm = params.ridgePurlinOffset_mm ?? DEFAULT_RIDGE_PURLIN_OFFSET_mm;
+
+  if (purlinSpacing_mm <= 0) {
+    throw new Error('Purlin spacing must be positive');
+  }
+  if (trussSpacing_mm <= 0) {
+    throw new Error('Truss spacing must be positive');
+  }
+
+  // True rafter length from eave edge to apex
   const halfSpan = trussSpan_mm / 2;
-  const slopeLength_mm = halfSpan; // Simplified - actual should account for rise
-  
-  // Number of purlin lines per side (excluding ridge)
-  const linesPerSide = Math.ceil(slopeLength_mm / purlinSpacing_mm);
-  
-  const lines: PurlinLine[] = [];
-  
-  // Left side purlins
-  for (let i = 0; i <= linesPerSide; i++) {
-    const position = i * purlinSpacing_mm;
-    if (position <= slopeLength_mm) {
-      lines.push({
-        position_mm: position,
-        length_mm: buildingLength_mm,
-        quantity: Math.ceil(buildingLength_mm / 6000), // 6m standard length
-        side: 'left',
-      });
-    }
+  const slopeFactor = Math.sqrt(1 + Math.pow(trussRise_mm / halfSpan, 2));
+  const slopeLength_mm = (halfSpan + overhang_mm) * slopeFactor;
+
+  const eavePosition = eaveOffset_mm;
+  const ridgePosition = slopeLength_mm - ridgeOffset_mm;
+  if (ridgePosition <= eavePosition) {
+    throw new Error('Rafter is too short for an eave and a ridge purlin');
   }
-  
-  // Ridge purlin
-  lines.push({
-    position_mm: slopeLength_mm,
+
+  // Even spacing between the eave and ridge purlins
+  const intervals = Math.ceil((ridgePosition - eavePosition) / purlinSpacing_mm);
+  const positions = Array.from({ length: intervals + 1 }, (_, i) =>
+    eavePosition + (i * (ridgePosition - eavePosition)) / intervals
+  );
+
+  // Splices over trusses: pieces of whole bays cut from the stock length
+  const pieceLength_mm = trussSpacing_mm > stockLength_mm
+    ? trussSpacing_mm
+    : Math.floor(stockLength_mm / trussSpacing_mm) * trussSpacing_mm;
+  const quantity = Math.ceil(buildingLength_mm / pieceLength_mm);
+  const splices = quantity - 1;
+
+  const toLine = (position_mm: number, side: PurlinLine['side']): PurlinLine => ({
+    position_mm,
+    plan_mm: position_mm / slopeFactor - overhang_mm,
     length_mm: buildingLength_mm,
-    quantity: Math.ceil(buildingLength_mm / 6000),
-    side: 'ridge',
+    quantity,
+    pieceLength_mm,
+    splices,
+    side,
   });
-  
-  // Right side purlins (mirror of left)
-  for (let i = 0; i <= linesPerSide; i++) {
-    const position = i * purlinSpacing_mm;
-    if (position <= slopeLength_mm) {
-      lines.push({
-        position_mm: position,
-        length_mm: buildingLength_mm,
-        quantity: Math.ceil(buildingLength_mm / 6000),
-        side: 'right',
-      });
-    }
+
+  const lines: PurlinLine[] = [];
+
+  // A single shared ridge purlin when it sits on the apex
+  const sharedRidge = ridgeOffset_mm === 0;
+  const sidePositions = sharedRidge ? positions.slice(0, -1) : positions;
+
+  // Left side purlins
+  sidePositions.forEach(position => lines.push(toLine(position, 'left')));
+
+  // Ridge purlin
+  if (sharedRidge) {
+    lines.push(toLine(ridgePosition, 'ridge'));
   }
-  
+
+  // Right side purlins (mirror of left)
+  sidePositions.forEach(position => lines.push(toLine(position, 'right')));
+
   // Calculate total length
   const totalLength_mm = lines.reduce((sum, line) => sum + line.length_mm, 0);
   const totalLength_m = totalLength_mm / 1000;
-  
+
   // Calculate weight
   const totalWeight_kg = totalLength_m * purlinSpec.weight_kg_per_m;
-  
+
   return {
     lines,
     totalLength_m,
     totalWeight_kg,
-    linesPerSide,
+    linesPerSide: positions.length,
+    slopeLength_mm,
+    totalSplices: splices * lines.length,
   };
 }
 
@@ -325,30 +401,39 @@ function calculateAccessories(params: FramingParameters, purlins: any): {
 
 /**
  * Calculate roofing sheet requirements
+ * Sheets run from the eave edge to the apex on both slopes, cut to the rafter
+ * length (end-lapped beyond the longest sheet) and screwed at every purlin.
  */
-function calculateRoofing(params: FramingParameters): {
-  area_m2: number;
-  sheets: number;
-  screws: number;
-} {
-  const { trussSpan_mm, buildingLength_mm, roofingMaterial } = params;
-  
-  // Simplified roof area (both slopes)
-  const slopeLength_m = (trussSpan_mm / 2) / 1000;
-  const buildingLength_m = buildingLength_mm / 1000;
-  const area_m2 = slopeLength_m * buildingLength_m * 2; // Both sides
-  
-  // Standard GI sheet: 0.6m x 2.4m = 1.44 m²
-  const sheetArea_m2 = roofingMaterial.type === 'GI_Sheet' ? 1.44 : 2.0;
-  const sheets = Math.ceil(area_m2 / sheetArea_m2 * 1.1); // 10% waste
-  
-  // Screws: ~8 per sheet
-  const screws = sheets * 8;
-  
+function calculateRoofing(params: FramingParameters, purlins: FramingResult['purlins']): FramingResult['roofing'] {
+  const { trussSpan_mm, overhang_mm, buildingLength_mm, roofingMaterial, purlinSpacing_mm } = params;
+
+  // Saved designs keep only the material type, so sheet sizes come from the catalogue
+  const catalogueMaterial = roofingMaterials.find(m => m.type === roofingMaterial.type);
+  const effectiveCoverWidth_mm = roofingMaterial.effectiveCoverWidth_mm ?? catalogueMaterial?.effectiveCoverWidth_mm;
+  const sideLap_mm = roofingMaterial.sideLap_mm ?? catalogueMaterial?.sideLap_mm;
+  const maxSheetLength_m = roofingMaterial.maxSheetLength_m ?? catalogueMaterial?.maxSheetLength_m;
+
+  const rafterRun_mm = trussSpan_mm / 2 + overhang_mm;
+  const layout = calculateRoofSheetLayout(
+    {
+      eaveLength_m: buildingLength_mm / 1000,
+      rafterRun_m: rafterRun_mm / 1000,
+      effectiveCoverWidth_mm: effectiveCoverWidth_mm ?? 1000,
+      sideLap_mm: sideLap_mm ?? 0,
+      endLap_mm: DEFAULT_SHEET_END_LAP_mm,
+      maxSheetLength_m,
+      purlinSpacing_mm,
+      fastenersPerCrossing: DEFAULT_FASTENERS_PER_CROSSING,
+    },
+    purlins.slopeLength_mm / rafterRun_mm
+  );
+
+  // Both slopes
   return {
-    area_m2,
-    sheets,
-    screws,
+    area_m2: 2 * (buildingLength_mm / 1000) * (purlins.slopeLength_mm / 1000),
+    sheets: 2 * layout.sheetCount,
+    screws: 2 * layout.fasteners,
+    schedule: layout.schedule.map(entry => ({ length_m: entry.length_m, count: 2 * entry.count })),
   };
 }
 
@@ -359,7 +444,7 @@ export function calculateRoofFraming(params: FramingParameters): FramingResult {
   const purlins = calculatePurlins(params);
   const bracing = calculateBracing(params);
   const accessories = calculateAccessories(params, purlins);
-  const roofing = calculateRoofing(params);
+  const roofing = calculateRoofing(params, purlins);
   
   // Calculate summary
   const totalSteelWeight_kg = purlins.totalWeight_kg + bracing.totalWeight_kg;
@@ -5,3 +5,5 @@
 
 export * from './roofGeometry';
 export * from './roofTakeoff';
+export * from './sheetLayout';
+export * from './accessories';
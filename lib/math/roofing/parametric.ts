@@ -35,11 +35,16 @@ export interface GeneratedRoofPlane {
   slopeFactor: number;
   
   // Geometry (simplified for takeoff)
+  // Edges bounding this plane; ridges, hips and valleys are shared with the adjoining plane
   planArea_m2: number;
   ridgeLength_m?: number;
   eaveLength_m?: number;
   hipLength_m?: number;
   valleyLength_m?: number;
+  rakeLength_m?: number; // sloped gable edges
+  
+  // Plan corners (m): x along the length, y across the width, from the building corner
+  outline: [number, number][];
 }
 
 export interface ParametricRoofResult {
@@ -52,6 +57,7 @@ export interface ParametricRoofResult {
     hipLength_m: number;
     valleyLength_m: number;
     eaveLength_m: number;
+    rakeLength_m: number;
   };
   metadata: {
     length_m: number;
@@ -104,10 +110,13 @@ function generateGableRoof(params: RoofParameters): GeneratedRoofPlane[] {
   const angleRad = Math.acos(1 / slopeFactor);
   const angleDeg = (angleRad * 180) / Math.PI;
   
-  // Each side covers half the width
-  const planArea = (L + 2 * overhang) * (W / 2);
+  // Each side covers half the width plus the eave overhang
+  const planArea = (L + 2 * overhang) * (W / 2 + overhang);
   const slopeArea = planArea * slopeFactor;
   
+  // Two gable edges per side, from the eave overhang to the ridge
+  const rakeLength = 2 * (W / 2 + overhang) * slopeFactor;
+  
   return [
     {
       name: 'North Slope',
@@ -117,6 +126,8 @@ function generateGableRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeFactor,
       ridgeLength_m: L + 2 * overhang,
       eaveLength_m: L + 2 * overhang,
+      rakeLength_m: rakeLength,
+      outline: [[-overhang, W / 2], [L + overhang, W / 2], [L + overhang, W + overhang], [-overhang, W + overhang]],
     },
     {
       name: 'South Slope',
@@ -126,6 +137,8 @@ function generateGableRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeFactor,
       ridgeLength_m: L + 2 * overhang,
       eaveLength_m: L + 2 * overhang,
+      rakeLength_m: rakeLength,
+      outline: [[-overhang, -overhang], [L + overhang, -overhang], [L + overhang, W / 2], [-overhang, W / 2]],
     },
   ];
 }
@@ -145,16 +158,20 @@ function generateHipRoof(params: RoofParameters): GeneratedRoofPlane[] {
   // Hip roof has 2 trapezoidal sides and 2 triangular ends
   const ridgeLength = L - W; // Ridge runs along length minus width
   
-  // Trapezoidal sides (main slopes)
-  const trapArea = ((L + 2 * overhang) * (W / 2));
+  // Hips run in plan at 45° from the eave corners, across half the width plus the overhang
+  const hipRun = W / 2 + overhang;
+  
+  // Trapezoidal sides (main slopes): eave and ridge as the parallel sides
+  const trapArea = ((L + 2 * overhang) + ridgeLength) / 2 * hipRun;
   const trapSlopeArea = trapArea * slopeFactor;
   
   // Triangular ends
-  const triArea = (W + 2 * overhang) * (W / 2) / 2;
+  const triArea = (W + 2 * overhang) * hipRun / 2;
   const triSlopeArea = triArea * slopeFactor;
   
-  // Hip length (diagonal)
-  const hipLength = Math.sqrt((W / 2) ** 2 + (W / 2) ** 2) * slopeFactor;
+  // Hip length: plan diagonal of the eave corner rising with the roof, r·√(1 + slopeFactor²)
+  // Each plane is bounded by two hips
+  const hipLength = hipRun * Math.sqrt(1 + slopeFactor ** 2);
   
   return [
     {
@@ -165,6 +182,8 @@ function generateHipRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeFactor,
       ridgeLength_m: ridgeLength,
       eaveLength_m: L + 2 * overhang,
+      hipLength_m: 2 * hipLength,
+      outline: [[-overhang, W + overhang], [L + overhang, W + overhang], [L - W / 2, W / 2], [W / 2, W / 2]],
     },
     {
       name: 'South Slope',
@@ -174,6 +193,8 @@ function generateHipRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeFactor,
       ridgeLength_m: ridgeLength,
       eaveLength_m: L + 2 * overhang,
+      hipLength_m: 2 * hipLength,
+      outline: [[-overhang, -overhang], [L + overhang, -overhang], [L - W / 2, W / 2], [W / 2, W / 2]],
     },
     {
       name: 'East Hip',
@@ -181,8 +202,9 @@ function generateHipRoof(params: RoofParameters): GeneratedRoofPlane[] {
       area_m2: triSlopeArea,
       slopeAngle_deg: angleDeg,
       slopeFactor,
-      hipLength_m: hipLength,
+      hipLength_m: 2 * hipLength,
       eaveLength_m: W + 2 * overhang,
+      outline: [[L + overhang, -overhang], [L + overhang, W + overhang], [L - W / 2, W / 2]],
     },
     {
       name: 'West Hip',
@@ -190,8 +212,9 @@ function generateHipRoof(params: RoofParameters): GeneratedRoofPlane[] {
       area_m2: triSlopeArea,
       slopeAngle_deg: angleDeg,
       slopeFactor,
-      hipLength_m: hipLength,
+      hipLength_m: 2 * hipLength,
       eaveLength_m: W + 2 * overhang,
+      outline: [[-overhang, -overhang], [W / 2, W / 2], [-overhang, W + overhang]],
     },
   ];
 }
@@ -214,6 +237,7 @@ function generateFlatRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeAngle_deg: 0.5,
       slopeFactor: 1.01,
       eaveLength_m: 2 * (L + W) + 8 * overhang,
+      outline: [[-overhang, -overhang], [L + overhang, -overhang], [L + overhang, W + overhang], [-overhang, W + overhang]],
     },
   ];
 }
@@ -239,9 +263,13 @@ function generateGambrelRoof(params: RoofParameters): GeneratedRoofPlane[] {
   const lowerAngleRad = (lowerAngleDeg * Math.PI) / 180;
   const lowerSlopeFactor = 1 / Math.cos(lowerAngleRad);
   
-  // Each section covers 1/4 of width
+  // Each section covers 1/4 of width, the lower ones plus the eave overhang
   const upperPlanArea = (L + 2 * overhang) * (W / 4);
-  const lowerPlanArea = (L + 2 * overhang) * (W / 4);
+  const lowerPlanArea = (L + 2 * overhang) * (W / 4 + overhang);
+  
+  // Two gable edges per section
+  const upperRakeLength = 2 * (W / 4) * upperSlopeFactor;
+  const lowerRakeLength = 2 * (W / 4 + overhang) * lowerSlopeFactor;
   
   return [
     {
@@ -251,6 +279,8 @@ function generateGambrelRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeAngle_deg: upperAngleDeg,
       slopeFactor: upperSlopeFactor,
       ridgeLength_m: L + 2 * overhang,
+      rakeLength_m: upperRakeLength,
+      outline: [[-overhang, W / 2], [L + overhang, W / 2], [L + overhang, 3 * W / 4], [-overhang, 3 * W / 4]],
     },
     {
       name: 'North Lower',
@@ -259,6 +289,8 @@ function generateGambrelRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeAngle_deg: lowerAngleDeg,
       slopeFactor: lowerSlopeFactor,
       eaveLength_m: L + 2 * overhang,
+      rakeLength_m: lowerRakeLength,
+      outline: [[-overhang, 3 * W / 4], [L + overhang, 3 * W / 4], [L + overhang, W + overhang], [-overhang, W + overhang]],
     },
     {
       name: 'South Upper',
@@ -267,6 +299,8 @@ function generateGambrelRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeAngle_deg: upperAngleDeg,
       slopeFactor: upperSlopeFactor,
       ridgeLength_m: L + 2 * overhang,
+      rakeLength_m: upperRakeLength,
+      outline: [[-overhang, W / 4], [L + overhang, W / 4], [L + overhang, W / 2], [-overhang, W / 2]],
     },
     {
       name: 'South Lower',
@@ -275,6 +309,8 @@ function generateGambrelRoof(params: RoofParameters): GeneratedRoofPlane[] {
       slopeAngle_deg: lowerAngleDeg,
       slopeFactor: lowerSlopeFactor,
       eaveLength_m: L + 2 * overhang,
+      rakeLength_m: lowerRakeLength,
+      outline: [[-overhang, -overhang], [L + overhang, -overhang], [L + overhang, W / 4], [-overhang, W / 4]],
     },
   ];
 }
@@ -302,13 +338,14 @@ export function generateParametricRoof(params: RoofParameters): ParametricRoofRe
       throw new Error(`Unsupported roof style: ${params.style}`);
   }
   
-  // Calculate summary
+  // Calculate summary (shared ridges, hips and valleys counted once)
   const totalPlanArea = planes.reduce((sum, p) => sum + p.planArea_m2, 0);
   const totalSlopeArea = planes.reduce((sum, p) => sum + p.area_m2, 0);
-  const ridgeLength = planes.reduce((sum, p) => sum + (p.ridgeLength_m || 0), 0);
-  const hipLength = planes.reduce((sum, p) => sum + (p.hipLength_m || 0), 0);
-  const valleyLength = planes.reduce((sum, p) => sum + (p.valleyLength_m || 0), 0);
+  const ridgeLength = planes.reduce((sum, p) => sum + (p.ridgeLength_m || 0), 0) / 2;
+  const hipLength = planes.reduce((sum, p) => sum + (p.hipLength_m || 0), 0) / 2;
+  const valleyLength = planes.reduce((sum, p) => sum + (p.valleyLength_m || 0), 0) / 2;
   const eaveLength = planes.reduce((sum, p) => sum + (p.eaveLength_m || 0), 0);
+  const rakeLength = planes.reduce((sum, p) => sum + (p.rakeLength_m || 0), 0);
   
   return {
     style: params.style,
@@ -320,6 +357,7 @@ export function generateParametricRoof(params: RoofParameters): ParametricRoofRe
       hipLength_m: hipLength,
       valleyLength_m: valleyLength,
       eaveLength_m: eaveLength,
+      rakeLength_m: rakeLength,
     },
     metadata: {
       length_m: params.length_m,
@@ -329,3 +367,53 @@ export function generateParametricRoof(params: RoofParameters): ParametricRoofRe
     },
   };
 }
+
+export interface RoofPlanExtent {
+  x: [number, number]; // building edges along X (m)
+  y: [number, number]; // building edges along Y (m)
+}
+
+const ROTATED_PLANE_NAMES: Record<string, string> = {
+  North: 'East',
+  South: 'West',
+  East: 'North',
+  West: 'South',
+};
+
+/**
+ * Generate a parametric roof over a plan extent (e.g. between grid lines)
+ * The ridge runs along the longer side. Outlines are returned in plan
+ * coordinates, and plane names follow the compass when the ridge runs along Y.
+ */
+export function generateParametricRoofOnExtent(
+  params: Omit<RoofParameters, 'length_m' | 'width_m'>,
+  extent: RoofPlanExtent
+): ParametricRoofResult {
+  const x0 = Math.min(...extent.x);
+  const y0 = Math.min(...extent.y);
+  const spanX = Math.abs(extent.x[1] - extent.x[0]);
+  const spanY = Math.abs(extent.y[1] - extent.y[0]);
+  if (!(spanX > 0) || !(spanY > 0)) {
+    throw new Error('Roof extent must have a positive length and width');
+  }
+
+  const ridgeAlongX = spanX >= spanY;
+  const result = generateParametricRoof({
+    ...params,
+    length_m: ridgeAlongX ? spanX : spanY,
+    width_m: ridgeAlongX ? spanY : spanX,
+  });
+
+  return {
+    ...result,
+    planes: result.planes.map(plane => ({
+      ...plane,
+      name: ridgeAlongX
+        ? plane.name
+        : plane.name.replace(/^(North|South|East|West)/, direction => ROTATED_PLANE_NAMES[direction]),
+      outline: plane.outline.map(([u, v]): [number, number] =>
+        ridgeAlongX ? [x0 + u, y0 + v] : [x0 + v, y0 + u]
+      ),
+    })),
+  };
+}
@@ -8,6 +8,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { TakeoffLine, RoofPlane, RoofType } from '@/types';
+import { calculateRoofSheetLayout } from './sheetLayout';
 
 /**
  * Compute roof covering takeoff quantity
@@ -82,6 +83,70 @@ export function computeRoofCoverTakeoff(
   };
 }
 
+/**
+ * Compute roof covering takeoff from the plane's sheet layout
+ * 
+ * Formula: qty = Σ cut sheet lengths × (cover width + side lap)
+ * Laps and cut-offs are in the layout, so the roof type's lap and waste allowances are not added.
+ * 
+ * @param roofPlane - Roof plane with computed geometry and a sheet layout
+ * @param roofType - Roof type template
+ * @returns TakeoffLine with the sheet schedule and fastener count
+ */
+export function computeRoofSheetTakeoff(
+  roofPlane: RoofPlane,
+  roofType: RoofType
+): TakeoffLine {
+  if (!roofPlane.sheetLayout) {
+    throw new Error('Roof plane has no sheet layout');
+  }
+
+  const layout = roofPlane.sheetLayout;
+  const result = calculateRoofSheetLayout(layout, roofPlane.computed.slopeFactor);
+
+  const inputsSnapshot: Record<string, number> = {
+    slopeFactor: roofPlane.computed.slopeFactor,
+    eaveLength_m: layout.eaveLength_m,
+    rafterRun_m: layout.rafterRun_m,
+    slopeLength_m: result.slopeLength_m,
+    effectiveCoverWidth_mm: layout.effectiveCoverWidth_mm,
+    sideLap_mm: layout.sideLap_mm ?? 0,
+    endLap_mm: layout.endLap_mm ?? 0,
+    sheetCount: result.sheetCount,
+    totalSheetLength_m: result.totalSheetLength_m,
+    purlinCrossings: result.purlinCrossings,
+    fasteners: result.fasteners,
+  };
+
+  const assumptions: string[] = [
+    `Sheet layout: ${result.sheetsAcross} columns of ${layout.effectiveCoverWidth_mm} mm cover along ${layout.eaveLength_m.toFixed(2)} m of eave`,
+    `Schedule: ${result.schedule.map(entry => `${entry.count} × ${entry.length_m.toFixed(2)} m`).join(', ')}`,
+    `Side laps: ${result.sideLaps} × ${layout.sideLap_mm ?? 0} mm, end laps: ${result.endLaps} × ${layout.endLap_mm ?? 0} mm`,
+    `Fasteners: ${result.fasteners} (${result.purlinCrossings} purlin crossings × ${layout.fastenersPerCrossing})`,
+    `Slope: ${roofPlane.slope.mode === 'ratio' ? `${roofPlane.slope.value} rise/run` : `${roofPlane.slope.value}°`}`,
+  ];
+
+  return {
+    id: uuidv4(),
+    sourceElementId: roofPlane.id,
+    trade: 'Roofing',
+    resourceKey: `roof-${roofType.id}`,
+    quantity: result.area_m2,
+    unit: roofType.unit,
+    formulaText: `${roofType.name}: ${result.formulaText}`,
+    inputsSnapshot,
+    assumptions,
+    tags: [
+      `roofPlane:${roofPlane.name}`,
+      `roofType:${roofType.name}`,
+      `level:${roofPlane.levelId}`,
+      `dpwh:${roofType.dpwhItemNumberRaw}`,
+      'layout:sheets',
+      ...roofPlane.tags,
+    ],
+  };
+}
+
 /**
  * Apply rounding to quantity (helper function)
  */
@@ -0,0 +1,191 @@
+/**
+ * ROOF SHEET LAYOUT
+ * Pure functions for laying long-span roofing sheets on a roof plane
+ * Plane dimensions in meters (m), sheet widths, laps and purlin spacing in millimeters (mm)
+ *
+ * Sheets are laid in columns along the eave, each column running from the eave
+ * to the ridge on the slope. A column longer than the longest deliverable sheet
+ * is split into equal cuts joined by end laps, or into the custom cut lengths
+ * given from the eave up. On a hipped plane the columns near the ends are cut
+ * to the hip, so they are shorter than the full rafter; each is ordered at its
+ * longest edge. Fasteners are counted where each sheet column crosses a purlin.
+ *
+ * Architecture: PURE - no side effects, 100% deterministic, fully testable
+ */
+
+import type { RoofSheetLayout } from '@/types';
+
+export const DEFAULT_MAX_SHEET_LENGTH_m = 12;
+
+export interface SheetScheduleEntry {
+  length_m: number;
+  count: number;
+}
+
+export interface RoofSheetLayoutResult {
+  slopeLength_m: number; // eave to ridge at full rafter
+  sheetsAcross: number; // sheet columns along the eave
+  schedule: SheetScheduleEntry[]; // longest first
+  sheetCount: number;
+  totalSheetLength_m: number;
+  sheetWidth_m: number; // cover width plus side lap
+  sideLaps: number; // lap lines between adjacent columns
+  endLaps: number; // joints along the slope
+  purlinCrossings: number;
+  fasteners: number;
+  area_m2: number; // ordered sheet area
+  formulaText: string;
+}
+
+/**
+ * Validate a sheet layout before saving
+ */
+export function validateRoofSheetLayout(layout: Partial<RoofSheetLayout>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const positive = (value: number | undefined) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+  const endLap_mm = layout.endLap_mm ?? 0;
+
+  if (!positive(layout.eaveLength_m) || !positive(layout.rafterRun_m)) {
+    errors.push('Eave length and rafter run must be positive');
+  }
+  if (layout.ridgeLength_m !== undefined &&
+    (layout.ridgeLength_m < 0 || (positive(layout.eaveLength_m) && layout.ridgeLength_m > (layout.eaveLength_m as number)))) {
+    errors.push('Ridge length must be between 0 and the eave length');
+  }
+  if (!positive(layout.effectiveCoverWidth_mm)) {
+    errors.push('Effective cover width must be positive');
+  }
+  if ((layout.sideLap_mm ?? 0) < 0 || endLap_mm < 0) {
+    errors.push('Laps cannot be negative');
+  }
+  if (layout.maxSheetLength_m !== undefined && !(layout.maxSheetLength_m * 1000 > endLap_mm)) {
+    errors.push('Maximum sheet length must be longer than the end lap');
+  }
+  if (layout.customCutLengths_m && layout.customCutLengths_m.length > 0 &&
+    layout.customCutLengths_m.some(length => !(length * 1000 > endLap_mm))) {
+    errors.push('Custom cut lengths must each be longer than the end lap');
+  }
+  if (!positive(layout.purlinSpacing_mm)) {
+    errors.push('Purlin spacing must be positive');
+  }
+  if (!Number.isInteger(layout.fastenersPerCrossing) || (layout.fastenersPerCrossing as number) < 1) {
+    errors.push('Fasteners per crossing must be a whole number of at least 1');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Round a cut length up to the next centimeter
+ */
+function roundUpCut(length_m: number): number {
+  return Math.ceil(length_m * 100 - 1e-6) / 100;
+}
+
+/**
+ * Cut one sheet column of the given slope length into sheets, eave first
+ */
+function cutColumn(length_m: number, layout: RoofSheetLayout): number[] {
+  const lap_m = (layout.endLap_mm ?? 0) / 1000;
+
+  if (layout.customCutLengths_m && layout.customCutLengths_m.length > 0) {
+    const pieces: number[] = [];
+    let covered_m = 0;
+    for (const cut_m of layout.customCutLengths_m) {
+      const remaining_m = length_m - covered_m;
+      if (remaining_m <= 1e-6) break;
+      const joint_m = pieces.length > 0 ? lap_m : 0;
+      const piece_m = roundUpCut(Math.min(cut_m, remaining_m + joint_m));
+      pieces.push(piece_m);
+      covered_m += piece_m - joint_m;
+    }
+    if (length_m - covered_m > 1e-6) {
+      throw new Error(
+        `Custom cut lengths cover ${covered_m.toFixed(2)} m of the ${length_m.toFixed(2)} m slope after end laps`
+      );
+    }
+    return pieces;
+  }
+
+  const maxLength_m = layout.maxSheetLength_m ?? DEFAULT_MAX_SHEET_LENGTH_m;
+  if (length_m <= maxLength_m) {
+    return [roundUpCut(length_m)];
+  }
+  const count = Math.ceil((length_m - lap_m) / (maxLength_m - lap_m));
+  const piece_m = roundUpCut((length_m + (count - 1) * lap_m) / count);
+  return Array(count).fill(piece_m);
+}
+
+/**
+ * Lay sheets on a roof plane
+ *
+ * Columns: n = ⌈eave / cover width⌉
+ * Column length (slope): run at the column's longest edge × slope factor
+ * Crossings per column: ⌊length / purlin spacing⌋ + 1
+ * Area: Σ sheet lengths × (cover width + side lap)
+ */
+export function calculateRoofSheetLayout(layout: RoofSheetLayout, slopeFactor: number): RoofSheetLayoutResult {
+  const validation = validateRoofSheetLayout(layout);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+  if (!(slopeFactor >= 1)) {
+    throw new Error('Slope factor must be at least 1');
+  }
+
+  const eave_m = layout.eaveLength_m;
+  const ridge_m = layout.ridgeLength_m ?? eave_m;
+  const cover_m = layout.effectiveCoverWidth_mm / 1000;
+  const sheetWidth_m = cover_m + (layout.sideLap_mm ?? 0) / 1000;
+  const purlinSpacing_m = layout.purlinSpacing_mm / 1000;
+
+  // Hip cuts shorten the columns over (eave - ridge) / 2 at each end
+  const taper_m = (eave_m - ridge_m) / 2;
+  const runAt = (x_m: number) => taper_m > 0
+    ? layout.rafterRun_m * Math.min(1, x_m / taper_m, (eave_m - x_m) / taper_m)
+    : layout.rafterRun_m;
+
+  const sheetsAcross = Math.ceil(eave_m / cover_m - 1e-9);
+  const slopeLength_m = layout.rafterRun_m * slopeFactor;
+  const counts = new Map<number, number>();
+  let purlinCrossings = 0;
+  let sheetCount = 0;
+  let columnCount = 0;
+
+  for (let i = 0; i < sheetsAcross; i++) {
+    const start_m = i * cover_m;
+    const end_m = Math.min((i + 1) * cover_m, eave_m);
+    const longestEdge_m = Math.min(Math.max(eave_m / 2, start_m), end_m);
+    const columnLength_m = runAt(longestEdge_m) * slopeFactor;
+    if (columnLength_m <= 1e-6) continue;
+
+    const pieces = cutColumn(columnLength_m, layout);
+    pieces.forEach(piece_m => counts.set(piece_m, (counts.get(piece_m) || 0) + 1));
+    sheetCount += pieces.length;
+    columnCount++;
+    purlinCrossings += Math.floor(columnLength_m / purlinSpacing_m + 1e-9) + 1;
+  }
+
+  const schedule = Array.from(counts.entries())
+    .map(([length_m, count]) => ({ length_m, count }))
+    .sort((a, b) => b.length_m - a.length_m);
+  const totalSheetLength_m = schedule.reduce((sum, entry) => sum + entry.length_m * entry.count, 0);
+  const area_m2 = totalSheetLength_m * sheetWidth_m;
+  const fasteners = purlinCrossings * layout.fastenersPerCrossing;
+  const scheduleText = schedule.map(entry => `${entry.count} × ${entry.length_m.toFixed(2)}m`).join(' + ');
+
+  return {
+    slopeLength_m,
+    sheetsAcross,
+    schedule,
+    sheetCount,
+    totalSheetLength_m,
+    sheetWidth_m,
+    sideLaps: Math.max(0, sheetsAcross - 1),
+    endLaps: sheetCount - columnCount,
+    purlinCrossings,
+    fasteners,
+    area_m2,
+    formulaText: `(${scheduleText}) = ${totalSheetLength_m.toFixed(2)} m × ${sheetWidth_m.toFixed(3)} m = ${area_m2.toFixed(2)} m²`,
+  };
+}
@@ -1,9 +1,12 @@
 /**
  * Truss Design and Calculation Library
- * Supports Howe, Fink, King Post, Queen Post, and other truss types
+ * Supports Howe, Fink, King Post, Queen Post, Pratt and Warren truss types
  */
 
+import type { GridLine, TrussDesign } from '@/types';
+
 export type TrussType = 'howe' | 'fink' | 'kingpost' | 'queenpost' | 'pratt' | 'warren';
+export const TRUSS_TYPES: TrussType[] = ['howe', 'fink', 'kingpost', 'queenpost', 'pratt', 'warren'];
 export type PlateThickness = '1.0mm (20 gauge)' | '1.2mm (18 gauge)' | '1.5mm (16 gauge)' | '2.0mm (14 gauge)';
 
 export interface MaterialSpecification {
@@ -17,7 +20,7 @@ export interface TrussParameters {
   middleRise_mm: number; // Required: exact height at middle/peak
   overhang_mm?: number;
   spacing_mm: number;
-  verticalWebCount?: number; // Optional: number of vertical web members (excluding center), applies to Howe truss
+  verticalWebCount?: number; // Optional: number of vertical web members (excluding center), applies to Howe truss; sets the panel count of Pratt and Warren trusses
   plateThickness: PlateThickness;
   // Material specifications for steel components (required)
   topChordMaterial: MaterialSpecification;
@@ -578,6 +581,293 @@ function generateKingPostTruss(params: TrussParameters): TrussResult {
   };
 }
 
+/**
+ * Height of the top chord above the bottom chord at a distance from the left heel
+ */
+function topChordHeight(x_mm: number, span_mm: number, rise_mm: number): number {
+  const halfSpan_mm = span_mm / 2;
+  return rise_mm * (1 - Math.abs(x_mm - halfSpan_mm) / halfSpan_mm);
+}
+
+/**
+ * Add web members, one member per distinct length (mirrored webs share a member)
+ */
+function pushWebMembers(
+  members: TrussMember[],
+  name: string,
+  subtype: 'vertical' | 'diagonal',
+  lengths_mm: number[],
+  forceType: TrussMember['forceType']
+): void {
+  const quantities = new Map<number, number>();
+  lengths_mm.forEach(length_mm => {
+    const key = Math.round(length_mm);
+    quantities.set(key, (quantities.get(key) || 0) + 1);
+  });
+
+  let index = 1;
+  quantities.forEach((quantity, length_mm) => {
+    members.push({
+      name: quantities.size > 1 ? `${name} ${index++}` : name,
+      type: 'web',
+      subtype,
+      length_mm,
+      quantity,
+      section: '40x70mm',
+      forceType,
+    });
+  });
+}
+
+/**
+ * Steel weight of chords and webs from the material specifications
+ */
+function calculateMemberWeights(members: TrussMember[], params: TrussParameters) {
+  let topChordWeight_kg = 0;
+  let bottomChordWeight_kg = 0;
+  let webWeight_kg = 0;
+
+  members.forEach(member => {
+    const length_m = (member.length_mm / 1000) * member.quantity;
+    if (member.subtype === 'top') {
+      topChordWeight_kg += length_m * params.topChordMaterial.weight_kg_per_m;
+    } else if (member.subtype === 'bottom') {
+      bottomChordWeight_kg += length_m * params.bottomChordMaterial.weight_kg_per_m;
+    } else {
+      webWeight_kg += length_m * params.webMaterial.weight_kg_per_m;
+    }
+  });
+
+  return { topChordWeight_kg, bottomChordWeight_kg, webWeight_kg };
+}
+
+/**
+ * Chords, overhang end webs, plates and summary shared by the panelled trusses
+ * Webs are passed in; the top chord runs from the overhang tip to the apex.
+ */
+function assemblePitchedTruss(
+  type: TrussType,
+  params: TrussParameters,
+  webLengths: { verticals: number[]; diagonals: number[] },
+  forces: { vertical: TrussMember['forceType']; diagonal: TrussMember['forceType'] },
+  internalNodes: number,
+  warnings: string[]
+): TrussResult {
+  const { span_mm, middleRise_mm, overhang_mm = 450 } = params;
+  const rise_mm = middleRise_mm;
+  const members: TrussMember[] = [];
+  const connectorPlates: ConnectorPlate[] = [];
+
+  const topChordLength_mm = calculateLength(span_mm / 2, rise_mm) + overhang_mm;
+  members.push({
+    name: 'Top Chord',
+    type: 'chord',
+    subtype: 'top',
+    length_mm: topChordLength_mm,
+    quantity: 2,
+    section: '40x90mm',
+    forceType: 'compression',
+  });
+
+  members.push({
+    name: 'Bottom Chord',
+    type: 'chord',
+    subtype: 'bottom',
+    length_mm: span_mm,
+    quantity: 1,
+    section: '40x90mm',
+    forceType: 'tension',
+  });
+
+  pushWebMembers(members, 'Vertical Web', 'vertical', webLengths.verticals, forces.vertical);
+  pushWebMembers(members, 'Diagonal Web', 'diagonal', webLengths.diagonals, forces.diagonal);
+
+  // Vertical End Webs (at both ends, when overhang exists)
+  if (overhang_mm > 0) {
+    members.push({
+      name: 'End Vertical Web',
+      type: 'web',
+      subtype: 'vertical',
+      length_mm: overhang_mm * (rise_mm / (span_mm / 2)),
+      quantity: 2, // One at each end
+      section: '40x70mm',
+      forceType: 'compression',
+    });
+  }
+
+  connectorPlates.push({
+    name: 'Heel Plate',
+    size_mm: '80x100mm',
+    gauge: params.plateThickness,
+    quantity: 2,
+  });
+
+  connectorPlates.push({
+    name: 'Middle Rise Plate',
+    size_mm: '100x150mm',
+    gauge: params.plateThickness,
+    quantity: 1,
+  });
+
+  connectorPlates.push({
+    name: 'Node Plate',
+    size_mm: '60x80mm',
+    gauge: params.plateThickness,
+    quantity: internalNodes,
+  });
+
+  const { topChordWeight_kg, bottomChordWeight_kg, webWeight_kg } = calculateMemberWeights(members, params);
+  const platesWeight_kg = connectorPlates.reduce((sum, p) => sum + p.quantity * 0.15, 0); // ~150g per plate
+  const totalWeight_kg = topChordWeight_kg + bottomChordWeight_kg + webWeight_kg + platesWeight_kg;
+
+  const slendernessRatio = rise_mm / span_mm;
+  if (slendernessRatio < 0.1) {
+    warnings.push('Low pitch: Consider increasing pitch for better structural efficiency');
+  }
+
+  const pitch_deg = Math.atan(rise_mm / (span_mm / 2)) * 180 / Math.PI;
+  const sum = (lengths: number[]) => lengths.reduce((total, length) => total + length, 0);
+
+  return {
+    type,
+    geometry: {
+      span_mm,
+      rise_mm,
+      pitch_deg,
+      overhang_mm,
+      totalLength_mm: span_mm + 2 * overhang_mm,
+      height_mm: rise_mm,
+    },
+    members,
+    connectorPlates,
+    summary: {
+      totalWeight_kg,
+      topChordLength_mm: topChordLength_mm * 2,
+      bottomChordLength_mm: span_mm,
+      webMembersTotal_mm: sum(webLengths.verticals) + sum(webLengths.diagonals),
+      plateCount: connectorPlates.reduce((sum, p) => sum + p.quantity, 0),
+      materialVolume_m3: 0, // Steel only - no volume calculation needed
+      topChordWeight_kg,
+      bottomChordWeight_kg,
+      webWeight_kg,
+    },
+    validation: {
+      valid: warnings.length === 0,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Number of panels of a Pratt or Warren truss
+ * verticalWebCount + 1 as for Howe, rounded up to an even number so the truss is symmetric
+ */
+function calculatePanelCount(params: TrussParameters): number {
+  const verticalCount = params.verticalWebCount ?? Math.max(3, Math.min(9, Math.floor(params.span_mm / 2000)));
+  const panelCount = verticalCount + 1;
+  return panelCount % 2 === 0 ? panelCount : panelCount + 1;
+}
+
+/**
+ * Generate Queen Post Truss
+ * Characteristics: Two posts at the third points of the span, struts from their feet to the apex
+ * Suits spans a little longer than the king post (up to about 10m)
+ */
+function generateQueenPostTruss(params: TrussParameters): TrussResult {
+  const { span_mm, middleRise_mm: rise_mm } = params;
+
+  const post_mm = topChordHeight(span_mm / 3, span_mm, rise_mm);
+  const strut_mm = calculateLength(span_mm / 6, rise_mm);
+
+  const warnings: string[] = [];
+  if (span_mm > 10000) warnings.push('Queen post truss recommended for spans under 10m');
+
+  return assemblePitchedTruss(
+    'queenpost',
+    params,
+    { verticals: [post_mm, post_mm], diagonals: [strut_mm, strut_mm] },
+    { vertical: 'tension', diagonal: 'compression' },
+    4, // Top and foot of each post
+    warnings
+  );
+}
+
+/**
+ * Generate Pratt Truss
+ * Characteristics: Vertical web members (compression), diagonals sloping down towards
+ * mid-span (tension) - the mirror of the Howe truss, suited to long steel spans
+ */
+function generatePrattTruss(params: TrussParameters): TrussResult {
+  const { span_mm, middleRise_mm: rise_mm } = params;
+
+  const panelCount = calculatePanelCount(params);
+  const panelWidth_mm = span_mm / panelCount;
+  const verticals: number[] = [];
+  const diagonals: number[] = [];
+
+  // Verticals at every internal node, the centre one at the apex
+  for (let i = 1; i < panelCount; i++) {
+    verticals.push(topChordHeight(i * panelWidth_mm, span_mm, rise_mm));
+  }
+
+  // Diagonals from the top of each vertical down to the foot of the next one towards mid-span
+  for (let i = 1; i < panelCount / 2; i++) {
+    const diagonal_mm = calculateLength(panelWidth_mm, topChordHeight(i * panelWidth_mm, span_mm, rise_mm));
+    diagonals.push(diagonal_mm, diagonal_mm);
+  }
+
+  const warnings: string[] = [];
+  if (span_mm > 30000) warnings.push('Very long span: Consider professional structural review');
+
+  return assemblePitchedTruss(
+    'pratt',
+    params,
+    { verticals, diagonals },
+    { vertical: 'compression', diagonal: 'tension' },
+    2 * (panelCount - 1) - 1, // Top and bottom of each vertical, apex has its own plate
+    warnings
+  );
+}
+
+/**
+ * Generate Warren Truss
+ * Characteristics: Diagonals alternating between the bottom and top chords with no
+ * verticals (a centre post only when the web does not meet the apex)
+ */
+function generateWarrenTruss(params: TrussParameters): TrussResult {
+  const { span_mm, middleRise_mm: rise_mm } = params;
+
+  const panelCount = calculatePanelCount(params);
+  const panelWidth_mm = span_mm / panelCount;
+  const halfPanels = panelCount / 2;
+  const verticals: number[] = [];
+  const diagonals: number[] = [];
+
+  // Web nodes alternate: odd nodes on the top chord, even nodes on the bottom chord.
+  // The first and last diagonals would lie along the top chord, so they are left out.
+  for (let j = 1; j < panelCount - 1; j++) {
+    const topNode = j % 2 === 1 ? j : j + 1;
+    diagonals.push(calculateLength(panelWidth_mm, topChordHeight(topNode * panelWidth_mm, span_mm, rise_mm)));
+  }
+
+  // With an even number of panels per side the web meets the bottom chord at mid-span
+  if (halfPanels % 2 === 0) {
+    verticals.push(rise_mm);
+  }
+
+  const warnings: string[] = [];
+  if (span_mm > 30000) warnings.push('Very long span: Consider professional structural review');
+
+  return assemblePitchedTruss(
+    'warren',
+    params,
+    { verticals, diagonals },
+    { vertical: 'compression', diagonal: 'both' },
+    panelCount - 1 - (halfPanels % 2 === 1 ? 1 : 0), // Internal web nodes, apex has its own plate
+    warnings
+  );
+}
+
 /**
  * Main truss generation function
  */
@@ -589,6 +879,12 @@ export function generateTruss(params: TrussParameters): TrussResult {
       return generateFinkTruss(params);
     case 'kingpost':
       return generateKingPostTruss(params);
+    case 'queenpost':
+      return generateQueenPostTruss(params);
+    case 'pratt':
+      return generatePrattTruss(params);
+    case 'warren':
+      return generateWarrenTruss(params);
     default:
       throw new Error(`Truss type '${params.type}' not yet implemented`);
   }
@@ -605,6 +901,68 @@ export function calculateTrussQuantity(
   return Math.ceil(buildingLength_mm / trussSpacing_mm) + 1;
 }
 
+/**
+ * Building length covered by a truss design (mm)
+ * Taken between the assigned grid lines when a grid range is given,
+ * otherwise the entered building length
+ */
+export function calculateTrussRunLength(
+  buildingLength_mm: number,
+  gridRange: { axis: 'x' | 'y'; from: string; to: string } | undefined,
+  gridX: GridLine[],
+  gridY: GridLine[]
+): number {
+  if (!gridRange) {
+    return buildingLength_mm;
+  }
+
+  const lines = gridRange.axis === 'x' ? gridX : gridY;
+  const from = lines.find(line => line.label === gridRange.from);
+  const to = lines.find(line => line.label === gridRange.to);
+  if (!from || !to) {
+    throw new Error(`Grid line ${!from ? gridRange.from : gridRange.to} not found on the ${gridRange.axis.toUpperCase()} axis`);
+  }
+
+  const length_mm = Math.abs(to.offset - from.offset) * 1000;
+  if (length_mm <= 0) {
+    throw new Error('Grid range must span a positive length');
+  }
+  return length_mm;
+}
+
+/**
+ * Validate a named truss design before saving
+ */
+export function validateTrussDesign(design: Partial<TrussDesign>): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const assignment = design.assignment;
+
+  if (!design.name || !design.name.trim()) {
+    errors.push('Design name is required');
+  }
+  if (!design.trussParams) {
+    errors.push('Truss parameters are required');
+  } else {
+    if (!TRUSS_TYPES.includes(design.trussParams.type)) {
+      errors.push(`Truss type must be one of: ${TRUSS_TYPES.join(', ')}`);
+    }
+    if (!(design.trussParams.spacing_mm > 0) || !(design.trussParams.span_mm > 0)) {
+      errors.push('Truss span and spacing must be positive');
+    }
+  }
+  if (assignment?.gridAxis || assignment?.gridFrom || assignment?.gridTo) {
+    if (!assignment.gridAxis || !assignment.gridFrom || !assignment.gridTo) {
+      errors.push('Grid range needs an axis and both grid lines');
+    } else if (assignment.gridFrom === assignment.gridTo) {
+      errors.push('Grid range must run between two different grid lines');
+    }
+  } else if (!(design.buildingLength_mm && design.buildingLength_mm > 0)) {
+    errors.push('Building length must be positive when no grid range is assigned');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
 /**
  * Calculate total material takeoff for all trusses
  */
@@ -0,0 +1,224 @@
+/**
+ * SLAB OUTLINES
+ * Pure functions for polygon slab and mat outlines with openings (stair wells, shafts, drops)
+ * All coordinates and lengths in meters (m), areas in m²
+ *
+ * Outlines are plan polygons in grid coordinates (x along gridX offsets,
+ * y along gridY offsets). Openings are polygons inside the outline; they are
+ * deducted from the area and their edges are formed across the slab thickness.
+ * Bars are laid out by scanning lines at bar spacing across the outline and
+ * cutting each line where it leaves the slab or crosses an opening.
+ */
+
+import type { PolygonBoundary } from '@/types';
+import type { FormworkOutput } from './formwork';
+import { calculateBarCount } from './rebar';
+
+/**
+ * Concrete cover to slab and mat bars (m)
+ */
+export const SLAB_COVER = 0.02;
+export const MAT_COVER = 0.075;
+
+export interface SlabOutlineGeometry {
+  grossArea: number;
+  openingArea: number;
+  netArea: number;
+  outerEdgeLength: number; // outline perimeter
+  openingEdgeLength: number; // sum of opening perimeters
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export interface SlabBarRuns {
+  direction: 'X' | 'Y'; // direction the bars run
+  pieces: number[]; // length of each bar piece (m)
+  lineCount: number; // scan lines at spacing across the outline
+  totalLength: number;
+  longestPiece: number;
+}
+
+type Point = [number, number];
+
+function getPolygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+}
+
+function getPolygonPerimeter(points: Point[]): number {
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    perimeter += Math.hypot(x2 - x1, y2 - y1);
+  }
+  return perimeter;
+}
+
+/**
+ * Even-odd point-in-polygon test (points on an edge count as inside)
+ */
+export function isPointInPolygon(point: Point, points: Point[]): boolean {
+  const [px, py] = point;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    const cross = (px - xi) * (yj - yi) - (py - yi) * (xj - xi);
+    if (Math.abs(cross) < 1e-9 && px >= Math.min(xi, xj) - 1e-9 && px <= Math.max(xi, xj) + 1e-9 &&
+        py >= Math.min(yi, yj) - 1e-9 && py <= Math.max(yi, yj) + 1e-9) {
+      return true;
+    }
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Area, edge lengths and extents of an outline less its openings
+ */
+export function calculateSlabOutline(outline: PolygonBoundary, openings: PolygonBoundary[] = []): SlabOutlineGeometry {
+  if (outline.points.length < 3) {
+    throw new Error('Slab outline must have at least 3 points');
+  }
+  const grossArea = getPolygonArea(outline.points);
+  if (grossArea <= 0) {
+    throw new Error('Slab outline has no area');
+  }
+
+  let openingArea = 0;
+  let openingEdgeLength = 0;
+  openings.forEach((opening, index) => {
+    if (opening.points.length < 3) {
+      throw new Error(`Slab opening ${index + 1} must have at least 3 points`);
+    }
+    if (!opening.points.every(p => isPointInPolygon(p, outline.points))) {
+      throw new Error(`Slab opening ${index + 1} is not inside the slab outline`);
+    }
+    openingArea += getPolygonArea(opening.points);
+    openingEdgeLength += getPolygonPerimeter(opening.points);
+  });
+
+  if (openingArea >= grossArea) {
+    throw new Error(`Openings (${openingArea.toFixed(2)} m²) exceed slab area (${grossArea.toFixed(2)} m²)`);
+  }
+
+  const xs = outline.points.map(p => p[0]);
+  const ys = outline.points.map(p => p[1]);
+
+  return {
+    grossArea,
+    openingArea,
+    netArea: grossArea - openingArea,
+    outerEdgeLength: getPolygonPerimeter(outline.points),
+    openingEdgeLength,
+    xMin: Math.min(...xs),
+    xMax: Math.max(...xs),
+    yMin: Math.min(...ys),
+    yMax: Math.max(...ys),
+  };
+}
+
+/**
+ * Crossings of the line (axis = value) with every edge of the polygons
+ * Half-open rule on edge ends so a vertex on the line is counted once
+ */
+function getScanCrossings(polygons: Point[][], scanAxis: 0 | 1, value: number): number[] {
+  const runAxis = scanAxis === 1 ? 0 : 1;
+  const crossings: number[] = [];
+  for (const points of polygons) {
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if ((a[scanAxis] > value) !== (b[scanAxis] > value)) {
+        const t = (value - a[scanAxis]) / (b[scanAxis] - a[scanAxis]);
+        crossings.push(a[runAxis] + t * (b[runAxis] - a[runAxis]));
+      }
+    }
+  }
+  return crossings.sort((p, q) => p - q);
+}
+
+/**
+ * Bar pieces for one direction of slab bars
+ * Line count follows calculateBarCount across the outline, spread evenly between
+ * the edges inset by the cover; each piece is also held back by the cover at both ends
+ */
+export function calculateSlabBarRuns(
+  outline: PolygonBoundary,
+  openings: PolygonBoundary[],
+  direction: 'X' | 'Y',
+  spacing: number,
+  cover: number = 0
+): SlabBarRuns {
+  if (spacing <= 0) {
+    throw new Error('Bar spacing must be positive');
+  }
+
+  const geometry = calculateSlabOutline(outline, openings);
+  const polygons = [outline.points, ...openings.map(o => o.points)];
+  // Bars along X are spaced across Y, and vice versa
+  const scanAxis: 0 | 1 = direction === 'X' ? 1 : 0;
+  const start = (scanAxis === 1 ? geometry.yMin : geometry.xMin) + cover;
+  const end = (scanAxis === 1 ? geometry.yMax : geometry.xMax) - cover;
+  const lineCount = end > start ? calculateBarCount(end - start, spacing) : 1;
+  const step = lineCount > 1 ? (end - start) / (lineCount - 1) : 0;
+
+  const pieces: number[] = [];
+  for (let i = 0; i < lineCount; i++) {
+    // End lines are held just inside so a bar on an outline edge (zero cover) still crosses it
+    const value = lineCount > 1 ? Math.min(Math.max(start + i * step, start + 1e-9), end - 1e-9) : (start + end) / 2;
+    const crossings = getScanCrossings(polygons, scanAxis, value);
+    for (let j = 0; j + 1 < crossings.length; j += 2) {
+      const length = crossings[j + 1] - crossings[j] - 2 * cover;
+      if (length > 1e-6) pieces.push(length);
+    }
+  }
+
+  return {
+    direction,
+    pieces,
+    lineCount,
+    totalLength: pieces.reduce((sum, p) => sum + p, 0),
+    longestPiece: pieces.length > 0 ? Math.max(...pieces) : 0,
+  };
+}
+
+/**
+ * Formwork for a polygon slab or mat
+ * Slab: soffit (net area) + opening edges × thickness (outer edges bear on beams)
+ * Mat: outline and opening edges × thickness (bottom against the soil)
+ */
+export function calculateSlabOutlineFormwork(
+  geometry: SlabOutlineGeometry,
+  thickness: number,
+  kind: 'slab' | 'mat'
+): FormworkOutput {
+  const soffitArea = kind === 'slab' ? geometry.netArea : 0;
+  const formedEdgeLength = geometry.openingEdgeLength + (kind === 'mat' ? geometry.outerEdgeLength : 0);
+  const edgeArea = formedEdgeLength * thickness;
+  const totalArea = soffitArea + edgeArea;
+
+  const soffitText = kind === 'slab' ? `${soffitArea.toFixed(3)} m² soffit + ` : '';
+  const formulaText = `${soffitText}${formedEdgeLength.toFixed(2)}m edges × ${thickness.toFixed(2)}m = ${totalArea.toFixed(3)} m²`;
+
+  return {
+    area: totalArea,
+    formulaText,
+    inputs: {
+      soffitArea,
+      formedEdgeLength,
+      edgeArea,
+      thickness,
+    },
+  };
+}
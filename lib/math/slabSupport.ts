@@ -0,0 +1,143 @@
+/**
+ * SLAB SUPPORT
+ * Pure functions for what sits under a slab: bedding, vapour barrier and compaction
+ * for slabs on grade, shoring for suspended slabs
+ * All lengths in meters (m), areas in m², volumes in m³
+ *
+ * Slabs on grade are cast on gravel bedding over compacted ground with a
+ * polyethylene sheet between; only their edges are formed. Suspended slabs
+ * are formed at the soffit and shored until the concrete gains strength; the
+ * shores are falsework, paid with the soffit formwork.
+ */
+
+/**
+ * Default gravel bedding under a slab on grade (m)
+ */
+export const DEFAULT_BEDDING_THICKNESS = 0.1;
+
+/**
+ * Default depth of ground compacted under the bedding (m)
+ */
+export const DEFAULT_COMPACTION_DEPTH = 0.15;
+
+/**
+ * Poly sheet laps and turn-ups, as a fraction of the slab area
+ */
+export const VAPOUR_BARRIER_LAP = 0.1;
+
+/**
+ * Default shore (prop) spacing each way under suspended slabs (m)
+ */
+export const DEFAULT_SHORING_SPACING = 1.2;
+
+/**
+ * DPWH items for slab support lines
+ * - Bedding: Item 804 (7) Gravel Fill
+ * - Vapour barrier: Item 1034 (1) b Dampproofing, Polyethylene Sheet
+ */
+export const SLAB_SUPPORT_DPWH_ITEMS = {
+  bedding: '804 (7)',
+  vapourBarrier: '1034 (1) b',
+} as const;
+
+/**
+ * Pay item ground compaction is included in: Item 804 (7) Gravel Fill
+ * No fill is placed, so compaction has no pay item of its own
+ */
+export const SUBGRADE_COMPACTION_PAID_UNDER = SLAB_SUPPORT_DPWH_ITEMS.bedding;
+
+/**
+ * Pay item slab shores are included in: Item 903 (1) Formwork for Concrete Structures
+ */
+export const SLAB_SHORING_PAID_UNDER = '903 (1)';
+
+export interface SlabSupportOutput {
+  quantity: number;
+  formulaText: string;
+  inputs: Record<string, number>;
+}
+
+function assertArea(area: number): void {
+  if (area <= 0) {
+    throw new Error('Slab area must be positive');
+  }
+}
+
+/**
+ * Gravel bedding under a slab on grade
+ * Volume = area × bedding thickness × (1 + waste)
+ */
+export function calculateGravelBedding(area: number, thickness: number, waste: number = 0): SlabSupportOutput {
+  assertArea(area);
+  if (thickness <= 0) {
+    throw new Error('Bedding thickness must be positive');
+  }
+
+  const volume = area * thickness;
+  const quantity = volume * (1 + waste);
+  const wasteText = waste > 0 ? ` × (1 + ${(waste * 100).toFixed(0)}% waste)` : '';
+
+  return {
+    quantity,
+    formulaText: `${area.toFixed(2)} m² × ${thickness.toFixed(2)}m${wasteText} = ${quantity.toFixed(3)} m³`,
+    inputs: { area, thickness, volume, waste },
+  };
+}
+
+/**
+ * Polyethylene vapour barrier between bedding and slab
+ * Area = slab area × (1 + lap allowance)
+ */
+export function calculateVapourBarrier(area: number, lap: number = VAPOUR_BARRIER_LAP): SlabSupportOutput {
+  assertArea(area);
+
+  const quantity = area * (1 + lap);
+
+  return {
+    quantity,
+    formulaText: `${area.toFixed(2)} m² × (1 + ${(lap * 100).toFixed(0)}% laps) = ${quantity.toFixed(2)} m²`,
+    inputs: { area, lap },
+  };
+}
+
+/**
+ * Compaction of the ground under the bedding
+ * Volume = area × compaction depth
+ */
+export function calculateSubgradeCompaction(area: number, depth: number = DEFAULT_COMPACTION_DEPTH): SlabSupportOutput {
+  assertArea(area);
+  if (depth <= 0) {
+    throw new Error('Compaction depth must be positive');
+  }
+
+  const quantity = area * depth;
+
+  return {
+    quantity,
+    formulaText: `${area.toFixed(2)} m² × ${depth.toFixed(2)}m compacted = ${quantity.toFixed(3)} m³`,
+    inputs: { area, depth },
+  };
+}
+
+/**
+ * Shoring under a suspended slab
+ * Shores = ⌈soffit area ÷ spacing²⌉
+ */
+export function calculateSlabShoring(
+  area: number,
+  shoreHeight: number,
+  spacing: number = DEFAULT_SHORING_SPACING
+): SlabSupportOutput {
+  assertArea(area);
+  if (spacing <= 0) {
+    throw new Error('Shore spacing must be positive');
+  }
+
+  const shores = Math.ceil(area / (spacing * spacing) - 1e-9);
+
+  return {
+    quantity: shores,
+    formulaText: `⌈${area.toFixed(2)} m² ÷ (${spacing.toFixed(2)}m)²⌉ = ${shores} shores, ${shoreHeight.toFixed(2)}m high`,
+    inputs: { area, shores, spacing, shoreHeight },
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * STAIRS
+ * Pure functions for reinforced concrete stairs: step layout, concrete and formwork
+ * All lengths in meters (m), volumes in m³, areas in m²
+ *
+ * A stair rises between two levels in one or more straight flights.
+ * Flights are joined by landings (flights − 1); the top and bottom
+ * of the stair bear on the floor slabs, which are taken off separately.
+ */
+
+import type { ConcreteOutput } from './concrete';
+import type { FormworkOutput } from './formwork';
+
+/**
+ * Concrete cover to stair bars (m)
+ */
+export const STAIR_COVER = 0.02;
+
+export interface StairInput {
+  riser: number; // maximum riser height
+  tread: number; // going per step
+  width: number; // flight width
+  waistThickness: number; // measured perpendicular to the soffit
+  flights: number;
+  landingLength: number; // landing depth along the walking line
+  landingWidth: number; // landing dimension across the stair
+  totalRise: number; // level to level
+}
+
+export interface StairFlight {
+  risers: number;
+  treads: number; // risers − 1: the top riser steps onto the landing or floor
+  rise: number;
+  going: number;
+  slopeLength: number; // soffit length
+}
+
+export interface StairGeometry {
+  riserCount: number;
+  riserHeight: number; // actual, totalRise / riserCount
+  flights: StairFlight[];
+  landingCount: number;
+}
+
+/**
+ * Step layout for a stair
+ * Risers = ⌈total rise / max riser⌉, split as evenly as possible across flights
+ */
+export function calculateStairGeometry(input: StairInput): StairGeometry {
+  const { riser, tread, width, waistThickness, flights, totalRise } = input;
+
+  if (riser <= 0 || tread <= 0 || width <= 0 || waistThickness <= 0) {
+    throw new Error('Stair riser, tread, width and waist thickness must be positive');
+  }
+  if (!Number.isInteger(flights) || flights < 1) {
+    throw new Error('Flight count must be a positive whole number');
+  }
+  if (totalRise <= 0) {
+    throw new Error('Stair end level must be above its start level');
+  }
+  if (flights > 1 && (input.landingLength <= 0 || input.landingWidth <= 0)) {
+    throw new Error('Landings need a positive length and width');
+  }
+
+  const riserCount = Math.ceil(totalRise / riser - 1e-9);
+  if (riserCount < 2 * flights) {
+    throw new Error(`${riserCount} risers cannot form ${flights} flight(s)`);
+  }
+  const riserHeight = totalRise / riserCount;
+
+  const flightList: StairFlight[] = [];
+  for (let i = 0; i < flights; i++) {
+    const risers = Math.floor(riserCount / flights) + (i < riserCount % flights ? 1 : 0);
+    const treads = risers - 1;
+    const rise = risers * riserHeight;
+    const going = treads * tread;
+    flightList.push({
+      risers,
+      treads,
+      rise,
+      going,
+      slopeLength: Math.sqrt(going * going + rise * rise),
+    });
+  }
+
+  return {
+    riserCount,
+    riserHeight,
+    flights: flightList,
+    landingCount: flights - 1,
+  };
+}
+
+/**
+ * Concrete for a stair
+ * Waist = Σ slope length × waist × width
+ * Steps = Σ treads × ½ × riser × tread × width
+ * Landings = count × landing length × landing width × waist
+ */
+export function calculateStairConcrete(input: StairInput, geometry: StairGeometry, waste: number): ConcreteOutput {
+  if (waste < 0 || waste > 1) {
+    throw new Error('Waste must be between 0 and 1');
+  }
+
+  const { tread, width, waistThickness, landingLength, landingWidth } = input;
+  const slopeLength = geometry.flights.reduce((sum, f) => sum + f.slopeLength, 0);
+  const treadCount = geometry.flights.reduce((sum, f) => sum + f.treads, 0);
+
+  const waistVolume = slopeLength * waistThickness * width;
+  const stepsVolume = treadCount * 0.5 * geometry.riserHeight * tread * width;
+  const landingVolume = geometry.landingCount * landingLength * landingWidth * waistThickness;
+  const volume = waistVolume + stepsVolume + landingVolume;
+  const volumeWithWaste = volume * (1 + waste);
+
+  const landingText = geometry.landingCount > 0
+    ? ` + Landings ${geometry.landingCount} × ${landingLength} × ${landingWidth} × ${waistThickness} = ${landingVolume.toFixed(3)}`
+    : '';
+  const formulaText = `Waist ${slopeLength.toFixed(3)} × ${waistThickness} × ${width} = ${waistVolume.toFixed(3)}` +
+    ` + Steps ${treadCount} × ½ × ${geometry.riserHeight.toFixed(3)} × ${tread} × ${width} = ${stepsVolume.toFixed(3)}` +
+    `${landingText} = ${volume.toFixed(3)} m³ (+ ${(waste * 100).toFixed(0)}% waste = ${volumeWithWaste.toFixed(3)} m³)`;
+
+  return {
+    volume,
+    volumeWithWaste,
+    formulaText,
+    inputs: {
+      riserCount: geometry.riserCount,
+      riserHeight: geometry.riserHeight,
+      treadCount,
+      slopeLength,
+      waistVolume,
+      stepsVolume,
+      landingVolume,
+      waste,
+    },
+  };
+}
+
+/**
+ * Formwork for a stair
+ * Soffit = Σ slope length × width + landings, Risers = riser count × riser × width
+ * (stair sides are assumed to be against walls or stringer beams)
+ */
+export function calculateStairFormwork(input: StairInput, geometry: StairGeometry): FormworkOutput {
+  const { width, landingLength, landingWidth } = input;
+  const slopeLength = geometry.flights.reduce((sum, f) => sum + f.slopeLength, 0);
+
+  const soffitArea = slopeLength * width + geometry.landingCount * landingLength * landingWidth;
+  const riserArea = geometry.riserCount * geometry.riserHeight * width;
+  const totalArea = soffitArea + riserArea;
+
+  const landingText = geometry.landingCount > 0
+    ? ` + ${geometry.landingCount} × ${landingLength.toFixed(2)}m × ${landingWidth.toFixed(2)}m`
+    : '';
+  const formulaText = `Soffit (${slopeLength.toFixed(3)}m × ${width.toFixed(2)}m${landingText}) + Risers (${geometry.riserCount} × ${geometry.riserHeight.toFixed(3)}m × ${width.toFixed(2)}m) = ${totalArea.toFixed(3)} m²`;
+
+  return {
+    area: totalArea,
+    formulaText,
+    inputs: {
+      slopeLength,
+      soffitArea,
+      riserArea,
+      riserCount: geometry.riserCount,
+    },
+  };
+}
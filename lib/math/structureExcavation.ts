@@ -0,0 +1,114 @@
+/**
+ * STRUCTURE EXCAVATION
+ * Pure functions for the pit dug around footings and mats, and the backfill returned to it
+ * All lengths in meters (m), areas in m², volumes in m³
+ *
+ * The pit bottom is the element's plan grown by the working space on every
+ * side, taken down to the underside of the gravel bedding. Sloped sides widen
+ * the pit by the side slope (horizontal per 1m of depth) on every side towards
+ * the ground. Whatever the concrete and bedding do not fill below natural
+ * ground is backfilled with the excavated material.
+ */
+
+/**
+ * Default clearance between the element and the pit side, each side (m)
+ */
+export const DEFAULT_WORKING_SPACE = 0.3;
+
+/**
+ * Default side slope, horizontal per 1m of depth (0 = vertical sides)
+ */
+export const DEFAULT_SIDE_SLOPE = 0;
+
+/**
+ * DPWH items for structure excavation lines
+ * - Excavation: Item 803 (1) a Structure Excavation, Common Soil (Item 103 in the highway Blue Book)
+ * - Backfill: Item 804 (1) a Embankment from Structure Excavation, Common Soil
+ * - Bedding: Item 804 (7) Gravel Fill
+ */
+export const STRUCTURE_EXCAVATION_DPWH_ITEMS = {
+  excavation: '803 (1) a',
+  backfill: '804 (1) a',
+  bedding: '804 (7)',
+} as const;
+
+export interface ExcavationPitInput {
+  area: number; // plan area of the element (m²)
+  perimeter: number; // plan perimeter of the element (m)
+  depth: number; // natural ground to the underside of the bedding (m)
+  workingSpace?: number; // m each side
+  sideSlope?: number; // horizontal per 1m of depth
+}
+
+export interface StructureExcavationOutput {
+  quantity: number;
+  formulaText: string;
+  inputs: Record<string, number>;
+}
+
+/**
+ * Pit volume around an element
+ * The plan at height z above the pit bottom is the element plan offset by
+ * d = working space + slope × z with square corners: A + P·d + 4d².
+ * Integrated over the depth h:
+ *   V = A·h + P·(w·h + s·h²/2) + 4·(w²·h + w·s·h² + s²·h³/3)
+ * Exact for rectangular footings (the prismoidal formula of the frustum).
+ */
+export function calculateStructureExcavation(input: ExcavationPitInput): StructureExcavationOutput {
+  const { area, perimeter, depth } = input;
+  const workingSpace = input.workingSpace ?? DEFAULT_WORKING_SPACE;
+  const sideSlope = input.sideSlope ?? DEFAULT_SIDE_SLOPE;
+
+  if (area <= 0 || perimeter <= 0) {
+    throw new Error('Excavated element must have a positive plan area and perimeter');
+  }
+  if (depth <= 0) {
+    throw new Error('Excavation depth must be positive');
+  }
+  if (workingSpace < 0 || sideSlope < 0) {
+    throw new Error('Working space and side slope cannot be negative');
+  }
+
+  const h = depth;
+  const w = workingSpace;
+  const s = sideSlope;
+  const quantity =
+    area * h +
+    perimeter * (w * h + (s * h * h) / 2) +
+    4 * (w * w * h + w * s * h * h + (s * s * h * h * h) / 3);
+
+  const bottomArea = area + perimeter * w + 4 * w * w;
+  const topOffset = w + s * h;
+  const topArea = area + perimeter * topOffset + 4 * topOffset * topOffset;
+  const slopeText = s > 0 ? `, sides ${s.toFixed(2)}:1 → top ${topArea.toFixed(2)} m²` : '';
+
+  return {
+    quantity,
+    formulaText: `Pit ${bottomArea.toFixed(2)} m² (+${w.toFixed(2)}m working space) × ${h.toFixed(2)}m deep${slopeText} = ${quantity.toFixed(3)} m³`,
+    inputs: { area, perimeter, depth, workingSpace: w, sideSlope: s, bottomArea, topArea },
+  };
+}
+
+/**
+ * Backfill returned to the pit
+ * Volume = excavation − concrete and bedding below natural ground
+ */
+export function calculateStructureBackfill(excavationVolume: number, buriedVolume: number): StructureExcavationOutput {
+  if (excavationVolume <= 0) {
+    throw new Error('Excavation volume must be positive');
+  }
+  if (buriedVolume < 0) {
+    throw new Error('Buried volume cannot be negative');
+  }
+  if (buriedVolume > excavationVolume + 1e-9) {
+    throw new Error('Buried volume exceeds the excavation');
+  }
+
+  const quantity = Math.max(excavationVolume - buriedVolume, 0);
+
+  return {
+    quantity,
+    formulaText: `${excavationVolume.toFixed(3)} m³ excavated − ${buriedVolume.toFixed(3)} m³ buried = ${quantity.toFixed(3)} m³`,
+    inputs: { excavationVolume, buriedVolume },
+  };
+}
@@ -1,5 +1,5 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import type { CalcRun, CalcRunStatus, CalcRunSummary, TakeoffLine, BOQLine } from '@/types';
+import type { CalcRun, CalcRunStatus, CalcRunSummary, TakeoffLine, BOQLine, BOQCostSummary, ConcreteMaterialsReport, RebarCuttingPlan } from '@/types';
 
 const TakeoffLineSchema = new Schema<TakeoffLine>({
   id: { type: String, required: true },
@@ -51,6 +51,12 @@ const BOQLineSchema = new Schema<BOQLine>({
   quantity: { type: Number, required: true },
   sourceTakeoffLineIds: [String],
   tags: [String],
+  // Prices are snapshotted so historical runs keep the rates they were costed with
+  unitCost: Number,
+  amount: Number,
+  currency: String,
+  priceSource: String,
+  priceEffectiveDate: Date,
 });
 
 const CalcRunSummarySchema = new Schema<CalcRunSummary>({
@@ -61,6 +67,76 @@ const CalcRunSummarySchema = new Schema<CalcRunSummary>({
   boqLineCount: { type: Number, default: 0 },
 });
 
+const BOQCostSummarySchema = new Schema<BOQCostSummary>({
+  currency: { type: String, default: 'PHP' },
+  partSubtotals: [{
+    part: String,
+    partName: String,
+    amount: Number,
+    lineCount: Number,
+  }],
+  grandTotal: { type: Number, default: 0 },
+  markups: {
+    directCost: Number,
+    ocmPercent: Number,
+    ocmAmount: Number,
+    profitPercent: Number,
+    profitAmount: Number,
+    contingencyPercent: Number,
+    contingencyAmount: Number,
+    vatPercent: Number,
+    vatAmount: Number,
+    totalEstimatedCost: Number,
+  },
+  pricedLineCount: { type: Number, default: 0 },
+  unpricedLineCount: { type: Number, default: 0 },
+  unpricedItems: [String],
+});
+
+const ConcreteMaterialsTotalSchema = {
+  concreteClass: String,
+  concreteVolume: Number,
+  cementBags: Number,
+  sand: Number,
+  gravel: Number,
+  water: Number,
+};
+
+const ConcreteMaterialsReportSchema = new Schema<ConcreteMaterialsReport>({
+  lines: [{
+    sourceTakeoffLineId: String,
+    sourceElementId: String,
+    dpwhItemNumberRaw: String,
+    concreteClass: String,
+    concreteVolume: Number,
+    cementBags: Number,
+    sand: Number,
+    gravel: Number,
+    water: Number,
+    formulaText: String,
+    assumptions: [String],
+    tags: [String],
+  }],
+  totalsByClass: [ConcreteMaterialsTotalSchema],
+  grandTotal: ConcreteMaterialsTotalSchema,
+});
+
+const RebarCuttingPlanSchema = new Schema<RebarCuttingPlan>({
+  stockLengths: [Number],
+  diameters: [{
+    diameter: Number,
+    cutCount: Number,
+    requiredLength: Number,
+    stockBars: [{ length: Number, count: Number }],
+    orderedLength: Number,
+    offcutLength: Number,
+    wastePercent: Number,
+    orderedWeight: Number,
+  }],
+  totalRequiredWeight: Number,
+  totalOrderedWeight: Number,
+});
+
 const CalcRunSchema = new Schema<CalcRun>(
   {
     runId: { type: String, required: true, unique: true },
@@ -75,6 +151,9 @@ const CalcRunSchema = new Schema<CalcRun>(
     summary: CalcRunSummarySchema,
     takeoffLines: [TakeoffLineSchema],
     boqLines: [BOQLineSchema],
+    costSummary: BOQCostSummarySchema,
+    concreteMaterials: ConcreteMaterialsReportSchema,
+    rebarCuttingPlan: RebarCuttingPlanSchema,
     errors: [String],
   },
   {
@@ -1,5 +1,5 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import type { ProjectModel, ProjectSettings, GridLine, Level, ElementTemplate, ElementInstance, Space, Opening, FinishType, SpaceFinishAssignment, WallSurface, WallSurfaceFinishAssignment, RoofType, RoofPlane, ScheduleItem } from '@/types';
+import type { ProjectModel, ProjectSettings, GridLine, Level, ElementTemplate, ElementInstance, Space, Opening, FinishType, SpaceFinishAssignment, WallSurface, WallSurfaceFinishAssignment, MasonryWall, EarthworkStation, EarthworkPit, EmbankmentPrism, RoofType, RoofPlane, RoofPlaneEdges, RoofSheetLayout, ScheduleItem, PriceBookEntry, DUPA } from '@/types';
 
 // Default project settings
 const defaultSettings: ProjectSettings = {
@@ -33,7 +33,7 @@ const LevelSchema = new Schema<Level>({
 
 const ElementTemplateSchema = new Schema<ElementTemplate>({
   id: { type: String, required: true },
-  type: { type: String, enum: ['beam', 'slab', 'column', 'foundation'], required: true },
+  type: { type: String, enum: ['beam', 'slab', 'column', 'foundation', 'pile', 'stair', 'wall'], required: true },
   name: { type: String, required: true },
   properties: { type: Map, of: Number, required: true },
   dpwhItemNumber: String,
@@ -53,6 +53,8 @@ const ElementTemplateSchema = new Schema<ElementTemplate>({
     },
     dpwhRebarItem: String,
   },
+  pileType: { type: String, enum: ['bored', 'driven'] },
+  slabSupport: { type: String, enum: ['suspended', 'on-grade'] },
 });
 
 const ElementInstanceSchema = new Schema<ElementInstance>({
@@ -63,6 +65,19 @@ const ElementInstanceSchema = new Schema<ElementInstance>({
     levelId: { type: String, required: true },
     endLevelId: String,
     customGeometry: { type: Map, of: Number },
+    openings: [{
+      width_m: Number,
+      height_m: Number,
+      qty: Number,
+    }],
+    boundary: Schema.Types.Mixed, // { points: [[x,y],...] }
+    openingPolygons: [Schema.Types.Mixed],
+    beamOffsets: {
+      start: Number,
+      end: Number,
+      line: Number,
+    },
+    beamCoordinates: Schema.Types.Mixed, // { start: [x,y], end: [x,y] }
   },
   tags: [String],
 });
@@ -168,14 +183,98 @@ const WallSurfaceFinishAssignmentSchema = new Schema<WallSurfaceFinishAssignment
   },
 });
 
+// ===================================
+// MASONRY SCHEMAS
+// ===================================
+
+const MasonryWallSchema = new Schema<MasonryWall>({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  wallSurfaceId: String, // reuse WallSurface placement
+  gridLine: {
+    axis: { type: String, enum: ['X', 'Y'] },
+    label: String,
+    span: [String],
+  },
+  levelStart: String,
+  levelEnd: String,
+  openings: [{
+    width_m: Number,
+    height_m: Number,
+    qty: Number,
+  }],
+  thickness_mm: { type: Number, enum: [100, 150], required: true },
+  loadBearing: { type: Boolean, default: false },
+  dpwhItemNumberRaw: String,
+  mortarClass: { type: String, enum: ['A', 'B', 'C', 'D'], default: 'B' },
+  reinforcement: {
+    verticalDiameter: { type: Number, required: true },
+    verticalSpacing_m: { type: Number, required: true },
+    horizontalDiameter: { type: Number, required: true },
+    horizontalSpacing_m: { type: Number, required: true },
+  },
+  plaster: {
+    sides: { type: Number, enum: [0, 1, 2] },
+    thickness_mm: Number,
+  },
+  wastePercent: Number,
+  tags: [String],
+});
+
+// ===================================
+// EARTHWORK SCHEMAS
+// ===================================
+
+const EarthworkStationSchema = new Schema<EarthworkStation>({
+  id: { type: String, required: true },
+  station: { type: String, required: true },
+  chainage: { type: Number, required: true },
+  ground: { type: [[Number]], required: true }, // [offset, elevation] pairs
+  design: { type: [[Number]], required: true },
+  notes: String,
+});
+
+const EarthworkPitSchema = new Schema<EarthworkPit>({
+  id: { type: String, required: true },
+  description: { type: String, required: true },
+  dpwhItem: { type: String, required: true },
+  length: { type: Number, required: true },
+  width: { type: Number, required: true },
+  depth: { type: Number, required: true },
+  count: { type: Number, required: true, default: 1 },
+  sideSlope: Number,
+  location: String,
+});
+
+const EmbankmentPrismSchema = new Schema<EmbankmentPrism>({
+  id: { type: String, required: true },
+  description: { type: String, required: true },
+  dpwhItem: { type: String, required: true },
+  length: { type: Number, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true },
+  count: { type: Number, required: true, default: 1 },
+  sideSlope: Number,
+  location: String,
+});
+
 // ===================================
 // ROOFING SCHEMAS (MODE B)
 // ===================================
 
 // Truss Design Schema (Part E - Steel Roof Trusses)
+// id and name are set on named designs only; the legacy single design has neither
 const TrussDesignSchema = new Schema({
+  id: String,
+  name: String,
+  assignment: {
+    zone: String,
+    gridAxis: { type: String, enum: ['x', 'y'] },
+    gridFrom: String,
+    gridTo: String,
+  },
   trussParams: {
-    type: { type: String, enum: ['howe', 'fink', 'kingpost'], default: 'howe' },
+    type: { type: String, enum: ['howe', 'fink', 'kingpost', 'queenpost', 'pratt', 'warren'], default: 'howe' },
     span_mm: { type: Number, default: 8000 },
     middleRise_mm: { type: Number, default: 1600 },
     overhang_mm: { type: Number, default: 450 },
@@ -277,6 +376,28 @@ const RoofTypeSchema = new Schema<RoofType>({
   },
 });
 
+// Optional per plane, so kept without an _id and absent until set
+const RoofPlaneEdgesSchema = new Schema<RoofPlaneEdges>({
+  eave_m: Number,
+  rake_m: Number,
+  ridge_m: Number,
+  hip_m: Number,
+  valley_m: Number,
+}, { _id: false });
+
+const RoofSheetLayoutSchema = new Schema<RoofSheetLayout>({
+  eaveLength_m: { type: Number, required: true },
+  ridgeLength_m: Number,
+  rafterRun_m: { type: Number, required: true },
+  effectiveCoverWidth_mm: { type: Number, required: true },
+  sideLap_mm: { type: Number, default: 0 },
+  endLap_mm: { type: Number, default: 0 },
+  maxSheetLength_m: Number,
+  customCutLengths_m: { type: [Number], default: undefined },
+  purlinSpacing_mm: { type: Number, required: true },
+  fastenersPerCrossing: { type: Number, required: true },
+}, { _id: false });
+
 const RoofPlaneSchema = new Schema<RoofPlane>({
   id: { type: String, required: true },
   name: { type: String, required: true },
@@ -295,6 +416,8 @@ const RoofPlaneSchema = new Schema<RoofPlane>({
     slopeFactor: { type: Number, default: 1 },
     slopeArea_m2: { type: Number, default: 0 },
   },
+  sheetLayout: RoofSheetLayoutSchema,
+  edges: RoofPlaneEdgesSchema,
   tags: [String],
 });
 
@@ -326,6 +449,52 @@ const ScheduleItemSchema = new Schema<ScheduleItem>({
   tags: [String],
 });
 
+// ===================================
+// COST ESTIMATION SCHEMAS
+// ===================================
+
+const PriceBookEntrySchema = new Schema<PriceBookEntry>({
+  id: { type: String, required: true },
+  dpwhItemNumberRaw: { type: String, required: true },
+  unitCost: { type: Number, required: true, min: 0 },
+  currency: { type: String, default: 'PHP' },
+  source: { type: String, required: true },
+  effectiveDate: { type: Date, required: true },
+  notes: String,
+});
+
+const DUPASchema = new Schema<DUPA>({
+  id: { type: String, required: true },
+  dpwhItemNumberRaw: { type: String, required: true },
+  description: { type: String, required: true },
+  unit: { type: String, required: true },
+  outputPerDay: { type: Number, required: true, min: 0 },
+  labor: [{
+    designation: { type: String, required: true },
+    noOfPersons: { type: Number, required: true },
+    noOfHours: { type: Number, required: true },
+    hourlyRate: { type: Number, required: true },
+  }],
+  equipment: [{
+    description: { type: String, required: true },
+    noOfUnits: { type: Number, required: true },
+    noOfHours: { type: Number, required: true },
+    hourlyRate: { type: Number, required: true },
+  }],
+  materials: [{
+    description: { type: String, required: true },
+    unit: { type: String, required: true },
+    quantity: { type: Number, required: true },
+    unitCost: { type: Number, required: true },
+  }],
+  ocmPercent: { type: Number, default: 0.15 },
+  profitPercent: { type: Number, default: 0.10 },
+  vatPercent: { type: Number, default: 0.12 },
+  currency: { type: String, default: 'PHP' },
+  notes: String,
+  updatedAt: Date,
+});
+
 const ProjectSchema = new Schema<ProjectModel>(
   {
     name: { type: String, required: true },
@@ -348,6 +517,34 @@ const ProjectSchema = new Schema<ProjectModel>(
           maxLapLength: Number,
         },
         units: { type: String, enum: ['metric'], default: 'metric' },
+        markups: {
+          ocmBrackets: [{ upTo: Number, percent: Number }],
+          profitBrackets: [{ upTo: Number, percent: Number }],
+          vatPercent: Number,
+          contingencyPercent: Number,
+        },
+        rebarOptimization: {
+          enabled: Boolean,
+          stockLengths: [Number],
+        },
+        deductIntersections: Boolean,
+        excavation: {
+          groundElevation: Number,
+          workingSpace: Number,
+          sideSlope: Number,
+          beddingThickness: Number,
+        },
+        crossSections: {
+          volumeMethod: { type: String, enum: ['average-end-area', 'prismoidal'] },
+          excavationItem: String,
+          embankmentItem: String,
+          borrowItem: String,
+          wasteItem: String,
+          shrinkage: Number,
+          swell: Number,
+          freeHaulDistance: Number,
+        },
+        roofAccessories: Schema.Types.Mixed,
       },
       default: defaultSettings,
     },
@@ -363,12 +560,21 @@ const ProjectSchema = new Schema<ProjectModel>(
     spaceFinishAssignments: [SpaceFinishAssignmentSchema],
     wallSurfaces: [WallSurfaceSchema],
     wallSurfaceFinishAssignments: [WallSurfaceFinishAssignmentSchema],
+    // Masonry
+    masonryWalls: [MasonryWallSchema],
+    earthworkStations: [EarthworkStationSchema],
+    earthworkPits: [EarthworkPitSchema],
+    embankmentPrisms: [EmbankmentPrismSchema],
     // Roofing (Mode B)
     trussDesign: TrussDesignSchema,
+    trussDesigns: [TrussDesignSchema],
     roofTypes: [RoofTypeSchema],
     roofPlanes: [RoofPlaneSchema],
     // Schedule Items (Mode C)
     scheduleItems: [ScheduleItemSchema],
+    // Cost Estimation
+    priceBook: [PriceBookEntrySchema],
+    dupas: [DUPASchema],
   },
   {
     timestamps: true,
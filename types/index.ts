@@ -25,6 +25,47 @@ export interface ProjectSettings {
     maxLapLength: number;
   };
   units: 'metric'; // locked to metric
+  markups?: MarkupSchedule; // indirect costs applied to the priced BOQ
+  rebarOptimization?: RebarStockSettings; // cutting-stock waste instead of waste.rebar
+  deductIntersections?: boolean; // deduct joint concrete once (column > beam > slab)
+  excavation?: ExcavationSettings; // structure excavation around footings and mats
+  crossSections?: CrossSectionSettings; // cut/fill between surveyed earthwork stations
+  roofAccessories?: Partial<RoofAccessorySettings>; // overrides the defaults of the roof type's accessory family
+}
+
+export interface ExcavationSettings {
+  groundElevation: number; // natural ground, meters from reference datum (GL = 0.00)
+  workingSpace: number; // clearance each side of the element at the pit bottom (m)
+  sideSlope: number; // horizontal per 1m of depth (0 = vertical sides)
+  beddingThickness: number; // gravel bedding under footings and mats (m)
+}
+
+export interface CrossSectionSettings {
+  volumeMethod: EarthworkVolumeMethod;
+  excavationItem: string; // DPWH pay item for cut, e.g., "803 (2) a"
+  embankmentItem: string; // DPWH pay item for fill from excavation, e.g., "804 (1) a"
+  borrowItem: string; // DPWH pay item for fill from borrow, e.g., "804 (2) a"
+  wasteItem: string; // DPWH pay item for surplus cut, e.g., "802 (2)"
+  shrinkage: number; // bank → compacted loss, e.g., 0.1 for 10%
+  swell: number; // bank → loose gain, e.g., 0.25 for 25%
+  freeHaulDistance: number; // m
+}
+
+export interface RebarStockSettings {
+  enabled: boolean; // replace the flat rebar waste with optimized offcut waste
+  stockLengths: number[]; // commercial bar lengths in meters, e.g., [6, 7.5, 9, 10.5, 12]
+}
+
+export interface MarkupBracket {
+  upTo: number | null; // estimated direct cost ceiling (inclusive); null = no limit
+  percent: number; // e.g., 0.15 for 15%
+}
+
+export interface MarkupSchedule {
+  ocmBrackets: MarkupBracket[]; // Overhead, Contingencies & Miscellaneous
+  profitBrackets: MarkupBracket[]; // Contractor's profit
+  vatPercent: number; // e.g., 0.12
+  contingencyPercent: number; // 0 = no contingency
 }
 
 export interface GridLine {
@@ -58,24 +99,40 @@ export interface RebarConfig {
   dpwhRebarItem?: string; // e.g., "902 (1) a1" - 10mm deformed bars
 }
 
+export type PileType = 'bored' | 'driven';
+export type SlabSupport = 'suspended' | 'on-grade';
+
 export interface ElementTemplate {
   id: string;
-  type: 'beam' | 'slab' | 'column' | 'foundation';
+  type: 'beam' | 'slab' | 'column' | 'foundation' | 'pile' | 'stair' | 'wall';
   name: string;
   properties: Record<string, number>; // e.g., { width: 0.3, height: 0.5 }
-  dpwhItemNumber?: string; // DPWH catalog item for BOQ mapping (e.g., "900 (1) a")
+  dpwhItemNumber?: string; // DPWH catalog item for BOQ mapping (e.g., "900 (1) a"; piles: "1052 (17) a")
   rebarConfig?: RebarConfig;
+  pileType?: PileType; // piles only: cast in drilled holes or precast and driven
+  slabSupport?: SlabSupport; // slabs only: formed and shored (default), or cast on bedding over compacted ground
 }
 
 
+export interface BeamOffsets {
+  start?: number; // m past the start grid line (+ cantilever, − stops short)
+  end?: number; // m past the end grid line (+ cantilever, − stops short)
+  line?: number; // m off the grid line the beam runs on (secondary beams between grids)
+}
+
 export interface ElementInstance {
   id: string;
   templateId: string;
   placement: {
     gridRef?: string[]; // e.g., ["A-B", "1-2"] for slabs
     levelId: string;
-    endLevelId?: string; // for columns - level where column ends
-    customGeometry?: Record<string, number>; // override template
+    endLevelId?: string; // for columns, stairs and walls - level where the element ends
+    customGeometry?: Record<string, number>; // override template (e.g., { length: 18 } for piles)
+    openings?: MasonryWallOpening[]; // walls - deducted from concrete, formwork and bars
+    boundary?: PolygonBoundary; // slabs and mats - plan outline in grid coordinates, replaces the gridRef panel
+    openingPolygons?: PolygonBoundary[]; // slabs and mats - stair wells, shafts and drops inside the outline
+    beamOffsets?: BeamOffsets; // beams - shift the ends of the gridRef span and the beam line
+    beamCoordinates?: { start: [number, number]; end: [number, number] }; // beams - explicit plan end points in grid coordinates, replaces gridRef
   };
   tags: string[]; // for filtering/grouping
 }
@@ -97,45 +154,26 @@ export interface ProjectModel {
   spaceFinishAssignments?: SpaceFinishAssignment[];
   wallSurfaces?: WallSurface[]; // Grid-based wall surface definitions
   wallSurfaceFinishAssignments?: WallSurfaceFinishAssignment[]; // Finish assignments for walls
+  // Masonry
+  masonryWalls?: MasonryWall[];
+  // Earthwork
+  earthworkStations?: EarthworkStation[];
+  earthworkPits?: EarthworkPit[];
+  embankmentPrisms?: EmbankmentPrism[];
   // Roofing (Mode B)
-  trussDesign?: TrussDesign;
+  trussDesign?: LegacyTrussDesign; // Single design saved before named designs; read through trussDesigns
+  trussDesigns?: TrussDesign[];
   roofTypes?: RoofType[];
   roofPlanes?: RoofPlane[];
   // Schedule Items (Mode C)
   scheduleItems?: ScheduleItem[];
+  // Cost Estimation
+  priceBook?: PriceBookEntry[];
+  dupas?: DUPA[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface TrussDesign {
-  trussParams: {
-    type: 'howe' | 'fink' | 'kingpost';
-    span_mm: number;
-    middleRise_mm: number;
-    overhang_mm: number;
-    spacing_mm: number;
-    verticalWebCount: number;
-    plateThickness: string;
-    topChordMaterial: { section: string; weight_kg_per_m: number };
-    bottomChordMaterial: { section: string; weight_kg_per_m: number };
-    webMaterial: { section: string; weight_kg_per_m: number };
-  };
-  buildingLength_mm: number;
-  framingParams: {
-    roofingMaterial: { type: string; maxPurlinSpacing_mm: number };
-    purlinSpacing_mm: number;
-    purlinSpec: { section: string; weight_kg_per_m: number };
-    bracing: {
-      type: 'X-Brace' | 'Diagonal' | 'K-Brace';
-      interval_mm: number;
-      material: { section: string; weight_kg_per_m: number };
-    };
-    includeRidgeCap: boolean;
-    includeEaveGirt: boolean;
-  };
-  lastModified?: Date;
-}
-
 // ===================================
 // FINISHING WORKS
 // ===================================
@@ -246,6 +284,85 @@ export interface WallSurfaceFinishAssignment {
   };
 }
 
+// ===================================
+// MASONRY (CHB WALLS)
+// ===================================
+
+export type CHBThickness = 100 | 150; // mm, 400 × 200 mm face
+export type MortarClass = 'A' | 'B' | 'C' | 'D';
+
+export interface MasonryWallOpening {
+  width_m: number;
+  height_m: number;
+  qty: number;
+}
+
+export interface MasonryWall {
+  id: string;
+  name: string;
+  wallSurfaceId?: string; // reuse a WallSurface's grid line, levels and openings
+  gridLine?: WallSurface['gridLine']; // own placement (when no wallSurfaceId)
+  levelStart?: string;
+  levelEnd?: string;
+  openings?: MasonryWallOpening[]; // own placement only
+  thickness_mm: CHBThickness;
+  loadBearing: boolean;
+  dpwhItemNumberRaw?: string; // defaults to 1046 (1)/(2) by thickness and load-bearing
+  mortarClass: MortarClass;
+  reinforcement: {
+    verticalDiameter: number; // mm
+    verticalSpacing_m: number;
+    horizontalDiameter: number; // mm
+    horizontalSpacing_m: number; // e.g., 0.6 = every 3rd course
+  };
+  plaster?: {
+    sides: 0 | 1 | 2;
+    thickness_mm: number;
+  };
+  wastePercent?: number; // blocks, e.g., 0.05
+  tags: string[];
+}
+
+// ===================================
+// EARTHWORK (CROSS SECTIONS, PITS, PRISMS)
+// ===========================================
+
+export type ProfilePoint = [number, number]; // [offset from centerline (m, − left / + right), elevation (m)]
+export type EarthworkVolumeMethod = 'average-end-area' | 'prismoidal';
+
+export interface EarthworkStation {
+  id: string;
+  station: string; // e.g., "0+020"
+  chainage: number; // meters from start of the alignment
+  ground: ProfilePoint[]; // existing ground, left to right
+  design: ProfilePoint[]; // formation and side slopes out to the catch points, left to right
+  notes?: string;
+}
+
+export interface EarthworkPit {
+  id: string;
+  description: string; // e.g., "Septic tank", "Manhole MH-1"
+  dpwhItem: string; // e.g., "803 (1) a"
+  length: number; // pit bottom, m
+  width: number; // pit bottom, m
+  depth: number; // m
+  count: number;
+  sideSlope?: number; // horizontal per 1m of depth (0 = vertical sides)
+  location?: string;
+}
+
+export interface EmbankmentPrism {
+  id: string;
+  description: string;
+  dpwhItem: string; // e.g., "804 (1) a"
+  length: number; // m
+  width: number; // top width, m
+  height: number; // m
+  count: number;
+  sideSlope?: number; // horizontal per 1m of height (0 = vertical sides)
+  location?: string;
+}
+
 // ===================================
 // ROOFING (MODE B)
 // ===================================
@@ -283,9 +400,52 @@ export interface RoofPlane {
     slopeFactor: number;
     slopeArea_m2: number;
   };
+  sheetLayout?: RoofSheetLayout; // long-span sheets cut to length; replaces area × (1 + lap + waste)
+  edges?: RoofPlaneEdges; // for gutters, flashing and rolls
   tags: string[];
 }
 
+// Edges bounding a roof plane (m); ridges, hips and valleys are shared with the adjoining plane
+export interface RoofPlaneEdges {
+  eave_m?: number;
+  rake_m?: number; // sloped gable edges
+  ridge_m?: number;
+  hip_m?: number;
+  valley_m?: number;
+}
+
+// A linear roofing accessory and how its stock pieces are lapped
+export interface RoofAccessoryItem {
+  dpwhItem: string; // e.g., "1013 (2) c"
+  pieceLength_m: number; // stock length, e.g., 3.0
+  lap_mm: number; // overlap at each joint
+}
+
+export interface RoofAccessorySettings {
+  gutter: RoofAccessoryItem; // along eaves
+  fascia: RoofAccessoryItem; // along eaves and rakes
+  flashing: RoofAccessoryItem; // along rakes
+  valleyGutter: RoofAccessoryItem; // along valleys
+  hipRoll: RoofAccessoryItem; // along hips and ridges
+  downspout: RoofAccessoryItem;
+  drainedAreaPerDownspout_m2: number; // plan area drained by one downspout
+  downspoutLength_m?: number; // defaults to the roof level elevation
+}
+
+// Sheet layout of a roof plane: columns of sheets laid along the eave, running eave to ridge
+export interface RoofSheetLayout {
+  eaveLength_m: number; // length along the eave covered by the sheet columns
+  ridgeLength_m?: number; // shorter ridge of a hipped plane (0 for a hip end); defaults to the eave length
+  rafterRun_m: number; // plan distance from eave to ridge; sloped by the plane's slope factor
+  effectiveCoverWidth_mm: number; // e.g., 1000 for a long-span rib profile
+  sideLap_mm: number; // overlap between adjacent sheets, outside the cover width
+  endLap_mm: number; // overlap where sheets are joined along the slope
+  maxSheetLength_m?: number; // longest sheet that can be delivered; longer runs are split
+  customCutLengths_m?: number[]; // sheet lengths from eave to ridge instead of equal cuts
+  purlinSpacing_mm: number; // measured along the slope
+  fastenersPerCrossing: number; // screws per sheet at each purlin
+}
+
 // Truss Design (Part E - Steel Roof Trusses & Framing)
 export interface DPWHItemMapping {
   dpwhItemNumberRaw: string; // e.g., "1047 (8) a"
@@ -293,9 +453,20 @@ export interface DPWHItemMapping {
   unit: string; // e.g., "Kilogram"
 }
 
+// Where a truss design is used: a roof zone with its own building length, or a grid range
+export interface TrussDesignAssignment {
+  zone?: string; // e.g., "porch"; matches RoofPlane "zone:" tags
+  gridAxis?: 'x' | 'y'; // grid lines the trusses are laid along
+  gridFrom?: string; // e.g., "1"
+  gridTo?: string; // e.g., "5"
+}
+
 export interface TrussDesign {
+  id: string;
+  name: string; // e.g., "Main Roof", "East Wing"
+  assignment?: TrussDesignAssignment;
   trussParams: {
-    type: 'howe' | 'fink' | 'kingpost';
+    type: 'howe' | 'fink' | 'kingpost' | 'queenpost' | 'pratt' | 'warren';
     span_mm: number;
     middleRise_mm: number;
     overhang_mm: number;
@@ -332,6 +503,8 @@ export interface TrussDesign {
   lastModified?: Date;
 }
 
+export type LegacyTrussDesign = Omit<TrussDesign, 'id' | 'name' | 'assignment'>;
+
 // ===================================
 // SCHEDULE ITEMS (MODE C)
 // ===================================
@@ -433,6 +606,228 @@ export interface BOQLine {
   quantity: number;
   sourceTakeoffLineIds: string[]; // traceability
   tags: string[];
+  // Pricing (populated from the project price book)
+  unitCost?: number;
+  amount?: number; // quantity × unitCost
+  currency?: string;
+  priceSource?: string;
+  priceEffectiveDate?: Date;
+}
+
+// ===================================
+// COST ESTIMATION
+// ===================================
+
+export interface PriceBookEntry {
+  id: string;
+  dpwhItemNumberRaw: string; // e.g., "900 (1) a" - matches BOQLine.dpwhItemNumberRaw
+  unitCost: number; // cost per DPWH item unit
+  currency: string; // e.g., "PHP"
+  source: string; // e.g., "DPWH Region IV-A 2025 price data", "Supplier quote"
+  effectiveDate: Date;
+  notes?: string;
+}
+
+// Detailed Unit Price Analysis (DUPA) - DPWH format
+// Labor and equipment are costed per day and divided by the daily output;
+// materials are quantities per unit of the pay item.
+
+export interface DUPALaborEntry {
+  designation: string; // e.g., "Foreman", "Skilled Laborer"
+  noOfPersons: number;
+  noOfHours: number; // hours per day
+  hourlyRate: number;
+}
+
+export interface DUPAEquipmentEntry {
+  description: string; // e.g., "One-bagger Concrete Mixer"
+  noOfUnits: number;
+  noOfHours: number; // hours per day
+  hourlyRate: number; // rental rate per hour
+}
+
+export interface DUPAMaterialEntry {
+  description: string; // e.g., "Portland Cement"
+  unit: string; // e.g., "bag"
+  quantity: number; // per unit of pay item
+  unitCost: number;
+}
+
+export interface DUPA {
+  id: string;
+  dpwhItemNumberRaw: string;
+  description: string;
+  unit: string; // pay item unit
+  outputPerDay: number; // pay item units produced per day
+  labor: DUPALaborEntry[];
+  equipment: DUPAEquipmentEntry[];
+  materials: DUPAMaterialEntry[];
+  ocmPercent: number; // e.g., 0.15
+  profitPercent: number; // e.g., 0.10
+  vatPercent: number; // e.g., 0.12
+  currency: string;
+  notes?: string;
+  updatedAt?: Date;
+}
+
+export interface DUPABreakdown {
+  laborCostPerDay: number; // A
+  equipmentCostPerDay: number; // B
+  laborEquipmentCostPerDay: number; // C = A + B
+  outputPerDay: number; // D
+  laborEquipmentUnitCost: number; // E = C / D
+  materialUnitCost: number; // F
+  directUnitCost: number; // G = E + F
+  ocmAmount: number; // H
+  profitAmount: number; // I
+  vatAmount: number; // J
+  totalUnitCost: number; // K = G + H + I + J
+}
+
+export interface BOQPartSubtotal {
+  part: string; // e.g., "PART D: CONCRETE WORKS"
+  partName: string; // e.g., "CONCRETE WORKS"
+  amount: number;
+  lineCount: number;
+}
+
+export interface MarkupBreakdown {
+  directCost: number;
+  ocmPercent: number;
+  ocmAmount: number;
+  profitPercent: number;
+  profitAmount: number;
+  contingencyPercent: number;
+  contingencyAmount: number;
+  vatPercent: number;
+  vatAmount: number;
+  totalEstimatedCost: number;
+}
+
+export interface BOQCostSummary {
+  currency: string;
+  partSubtotals: BOQPartSubtotal[];
+  grandTotal: number; // total direct cost
+  markups?: MarkupBreakdown;
+  pricedLineCount: number;
+  unpricedLineCount: number;
+  unpricedItems: string[]; // DPWH item numbers without a price book entry
+}
+
+// ===================================
+// BAR BENDING SCHEDULE
+// ===================================
+
+export type BarShapeCode = '00' | '21' | '51'; // straight, U-bar with 90° hooks, closed link with 135° hooks
+
+export interface BarBendingScheduleEntry {
+  barMark: string; // e.g., "B01"
+  memberId: string; // references ElementInstance
+  memberType: ElementTemplate['type'];
+  memberLabel: string; // e.g., "B-1 @ 2F A-B/1"
+  barType: 'main' | 'secondary' | 'stirrups' | 'ties';
+  diameter: number; // mm
+  shapeCode: BarShapeCode;
+  dimensions: Record<string, number>; // mm, keyed by shape leg (A, B, C)
+  cutLength: number; // mm, legs + hooks - bend deductions
+  barsPerMember: number;
+  memberCount: number;
+  totalBars: number;
+  totalLength: number; // m
+  weight: number; // kg
+  notes: string[];
+}
+
+export interface BarBendingScheduleDiameterTotal {
+  diameter: number; // mm
+  totalBars: number;
+  totalLength: number; // m
+  weight: number; // kg
+}
+
+export interface BarBendingSchedule {
+  entries: BarBendingScheduleEntry[];
+  totalsByDiameter: BarBendingScheduleDiameterTotal[];
+  totalWeight: number; // kg
+}
+
+// ===================================
+// REBAR CUTTING STOCK
+// ===================================
+
+export interface RebarCut {
+  diameter: number; // mm
+  length: number; // m
+  count: number;
+  sourceTakeoffLineId?: string;
+}
+
+export interface RebarStockOrder {
+  length: number; // m, commercial stock length
+  count: number; // bars to order
+}
+
+export interface RebarCuttingPlanDiameter {
+  diameter: number; // mm
+  cutCount: number; // pieces after splitting cuts longer than the longest stock
+  requiredLength: number; // m
+  stockBars: RebarStockOrder[];
+  orderedLength: number; // m
+  offcutLength: number; // m
+  wastePercent: number; // decimal, offcut / required
+  orderedWeight: number; // kg
+}
+
+export interface RebarCuttingPlan {
+  stockLengths: number[]; // m
+  diameters: RebarCuttingPlanDiameter[];
+  totalRequiredWeight: number; // kg
+  totalOrderedWeight: number; // kg
+}
+
+// ===================================
+// CONCRETE MATERIALS
+// ===================================
+
+export type ConcreteClass = 'AA' | 'A' | 'B' | 'C';
+
+export interface ConcreteMixDesign {
+  concreteClass: ConcreteClass;
+  proportion: string; // cement : sand : gravel, e.g., "1:2:4"
+  cementBagsPerM3: number; // 40 kg bags
+  sandPerM3: number; // m³
+  gravelPerM3: number; // m³
+  waterCementRatio: number;
+}
+
+export interface ConcreteMaterialLine {
+  sourceTakeoffLineId: string; // references the concrete TakeoffLine
+  sourceElementId: string;
+  dpwhItemNumberRaw: string;
+  concreteClass: ConcreteClass;
+  concreteVolume: number; // m³ (with waste, as taken off)
+  cementBags: number; // 40 kg bags
+  sand: number; // m³
+  gravel: number; // m³
+  water: number; // liters
+  formulaText: string;
+  assumptions: string[];
+  tags: string[];
+}
+
+export interface ConcreteMaterialsTotal {
+  concreteClass: ConcreteClass | 'ALL';
+  concreteVolume: number;
+  cementBags: number; // whole bags for purchasing
+  sand: number;
+  gravel: number;
+  water: number;
+}
+
+export interface ConcreteMaterialsReport {
+  lines: ConcreteMaterialLine[];
+  totalsByClass: ConcreteMaterialsTotal[];
+  grandTotal: ConcreteMaterialsTotal;
 }
 
 // ===================================
@@ -458,6 +853,9 @@ export interface CalcRun {
   summary?: CalcRunSummary;
   takeoffLines?: TakeoffLine[];
   boqLines?: BOQLine[];
+  costSummary?: BOQCostSummary;
+  concreteMaterials?: ConcreteMaterialsReport;
+  rebarCuttingPlan?: RebarCuttingPlan;
   errors?: string[];
 }
 